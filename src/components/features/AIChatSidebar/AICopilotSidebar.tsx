@@ -1,15 +1,18 @@
 /**
  * AICopilotSidebar - Main AI chat sidebar component
  * Resizable panel for desktop, Sheet for mobile
- * Supports context-aware prompts for market analysis
+ * Supports context-aware prompts for market analysis and business cases
  * Includes Assumption Debate Mode for challenging assumptions
+ * Queues AI-proposed value changes for per-item review
+ * Keeps a separate set of conversation threads for each analysis
+ * Usage tab tracks AI spend against the monthly budget
  */
 
-import React, { useCallback, useEffect, useState, useRef } from 'react';
-import { Bot, MessageSquare, Trash2, X, Sparkles, Scale, FileText } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react';
+import { Bot, MessageSquare, Trash2, X, Sparkles, Scale, FileText, Wallet } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAI } from '@/core/contexts/AIContext';
-import { useMarketData, useDebate } from '@/core/contexts';
+import { useMarketData, useBusinessData, useDebate } from '@/core/contexts';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
@@ -36,20 +39,26 @@ import { ChatMessageList } from './ChatMessage';
 import { ChatInput } from './ChatInput';
 import { InlineQuickActions } from './MarketAIQuickActions';
 import { buildMarketSystemPrompt, type QuickActionPrompt } from '@/core/services/market-ai-context';
+import { buildBusinessSystemPrompt, BUSINESS_QUICK_ACTIONS } from '@/core/services/business-ai-context';
+import type { BudgetStatus } from '@/core/services/ai-usage';
 import { WebSearchPanel } from './WebSearchPanel';
 import { DebatePanel } from './DebatePanel';
 import { EvidenceTrailPanel } from './EvidenceTrailPanel';
 import { APIKeySettings } from './APIKeySettings';
+import { SuggestionReviewQueue } from './SuggestionReviewQueue';
+import { ChatThreadBar } from './ChatThreadBar';
+import { UsagePanel } from './UsagePanel';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-type SidebarMode = 'chat' | 'debate' | 'evidence';
+type SidebarMode = 'chat' | 'debate' | 'evidence' | 'usage';
 
 interface AICopilotSidebarProps {
   className?: string;
   showMarketContext?: boolean;
+  showBusinessContext?: boolean;
 }
 
 // ============================================================================
@@ -81,7 +90,7 @@ interface SidebarHeaderProps {
   onModelChange: (model: string) => void;
   availableModels: readonly { id: string; name: string; description: string }[];
   totalTokens: number;
-  showMarketBadge?: boolean;
+  contextBadge?: string;
 }
 
 function SidebarHeader({
@@ -91,16 +100,16 @@ function SidebarHeader({
   onModelChange,
   availableModels,
   totalTokens,
-  showMarketBadge,
+  contextBadge,
 }: SidebarHeaderProps) {
   return (
     <div className="flex items-center justify-between p-3 border-b">
       <div className="flex items-center gap-2">
         <Bot className="h-5 w-5 text-primary" />
         <span className="font-semibold">AI Assistant</span>
-        {showMarketBadge && (
+        {contextBadge && (
           <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded-full">
-            Market
+            {contextBadge}
           </span>
         )}
       </div>
@@ -166,9 +175,10 @@ interface ModeTabsProps {
   onModeChange: (mode: SidebarMode) => void;
   evidenceCount: number;
   isDebating: boolean;
+  budgetStatus: BudgetStatus;
 }
 
-function ModeTabs({ mode, onModeChange, evidenceCount, isDebating }: ModeTabsProps) {
+function ModeTabs({ mode, onModeChange, evidenceCount, isDebating, budgetStatus }: ModeTabsProps) {
   return (
     <div className="flex border-b">
       <button
@@ -213,6 +223,21 @@ function ModeTabs({ mode, onModeChange, evidenceCount, isDebating }: ModeTabsPro
           </Badge>
         )}
       </button>
+      <button
+        className={cn(
+          'flex-1 py-2 px-3 text-xs font-medium transition-colors flex items-center justify-center gap-1.5',
+          mode === 'usage'
+            ? 'border-b-2 border-primary text-primary'
+            : 'text-muted-foreground hover:text-foreground'
+        )}
+        onClick={() => onModeChange('usage')}
+      >
+        <Wallet className="w-3.5 h-3.5" />
+        Usage
+        {budgetStatus !== 'ok' && (
+          <span className={cn('w-2 h-2 rounded-full', budgetStatus === 'hard' ? 'bg-red-500' : 'bg-amber-500')} />
+        )}
+      </button>
     </div>
   );
 }
@@ -223,9 +248,10 @@ function ModeTabs({ mode, onModeChange, evidenceCount, isDebating }: ModeTabsPro
 
 interface SidebarContentProps {
   showMarketContext?: boolean;
+  showBusinessContext?: boolean;
 }
 
-export function SidebarContent({ showMarketContext = false }: SidebarContentProps) {
+export function SidebarContent({ showMarketContext = false, showBusinessContext = false }: SidebarContentProps) {
   const [mode, setMode] = useState<SidebarMode>('chat');
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
@@ -237,10 +263,12 @@ export function SidebarContent({ showMarketContext = false }: SidebarContentProp
     clearMessages,
     setModel,
     setSystemPrompt,
+    setThreadScope,
     availableModels,
     setIsOpen,
     contextType,
-    hasApiKey
+    hasApiKey,
+    budget
   } = useAI();
 
   // Auto-scroll to bottom when new messages arrive
@@ -257,18 +285,32 @@ export function SidebarContent({ showMarketContext = false }: SidebarContentProp
   }, [state.messages.length, state.messages[state.messages.length - 1]?.content]);
 
   // Get debate state
-  const { state: debateState, isDebating } = useDebate();
+  const { evidenceTrail, isDebating } = useDebate();
 
-  // Get market data for context-aware prompts
+  // Get market and business data for context-aware prompts
   const { data: marketData } = useMarketData();
+  const { data: businessData } = useBusinessData();
+
+  // Business context includes computed metrics, so only rebuild it when the data changes
+  const contextPrompt = useMemo(() => {
+    if (showMarketContext && marketData) return buildMarketSystemPrompt(marketData);
+    if (showBusinessContext && businessData) return buildBusinessSystemPrompt(businessData);
+    return null;
+  }, [showMarketContext, marketData, showBusinessContext, businessData]);
 
-  // Update system prompt when market data changes (for market analysis context)
+  // Update system prompt when the analysed data changes
   useEffect(() => {
-    if (showMarketContext && marketData) {
-      const marketPrompt = buildMarketSystemPrompt(marketData);
-      setSystemPrompt(marketPrompt);
+    if (contextPrompt) {
+      setSystemPrompt(contextPrompt);
     }
-  }, [showMarketContext, marketData, setSystemPrompt]);
+  }, [contextPrompt, setSystemPrompt]);
+
+  // Show the conversations that belong to the analysis currently open
+  const threadScope = showMarketContext ? 'market' : showBusinessContext ? 'business' : 'general';
+  const scopeTitle = showMarketContext ? marketData?.meta?.title : showBusinessContext ? businessData?.meta?.title : undefined;
+  useEffect(() => {
+    setThreadScope(threadScope, scopeTitle);
+  }, [threadScope, scopeTitle, setThreadScope]);
 
   // Handle quick action selection
   const handleQuickAction = useCallback((action: QuickActionPrompt) => {
@@ -282,15 +324,16 @@ export function SidebarContent({ showMarketContext = false }: SidebarContentProp
       return;
     }
 
-    if (marketData) {
-      const marketPrompt = buildMarketSystemPrompt(marketData);
-      sendMessageWithPrompt(action.prompt, marketPrompt);
+    if (contextPrompt) {
+      sendMessageWithPrompt(action.prompt, contextPrompt, 'quick-action');
     } else {
-      sendMessage(action.prompt);
+      sendMessage(action.prompt, 'quick-action');
     }
-  }, [marketData, sendMessage, sendMessageWithPrompt]);
+  }, [contextPrompt, sendMessage, sendMessageWithPrompt]);
 
-  const showQuickActions = showMarketContext && state.messages.length === 0 && mode === 'chat' && hasApiKey;
+  const showContextActions = showMarketContext || showBusinessContext;
+  const quickActions = showMarketContext ? undefined : BUSINESS_QUICK_ACTIONS;
+  const showQuickActions = showContextActions && state.messages.length === 0 && mode === 'chat' && hasApiKey;
 
   return (
     <div className="flex flex-col h-full max-h-[600px]">
@@ -301,20 +344,23 @@ export function SidebarContent({ showMarketContext = false }: SidebarContentProp
         onModelChange={setModel}
         availableModels={availableModels}
         totalTokens={state.totalTokensUsed}
-        showMarketBadge={showMarketContext}
+        contextBadge={showMarketContext ? 'Market' : showBusinessContext ? 'Business' : undefined}
       />
 
       {/* Mode Tabs */}
       <ModeTabs
         mode={mode}
         onModeChange={setMode}
-        evidenceCount={debateState.evidenceTrail.length}
+        evidenceCount={evidenceTrail.length}
         isDebating={isDebating}
+        budgetStatus={budget.status}
       />
 
       {/* Content based on mode */}
       {mode === 'chat' && (
         <>
+          {hasApiKey && <ChatThreadBar />}
+
           <ScrollArea className="flex-1 overflow-hidden" ref={scrollAreaRef}>
             {!hasApiKey ? (
               <div className="p-4 space-y-4">
@@ -322,7 +368,7 @@ export function SidebarContent({ showMarketContext = false }: SidebarContentProp
                   <Sparkles className="h-12 w-12 mx-auto text-amber-500/50 mb-3" />
                   <h3 className="font-medium text-lg">API Key Required</h3>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Please configure your LiteLLM API key to use AI features.
+                    Please choose an AI provider and add its API key to use AI features.
                   </p>
                   <p className="text-xs text-muted-foreground mt-2">
                     Click the key icon above to get started.
@@ -333,31 +379,34 @@ export function SidebarContent({ showMarketContext = false }: SidebarContentProp
               <div className="p-4 space-y-4">
                 <div className="text-center py-6">
                   <Sparkles className="h-12 w-12 mx-auto text-primary/50 mb-3" />
-                  <h3 className="font-medium text-lg">Market Analysis AI</h3>
+                  <h3 className="font-medium text-lg">{showMarketContext ? 'Market Analysis AI' : 'Business Case AI'}</h3>
                   <p className="text-sm text-muted-foreground mt-1">
-                    I can help you analyze markets, identify competitors, and build customer segments.
+                    {showMarketContext
+                      ? 'I can help you analyze markets, identify competitors, and build customer segments.'
+                      : 'I can help you stress-test assumptions, explain your metrics, and find cost drivers.'}
                   </p>
                 </div>
-                <InlineQuickActions onSelectAction={handleQuickAction} />
+                <InlineQuickActions onSelectAction={handleQuickAction} actions={quickActions} />
               </div>
             ) : (
               <ChatMessageList messages={state.messages} isStreaming={state.isStreaming} />
             )}
           </ScrollArea>
 
-          {!showQuickActions && showMarketContext && (
+          {!showQuickActions && showContextActions && (
             <div className="px-3 pt-2 border-t border-border/50">
-              <InlineQuickActions onSelectAction={handleQuickAction} />
+              <InlineQuickActions onSelectAction={handleQuickAction} actions={quickActions} />
             </div>
           )}
 
+          <SuggestionReviewQueue />
+
           <WebSearchPanel />
 
           <ChatInput
             onSend={(msg) => {
-              if (showMarketContext && marketData) {
-                const marketPrompt = buildMarketSystemPrompt(marketData);
-                sendMessageWithPrompt(msg, marketPrompt);
+              if (contextPrompt) {
+                sendMessageWithPrompt(msg, contextPrompt);
               } else {
                 sendMessage(msg);
               }
@@ -377,6 +426,10 @@ export function SidebarContent({ showMarketContext = false }: SidebarContentProp
       {mode === 'evidence' && (
         <EvidenceTrailPanel className="flex-1" />
       )}
+
+      {mode === 'usage' && (
+        <UsagePanel className="flex-1" />
+      )}
     </div>
   );
 }
@@ -388,9 +441,10 @@ export function SidebarContent({ showMarketContext = false }: SidebarContentProp
 interface DesktopSidebarProps {
   className?: string;
   showMarketContext?: boolean;
+  showBusinessContext?: boolean;
 }
 
-function DesktopSidebar({ className, showMarketContext }: DesktopSidebarProps) {
+function DesktopSidebar({ className, showMarketContext, showBusinessContext }: DesktopSidebarProps) {
   const { isOpen } = useAI();
 
   if (!isOpen) return null;
@@ -402,7 +456,7 @@ function DesktopSidebar({ className, showMarketContext }: DesktopSidebarProps) {
         className
       )}
     >
-      <SidebarContent showMarketContext={showMarketContext} />
+      <SidebarContent showMarketContext={showMarketContext} showBusinessContext={showBusinessContext} />
     </div>
   );
 }
@@ -413,9 +467,10 @@ function DesktopSidebar({ className, showMarketContext }: DesktopSidebarProps) {
 
 interface MobileSidebarProps {
   showMarketContext?: boolean;
+  showBusinessContext?: boolean;
 }
 
-function MobileSidebar({ showMarketContext }: MobileSidebarProps) {
+function MobileSidebar({ showMarketContext, showBusinessContext }: MobileSidebarProps) {
   const { isOpen, setIsOpen } = useAI();
 
   return (
@@ -424,7 +479,7 @@ function MobileSidebar({ showMarketContext }: MobileSidebarProps) {
         <SheetHeader className="sr-only">
           <SheetTitle>AI Assistant</SheetTitle>
         </SheetHeader>
-        <SidebarContent showMarketContext={showMarketContext} />
+        <SidebarContent showMarketContext={showMarketContext} showBusinessContext={showBusinessContext} />
       </SheetContent>
     </Sheet>
   );
@@ -465,14 +520,14 @@ export function AICopilotToggle({ className }: { className?: string }) {
 // Main Component
 // ============================================================================
 
-export function AICopilotSidebar({ className, showMarketContext }: AICopilotSidebarProps) {
+export function AICopilotSidebar({ className, showMarketContext, showBusinessContext }: AICopilotSidebarProps) {
   const isMobile = useIsMobile();
 
   if (isMobile) {
-    return <MobileSidebar showMarketContext={showMarketContext} />;
+    return <MobileSidebar showMarketContext={showMarketContext} showBusinessContext={showBusinessContext} />;
   }
 
-  return <DesktopSidebar className={className} showMarketContext={showMarketContext} />;
+  return <DesktopSidebar className={className} showMarketContext={showMarketContext} showBusinessContext={showBusinessContext} />;
 }
 
 export default AICopilotSidebar;
@@ -1,6 +1,7 @@
 /**
- * APIKeySettings - Component for managing LiteLLM API key (BYOK)
- * Allows users to enter, view status, and clear their API key
+ * APIKeySettings - Component for choosing the AI provider and managing its API key (BYOK)
+ * Allows users to pick a provider, enter, view status, and clear their API key
+ * Local and mock providers need no key; their endpoint can be overridden instead
  */
 
 import React, { useState } from 'react';
@@ -10,6 +11,15 @@ import { useAI } from '@/core/contexts/AIContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { aiService } from '@/core/services/ai-service';
+import type { AIProviderId } from '@/core/services/ai-providers';
 import {
   Dialog,
   DialogContent,
@@ -39,32 +49,49 @@ interface APIKeySettingsProps {
 // ============================================================================
 
 export function APIKeySettings({ className }: APIKeySettingsProps) {
-  const { hasApiKey, setApiKey, clearApiKey } = useAI();
+  const { hasApiKey, setApiKey, clearApiKey, provider, providers, setProvider, setBaseUrl } = useAI();
   const [isOpen, setIsOpen] = useState(false);
   const [keyInput, setKeyInput] = useState('');
+  const [baseUrlInput, setBaseUrlInput] = useState('');
   const [showKey, setShowKey] = useState(false);
   const [error, setError] = useState('');
 
+  const hasStoredKey = provider.requiresApiKey && hasApiKey;
+  const canSave = provider.requiresApiKey ? !!keyInput.trim() : true;
+
+  const handleProviderChange = (id: string) => {
+    setProvider(id as AIProviderId);
+    setKeyInput('');
+    setBaseUrlInput(aiService.getBaseUrl());
+    setError('');
+  };
+
   const handleSave = () => {
     const trimmedKey = keyInput.trim();
 
     // Validate key format
-    if (!trimmedKey) {
-      setError('Please enter an API key');
-      return;
-    }
+    if (provider.requiresApiKey) {
+      if (!trimmedKey) {
+        setError('Please enter an API key');
+        return;
+      }
 
-    if (!trimmedKey.startsWith('sk-')) {
-      setError('API key should start with "sk-"');
-      return;
-    }
+      if (provider.apiKeyPrefix && !trimmedKey.startsWith(provider.apiKeyPrefix)) {
+        setError(`API key should start with "${provider.apiKeyPrefix}"`);
+        return;
+      }
+
+      if (trimmedKey.length < 10) {
+        setError('API key is too short');
+        return;
+      }
 
-    if (trimmedKey.length < 10) {
-      setError('API key is too short');
-      return;
+      setApiKey(trimmedKey);
     }
 
-    setApiKey(trimmedKey);
+    if (provider.defaultBaseUrl) {
+      setBaseUrl(baseUrlInput === provider.defaultBaseUrl ? '' : baseUrlInput);
+    }
     setKeyInput('');
     setError('');
     setIsOpen(false);
@@ -84,7 +111,17 @@ export function APIKeySettings({ className }: APIKeySettingsProps) {
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={(open) => open ? setIsOpen(true) : handleClose()}>
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (open) {
+          setBaseUrlInput(aiService.getBaseUrl());
+          setIsOpen(true);
+        } else {
+          handleClose();
+        }
+      }}
+    >
       <TooltipProvider>
         <Tooltip>
           <TooltipTrigger asChild>
@@ -103,7 +140,7 @@ export function APIKeySettings({ className }: APIKeySettingsProps) {
             </DialogTrigger>
           </TooltipTrigger>
           <TooltipContent>
-            <p>{hasApiKey ? 'API Key configured' : 'Set API Key'}</p>
+            <p>{hasApiKey ? `${provider.name} configured` : 'Set API Key'}</p>
           </TooltipContent>
         </Tooltip>
       </TooltipProvider>
@@ -112,14 +149,32 @@ export function APIKeySettings({ className }: APIKeySettingsProps) {
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Key className="h-5 w-5" />
-            LiteLLM API Key
+            AI Provider
           </DialogTitle>
           <DialogDescription>
-            Enter your LiteLLM API key to use AI features. Your key is stored locally in your browser.
+            Choose a provider and enter its API key to use AI features. Your key is stored locally in your browser.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {/* Provider */}
+          <div className="space-y-2">
+            <Label htmlFor="ai-provider">Provider</Label>
+            <Select value={provider.id} onValueChange={handleProviderChange}>
+              <SelectTrigger id="ai-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {providers.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                    <span className="ml-2 text-xs text-muted-foreground">{p.description}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Status indicator */}
           <div className="flex items-center gap-2 text-sm">
             <span className="text-muted-foreground">Status:</span>
@@ -137,52 +192,71 @@ export function APIKeySettings({ className }: APIKeySettingsProps) {
           </div>
 
           {/* API Key input */}
-          <div className="space-y-2">
-            <Label htmlFor="api-key">
-              {hasApiKey ? 'Update API Key' : 'API Key'}
-            </Label>
-            <div className="relative">
+          {provider.requiresApiKey && (
+            <div className="space-y-2">
+              <Label htmlFor="api-key">
+                {hasStoredKey ? 'Update API Key' : 'API Key'}
+              </Label>
+              <div className="relative">
+                <Input
+                  id="api-key"
+                  type={showKey ? 'text' : 'password'}
+                  value={keyInput}
+                  onChange={(e) => {
+                    setKeyInput(e.target.value);
+                    setError('');
+                  }}
+                  placeholder={`${provider.apiKeyPrefix ?? ''}...`}
+                  className={cn(
+                    'pr-10',
+                    error && 'border-red-500 focus-visible:ring-red-500'
+                  )}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                  onClick={() => setShowKey(!showKey)}
+                >
+                  {showKey ? (
+                    <EyeOff className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Eye className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </Button>
+              </div>
+              {error && (
+                <p className="text-sm text-red-500">{error}</p>
+              )}
+            </div>
+          )}
+
+          {/* Endpoint override */}
+          {provider.defaultBaseUrl && (
+            <div className="space-y-2">
+              <Label htmlFor="ai-base-url">Endpoint</Label>
               <Input
-                id="api-key"
-                type={showKey ? 'text' : 'password'}
-                value={keyInput}
-                onChange={(e) => {
-                  setKeyInput(e.target.value);
-                  setError('');
-                }}
-                placeholder="sk-..."
-                className={cn(
-                  'pr-10',
-                  error && 'border-red-500 focus-visible:ring-red-500'
-                )}
+                id="ai-base-url"
+                value={baseUrlInput}
+                onChange={(e) => setBaseUrlInput(e.target.value)}
+                placeholder={provider.defaultBaseUrl}
               />
-              <Button
-                type="button"
-                variant="ghost"
-                size="icon"
-                className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
-                onClick={() => setShowKey(!showKey)}
-              >
-                {showKey ? (
-                  <EyeOff className="h-4 w-4 text-muted-foreground" />
-                ) : (
-                  <Eye className="h-4 w-4 text-muted-foreground" />
-                )}
-              </Button>
             </div>
-            {error && (
-              <p className="text-sm text-red-500">{error}</p>
-            )}
-          </div>
+          )}
 
           {/* Info text */}
           <p className="text-xs text-muted-foreground">
-            Get your API key from the LiteLLM gateway. Keys start with "sk-".
+            {provider.requiresApiKey
+              ? `Get your API key from ${provider.name}.${provider.apiKeyPrefix ? ` Keys start with "${provider.apiKeyPrefix}".` : ''}`
+              : provider.id === 'mock'
+                ? 'Replies and web search results are scripted, so no network access is needed.'
+                : 'No API key needed. Make sure the local server is running.'}
           </p>
         </div>
 
         <DialogFooter className="flex-col sm:flex-row gap-2">
-          {hasApiKey && (
+          {hasStoredKey && (
             <Button
               type="button"
               variant="outline"
@@ -196,8 +270,8 @@ export function APIKeySettings({ className }: APIKeySettingsProps) {
             <Button type="button" variant="outline" onClick={handleClose}>
               Cancel
             </Button>
-            <Button type="button" onClick={handleSave} disabled={!keyInput.trim()}>
-              {hasApiKey ? 'Update' : 'Save'}
+            <Button type="button" onClick={handleSave} disabled={!canSave}>
+              {hasStoredKey ? 'Update' : 'Save'}
             </Button>
           </div>
         </DialogFooter>
@@ -1,12 +1,18 @@
 /**
  * ChatMessage - Individual chat message bubble component
  * Renders user and AI messages with appropriate styling
+ * Tool calls made while answering are listed collapsibly so the numbers can be audited
  */
 
 import React from 'react';
-import { Bot, User } from 'lucide-react';
+import { Bot, ChevronRight, User, Wrench } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { ChatMessage as ChatMessageType } from '@/core/types/ai';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import type { ChatMessage as ChatMessageType, ToolCallRecord } from '@/core/types/ai';
 
 // ============================================================================
 // Types
@@ -64,15 +70,67 @@ export function ChatMessage({ message, isStreaming = false }: ChatMessageProps)
           )}
         </div>
 
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <div className="mb-2 space-y-1">
+            {message.toolCalls.map((call) => (
+              <ToolCallDetails key={call.id} call={call} />
+            ))}
+          </div>
+        )}
+
         <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
           {message.content || (isStreaming && <StreamingCursor />)}
           {isStreaming && message.content && <StreamingCursor />}
         </div>
+
+        {message.suggestions && message.suggestions.length > 0 && (
+          <div className="mt-2 space-y-0.5">
+            {message.suggestions.map((suggestion) => (
+              <div key={suggestion.id} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <span className="font-mono truncate">{suggestion.path}</span>
+                <span className="ml-auto capitalize">{suggestion.status}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
+// ============================================================================
+// Tool Call Details
+// ============================================================================
+
+function ToolCallDetails({ call }: { call: ToolCallRecord }) {
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded border bg-background/60 text-xs">
+      <CollapsibleTrigger className="flex w-full items-center gap-1.5 px-2 py-1 text-left">
+        <ChevronRight className={cn('w-3 h-3 transition-transform', isOpen && 'rotate-90')} />
+        <Wrench className="w-3 h-3 text-muted-foreground" />
+        <span className="font-mono">{call.name}</span>
+        <span className={cn('ml-auto', call.error ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground')}>
+          {call.error ? 'failed' : `${call.durationMs} ms`}
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="space-y-1 px-2 pb-2">
+          <p className="text-muted-foreground">Arguments</p>
+          <pre className="overflow-x-auto rounded bg-muted p-1.5 font-mono text-[10px]">
+            {JSON.stringify(call.arguments, null, 2)}
+          </pre>
+          <p className="text-muted-foreground">{call.error ? 'Error' : 'Result'}</p>
+          <pre className="max-h-48 overflow-auto rounded bg-muted p-1.5 font-mono text-[10px]">
+            {call.error ?? JSON.stringify(call.result, null, 2)}
+          </pre>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
 // ============================================================================
 // Streaming Cursor
 // ============================================================================
@@ -0,0 +1,141 @@
+/**
+ * ChatThreadBar - Thread picker for the AI chat
+ * Switches, renames, deletes and exports the conversations about the current analysis
+ */
+
+import React, { useState } from 'react';
+import { Check, Download, MoreHorizontal, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAI } from '@/core/contexts/AIContext';
+import { downloadThread } from '@/core/services/chat-export';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ChatThreadBarProps {
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function ChatThreadBar({ className }: ChatThreadBarProps) {
+  const { state, threads, activeThread, newThread, switchThread, renameThread, deleteThread } = useAI();
+  const [draftName, setDraftName] = useState<string | null>(null);
+
+  const commitRename = () => {
+    if (activeThread && draftName !== null) {
+      renameThread(activeThread.id, draftName);
+    }
+    setDraftName(null);
+  };
+
+  if (draftName !== null && activeThread) {
+    return (
+      <div className={cn('flex items-center gap-1 px-3 py-1.5 border-b', className)}>
+        <Input
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setDraftName(null);
+          }}
+          className="h-7 text-xs"
+          aria-label="Thread name"
+          autoFocus
+        />
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={commitRename} aria-label="Save name">
+          <Check className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDraftName(null)} aria-label="Cancel rename">
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('flex items-center gap-1 px-3 py-1.5 border-b', className)}>
+      <Select
+        value={activeThread?.id ?? ''}
+        onValueChange={switchThread}
+        disabled={state.isStreaming || threads.length === 0}
+      >
+        <SelectTrigger className="h-7 flex-1 min-w-0 text-xs">
+          <SelectValue placeholder={threads.length ? 'Select a conversation' : 'New conversation'} />
+        </SelectTrigger>
+        <SelectContent>
+          {threads.map((thread) => (
+            <SelectItem key={thread.id} value={thread.id} className="text-xs">
+              {thread.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={newThread}
+        disabled={state.isStreaming || !activeThread}
+        aria-label="New conversation"
+      >
+        <Plus className="h-3.5 w-3.5" />
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!activeThread} aria-label="Conversation actions">
+            <MoreHorizontal className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        {activeThread && (
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setDraftName(activeThread.name)}>
+              <Pencil className="h-3.5 w-3.5 mr-2" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => downloadThread(activeThread, 'markdown')}>
+              <Download className="h-3.5 w-3.5 mr-2" />
+              Export Markdown
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => downloadThread(activeThread, 'json')}>
+              <Download className="h-3.5 w-3.5 mr-2" />
+              Export JSON
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => deleteThread(activeThread.id)}
+              disabled={state.isStreaming}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="h-3.5 w-3.5 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        )}
+      </DropdownMenu>
+    </div>
+  );
+}
+
+export default ChatThreadBar;
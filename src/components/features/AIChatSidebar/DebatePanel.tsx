@@ -1,9 +1,9 @@
 /**
  * DebatePanel - Assumption Debate Mode UI
- * Displays bull/bear cases and allows users to make decisions
+ * Displays bull/bear cases, rebuttal rounds and the judge's proposal, and allows users to make decisions
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   TrendingUp,
   TrendingDown,
@@ -14,6 +14,8 @@ import {
   ChevronUp,
   CheckCircle,
   MessageSquare,
+  Repeat,
+  Gavel,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useDebate } from '@/core/contexts/DebateContext';
@@ -27,7 +29,9 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
-import type { DebateArgument, DebateRound } from '@/core/types/ai';
+import { countRebuttalRounds } from '@/core/types/ai';
+import type { DebateArgument, DebateJudgement, DebateRebuttal, DebateRound } from '@/core/types/ai';
+import { MAX_REBUTTAL_ROUNDS } from '@/core/services/debate-rounds';
 
 // ============================================================================
 // Types
@@ -126,22 +130,125 @@ function ArgumentCard({ argument, isSelected, onSelect }: ArgumentCardProps) {
   );
 }
 
+// ============================================================================
+// Rebuttal Round
+// ============================================================================
+
+function RebuttalEntry({ rebuttal }: { rebuttal: DebateRebuttal }) {
+  const isBull = rebuttal.type === 'bull';
+
+  return (
+    <div className={cn('border-l-2 pl-2 space-y-1', isBull ? 'border-green-500' : 'border-red-500')}>
+      <div className="flex items-center gap-2">
+        {isBull ? <TrendingUp className="w-3 h-3 text-green-600" /> : <TrendingDown className="w-3 h-3 text-red-600" />}
+        <span className="text-xs font-medium">{rebuttal.headline}</span>
+        <span className="text-xs text-muted-foreground">{Math.round(rebuttal.confidence * 100)}%</span>
+      </div>
+      <p className="text-xs text-muted-foreground whitespace-pre-wrap">{rebuttal.reasoning}</p>
+      {rebuttal.rebuttedEvidence.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          <span className="font-medium">Answers: </span>
+          {rebuttal.rebuttedEvidence.join('; ')}
+        </p>
+      )}
+      {rebuttal.evidence.length > 0 && (
+        <ul className="space-y-0.5">
+          {rebuttal.evidence.map((item, index) => (
+            <li key={index} className="text-xs flex items-start gap-1.5">
+              <span className={cn('mt-1 w-1.5 h-1.5 rounded-full flex-shrink-0', isBull ? 'bg-green-500' : 'bg-red-500')} />
+              {item}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function RebuttalRounds({ rebuttals }: { rebuttals: readonly DebateRebuttal[] }) {
+  const rounds = [...new Set(rebuttals.map((rebuttal) => rebuttal.round))];
+
+  return (
+    <div className="space-y-3">
+      {rounds.map((round) => (
+        <div key={round} className="rounded-lg border p-3 space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Rebuttal round {round}</p>
+          {rebuttals
+            .filter((rebuttal) => rebuttal.round === round)
+            .map((rebuttal) => (
+              <RebuttalEntry key={rebuttal.id} rebuttal={rebuttal} />
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Judgement Card
+// ============================================================================
+
+function JudgementCard({ judgement }: { judgement: DebateJudgement }) {
+  return (
+    <div className="rounded-lg border-2 border-primary/30 bg-primary/5 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Gavel className="w-4 h-4 text-primary" />
+        <span className="font-semibold text-sm">Judge</span>
+        <Badge variant="outline" className="text-xs">
+          {Math.round(judgement.confidence * 100)}% confidence
+        </Badge>
+      </div>
+      <div className="flex gap-3 text-xs">
+        <span className="text-green-700 dark:text-green-300">Bull {judgement.bullScore}/10</span>
+        <span className="text-red-700 dark:text-red-300">Bear {judgement.bearScore}/10</span>
+      </div>
+      {judgement.adjustedValue !== undefined && (
+        <p className="text-xs">
+          Proposed value: <span className="font-mono font-medium">{judgement.adjustedValue}</span>
+          {judgement.confidenceBand && (
+            <span className="text-muted-foreground">
+              {' '}(range <span className="font-mono">{judgement.confidenceBand.low}</span> to{' '}
+              <span className="font-mono">{judgement.confidenceBand.high}</span>)
+            </span>
+          )}
+        </p>
+      )}
+      {judgement.rationale && (
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap">{judgement.rationale}</p>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // Active Debate View
 // ============================================================================
 
 interface ActiveDebateViewProps {
   debate: DebateRound;
+  isGenerating: boolean;
+  onAddRebuttal: () => void;
+  onJudge: () => void;
   onResolve: (verdict: 'bull' | 'bear' | 'neutral', reasoning: string, adjustedValue?: unknown) => void;
   onCancel: () => void;
 }
 
-function ActiveDebateView({ debate, onResolve, onCancel }: ActiveDebateViewProps) {
+function ActiveDebateView({ debate, isGenerating, onAddRebuttal, onJudge, onResolve, onCancel }: ActiveDebateViewProps) {
   const [selectedVerdict, setSelectedVerdict] = useState<'bull' | 'bear' | 'neutral' | null>(null);
   const [reasoning, setReasoning] = useState('');
   const [adjustedValue, setAdjustedValue] = useState(
     debate.currentValue !== undefined ? String(debate.currentValue) : ''
   );
+  const rebuttalRounds = countRebuttalRounds(debate);
+
+  // Pre-fill the judge's proposal and leaning so accepting it is one click
+  useEffect(() => {
+    if (!debate.judgement) return;
+    if (debate.judgement.adjustedValue !== undefined) {
+      setAdjustedValue(String(debate.judgement.adjustedValue));
+    }
+    setSelectedVerdict((current) => current ?? debate.judgement!.leaning);
+  }, [debate.judgement]);
 
   const handleSubmit = () => {
     if (!selectedVerdict) return;
@@ -192,6 +299,33 @@ function ActiveDebateView({ debate, onResolve, onCancel }: ActiveDebateViewProps
               onSelect={() => setSelectedVerdict('bear')}
             />
 
+            {/* Rebuttals and Judge */}
+            {debate.rebuttals && debate.rebuttals.length > 0 && <RebuttalRounds rebuttals={debate.rebuttals} />}
+            {debate.judgement && <JudgementCard judgement={debate.judgement} />}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={onAddRebuttal}
+                disabled={isGenerating || rebuttalRounds >= MAX_REBUTTAL_ROUNDS}
+              >
+                <Repeat className="w-3.5 h-3.5 mr-1.5" />
+                Rebuttal round ({rebuttalRounds}/{MAX_REBUTTAL_ROUNDS})
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={onJudge}
+                disabled={isGenerating || !!debate.judgement}
+              >
+                {isGenerating ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <Gavel className="w-3.5 h-3.5 mr-1.5" />}
+                Ask judge
+              </Button>
+            </div>
+
             {/* Neutral Option */}
             <div
               className={cn(
@@ -355,14 +489,14 @@ function StartDebateView({ onStartDebate }: StartDebateViewProps) {
 // ============================================================================
 
 export function DebatePanel({ className, onClose }: DebatePanelProps) {
-  const { state, startDebate, resolveDebate, cancelDebate } = useDebate();
+  const { state, startDebate, addRebuttalRound, judgeDebate, resolveDebate, cancelDebate } = useDebate();
 
   const handleStartDebate = (assumption: string) => {
     startDebate(assumption);
   };
 
-  // Show generating state
-  if (state.isGenerating) {
+  // Show generating state (follow-up rounds keep the active debate visible)
+  if (state.isGenerating && !state.activeDebate) {
     return (
       <div className={cn('flex flex-col h-full bg-background', className)}>
         <GeneratingView />
@@ -376,6 +510,9 @@ export function DebatePanel({ className, onClose }: DebatePanelProps) {
       <div className={cn('flex flex-col h-full bg-background', className)}>
         <ActiveDebateView
           debate={state.activeDebate}
+          isGenerating={state.isGenerating}
+          onAddRebuttal={addRebuttalRound}
+          onJudge={judgeDebate}
           onResolve={resolveDebate}
           onCancel={cancelDebate}
         />
@@ -1,6 +1,6 @@
 /**
  * EvidenceTrailPanel - Displays history of debate decisions
- * Shows user's reasoning and choices from Assumption Debate Mode
+ * Shows user's reasoning and choices from every debate surface, read from the debate ledger
  */
 
 import React from 'react';
@@ -11,6 +11,8 @@ import {
   Scale,
   Clock,
   ArrowRight,
+  PenLine,
+  Gavel,
   Trash2,
   X,
 } from 'lucide-react';
@@ -69,6 +71,12 @@ function EvidenceEntry({ entry }: EvidenceEntryProps) {
       color: 'text-gray-600 dark:text-gray-400',
       bg: 'bg-gray-100 dark:bg-gray-900/30',
     },
+    custom: {
+      icon: PenLine,
+      label: 'Set Custom Value',
+      color: 'text-purple-600 dark:text-purple-400',
+      bg: 'bg-purple-100 dark:bg-purple-900/30',
+    },
   };
 
   const config = verdictConfig[entry.verdict];
@@ -106,6 +114,11 @@ function EvidenceEntry({ entry }: EvidenceEntryProps) {
 
       {/* Assumption */}
       <p className="text-sm font-medium">{entry.assumption}</p>
+      {entry.assumptionPath && (
+        <p className="text-xs font-mono text-muted-foreground truncate" title={entry.assumptionPath}>
+          {entry.target ? `${entry.target}:` : ''}{entry.assumptionPath}
+        </p>
+      )}
 
       {/* Value Change */}
       {entry.originalValue !== undefined && entry.finalValue !== undefined && entry.originalValue !== entry.finalValue && (
@@ -116,6 +129,37 @@ function EvidenceEntry({ entry }: EvidenceEntryProps) {
         </div>
       )}
 
+      {/* Debate depth and judge's proposal */}
+      {(!!entry.rebuttalRounds || entry.judgement) && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          {!!entry.rebuttalRounds && (
+            <span>{entry.rebuttalRounds} rebuttal round{entry.rebuttalRounds === 1 ? '' : 's'}</span>
+          )}
+          {entry.judgement && (
+            <span className="flex items-center gap-1">
+              <Gavel className="w-3 h-3" />
+              Judge {entry.judgement.bullScore}-{entry.judgement.bearScore}
+              {entry.judgement.adjustedValue !== undefined && (
+                <>
+                  , proposed <span className="font-mono">{entry.judgement.adjustedValue}</span>
+                  {entry.judgement.confidenceBand && (
+                    <span className="font-mono">
+                      {' '}[{entry.judgement.confidenceBand.low}, {entry.judgement.confidenceBand.high}]
+                    </span>
+                  )}
+                </>
+              )}
+            </span>
+          )}
+        </div>
+      )}
+      {entry.judgement?.rationale && (
+        <div className="text-xs text-muted-foreground bg-muted/30 rounded p-2">
+          <span className="font-medium">Judge: </span>
+          {entry.judgement.rationale}
+        </div>
+      )}
+
       {/* Reasoning */}
       {entry.reasoning && (
         <div className="text-xs text-muted-foreground bg-muted/30 rounded p-2">
@@ -148,11 +192,7 @@ function EmptyState() {
 // ============================================================================
 
 export function EvidenceTrailPanel({ className, onClose }: EvidenceTrailPanelProps) {
-  const { state, clearEvidenceTrail } = useDebate();
-
-  const sortedEvidence = [...state.evidenceTrail].sort(
-    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-  );
+  const { evidenceTrail: sortedEvidence, clearEvidenceTrail } = useDebate();
 
   // Stats
   const bullCount = sortedEvidence.filter((e) => e.verdict === 'bull').length;
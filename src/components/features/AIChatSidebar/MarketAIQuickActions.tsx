@@ -1,6 +1,7 @@
 /**
  * MarketAIQuickActions - Quick action buttons for market analysis AI prompts
  * Provides one-click access to common market analysis AI queries
+ * The inline row also serves the business case prompts
  */
 
 import React from 'react';
@@ -16,7 +17,12 @@ import {
   User,
   Rocket,
   TrendingUp,
-  Navigation
+  TrendingDown,
+  Navigation,
+  Activity,
+  AlertTriangle,
+  Wallet,
+  Scale
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -55,6 +61,11 @@ const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
   'rocket': Rocket,
   'trending-up': TrendingUp,
   'navigation': Navigation,
+  'activity': Activity,
+  'trending-down': TrendingDown,
+  'alert-triangle': AlertTriangle,
+  'wallet': Wallet,
+  'scale': Scale,
 };
 
 function getIcon(iconName: string): React.ComponentType<{ className?: string }> {
@@ -130,6 +141,10 @@ function CategorySection({ category, actions, onSelect, compact }: CategorySecti
     competitive: 'Competitive Analysis',
     customer: 'Customer Analysis',
     strategy: 'Strategy',
+    debate: 'Assumption Debate',
+    'stress-test': 'Stress Tests',
+    diagnostics: 'Diagnostics',
+    costs: 'Costs',
   };
 
   if (compact) {
@@ -230,12 +245,13 @@ export function MarketAIQuickActions({ onSelectAction, className, compact }: Mar
 
 interface InlineQuickActionsProps {
   onSelectAction: (action: QuickActionPrompt) => void;
+  actions?: QuickActionPrompt[];
   className?: string;
 }
 
-export function InlineQuickActions({ onSelectAction, className }: InlineQuickActionsProps) {
+export function InlineQuickActions({ onSelectAction, actions, className }: InlineQuickActionsProps) {
   // Show just the most useful quick actions inline
-  const primaryActions = MARKET_QUICK_ACTIONS.filter(a =>
+  const primaryActions = actions ?? MARKET_QUICK_ACTIONS.filter(a =>
     ['suggest-tam', 'identify-competitors', 'suggest-segments', 'entry-strategy'].includes(a.id)
   );
 
@@ -0,0 +1,131 @@
+/**
+ * SuggestionReviewQueue - Pending AI patch proposals awaiting review
+ * Each suggestion can be accepted (written to the data with AI backing fields) or rejected
+ */
+
+import React from 'react';
+import { ArrowRight, Check, Lightbulb, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAI } from '@/core/contexts/AIContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { AISuggestion } from '@/core/types/ai';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SuggestionReviewQueueProps {
+  className?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatSuggestionValue(value: unknown): string {
+  if (typeof value === 'number') {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function confidenceColor(confidence: number): string {
+  if (confidence >= 0.7) return 'text-green-600 dark:text-green-400';
+  if (confidence >= 0.4) return 'text-amber-600 dark:text-amber-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+// ============================================================================
+// Suggestion Item
+// ============================================================================
+
+interface SuggestionItemProps {
+  suggestion: AISuggestion;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+function SuggestionItem({ suggestion, onAccept, onReject }: SuggestionItemProps) {
+  return (
+    <div className="rounded-md border bg-background p-2 space-y-1.5">
+      <div className="flex items-center gap-1.5">
+        <Badge variant="outline" className="text-[10px] px-1 py-0 h-4 capitalize">
+          {suggestion.target}
+        </Badge>
+        <span className="text-xs font-mono truncate" title={suggestion.path}>
+          {suggestion.path}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-1.5 text-xs">
+        <span className="text-muted-foreground line-through">{formatSuggestionValue(suggestion.currentValue)}</span>
+        <ArrowRight className="w-3 h-3 text-muted-foreground" />
+        <span className="font-semibold">{formatSuggestionValue(suggestion.suggestedValue)}</span>
+        <span className={cn('ml-auto', confidenceColor(suggestion.confidence))}>
+          {Math.round(suggestion.confidence * 100)}% confident
+        </span>
+      </div>
+
+      {suggestion.rationale && (
+        <p className="text-xs text-muted-foreground">{suggestion.rationale}</p>
+      )}
+
+      {suggestion.researchRefs.length > 0 && (
+        <p className="text-[10px] text-muted-foreground">
+          Backed by {suggestion.researchRefs.length} research document{suggestion.researchRefs.length === 1 ? '' : 's'}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-1">
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onReject}>
+          <X className="w-3 h-3 mr-1" />
+          Reject
+        </Button>
+        <Button size="sm" className="h-6 px-2 text-xs" onClick={onAccept}>
+          <Check className="w-3 h-3 mr-1" />
+          Accept
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function SuggestionReviewQueue({ className }: SuggestionReviewQueueProps) {
+  const { state, acceptSuggestion, rejectSuggestion } = useAI();
+  const suggestions = state.pendingSuggestions;
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('border-t p-3 space-y-2 max-h-[220px] overflow-y-auto', className)}>
+      <div className="flex items-center gap-1.5 text-xs font-medium">
+        <Lightbulb className="w-3.5 h-3.5 text-amber-500" />
+        Suggested changes
+        <Badge variant="secondary" className="text-[10px] px-1 py-0 h-4">
+          {suggestions.length}
+        </Badge>
+      </div>
+
+      {suggestions.map((suggestion) => (
+        <SuggestionItem
+          key={suggestion.id}
+          suggestion={suggestion}
+          onAccept={() => acceptSuggestion(suggestion.id)}
+          onReject={() => rejectSuggestion(suggestion.id)}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default SuggestionReviewQueue;
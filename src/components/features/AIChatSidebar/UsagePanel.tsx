@@ -0,0 +1,205 @@
+/**
+ * UsagePanel - AI cost accounting for the current month
+ * Shows spend by feature and model, the budget caps and the editable price table
+ */
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Ban, Trash2, Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAI } from '@/core/contexts/AIContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  formatUsd,
+  getBudgetMessage,
+  getBudgetPeriodStart,
+  getModelPrice,
+  summarizeUsage,
+  USAGE_FEATURE_LABELS,
+  type ModelPrice,
+  type UsageTotals,
+} from '@/core/services/ai-usage';
+import type { UsageFeature } from '@/core/types/ai';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface UsagePanelProps {
+  className?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseLimit(input: string): number | null {
+  const value = parseFloat(input);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function TotalsRow({ label, totals }: { label: string; totals: UsageTotals }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="truncate flex-1" title={label}>{label}</span>
+      <span className="text-muted-foreground">{totals.requests} req</span>
+      <span className="text-muted-foreground w-20 text-right">{totals.totalTokens.toLocaleString()} tok</span>
+      <span className="font-medium w-16 text-right">{formatUsd(totals.costUsd)}</span>
+    </div>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function UsagePanel({ className }: UsagePanelProps) {
+  const { usage, usageSettings, budget, updateUsageSettings, clearUsage, availableModels } = useAI();
+  const [softInput, setSoftInput] = useState(usageSettings.softLimitUsd?.toString() ?? '');
+  const [hardInput, setHardInput] = useState(usageSettings.hardLimitUsd?.toString() ?? '');
+
+  const summary = useMemo(() => summarizeUsage(usage, getBudgetPeriodStart()), [usage]);
+  const hardLimit = usageSettings.hardLimitUsd;
+  const progress = hardLimit ? Math.min(100, (budget.spentUsd / hardLimit) * 100) : 0;
+
+  const saveLimits = () => {
+    updateUsageSettings({
+      ...usageSettings,
+      softLimitUsd: parseLimit(softInput),
+      hardLimitUsd: parseLimit(hardInput),
+    });
+  };
+
+  const updatePrice = (model: string, field: keyof ModelPrice, input: string) => {
+    const current = getModelPrice(usageSettings.prices, model) ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    updateUsageSettings({
+      ...usageSettings,
+      prices: { ...usageSettings.prices, [model]: { ...current, [field]: parseLimit(input) ?? 0 } },
+    });
+  };
+
+  return (
+    <ScrollArea className={cn('flex-1', className)}>
+      <div className="p-4 space-y-5">
+        {/* Month to date */}
+        <section className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Wallet className="h-4 w-4 text-primary" />
+            <h3 className="text-sm font-medium">This month</h3>
+            <span className="ml-auto text-lg font-semibold">{formatUsd(summary.costUsd)}</span>
+          </div>
+          {hardLimit !== null && <Progress value={progress} className="h-1.5" />}
+          {budget.status !== 'ok' && (
+            <div
+              className={cn(
+                'flex items-start gap-2 rounded-md p-2 text-xs',
+                budget.status === 'hard'
+                  ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                  : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+              )}
+            >
+              {budget.status === 'hard' ? <Ban className="h-3.5 w-3.5 mt-0.5" /> : <AlertTriangle className="h-3.5 w-3.5 mt-0.5" />}
+              <span>{getBudgetMessage(budget)}</span>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {summary.requests} requests, {summary.totalTokens.toLocaleString()} tokens
+          </p>
+        </section>
+
+        {/* Breakdown */}
+        {summary.requests > 0 && (
+          <section className="space-y-1.5">
+            <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">By feature</h4>
+            {(Object.entries(summary.byFeature) as [UsageFeature, UsageTotals][]).map(([feature, totals]) => (
+              <TotalsRow key={feature} label={USAGE_FEATURE_LABELS[feature]} totals={totals} />
+            ))}
+            <h4 className="pt-2 text-xs font-medium text-muted-foreground uppercase tracking-wide">By model</h4>
+            {Object.entries(summary.byModel).map(([model, totals]) => (
+              <TotalsRow key={model} label={model} totals={totals} />
+            ))}
+          </section>
+        )}
+
+        {/* Budget caps */}
+        <section className="space-y-2">
+          <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Monthly budget (USD)</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="usage-soft-limit" className="text-xs">Warn at</Label>
+              <Input
+                id="usage-soft-limit"
+                type="number"
+                min={0}
+                step="0.5"
+                value={softInput}
+                onChange={(e) => setSoftInput(e.target.value)}
+                onBlur={saveLimits}
+                placeholder="No limit"
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="usage-hard-limit" className="text-xs">Block at</Label>
+              <Input
+                id="usage-hard-limit"
+                type="number"
+                min={0}
+                step="0.5"
+                value={hardInput}
+                onChange={(e) => setHardInput(e.target.value)}
+                onBlur={saveLimits}
+                placeholder="No limit"
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+        </section>
+
+        {/* Price table */}
+        <section className="space-y-2">
+          <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Prices (USD per 1M tokens)</h4>
+          {availableModels.map((model) => {
+            const price = getModelPrice(usageSettings.prices, model.id);
+            return (
+              <div key={model.id} className="grid grid-cols-[1fr_4.5rem_4.5rem] items-center gap-2">
+                <span className="text-xs truncate" title={model.id}>{model.name}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  defaultValue={price?.inputPerMillion ?? ''}
+                  onBlur={(e) => updatePrice(model.id, 'inputPerMillion', e.target.value)}
+                  aria-label={`${model.name} input price`}
+                  placeholder="In"
+                  className="h-7 text-xs"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  defaultValue={price?.outputPerMillion ?? ''}
+                  onBlur={(e) => updatePrice(model.id, 'outputPerMillion', e.target.value)}
+                  aria-label={`${model.name} output price`}
+                  placeholder="Out"
+                  className="h-7 text-xs"
+                />
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground">New prices apply to requests made after the change.</p>
+        </section>
+
+        <Button variant="outline" size="sm" className="w-full" onClick={clearUsage} disabled={usage.length === 0}>
+          <Trash2 className="h-3.5 w-3.5 mr-2" />
+          Clear usage history
+        </Button>
+      </div>
+    </ScrollArea>
+  );
+}
+
+export default UsagePanel;
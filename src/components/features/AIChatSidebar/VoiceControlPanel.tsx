@@ -14,9 +14,13 @@ import {
   Loader2,
   MessageCircle,
   AlertCircle,
+  Check,
+  ArrowRight,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useVoice } from '@/core/contexts/VoiceContext';
+import { formatVoiceValue } from '@/core/services/voice-intents';
+import { formatCurrency } from '@/core/engine/utils/financial';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
@@ -200,6 +204,46 @@ function VoiceSettingsPanel({ onClose }: VoiceSettingsPanelProps) {
   );
 }
 
+// ============================================================================
+// Pending Change
+// ============================================================================
+
+function PendingChangeCard() {
+  const { state, confirmPendingChange, cancelPendingChange } = useVoice();
+  const change = state.pendingChange;
+
+  if (!change) return null;
+
+  const npvDelta = change.projectedNpv - change.baselineNpv;
+
+  return (
+    <div className="rounded-lg border border-primary/40 bg-primary/5 p-3 space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">
+        {change.hypothetical ? 'What-if' : 'Change'} waiting for confirmation
+      </p>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium truncate">{change.label}</span>
+        <span className="text-muted-foreground">{formatVoiceValue(change.fromValue, change.unit, change.isRatio)}</span>
+        <ArrowRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+        <span className="font-medium">{formatVoiceValue(change.toValue, change.unit, change.isRatio)}</span>
+      </div>
+      <p className={cn('text-xs', npvDelta >= 0 ? 'text-green-600' : 'text-red-600')}>
+        NPV {npvDelta >= 0 ? '+' : '-'}{formatCurrency(Math.abs(npvDelta), change.currency)} → {formatCurrency(change.projectedNpv, change.currency)}
+      </p>
+      <div className="flex gap-2">
+        <Button size="sm" className="h-7 flex-1" onClick={confirmPendingChange}>
+          <Check className="h-3 w-3 mr-1" />
+          Confirm
+        </Button>
+        <Button size="sm" variant="outline" className="h-7 flex-1" onClick={cancelPendingChange}>
+          <X className="h-3 w-3 mr-1" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Command History
 // ============================================================================
@@ -412,6 +456,9 @@ export function VoiceControlPanel({ className, compact, onClose }: VoiceControlP
           </div>
         )}
 
+        {/* Spoken assumption change awaiting confirmation */}
+        <PendingChangeCard />
+
         {/* Mute Toggle */}
         <div className="flex items-center justify-between px-2">
           <span className="text-sm">AI Voice Response</span>
@@ -454,7 +501,7 @@ export function VoiceControlPanel({ className, compact, onClose }: VoiceControlP
       {/* Tips */}
       <div className="p-3 border-t bg-muted/30">
         <p className="text-xs text-muted-foreground">
-          <strong>Tips:</strong> Try "What if we raise prices 10%?" or "Show me the market analysis"
+          <strong>Tips:</strong> Try "What if we raise prices 10%?", "Increase churn by two points" or "Halve CAC"
         </p>
       </div>
     </div>
@@ -9,5 +9,8 @@ export { MarketAIQuickActions, InlineQuickActions } from './MarketAIQuickActions
 export { WebSearchPanel } from './WebSearchPanel';
 export { DebatePanel } from './DebatePanel';
 export { EvidenceTrailPanel } from './EvidenceTrailPanel';
+export { SuggestionReviewQueue } from './SuggestionReviewQueue';
+export { ChatThreadBar } from './ChatThreadBar';
+export { UsagePanel } from './UsagePanel';
 export { ResizableAILayout } from './ResizableAILayout';
 export { VoiceControlPanel, VoiceButton } from './VoiceControlPanel';
@@ -35,11 +35,12 @@ import {
   buildDebateSystemPrompt,
   buildDebateUserPrompt,
   parseDebateResponse,
-  saveDebateToTrail,
   type DebateContext,
   type DebateCase,
   type DebateResult,
 } from '@/core/services/debate-prompts';
+import { debateLedger } from '@/core/services/debate-ledger';
+import type { SuggestionTarget } from '@/core/types/ai';
 
 // ============================================================================
 // Types
@@ -55,6 +56,8 @@ interface AssumptionDebateDialogProps {
     rationale: string;
     category: string;
     dataPath?: string;
+    target?: SuggestionTarget;           // Dataset dataPath points into (defaults to business)
+    researchIds?: readonly string[];     // Research backing the current value
   } | null;
   onValueUpdate?: (newValue: number | string, reasoning: string) => void;
 }
@@ -166,7 +169,7 @@ export function AssumptionDebateDialog({
       decisionReasoning = decisionReasoning || `Custom value based on debate analysis`;
     }
 
-    // Save to evidence trail
+    // Record in the debate ledger
     const result: DebateResult = {
       assumption: {
         assumptionLabel: assumption.label,
@@ -184,7 +187,12 @@ export function AssumptionDebateDialog({
         reasoning: decisionReasoning,
       },
     };
-    saveDebateToTrail(result);
+    debateLedger.recordDebateResult(result, {
+      source: 'dialog',
+      target: assumption.target ?? 'business',
+      path: assumption.dataPath,
+      researchIds: assumption.researchIds,
+    });
 
     // Call the update callback if value changed
     if (selectedPosition !== 'original' && onValueUpdate) {
@@ -0,0 +1,349 @@
+/**
+ * BatchReviewDialog - Debate every AI-generated or low-confidence assumption in one pass
+ * Queues debates with a concurrency limit, shows a triage table of verdicts and
+ * produces one consolidated evidence-trail report for sign-off
+ */
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, CheckCircle, Download, Loader2, ListChecks, Play, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAI } from '@/core/contexts/AIContext';
+import { debateLedger } from '@/core/services/debate-ledger';
+import {
+  buildBatchReport,
+  debateCandidate,
+  DEFAULT_BATCH_CONCURRENCY,
+  findReviewCandidates,
+  MAX_BATCH_CONCURRENCY,
+  resolveDecisionValue,
+  REVIEW_REASON_LABELS,
+  runWithConcurrency,
+  toDebateResult,
+  type BatchDecisionPosition,
+  type BatchReviewItem,
+} from '@/core/services/debate-batch';
+import type { SuggestionTarget } from '@/core/types/ai';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface BatchReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: SuggestionTarget;
+  data: unknown;
+  title: string;
+  // Called per changed assumption on sign-off with the ValueWithRationale path (without `.value`)
+  onApply: (path: string, newValue: number | string, reasoning: string) => void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const STATUS_LABELS: Record<BatchReviewItem['status'], string> = {
+  queued: 'Queued',
+  running: 'Debating',
+  done: 'Ready',
+  error: 'Failed',
+  skipped: 'Skipped',
+};
+
+function downloadReport(content: string, title: string): void {
+  const blob = new Blob([content], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `assumption-review-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().split('T')[0]}.md`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function CaseSummary({ item, position }: { item: BatchReviewItem; position: 'bull' | 'bear' }) {
+  const debateCase = position === 'bull' ? item.bullCase : item.bearCase;
+  if (!debateCase) return <span className="text-muted-foreground">-</span>;
+
+  return (
+    <div className="space-y-0.5" title={debateCase.arguments.join('\n')}>
+      <p className="line-clamp-2">{debateCase.arguments[0] ?? 'No arguments'}</p>
+      <p className={cn('text-[11px]', position === 'bull' ? 'text-green-600' : 'text-red-600')}>
+        {debateCase.suggestedValue !== undefined && debateCase.suggestedValue !== null
+          ? `Suggests ${debateCase.suggestedValue} ${item.candidate.unit}`
+          : 'No value suggested'}
+        {' · '}{debateCase.confidence}
+      </p>
+    </div>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function BatchReviewDialog({ open, onOpenChange, target, data, title, onApply }: BatchReviewDialogProps) {
+  const { ensureBudget, recordUsage } = useAI();
+  const [items, setItems] = useState<BatchReviewItem[]>(() =>
+    findReviewCandidates(data, target).map((candidate) => ({ candidate, status: 'queued' }))
+  );
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState(false);
+  const stopRef = useRef(false);
+
+  const updateItem = useCallback((index: number, updates: Partial<BatchReviewItem>) => {
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+  }, []);
+
+  const runDebates = useCallback(async () => {
+    stopRef.current = false;
+    setIsRunning(true);
+
+    const pending = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item.status === 'queued' || item.status === 'error' || item.status === 'skipped');
+
+    await runWithConcurrency(
+      pending,
+      concurrency,
+      async ({ item, index }) => {
+        if (!ensureBudget()) {
+          stopRef.current = true;
+          return;
+        }
+        updateItem(index, { status: 'running', error: undefined });
+        try {
+          const { bullCase, bearCase, response } = await debateCandidate(item.candidate);
+          recordUsage('debate', undefined, response.tokenUsage);
+          updateItem(index, { status: 'done', bullCase, bearCase });
+        } catch (err) {
+          updateItem(index, { status: 'error', error: err instanceof Error ? err.message : 'Debate failed' });
+        }
+      },
+      () => stopRef.current
+    );
+
+    // Anything still queued after a stop is marked so it can be resumed
+    setItems((current) => current.map((item) => (item.status === 'queued' ? { ...item, status: 'skipped' } : item)));
+    setIsRunning(false);
+  }, [items, concurrency, ensureBudget, recordUsage, updateItem]);
+
+  const setDecision = (index: number, selectedPosition: BatchDecisionPosition) => {
+    const existing = items[index].decision;
+    updateItem(index, { decision: { selectedPosition, newValue: existing?.newValue, reasoning: existing?.reasoning ?? '' } });
+  };
+
+  const setCustomValue = (index: number, input: string) => {
+    const existing = items[index].decision;
+    const newValue = input.trim() === '' ? undefined : isNaN(Number(input)) ? input : Number(input);
+    updateItem(index, { decision: { selectedPosition: 'custom', newValue, reasoning: existing?.reasoning ?? '' } });
+  };
+
+  const setReasoning = (index: number, reasoning: string) => {
+    const existing = items[index].decision;
+    if (existing) updateItem(index, { decision: { ...existing, reasoning } });
+  };
+
+  const finished = items.filter((item) => item.status === 'done' || item.status === 'error').length;
+  const decided = items.filter((item) => item.decision).length;
+  const report = useMemo(() => buildBatchReport(items, title), [items, title]);
+
+  const signOff = () => {
+    const timestamp = new Date().toISOString();
+    for (const item of items) {
+      const result = toDebateResult(item, timestamp);
+      if (!result) continue;
+      debateLedger.recordDebateResult(result, {
+        source: 'batch',
+        target: item.candidate.target,
+        path: item.candidate.path,
+        researchIds: item.candidate.researchIds,
+      });
+
+      const newValue = resolveDecisionValue(item);
+      if (newValue !== undefined) {
+        onApply(item.candidate.path, newValue, item.decision!.reasoning || `Batch review: ${result.userDecision!.selectedPosition} case adopted`);
+      }
+    }
+    downloadReport(report, title);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRunning && onOpenChange(next)}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5 text-primary" />
+            Review AI Assumptions
+          </DialogTitle>
+          <DialogDescription>
+            {items.length === 0
+              ? 'No AI-generated or low-confidence assumptions found.'
+              : `${items.length} AI-generated or low-confidence assumptions. Debate them, pick a verdict for each and sign off the report.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {items.length > 0 && (
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">Parallel debates</span>
+            <Select
+              value={String(concurrency)}
+              onValueChange={(value) => setConcurrency(Number(value))}
+              disabled={isRunning}
+            >
+              <SelectTrigger className="w-20 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                  <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isRunning ? (
+              <Button size="sm" variant="outline" onClick={() => (stopRef.current = true)}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button size="sm" onClick={runDebates} disabled={finished === items.length}>
+                <Play className="h-4 w-4 mr-2" />
+                {finished === 0 ? 'Start debates' : 'Resume'}
+              </Button>
+            )}
+            <Progress value={(finished / items.length) * 100} className="h-2 flex-1" />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {finished}/{items.length} debated · {decided} decided
+            </span>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1 max-h-[60vh]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-48">Assumption</TableHead>
+                <TableHead>Current</TableHead>
+                <TableHead className="w-64">Bull case</TableHead>
+                <TableHead className="w-64">Bear case</TableHead>
+                <TableHead className="w-56">Verdict</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item, index) => (
+                <TableRow key={item.candidate.path} className="align-top text-xs">
+                  <TableCell>
+                    <p className="font-medium text-sm">{item.candidate.label}</p>
+                    <p className="text-muted-foreground font-mono truncate" title={item.candidate.path}>{item.candidate.path}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {item.candidate.reasons.map((reason) => (
+                        <Badge key={reason} variant="outline" className="text-[10px]">
+                          {REVIEW_REASON_LABELS[reason]}
+                          {reason === 'low-confidence' && item.candidate.aiConfidence !== undefined &&
+                            ` ${Math.round(item.candidate.aiConfidence * 100)}%`}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono whitespace-nowrap">
+                    {item.candidate.value} {item.candidate.unit}
+                  </TableCell>
+                  {item.status === 'done' ? (
+                    <>
+                      <TableCell><CaseSummary item={item} position="bull" /></TableCell>
+                      <TableCell><CaseSummary item={item} position="bear" /></TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={2}>
+                      <span className={cn('flex items-center gap-1.5', item.status === 'error' ? 'text-destructive' : 'text-muted-foreground')}>
+                        {item.status === 'running' && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                        {item.status === 'error' && <AlertCircle className="h-3.5 w-3.5" />}
+                        {item.error ?? STATUS_LABELS[item.status]}
+                      </span>
+                    </TableCell>
+                  )}
+                  <TableCell className="space-y-1.5">
+                    <Select
+                      value={item.decision?.selectedPosition ?? ''}
+                      onValueChange={(value) => setDecision(index, value as BatchDecisionPosition)}
+                      disabled={item.status !== 'done'}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue placeholder="Choose verdict" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="original">Keep current</SelectItem>
+                        <SelectItem value="bull">Adopt bull case</SelectItem>
+                        <SelectItem value="bear">Adopt bear case</SelectItem>
+                        <SelectItem value="custom">Custom value</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {item.decision?.selectedPosition === 'custom' && (
+                      <Input
+                        value={item.decision.newValue ?? ''}
+                        onChange={(e) => setCustomValue(index, e.target.value)}
+                        placeholder={`Value in ${item.candidate.unit}`}
+                        className="h-7 text-xs"
+                      />
+                    )}
+                    {item.decision && (
+                      <Input
+                        value={item.decision.reasoning}
+                        onChange={(e) => setReasoning(index, e.target.value)}
+                        placeholder="Reasoning (optional)"
+                        className="h-7 text-xs"
+                      />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        <DialogFooter className="mt-4">
+          <Button variant="outline" onClick={() => downloadReport(report, title)} disabled={decided === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Download report
+          </Button>
+          <Button onClick={signOff} disabled={isRunning || decided === 0}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Apply & sign off ({decided})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default BatchReviewDialog;
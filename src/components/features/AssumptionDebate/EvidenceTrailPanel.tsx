@@ -1,9 +1,9 @@
 /**
  * EvidenceTrailPanel - Displays the history of assumption debates and decisions
- * Shows how values have been challenged and adjusted over time
+ * Shows how values have been challenged and adjusted over time, read from the debate ledger
  */
 
-import React, { useMemo } from 'react';
+import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -23,11 +23,8 @@ import {
   Scale,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import {
-  getEvidenceTrail,
-  clearEvidenceTrail,
-  type DebateResult,
-} from '@/core/services/debate-prompts';
+import { useDebateLedger } from '@/core/contexts/hooks/useDebateLedger';
+import type { DebateVerdict, EvidenceTrailEntry } from '@/core/types/ai';
 
 // ============================================================================
 // Types
@@ -35,78 +32,91 @@ import {
 
 interface EvidenceTrailPanelProps {
   className?: string;
-  filterAssumption?: string;
+  filterPath?: string;  // Only decisions affecting this assumption path
 }
 
 // ============================================================================
 // Helper Components
 // ============================================================================
 
-function DebateHistoryItem({ debate }: { debate: DebateResult }) {
-  const positionIcon = {
-    bull: <TrendingUp className="h-4 w-4 text-green-500" />,
-    bear: <TrendingDown className="h-4 w-4 text-red-500" />,
-    original: <History className="h-4 w-4 text-blue-500" />,
-    custom: <ArrowRight className="h-4 w-4 text-purple-500" />,
-  };
-
-  const positionColor = {
-    bull: 'text-green-600 bg-green-50 dark:bg-green-950',
-    bear: 'text-red-600 bg-red-50 dark:bg-red-950',
-    original: 'text-blue-600 bg-blue-50 dark:bg-blue-950',
-    custom: 'text-purple-600 bg-purple-50 dark:bg-purple-950',
-  };
-
-  const decision = debate.userDecision;
-  const timestamp = new Date(debate.timestamp).toLocaleString();
+const VERDICT_ICONS: Record<DebateVerdict, React.ReactNode> = {
+  bull: <TrendingUp className="h-4 w-4 text-green-500" />,
+  bear: <TrendingDown className="h-4 w-4 text-red-500" />,
+  neutral: <History className="h-4 w-4 text-blue-500" />,
+  custom: <ArrowRight className="h-4 w-4 text-purple-500" />,
+};
+
+const VERDICT_COLORS: Record<DebateVerdict, string> = {
+  bull: 'text-green-600 bg-green-50 dark:bg-green-950',
+  bear: 'text-red-600 bg-red-50 dark:bg-red-950',
+  neutral: 'text-blue-600 bg-blue-50 dark:bg-blue-950',
+  custom: 'text-purple-600 bg-purple-50 dark:bg-purple-950',
+};
+
+const VERDICT_LABELS: Record<DebateVerdict, string> = {
+  bull: 'Bull',
+  bear: 'Bear',
+  neutral: 'Kept',
+  custom: 'Custom',
+};
+
+function DebateHistoryItem({ entry }: { entry: EvidenceTrailEntry }) {
+  const timestamp = new Date(entry.timestamp).toLocaleString();
+  const unit = entry.unit ? ` ${entry.unit}` : '';
 
   return (
-    <AccordionItem value={debate.timestamp} className="border rounded-lg mb-2">
+    <AccordionItem value={entry.id} className="border rounded-lg mb-2">
       <AccordionTrigger className="px-4 py-3 hover:no-underline">
         <div className="flex items-center gap-3 w-full">
           <Scale className="h-4 w-4 text-muted-foreground" />
           <span className="font-medium text-sm truncate flex-1 text-left">
-            {debate.assumption.assumptionLabel}
+            {entry.assumption}
           </span>
-          {decision && (
-            <Badge
-              variant="outline"
-              className={cn('text-xs', positionColor[decision.selectedPosition])}
-            >
-              {positionIcon[decision.selectedPosition]}
-              <span className="ml-1 capitalize">{decision.selectedPosition}</span>
-            </Badge>
-          )}
+          <Badge variant="outline" className={cn('text-xs', VERDICT_COLORS[entry.verdict])}>
+            {VERDICT_ICONS[entry.verdict]}
+            <span className="ml-1">{VERDICT_LABELS[entry.verdict]}</span>
+          </Badge>
           <span className="text-xs text-muted-foreground">{timestamp}</span>
         </div>
       </AccordionTrigger>
       <AccordionContent className="px-4 pb-4">
         <div className="space-y-4">
+          {/* Path and research links */}
+          {(entry.assumptionPath || entry.researchIds.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              {entry.assumptionPath && <span className="font-mono">{entry.assumptionPath}</span>}
+              {entry.researchIds.map((id) => (
+                <Badge key={id} variant="secondary" className="text-[10px] font-mono">{id}</Badge>
+              ))}
+              <Badge variant="outline" className="text-[10px] capitalize">{entry.source}</Badge>
+            </div>
+          )}
+
           {/* Original Value */}
           <div className="flex items-center gap-2 text-sm">
             <span className="text-muted-foreground">Original:</span>
             <span className="font-medium">
-              {debate.assumption.currentValue} {debate.assumption.unit}
+              {String(entry.originalValue ?? '-')}{unit}
             </span>
-            {decision?.newValue !== undefined && (
+            {entry.finalValue !== undefined && (
               <>
                 <ArrowRight className="h-4 w-4 text-muted-foreground" />
                 <span className="font-medium text-primary">
-                  {decision.newValue} {debate.assumption.unit}
+                  {String(entry.finalValue)}{unit}
                 </span>
               </>
             )}
           </div>
 
           {/* Bull Arguments */}
-          {debate.bullCase.arguments.length > 0 && (
+          {entry.bullArguments.length > 0 && (
             <div className="p-3 bg-green-50 dark:bg-green-950 rounded-lg">
               <div className="flex items-center gap-2 text-sm font-medium text-green-600 mb-2">
                 <TrendingUp className="h-4 w-4" />
                 Bull Case Arguments
               </div>
               <ul className="text-sm space-y-1">
-                {debate.bullCase.arguments.map((arg, i) => (
+                {entry.bullArguments.map((arg, i) => (
                   <li key={i} className="text-muted-foreground">
                     • {arg}
                   </li>
@@ -116,14 +126,14 @@ function DebateHistoryItem({ debate }: { debate: DebateResult }) {
           )}
 
           {/* Bear Arguments */}
-          {debate.bearCase.arguments.length > 0 && (
+          {entry.bearArguments.length > 0 && (
             <div className="p-3 bg-red-50 dark:bg-red-950 rounded-lg">
               <div className="flex items-center gap-2 text-sm font-medium text-red-600 mb-2">
                 <TrendingDown className="h-4 w-4" />
                 Bear Case Arguments
               </div>
               <ul className="text-sm space-y-1">
-                {debate.bearCase.arguments.map((arg, i) => (
+                {entry.bearArguments.map((arg, i) => (
                   <li key={i} className="text-muted-foreground">
                     • {arg}
                   </li>
@@ -133,10 +143,10 @@ function DebateHistoryItem({ debate }: { debate: DebateResult }) {
           )}
 
           {/* User Reasoning */}
-          {decision?.reasoning && (
+          {entry.reasoning && (
             <div className="p-3 bg-muted rounded-lg">
               <div className="text-sm font-medium mb-1">Your Reasoning:</div>
-              <p className="text-sm text-muted-foreground">{decision.reasoning}</p>
+              <p className="text-sm text-muted-foreground">{entry.reasoning}</p>
             </div>
           )}
         </div>
@@ -149,27 +159,10 @@ function DebateHistoryItem({ debate }: { debate: DebateResult }) {
 // Main Component
 // ============================================================================
 
-export function EvidenceTrailPanel({ className, filterAssumption }: EvidenceTrailPanelProps) {
-  const [trail, setTrail] = React.useState<DebateResult[]>([]);
-
-  // Load trail on mount
-  React.useEffect(() => {
-    setTrail(getEvidenceTrail());
-  }, []);
+export function EvidenceTrailPanel({ className, filterPath }: EvidenceTrailPanelProps) {
+  const { entries, clear } = useDebateLedger(filterPath ? { path: filterPath } : undefined);
 
-  // Filter trail if filterAssumption is provided
-  const filteredTrail = useMemo(() => {
-    if (!filterAssumption) return trail;
-    return trail.filter((d) => d.assumption.assumptionLabel === filterAssumption);
-  }, [trail, filterAssumption]);
-
-  // Handle clear
-  const handleClear = () => {
-    clearEvidenceTrail();
-    setTrail([]);
-  };
-
-  if (filteredTrail.length === 0) {
+  if (entries.length === 0) {
     return (
       <Card className={className}>
         <CardContent className="flex flex-col items-center justify-center py-12 gap-4">
@@ -193,13 +186,13 @@ export function EvidenceTrailPanel({ className, filterAssumption }: EvidenceTrai
             <History className="h-5 w-5" />
             Evidence Trail
             <Badge variant="secondary" className="ml-2">
-              {filteredTrail.length} debate{filteredTrail.length !== 1 ? 's' : ''}
+              {entries.length} debate{entries.length !== 1 ? 's' : ''}
             </Badge>
           </CardTitle>
           <Button
             variant="ghost"
             size="sm"
-            onClick={handleClear}
+            onClick={clear}
             className="text-muted-foreground hover:text-destructive"
           >
             <Trash2 className="h-4 w-4 mr-1" />
@@ -210,11 +203,9 @@ export function EvidenceTrailPanel({ className, filterAssumption }: EvidenceTrai
       <CardContent className="pt-0">
         <ScrollArea className="h-[400px]">
           <Accordion type="single" collapsible className="w-full">
-            {filteredTrail
-              .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-              .map((debate) => (
-                <DebateHistoryItem key={debate.timestamp} debate={debate} />
-              ))}
+            {entries.map((entry) => (
+              <DebateHistoryItem key={entry.id} entry={entry} />
+            ))}
           </Accordion>
         </ScrollArea>
       </CardContent>
@@ -3,4 +3,5 @@
  */
 
 export { AssumptionDebateDialog } from './AssumptionDebateDialog';
+export { BatchReviewDialog } from './BatchReviewDialog';
 export { EvidenceTrailPanel } from './EvidenceTrailPanel';
@@ -46,7 +46,7 @@ import {
   PolarRadiusAxis,
   Radar
 } from 'recharts';
-import { calculateSegmentVolumeForMonth } from '@/core/engine';
+import { calculateSegmentVolumeForMonth, getModelPeriods } from '@/core/engine';
 
 interface CustomerSegmentsProps {
   data: BusinessData;
@@ -113,7 +113,7 @@ export function CustomerSegments({ data }: CustomerSegmentsProps) {
     const segments = data.assumptions?.customers?.segments || [];
     
     // Generate projections for the specified periods
-    const periods = data.meta?.periods || 60;
+    const periods = getModelPeriods(data);
     for (let month = 0; month < periods; month++) {
       const projection: VolumeProjection = {
         month: month + 1,
@@ -5,7 +5,7 @@ import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, R
 import { TrendingUp, BarChart3, Users, DollarSign, Activity, PieChart as PieChartIcon } from 'lucide-react';
 import { useBusinessData } from '@/core/contexts';
 import { BusinessData } from '@/core/types';
-import { calculateBusinessMetrics } from '@/core/engine';
+import { calculateBusinessMetrics, getModelPeriods } from '@/core/engine';
 
 interface DataVisualizationProps {
   data: BusinessData;
@@ -65,7 +65,7 @@ export function DataVisualization({ data }: DataVisualizationProps) {
     
     let cumulativeCashFlow = -50000;
     
-    return Array.from({ length: businessData.meta.periods || 60 }, (_, i) => {
+    return Array.from({ length: getModelPeriods(businessData) }, (_, i) => {
       const growthFactor = Math.pow(1 + growthRate, i);
       const seasonality = 1 + Math.sin((i / 12) * 2 * Math.PI) * 0.1;
       
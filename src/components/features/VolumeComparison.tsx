@@ -9,8 +9,8 @@ import { AlertCircle, TrendingUp, ArrowRight, BarChart3, Calculator, Download }
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart } from 'recharts';
 import { Textarea } from '@/components/ui/textarea';
 import { MarketAnalysisTemplate } from '@/modules/market-analysis/components/MarketAnalysisTemplate';
+import type { MarketData } from '@/core/types';
 import { 
-  MarketData,
   getMarketPenetrationTrajectory,
   formatMarketCurrency,
   formatMarketPercent
@@ -39,7 +39,7 @@ import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useBusinessData } from '@/core/contexts';
-import { calculateBusinessMetrics } from '@/core/engine';
+import { calculateBusinessMetrics, getModelPeriods } from '@/core/engine';
 import { WhatIfSlider } from './WhatIfSlider';
 import {
   PlaygroundSlider,
@@ -273,7 +273,7 @@ export function WhatIfPlayground({ className }: WhatIfPlaygroundProps) {
 
     // Calculate current (with slider adjustments)
     // For now, we'll simulate the adjustments
-    const periods = data.meta.periods || 60;
+    const periods = getModelPeriods(data);
     const pricing = data.assumptions?.pricing || {};
     const unitEcon = data.assumptions?.unit_economics || {};
     const costs = data.assumptions?.costs || {};
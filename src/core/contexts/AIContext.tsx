@@ -1,12 +1,47 @@
 /**
  * AIContext - State management for AI Co-pilot features
- * Manages chat messages, streaming state, and token usage
+ * Manages chat messages, streaming state, token usage and the suggestion review queue
+ * Gives tool-capable models access to the calculation engine through local tools
  * Supports context-aware system prompts for different analysis modes
+ * Conversations are kept as named threads per business case or market analysis and persisted locally
+ * Every request is priced into a usage ledger; budget caps are checked before requests are sent
  */
 
 import React, { createContext, useCallback, useContext, useMemo, useReducer, useRef } from 'react';
-import type { AIState, ChatMessage, ResearchDocument } from '@/core/types/ai';
-import { aiService, AVAILABLE_MODELS } from '@/core/services/ai-service';
+import { toast } from '@/hooks/use-toast';
+import { generateThreadId } from '@/core/types/ai';
+import type {
+  AISuggestion,
+  AIState,
+  ChatMessage,
+  ChatThread,
+  ChatThreadScope,
+  ResearchDocument,
+  ToolCallRecord,
+  UsageEntry,
+  UsageFeature,
+} from '@/core/types/ai';
+import { aiService, AVAILABLE_MODELS, modelSupportsTools } from '@/core/services/ai-service';
+import type { AIModelInfo, AIProviderAdapter, AIProviderId, TokenUsage } from '@/core/services/ai-providers';
+import {
+  checkBudget,
+  createUsageEntry,
+  DEFAULT_USAGE_SETTINGS,
+  getBudgetMessage,
+  getBudgetPeriodStart,
+  MAX_LEDGER_ENTRIES,
+  type BudgetCheck,
+  type UsageSettings,
+} from '@/core/services/ai-usage';
+import { createCopilotTools, TOOL_USE_INSTRUCTIONS } from '@/core/services/ai-tools';
+import {
+  buildAcceptedValue,
+  parseSuggestions,
+  SUGGESTION_FORMAT_INSTRUCTIONS,
+} from '@/core/services/ai-suggestions';
+import { storageService, STORAGE_KEYS } from '@/core/services/storage.service';
+import { getNestedValue } from '@/core/engine/utils/nested-operations';
+import { useData } from './DataContext';
 
 // ============================================================================
 // Types
@@ -17,6 +52,10 @@ export type AIContextType = 'general' | 'market-analysis' | 'business-case';
 type AIAction =
   | { type: 'ADD_MESSAGE'; message: ChatMessage }
   | { type: 'UPDATE_LAST_MESSAGE'; content: string }
+  | { type: 'ATTACH_SUGGESTIONS'; messageId: string; content: string; suggestions: AISuggestion[] }
+  | { type: 'RESPOND_TO_SUGGESTION'; id: string; status: 'accepted' | 'rejected' }
+  | { type: 'ADD_TOOL_CALL'; messageId: string; record: ToolCallRecord }
+  | { type: 'SET_MESSAGE_TOKENS'; messageId: string; tokens: number }
   | { type: 'SET_STREAMING'; isStreaming: boolean }
   | { type: 'SET_MODEL'; model: string }
   | { type: 'ADD_TOKENS'; tokens: number }
@@ -24,23 +63,54 @@ type AIAction =
   | { type: 'CLEAR_MESSAGES' }
   | { type: 'REMOVE_MESSAGE'; id: string }
   | { type: 'SET_CONTEXT_TYPE'; contextType: AIContextType }
-  | { type: 'SET_SYSTEM_PROMPT'; prompt: string };
+  | { type: 'SET_SYSTEM_PROMPT'; prompt: string }
+  | { type: 'NEW_THREAD' }
+  | { type: 'SWITCH_THREAD'; id: string }
+  | { type: 'RENAME_THREAD'; id: string; name: string }
+  | { type: 'DELETE_THREAD'; id: string }
+  | { type: 'SET_THREAD_SCOPE'; scope: ChatThreadScope; scopeTitle?: string }
+  | { type: 'RECORD_USAGE'; entry: UsageEntry }
+  | { type: 'CLEAR_USAGE' }
+  | { type: 'SET_USAGE_SETTINGS'; settings: UsageSettings };
 
 interface AIContextValue {
   state: AIState;
-  sendMessage: (content: string) => Promise<void>;
-  sendMessageWithPrompt: (content: string, customSystemPrompt: string) => Promise<void>;
+  sendMessage: (content: string, feature?: UsageFeature) => Promise<void>;
+  sendMessageWithPrompt: (content: string, customSystemPrompt: string, feature?: UsageFeature) => Promise<void>;
   cancelStream: () => void;
   clearMessages: () => void;
+  acceptSuggestion: (id: string) => void;
+  rejectSuggestion: (id: string) => void;
   setModel: (model: string) => void;
   setContextType: (contextType: AIContextType) => void;
   setSystemPrompt: (prompt: string) => void;
+  // Conversation threads
+  threads: readonly ChatThread[];
+  activeThread: ChatThread | null;
+  newThread: () => void;
+  switchThread: (id: string) => void;
+  renameThread: (id: string, name: string) => void;
+  deleteThread: (id: string) => void;
+  setThreadScope: (scope: ChatThreadScope, scopeTitle?: string) => void;
+  // Usage ledger and budget
+  usage: readonly UsageEntry[];
+  usageSettings: UsageSettings;
+  budget: BudgetCheck;
+  ensureBudget: () => boolean;
+  recordUsage: (feature: UsageFeature, model: string | undefined, tokenUsage: TokenUsage | undefined) => void;
+  updateUsageSettings: (settings: UsageSettings) => void;
+  clearUsage: () => void;
   isOpen: boolean;
   setIsOpen: (open: boolean) => void;
-  availableModels: typeof AVAILABLE_MODELS;
+  availableModels: readonly AIModelInfo[];
   contextType: AIContextType;
+  // Provider selection
+  provider: AIProviderAdapter;
+  providers: readonly AIProviderAdapter[];
+  setProvider: (id: AIProviderId) => void;
+  setBaseUrl: (url: string) => void;
   // API Key management (BYOK)
-  hasApiKey: boolean;
+  hasApiKey: boolean;  // Key set, or not needed by the selected provider
   setApiKey: (key: string) => void;
   clearApiKey: () => void;
 }
@@ -57,8 +127,16 @@ Format responses in markdown for clarity.`;
 interface ExtendedAIState extends AIState {
   contextType: AIContextType;
   customSystemPrompt: string | null;
+  threads: readonly ChatThread[];
+  activeThreadId: string | null;
+  threadScope: ChatThreadScope;
+  scopeTitle?: string;
+  usage: readonly UsageEntry[];
+  usageSettings: UsageSettings;
 }
 
+const THREAD_NAME_LENGTH = 40;
+
 const initialState: ExtendedAIState = {
   messages: [],
   pendingSuggestions: [],
@@ -68,19 +146,83 @@ const initialState: ExtendedAIState = {
   totalTokensUsed: 0,
   contextType: 'general',
   customSystemPrompt: null,
+  threads: [],
+  activeThreadId: null,
+  threadScope: 'general',
+  usage: [],
+  usageSettings: DEFAULT_USAGE_SETTINGS,
 };
 
+const loadInitialState = (): ExtendedAIState => ({
+  ...initialState,
+  selectedModel: aiService.resolveModel(initialState.selectedModel),
+  threads: storageService.loadWithDefault<ChatThread[]>(STORAGE_KEYS.AI_CHAT_THREADS, []),
+  usage: storageService.loadWithDefault<UsageEntry[]>(STORAGE_KEYS.AI_USAGE_LEDGER, []),
+  usageSettings: loadUsageSettings(),
+});
+
+// Saved prices override the defaults, so newly added models stay priced
+function loadUsageSettings(): UsageSettings {
+  const saved = storageService.loadWithDefault<Partial<UsageSettings>>(STORAGE_KEYS.AI_USAGE_SETTINGS, {});
+  return {
+    ...DEFAULT_USAGE_SETTINGS,
+    ...saved,
+    prices: { ...DEFAULT_USAGE_SETTINGS.prices, ...saved.prices },
+  };
+}
+
+// ============================================================================
+// Thread Helpers
+// ============================================================================
+
+function nameFromMessage(content: string): string {
+  const text = content.trim().replace(/\s+/g, ' ');
+  return text.length > THREAD_NAME_LENGTH ? `${text.slice(0, THREAD_NAME_LENGTH - 1)}…` : text || 'New conversation';
+}
+
+function isInScope(thread: ChatThread, scope: ChatThreadScope, scopeTitle?: string): boolean {
+  return thread.scope === scope && (thread.scopeTitle || undefined) === (scopeTitle || undefined);
+}
+
+/**
+ * Load a thread into the live conversation, restoring its unanswered suggestions
+ */
+function openThread(state: ExtendedAIState, thread: ChatThread | undefined): ExtendedAIState {
+  return {
+    ...state,
+    activeThreadId: thread?.id ?? null,
+    messages: thread ? [...thread.messages] : [],
+    pendingSuggestions: thread
+      ? thread.messages.flatMap((m) => (m.suggestions || []).filter((s) => s.status === 'pending'))
+      : [],
+  };
+}
+
 // ============================================================================
 // Reducer
 // ============================================================================
 
 function aiReducer(state: ExtendedAIState, action: AIAction): ExtendedAIState {
   switch (action.type) {
-    case 'ADD_MESSAGE':
-      return {
-        ...state,
-        messages: [...state.messages, action.message],
+    case 'ADD_MESSAGE': {
+      const messages = [...state.messages, action.message];
+      if (state.activeThreadId) {
+        return { ...state, messages };
+      }
+
+      // The first message of a conversation starts a new thread named after it
+      const now = new Date().toISOString();
+      const thread: ChatThread = {
+        id: generateThreadId(),
+        name: nameFromMessage(action.message.content),
+        scope: state.threadScope,
+        scopeTitle: state.scopeTitle,
+        messages: [],
+        createdAt: now,
+        updatedAt: now,
       };
+      return { ...state, messages, threads: [thread, ...state.threads], activeThreadId: thread.id };
+    }
 
     case 'UPDATE_LAST_MESSAGE': {
       const messages = [...state.messages];
@@ -94,6 +236,53 @@ function aiReducer(state: ExtendedAIState, action: AIAction): ExtendedAIState {
       return { ...state, messages };
     }
 
+    case 'ATTACH_SUGGESTIONS':
+      return {
+        ...state,
+        messages: state.messages.map((m) =>
+          m.id === action.messageId
+            ? { ...m, content: action.content, suggestions: action.suggestions }
+            : m
+        ),
+        pendingSuggestions: [...state.pendingSuggestions, ...action.suggestions],
+      };
+
+    case 'RESPOND_TO_SUGGESTION': {
+      const respondedAt = new Date().toISOString();
+      return {
+        ...state,
+        messages: state.messages.map((m) =>
+          m.suggestions?.some((s) => s.id === action.id)
+            ? {
+                ...m,
+                suggestions: m.suggestions.map((s) =>
+                  s.id === action.id ? { ...s, status: action.status, respondedAt } : s
+                ),
+              }
+            : m
+        ),
+        pendingSuggestions: state.pendingSuggestions.filter((s) => s.id !== action.id),
+      };
+    }
+
+    case 'ADD_TOOL_CALL':
+      return {
+        ...state,
+        messages: state.messages.map((m) =>
+          m.id === action.messageId
+            ? { ...m, toolCalls: [...(m.toolCalls || []), action.record] }
+            : m
+        ),
+      };
+
+    case 'SET_MESSAGE_TOKENS':
+      return {
+        ...state,
+        messages: state.messages.map((m) =>
+          m.id === action.messageId ? { ...m, tokenCount: action.tokens } : m
+        ),
+      };
+
     case 'SET_STREAMING':
       return { ...state, isStreaming: action.isStreaming };
 
@@ -127,11 +316,73 @@ function aiReducer(state: ExtendedAIState, action: AIAction): ExtendedAIState {
     case 'SET_SYSTEM_PROMPT':
       return { ...state, customSystemPrompt: action.prompt };
 
+    // Switching threads mid-stream would send the remaining chunks to the wrong conversation
+    case 'NEW_THREAD':
+      return state.isStreaming ? state : openThread(state, undefined);
+
+    case 'SWITCH_THREAD': {
+      const thread = state.threads.find((t) => t.id === action.id);
+      return state.isStreaming || !thread ? state : openThread(state, thread);
+    }
+
+    case 'RENAME_THREAD': {
+      const name = action.name.trim();
+      if (!name) return state;
+      return {
+        ...state,
+        threads: state.threads.map((t) => (t.id === action.id ? { ...t, name } : t)),
+      };
+    }
+
+    case 'DELETE_THREAD': {
+      if (state.isStreaming && action.id === state.activeThreadId) return state;
+      const next = { ...state, threads: state.threads.filter((t) => t.id !== action.id) };
+      return action.id === state.activeThreadId ? openThread(next, undefined) : next;
+    }
+
+    case 'SET_THREAD_SCOPE': {
+      if (state.isStreaming) return state;
+      if (state.threadScope === action.scope && state.scopeTitle === action.scopeTitle) return state;
+
+      // Resume the most recent conversation about this business case or market analysis
+      const latest = state.threads
+        .filter((t) => isInScope(t, action.scope, action.scopeTitle))
+        .reduce<ChatThread | undefined>((best, t) => (!best || t.updatedAt > best.updatedAt ? t : best), undefined);
+      return openThread({ ...state, threadScope: action.scope, scopeTitle: action.scopeTitle }, latest);
+    }
+
+    case 'RECORD_USAGE':
+      return { ...state, usage: [...state.usage, action.entry].slice(-MAX_LEDGER_ENTRIES) };
+
+    case 'CLEAR_USAGE':
+      return { ...state, usage: [] };
+
+    case 'SET_USAGE_SETTINGS':
+      return { ...state, usageSettings: action.settings };
+
     default:
       return state;
   }
 }
 
+/**
+ * Keep the active thread in step with the live conversation
+ */
+function threadedReducer(state: ExtendedAIState, action: AIAction): ExtendedAIState {
+  const next = aiReducer(state, action);
+  const opened = action.type === 'SWITCH_THREAD' || action.type === 'SET_THREAD_SCOPE';
+  if (next.messages === state.messages || !next.activeThreadId || opened) {
+    return next;
+  }
+  const updatedAt = new Date().toISOString();
+  return {
+    ...next,
+    threads: next.threads.map((t) =>
+      t.id === next.activeThreadId ? { ...t, messages: next.messages, updatedAt } : t
+    ),
+  };
+}
+
 // ============================================================================
 // Context
 // ============================================================================
@@ -147,11 +398,82 @@ interface AIProviderProps {
 }
 
 export function AIProvider({ children }: AIProviderProps) {
-  const [state, dispatch] = useReducer(aiReducer, initialState);
+  const [state, dispatch] = useReducer(threadedReducer, undefined, loadInitialState);
   const [isOpen, setIsOpen] = React.useState(false);
-  const [hasApiKey, setHasApiKey] = React.useState(() => aiService.hasApiKey());
+  const [hasApiKey, setHasApiKey] = React.useState(() => aiService.isConfigured());
+  const [provider, setProviderState] = React.useState(() => aiService.getProvider());
   const streamContentRef = useRef('');
 
+  // Suggestions are validated against the data at the moment the reply completes
+  const { state: dataState, updateBusinessAssumption, updateMarketAssumption } = useData();
+  const dataRef = useRef({ business: dataState.business.data, market: dataState.market.data });
+  dataRef.current = { business: dataState.business.data, market: dataState.market.data };
+  const tools = useMemo(() => createCopilotTools(() => dataRef.current), []);
+
+  // Persist threads once a reply has finished rather than on every streamed chunk
+  React.useEffect(() => {
+    if (state.isStreaming) return;
+    storageService.save(STORAGE_KEYS.AI_CHAT_THREADS, state.threads);
+  }, [state.threads, state.isStreaming]);
+
+  React.useEffect(() => {
+    storageService.save(STORAGE_KEYS.AI_USAGE_LEDGER, state.usage);
+  }, [state.usage]);
+
+  React.useEffect(() => {
+    storageService.save(STORAGE_KEYS.AI_USAGE_SETTINGS, state.usageSettings);
+  }, [state.usageSettings]);
+
+  // Budget checks read the latest ledger even from callbacks created before it changed
+  const usageRef = useRef({ usage: state.usage, settings: state.usageSettings });
+  usageRef.current = { usage: state.usage, settings: state.usageSettings };
+  const softWarningPeriodRef = useRef<number | null>(null);
+
+  /**
+   * Check the caps before a request; blocks at the hard cap and warns once per month at the soft cap
+   */
+  const ensureBudget = useCallback(() => {
+    const check = checkBudget(usageRef.current.usage, usageRef.current.settings);
+    if (check.status === 'hard') {
+      toast({ title: 'AI budget reached', description: getBudgetMessage(check), variant: 'destructive' });
+      return false;
+    }
+    const period = getBudgetPeriodStart().getTime();
+    if (check.status === 'soft' && softWarningPeriodRef.current !== period) {
+      softWarningPeriodRef.current = period;
+      toast({ title: 'AI budget warning', description: getBudgetMessage(check) });
+    }
+    return true;
+  }, []);
+
+  const recordUsage = useCallback(
+    (feature: UsageFeature, model: string | undefined, tokenUsage: TokenUsage | undefined) => {
+      if (!tokenUsage) return;
+      const entry = createUsageEntry(
+        feature,
+        aiService.getProvider().id,
+        aiService.resolveModel(model),
+        tokenUsage,
+        usageRef.current.settings.prices
+      );
+      dispatch({ type: 'RECORD_USAGE', entry });
+    },
+    []
+  );
+
+  const updateUsageSettings = useCallback((settings: UsageSettings) => {
+    dispatch({ type: 'SET_USAGE_SETTINGS', settings });
+  }, []);
+
+  const clearUsage = useCallback(() => {
+    dispatch({ type: 'CLEAR_USAGE' });
+  }, []);
+
+  const budget = useMemo(
+    () => checkBudget(state.usage, state.usageSettings),
+    [state.usage, state.usageSettings]
+  );
+
   // API Key management methods
   const setApiKey = useCallback((key: string) => {
     aiService.setApiKey(key);
@@ -160,26 +482,45 @@ export function AIProvider({ children }: AIProviderProps) {
 
   const clearApiKey = useCallback(() => {
     aiService.clearApiKey();
-    setHasApiKey(false);
+    setHasApiKey(aiService.isConfigured());
+  }, []);
+
+  // Switching provider also switches to one of its models
+  const setProvider = useCallback((id: AIProviderId) => {
+    aiService.setProvider(id);
+    setProviderState(aiService.getProvider());
+    setHasApiKey(aiService.isConfigured());
+    dispatch({ type: 'SET_MODEL', model: aiService.resolveModel() });
+  }, []);
+
+  const setBaseUrl = useCallback((url: string) => {
+    aiService.setBaseUrl(url);
   }, []);
 
   // Core message sending logic
   const sendMessageCore = useCallback(
-    async (content: string, systemPrompt: string) => {
+    async (content: string, systemPrompt: string, feature: UsageFeature) => {
       if (!content.trim() || state.isStreaming) return;
+      if (!ensureBudget()) return;
 
       // Add user message
       const userMessage = aiService.createUserMessage(content);
       dispatch({ type: 'ADD_MESSAGE', message: userMessage });
 
       // Create placeholder for assistant response
-      const assistantMessage = aiService.createAssistantMessage('');
+      const assistantMessage: ChatMessage = {
+        ...aiService.createAssistantMessage(''),
+        modelId: state.selectedModel,
+      };
       dispatch({ type: 'ADD_MESSAGE', message: assistantMessage });
       dispatch({ type: 'SET_STREAMING', isStreaming: true });
       streamContentRef.current = '';
 
       // Prepare messages for API (include system prompt + sliding window)
-      const systemMessage = aiService.createSystemMessage(systemPrompt);
+      const useTools = modelSupportsTools(state.selectedModel);
+      const systemMessage = aiService.createSystemMessage(
+        [systemPrompt, useTools && TOOL_USE_INSTRUCTIONS, SUGGESTION_FORMAT_INSTRUCTIONS].filter(Boolean).join('\n\n')
+      );
       const recentMessages = state.messages.slice(-6); // Keep last 6 messages for context
       const apiMessages = aiService.toServiceMessages([systemMessage, ...recentMessages, userMessage]);
 
@@ -191,10 +532,29 @@ export function AIProvider({ children }: AIProviderProps) {
             streamContentRef.current += chunk;
             dispatch({ type: 'UPDATE_LAST_MESSAGE', content: streamContentRef.current });
           },
+          onToolCall: (record) => {
+            dispatch({ type: 'ADD_TOOL_CALL', messageId: assistantMessage.id, record });
+          },
           onComplete: (response) => {
             dispatch({ type: 'SET_STREAMING', isStreaming: false });
+
+            const parsed = parseSuggestions(streamContentRef.current, dataRef.current);
+            if (parsed.rejected.length > 0) {
+              console.warn('Dropped AI suggestions:', parsed.rejected);
+            }
+            if (parsed.suggestions.length > 0 || parsed.content !== streamContentRef.current) {
+              dispatch({
+                type: 'ATTACH_SUGGESTIONS',
+                messageId: assistantMessage.id,
+                content: parsed.content,
+                suggestions: parsed.suggestions,
+              });
+            }
+
+            recordUsage(feature, state.selectedModel, response.tokenUsage);
             if (response.tokenUsage) {
               dispatch({ type: 'ADD_TOKENS', tokens: response.tokenUsage.total });
+              dispatch({ type: 'SET_MESSAGE_TOKENS', messageId: assistantMessage.id, tokens: response.tokenUsage.total });
             }
           },
           onError: (error) => {
@@ -225,25 +585,25 @@ export function AIProvider({ children }: AIProviderProps) {
             });
           },
         },
-        { model: state.selectedModel }
+        { model: state.selectedModel, tools: useTools ? tools : undefined }
       );
     },
-    [state.isStreaming, state.messages, state.selectedModel]
+    [state.isStreaming, state.messages, state.selectedModel, tools, ensureBudget, recordUsage]
   );
 
   // Send message with default or custom system prompt
   const sendMessage = useCallback(
-    async (content: string) => {
+    async (content: string, feature: UsageFeature = 'chat') => {
       const systemPrompt = state.customSystemPrompt || DEFAULT_SYSTEM_PROMPT;
-      await sendMessageCore(content, systemPrompt);
+      await sendMessageCore(content, systemPrompt, feature);
     },
     [sendMessageCore, state.customSystemPrompt]
   );
 
   // Send message with a specific system prompt (one-time override)
   const sendMessageWithPrompt = useCallback(
-    async (content: string, customSystemPrompt: string) => {
-      await sendMessageCore(content, customSystemPrompt);
+    async (content: string, customSystemPrompt: string, feature: UsageFeature = 'chat') => {
+      await sendMessageCore(content, customSystemPrompt, feature);
     },
     [sendMessageCore]
   );
@@ -257,6 +617,28 @@ export function AIProvider({ children }: AIProviderProps) {
     dispatch({ type: 'CLEAR_MESSAGES' });
   }, []);
 
+  // Accepted suggestions are written through the data context so they persist like manual edits
+  const acceptSuggestion = useCallback(
+    (id: string) => {
+      const suggestion = state.pendingSuggestions.find((s) => s.id === id);
+      if (!suggestion) return;
+
+      const existing = getNestedValue(dataRef.current[suggestion.target], suggestion.path);
+      const value = buildAcceptedValue(existing, suggestion);
+      if (suggestion.target === 'market') {
+        updateMarketAssumption(suggestion.path, value);
+      } else {
+        updateBusinessAssumption(suggestion.path, value);
+      }
+      dispatch({ type: 'RESPOND_TO_SUGGESTION', id, status: 'accepted' });
+    },
+    [state.pendingSuggestions, updateBusinessAssumption, updateMarketAssumption]
+  );
+
+  const rejectSuggestion = useCallback((id: string) => {
+    dispatch({ type: 'RESPOND_TO_SUGGESTION', id, status: 'rejected' });
+  }, []);
+
   const setModel = useCallback((model: string) => {
     dispatch({ type: 'SET_MODEL', model });
   }, []);
@@ -269,6 +651,40 @@ export function AIProvider({ children }: AIProviderProps) {
     dispatch({ type: 'SET_SYSTEM_PROMPT', prompt });
   }, []);
 
+  const newThread = useCallback(() => {
+    dispatch({ type: 'NEW_THREAD' });
+  }, []);
+
+  const switchThread = useCallback((id: string) => {
+    dispatch({ type: 'SWITCH_THREAD', id });
+  }, []);
+
+  const renameThread = useCallback((id: string, name: string) => {
+    dispatch({ type: 'RENAME_THREAD', id, name });
+  }, []);
+
+  const deleteThread = useCallback((id: string) => {
+    dispatch({ type: 'DELETE_THREAD', id });
+  }, []);
+
+  const setThreadScope = useCallback((scope: ChatThreadScope, scopeTitle?: string) => {
+    dispatch({ type: 'SET_THREAD_SCOPE', scope, scopeTitle });
+  }, []);
+
+  // Only threads about the current business case or market analysis are offered
+  const threads = useMemo(
+    () =>
+      state.threads
+        .filter((t) => isInScope(t, state.threadScope, state.scopeTitle))
+        .slice()
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    [state.threads, state.threadScope, state.scopeTitle]
+  );
+  const activeThread = useMemo(
+    () => state.threads.find((t) => t.id === state.activeThreadId) ?? null,
+    [state.threads, state.activeThreadId]
+  );
+
   const value = useMemo(
     () => ({
       state,
@@ -276,19 +692,41 @@ export function AIProvider({ children }: AIProviderProps) {
       sendMessageWithPrompt,
       cancelStream,
       clearMessages,
+      acceptSuggestion,
+      rejectSuggestion,
       setModel,
       setContextType,
       setSystemPrompt,
+      threads,
+      activeThread,
+      newThread,
+      switchThread,
+      renameThread,
+      deleteThread,
+      setThreadScope,
+      // Usage ledger and budget
+      usage: state.usage,
+      usageSettings: state.usageSettings,
+      budget,
+      ensureBudget,
+      recordUsage,
+      updateUsageSettings,
+      clearUsage,
       isOpen,
       setIsOpen,
-      availableModels: AVAILABLE_MODELS,
+      availableModels: provider.models,
       contextType: state.contextType,
+      // Provider selection
+      provider,
+      providers: aiService.getProviders(),
+      setProvider,
+      setBaseUrl,
       // API Key management (BYOK)
       hasApiKey,
       setApiKey,
       clearApiKey,
     }),
-    [state, sendMessage, sendMessageWithPrompt, cancelStream, clearMessages, setModel, setContextType, setSystemPrompt, isOpen, hasApiKey, setApiKey, clearApiKey]
+    [state, sendMessage, sendMessageWithPrompt, cancelStream, clearMessages, acceptSuggestion, rejectSuggestion, setModel, setContextType, setSystemPrompt, threads, activeThread, newThread, switchThread, renameThread, deleteThread, setThreadScope, budget, ensureBudget, recordUsage, updateUsageSettings, clearUsage, isOpen, provider, setProvider, setBaseUrl, hasApiKey, setApiKey, clearApiKey]
   );
 
   return <AIContext.Provider value={value}>{children}</AIContext.Provider>;
@@ -12,6 +12,7 @@ import { storageService, STORAGE_KEYS } from '@/core/services/storage.service';
 import { validationService } from '@/core/services/validation.service';
 import { syncService } from '@/core/services/sync.service';
 import { setNestedValue } from '@/core/engine';
+import { applyMarketLinks } from '@/core/services/data-sync.service';
 
 // ============================================================================
 // Types
@@ -547,6 +548,32 @@ export function DataProvider({ children }: DataProviderProps) {
     research: state.research.documents,
   }), [state.business.data, state.market.data, state.research.documents]);
 
+  // ============================================================================
+  // Market Links
+  // ============================================================================
+
+  // Regenerate the volume of market-linked segments whenever either side changes
+  useEffect(() => {
+    if (!state.business.data || !state.market.data) return;
+
+    setState(prev => {
+      if (!prev.business.data || !prev.market.data) return prev;
+
+      const linked = applyMarketLinks(prev.business.data, prev.market.data);
+      if (linked === prev.business.data) return prev;
+
+      storageService.save(STORAGE_KEYS.BUSINESS_DATA, linked);
+      return {
+        ...prev,
+        business: {
+          ...prev.business,
+          data: linked,
+          lastModified: new Date().toISOString(),
+        },
+      };
+    });
+  }, [state.business.data, state.market.data]);
+
   // ============================================================================
   // Storage Event Listener
   // ============================================================================
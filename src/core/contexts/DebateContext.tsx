@@ -1,6 +1,9 @@
 /**
  * DebateContext - State management for Assumption Debate Mode
  * Manages debate rounds, evidence trail, and AI-generated arguments
+ * Debate requests are checked against the AI budget and recorded in the usage ledger
+ * Optional rebuttal rounds and a judge pass extend the opening bull/bear cases
+ * Decisions are recorded in the shared debate ledger
  */
 
 import React, { createContext, useCallback, useContext, useMemo, useReducer } from 'react';
@@ -8,21 +11,33 @@ import type {
   DebateState,
   DebateRound,
   DebateArgument,
+  DebateJudgement,
+  DebateRebuttal,
   EvidenceTrailEntry,
 } from '@/core/types/ai';
 import {
   generateDebateId,
   generateArgumentId,
   createEvidenceEntry,
+  countRebuttalRounds,
 } from '@/core/types/ai';
 import { aiService } from '@/core/services/ai-service';
-import { storageService } from '@/core/services/storage.service';
-
-// ============================================================================
-// Storage Key
-// ============================================================================
-
-const DEBATE_STORAGE_KEY = 'bizcaseland_debate_state';
+import {
+  buildJudgePrompt,
+  buildRebuttalPrompt,
+  JUDGE_SYSTEM_PROMPT,
+  MAX_REBUTTAL_ROUNDS,
+  parseJudgementResponse,
+  parseRebuttalResponse,
+  REBUTTAL_SYSTEM_PROMPT,
+} from '@/core/services/debate-rounds';
+import { storageService, STORAGE_KEYS } from '@/core/services/storage.service';
+import { debateLedger } from '@/core/services/debate-ledger';
+import { useAI } from './AIContext';
+import { useDebateLedger } from './hooks/useDebateLedger';
+
+// Use Claude Sonnet 4.5 for quality debates (providers without it use their default model)
+const DEBATE_MODEL = 'anthropic/claude-sonnet-4-5';
 
 // ============================================================================
 // Types
@@ -32,16 +47,19 @@ type DebateAction =
   | { type: 'SET_ACTIVE_DEBATE'; debate: DebateRound | null }
   | { type: 'ADD_TO_HISTORY'; debate: DebateRound }
   | { type: 'UPDATE_ACTIVE_DEBATE'; updates: Partial<DebateRound> }
-  | { type: 'ADD_EVIDENCE'; entry: EvidenceTrailEntry }
+  | { type: 'ADD_REBUTTALS'; debateId: string; rebuttals: DebateRebuttal[] }
+  | { type: 'SET_JUDGEMENT'; debateId: string; judgement: DebateJudgement }
   | { type: 'SET_GENERATING'; isGenerating: boolean }
   | { type: 'CLEAR_HISTORY' }
-  | { type: 'CLEAR_EVIDENCE_TRAIL' }
   | { type: 'LOAD_STATE'; state: DebateState };
 
 interface DebateContextValue {
   state: DebateState;
+  evidenceTrail: readonly EvidenceTrailEntry[];  // The debate ledger, newest first
   // Debate operations
   startDebate: (assumption: string, assumptionPath?: string, currentValue?: unknown) => Promise<void>;
+  addRebuttalRound: () => Promise<void>;
+  judgeDebate: () => Promise<void>;
   resolveDebate: (verdict: 'bull' | 'bear' | 'neutral', reasoning: string, adjustedValue?: unknown) => void;
   cancelDebate: () => void;
   // History operations
@@ -57,18 +75,13 @@ interface DebateContextValue {
 // ============================================================================
 
 const loadInitialState = (): DebateState => {
-  const saved = storageService.load<DebateState>(DEBATE_STORAGE_KEY);
-  if (saved) {
-    return {
-      ...saved,
-      activeDebate: null, // Don't persist active debates
-      isGenerating: false,
-    };
-  }
+  // Load the ledger first so a pre-ledger evidence trail is migrated before state is re-saved
+  debateLedger.getEntries();
+
+  const saved = storageService.load<DebateState>(STORAGE_KEYS.DEBATE_STATE);
   return {
-    activeDebate: null,
-    debateHistory: [],
-    evidenceTrail: [],
+    activeDebate: null, // Don't persist active debates
+    debateHistory: saved?.debateHistory ?? [],
     isGenerating: false,
   };
 };
@@ -95,10 +108,23 @@ function debateReducer(state: DebateState, action: DebateAction): DebateState {
         activeDebate: { ...state.activeDebate, ...action.updates },
       };
 
-    case 'ADD_EVIDENCE':
+    // Results for a debate that was cancelled or replaced meanwhile are dropped
+    case 'ADD_REBUTTALS':
+      if (state.activeDebate?.id !== action.debateId) return state;
       return {
         ...state,
-        evidenceTrail: [action.entry, ...state.evidenceTrail].slice(0, 100), // Keep last 100
+        activeDebate: {
+          ...state.activeDebate,
+          rebuttals: [...(state.activeDebate.rebuttals ?? []), ...action.rebuttals],
+          judgement: undefined, // The transcript changed, so an earlier judgement is stale
+        },
+      };
+
+    case 'SET_JUDGEMENT':
+      if (state.activeDebate?.id !== action.debateId) return state;
+      return {
+        ...state,
+        activeDebate: { ...state.activeDebate, judgement: action.judgement },
       };
 
     case 'SET_GENERATING':
@@ -107,9 +133,6 @@ function debateReducer(state: DebateState, action: DebateAction): DebateState {
     case 'CLEAR_HISTORY':
       return { ...state, debateHistory: [] };
 
-    case 'CLEAR_EVIDENCE_TRAIL':
-      return { ...state, evidenceTrail: [] };
-
     case 'LOAD_STATE':
       return action.state;
 
@@ -201,6 +224,8 @@ interface DebateProviderProps {
 
 export function DebateProvider({ children }: DebateProviderProps) {
   const [state, dispatch] = useReducer(debateReducer, undefined, loadInitialState);
+  const { ensureBudget, recordUsage } = useAI();
+  const { entries: evidenceTrail, clear: clearLedger } = useDebateLedger();
 
   // Persist state changes (except active debate and generating status)
   React.useEffect(() => {
@@ -209,79 +234,138 @@ export function DebateProvider({ children }: DebateProviderProps) {
       activeDebate: null,
       isGenerating: false,
     };
-    storageService.save(DEBATE_STORAGE_KEY, toSave);
-  }, [state.debateHistory, state.evidenceTrail]);
+    storageService.save(STORAGE_KEYS.DEBATE_STATE, toSave);
+  }, [state.debateHistory]);
+
+  /**
+   * Run one structured debate request and return the raw reply, or null on failure
+   * Checks the budget first and records usage for every completed request
+   */
+  const requestDebateStep = useCallback(
+    async (systemPrompt: string, userPrompt: string): Promise<string | null> => {
+      if (!ensureBudget()) return null;
+
+      const apiMessages = aiService.toServiceMessages([
+        aiService.createSystemMessage(systemPrompt),
+        aiService.createUserMessage(userPrompt),
+      ]);
+
+      // Collect the streamed reply (structured output is parsed once complete)
+      let fullResponse = '';
+      return new Promise<string | null>((resolve) => {
+        aiService
+          .streamChat(
+            apiMessages,
+            {
+              onChunk: (chunk) => {
+                fullResponse += chunk;
+              },
+              onComplete: (response) => {
+                recordUsage('debate', DEBATE_MODEL, response.tokenUsage);
+                resolve(fullResponse);
+              },
+              onError: (error) => {
+                console.error('Debate generation error:', error);
+                resolve(null);
+              },
+            },
+            { model: DEBATE_MODEL }
+          )
+          .catch((error) => {
+            console.error('Debate request failed:', error);
+            resolve(null);
+          });
+      });
+    },
+    [ensureBudget, recordUsage]
+  );
 
   const startDebate = useCallback(
     async (assumption: string, assumptionPath?: string, currentValue?: unknown) => {
       if (state.isGenerating) return;
 
-      dispatch({ type: 'SET_GENERATING', isGenerating: true });
-
       // Build the prompt
       const userPrompt = currentValue !== undefined
         ? `Analyze this business assumption and provide bull/bear cases:\n\nAssumption: "${assumption}"\nCurrent Value: ${JSON.stringify(currentValue)}`
         : `Analyze this business assumption and provide bull/bear cases:\n\nAssumption: "${assumption}"`;
 
-      try {
-        // Create messages for API
-        const systemMessage = aiService.createSystemMessage(DEBATE_SYSTEM_PROMPT);
-        const userMessage = aiService.createUserMessage(userPrompt);
-        const apiMessages = aiService.toServiceMessages([systemMessage, userMessage]);
-
-        // Get the response (non-streaming for structured output)
-        let fullResponse = '';
-
-        await aiService.streamChat(
-          apiMessages,
-          {
-            onChunk: (chunk) => {
-              fullResponse += chunk;
-            },
-            onComplete: () => {
-              const parsed = parseDebateResponse(fullResponse);
-
-              if (parsed) {
-                const debateRound: DebateRound = {
-                  id: generateDebateId(),
-                  assumption,
-                  assumptionPath,
-                  currentValue,
-                  bullCase: {
-                    id: generateArgumentId(),
-                    type: 'bull',
-                    ...parsed.bullCase,
-                  },
-                  bearCase: {
-                    id: generateArgumentId(),
-                    type: 'bear',
-                    ...parsed.bearCase,
-                  },
-                  createdAt: new Date().toISOString(),
-                };
-
-                dispatch({ type: 'SET_ACTIVE_DEBATE', debate: debateRound });
-              } else {
-                console.error('Failed to parse debate response');
-              }
-
-              dispatch({ type: 'SET_GENERATING', isGenerating: false });
-            },
-            onError: (error) => {
-              console.error('Debate generation error:', error);
-              dispatch({ type: 'SET_GENERATING', isGenerating: false });
-            },
+      dispatch({ type: 'SET_GENERATING', isGenerating: true });
+      const response = await requestDebateStep(DEBATE_SYSTEM_PROMPT, userPrompt);
+      const parsed = response !== null ? parseDebateResponse(response) : null;
+
+      if (parsed) {
+        const debateRound: DebateRound = {
+          id: generateDebateId(),
+          assumption,
+          assumptionPath,
+          currentValue,
+          bullCase: {
+            id: generateArgumentId(),
+            type: 'bull',
+            ...parsed.bullCase,
+          },
+          bearCase: {
+            id: generateArgumentId(),
+            type: 'bear',
+            ...parsed.bearCase,
           },
-          { model: 'anthropic/claude-sonnet-4-5' } // Use Claude Sonnet 4.5 for quality debates
-        );
-      } catch (error) {
-        console.error('Failed to start debate:', error);
-        dispatch({ type: 'SET_GENERATING', isGenerating: false });
+          createdAt: new Date().toISOString(),
+        };
+
+        dispatch({ type: 'SET_ACTIVE_DEBATE', debate: debateRound });
+      } else if (response !== null) {
+        console.error('Failed to parse debate response');
       }
+
+      dispatch({ type: 'SET_GENERATING', isGenerating: false });
     },
-    [state.isGenerating]
+    [state.isGenerating, requestDebateStep]
   );
 
+  const addRebuttalRound = useCallback(async () => {
+    const debate = state.activeDebate;
+    if (!debate || state.isGenerating) return;
+
+    const round = countRebuttalRounds(debate) + 1;
+    if (round > MAX_REBUTTAL_ROUNDS) return;
+
+    dispatch({ type: 'SET_GENERATING', isGenerating: true });
+    const response = await requestDebateStep(REBUTTAL_SYSTEM_PROMPT, buildRebuttalPrompt(debate, round));
+    const parsed = response !== null ? parseRebuttalResponse(response) : null;
+
+    if (parsed) {
+      dispatch({
+        type: 'ADD_REBUTTALS',
+        debateId: debate.id,
+        rebuttals: [
+          { id: generateArgumentId(), type: 'bull', round, ...parsed.bull },
+          { id: generateArgumentId(), type: 'bear', round, ...parsed.bear },
+        ],
+      });
+    } else if (response !== null) {
+      console.error('Failed to parse rebuttal response');
+    }
+
+    dispatch({ type: 'SET_GENERATING', isGenerating: false });
+  }, [state.activeDebate, state.isGenerating, requestDebateStep]);
+
+  const judgeDebate = useCallback(async () => {
+    const debate = state.activeDebate;
+    if (!debate || state.isGenerating) return;
+
+    dispatch({ type: 'SET_GENERATING', isGenerating: true });
+    const response = await requestDebateStep(JUDGE_SYSTEM_PROMPT, buildJudgePrompt(debate));
+    const judgement = response !== null ? parseJudgementResponse(response, debate.currentValue) : null;
+
+    if (judgement) {
+      dispatch({ type: 'SET_JUDGEMENT', debateId: debate.id, judgement });
+    } else if (response !== null) {
+      console.error('Failed to parse judge response');
+    }
+
+    dispatch({ type: 'SET_GENERATING', isGenerating: false });
+  }, [state.activeDebate, state.isGenerating, requestDebateStep]);
+
   const resolveDebate = useCallback(
     (verdict: 'bull' | 'bear' | 'neutral', reasoning: string, adjustedValue?: unknown) => {
       if (!state.activeDebate) return;
@@ -297,14 +381,8 @@ export function DebateProvider({ children }: DebateProviderProps) {
       // Add to history
       dispatch({ type: 'ADD_TO_HISTORY', debate: resolvedDebate });
 
-      // Create evidence trail entry
-      const evidenceEntry = createEvidenceEntry(
-        state.activeDebate,
-        verdict,
-        reasoning,
-        adjustedValue
-      );
-      dispatch({ type: 'ADD_EVIDENCE', entry: evidenceEntry });
+      // Record the decision in the debate ledger
+      debateLedger.add([createEvidenceEntry(state.activeDebate, verdict, reasoning, adjustedValue)]);
 
       // Clear active debate
       dispatch({ type: 'SET_ACTIVE_DEBATE', debate: null });
@@ -322,8 +400,8 @@ export function DebateProvider({ children }: DebateProviderProps) {
   }, []);
 
   const clearEvidenceTrail = useCallback(() => {
-    dispatch({ type: 'CLEAR_EVIDENCE_TRAIL' });
-  }, []);
+    clearLedger();
+  }, [clearLedger]);
 
   const getDebateById = useCallback(
     (id: string): DebateRound | undefined => {
@@ -336,7 +414,10 @@ export function DebateProvider({ children }: DebateProviderProps) {
   const value = useMemo(
     () => ({
       state,
+      evidenceTrail,
       startDebate,
+      addRebuttalRound,
+      judgeDebate,
       resolveDebate,
       cancelDebate,
       clearHistory,
@@ -344,7 +425,7 @@ export function DebateProvider({ children }: DebateProviderProps) {
       getDebateById,
       isDebating: state.activeDebate !== null || state.isGenerating,
     }),
-    [state, startDebate, resolveDebate, cancelDebate, clearHistory, clearEvidenceTrail, getDebateById]
+    [state, evidenceTrail, startDebate, addRebuttalRound, judgeDebate, resolveDebate, cancelDebate, clearHistory, clearEvidenceTrail, getDebateById]
   );
 
   return <DebateContext.Provider value={value}>{children}</DebateContext.Provider>;
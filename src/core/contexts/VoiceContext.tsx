@@ -4,10 +4,12 @@
  */
 
 import React, { createContext, useCallback, useContext, useMemo, useReducer, useEffect, useRef } from 'react';
-import type { VoiceState, VoiceCommand, VoiceSettings, VoiceStatus } from '@/core/types/ai';
+import type { VoiceState, VoiceCommand, VoicePendingChange, VoiceSettings, VoiceStatus } from '@/core/types/ai';
 import { DEFAULT_VOICE_SETTINGS, isSpeechRecognitionSupported, isSpeechSynthesisSupported } from '@/core/types/ai';
 import { voiceService } from '@/core/services/voice-service';
+import { describeAppliedChange, describePendingChange, previewVoiceChange } from '@/core/services/voice-intents';
 import { useAI } from './AIContext';
+import { useData } from './DataContext';
 
 // ============================================================================
 // Types
@@ -21,6 +23,7 @@ type VoiceAction =
   | { type: 'SET_ERROR'; error: string | null }
   | { type: 'SET_MUTED'; isMuted: boolean }
   | { type: 'UPDATE_SETTINGS'; settings: Partial<VoiceSettings> }
+  | { type: 'SET_PENDING_CHANGE'; change: VoicePendingChange | null }
   | { type: 'CLEAR_HISTORY' };
 
 interface VoiceContextValue {
@@ -32,6 +35,9 @@ interface VoiceContextValue {
   speak: (text: string) => void;
   stopSpeaking: () => void;
   toggleMute: () => void;
+  // Spoken assumption changes
+  confirmPendingChange: () => void;
+  cancelPendingChange: () => void;
   // Settings
   updateSettings: (settings: Partial<VoiceSettings>) => void;
   getVoices: () => SpeechSynthesisVoice[];
@@ -55,6 +61,7 @@ const getInitialState = (): VoiceState => ({
   settings: DEFAULT_VOICE_SETTINGS,
   error: null,
   isMuted: false,
+  pendingChange: null,
 });
 
 // ============================================================================
@@ -89,6 +96,9 @@ function voiceReducer(state: VoiceState, action: VoiceAction): VoiceState {
     case 'UPDATE_SETTINGS':
       return { ...state, settings: { ...state.settings, ...action.settings } };
 
+    case 'SET_PENDING_CHANGE':
+      return { ...state, pendingChange: action.change };
+
     case 'CLEAR_HISTORY':
       return { ...state, commandHistory: [], lastCommand: null };
 
@@ -114,33 +124,80 @@ interface VoiceProviderProps {
 export function VoiceProvider({ children }: VoiceProviderProps) {
   const [state, dispatch] = useReducer(voiceReducer, undefined, getInitialState);
   const { sendMessage } = useAI();
+  const { state: dataState, updateBusinessAssumption } = useData();
   const isListeningRef = useRef(false);
 
-  // Handle voice commands - integrate with AI
-  const handleVoiceCommand = useCallback((command: VoiceCommand) => {
-    dispatch({ type: 'ADD_COMMAND', command });
+  // Recognition callbacks outlive renders, so they read the latest state through refs
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const businessDataRef = useRef(dataState.business.data);
+  businessDataRef.current = dataState.business.data;
 
-    // Send question/what-if to AI chat
-    if (command.type === 'ask_question' || command.type === 'what_if' || command.type === 'unknown') {
-      sendMessage(command.rawText);
-    }
+  // Speak text
+  const speak = useCallback((text: string) => {
+    if (stateRef.current.isMuted) return;
 
-    // Handle other command types
-    if (command.type === 'update_value') {
-      // TODO: Integrate with DataContext to update values
-      console.log('Update value command:', command);
-    }
+    dispatch({ type: 'SET_STATUS', status: 'speaking' });
+    voiceService.speak(text, () => {
+      dispatch({ type: 'SET_STATUS', status: isListeningRef.current ? 'listening' : 'idle' });
+    });
+  }, []);
 
-    if (command.type === 'navigate') {
-      // TODO: Integrate with navigation
-      console.log('Navigate command:', command);
+  // Apply the previewed change and read back the NPV delta
+  const confirmPendingChange = useCallback(() => {
+    const pending = stateRef.current.pendingChange;
+    if (!pending) {
+      speak('There is no change waiting for confirmation.');
+      return;
     }
 
-    if (command.type === 'action') {
-      // TODO: Handle actions
-      console.log('Action command:', command);
+    updateBusinessAssumption(pending.path, pending.toValue);
+    dispatch({ type: 'SET_PENDING_CHANGE', change: null });
+    speak(describeAppliedChange(pending));
+  }, [speak, updateBusinessAssumption]);
+
+  const cancelPendingChange = useCallback(() => {
+    if (!stateRef.current.pendingChange) return;
+    dispatch({ type: 'SET_PENDING_CHANGE', change: null });
+    speak('Cancelled. The value is unchanged.');
+  }, [speak]);
+
+  // Handle voice commands - integrate with AI and the business case
+  const handleVoiceCommand = useCallback((command: VoiceCommand) => {
+    dispatch({ type: 'ADD_COMMAND', command });
+    const intent = command.resolvedIntent;
+
+    switch (intent?.kind) {
+      case 'adjust': {
+        const businessData = businessDataRef.current;
+        const preview = businessData ? previewVoiceChange(businessData, intent) : null;
+        if (!preview) {
+          speak(`I can't read a number for ${intent.label} in this business case.`);
+          return;
+        }
+        dispatch({ type: 'SET_PENDING_CHANGE', change: preview });
+        speak(describePendingChange(preview));
+        return;
+      }
+
+      case 'unresolved':
+        speak(`I couldn't find an assumption called ${intent.subject}.`);
+        return;
+
+      case 'confirm':
+        confirmPendingChange();
+        return;
+
+      case 'cancel':
+        cancelPendingChange();
+        return;
+
+      default:
+        // Questions, free-form what-ifs, navigation and action requests ("show me cash flow",
+        // "read the NPV", "export to PDF") and anything unrecognised go to the AI chat
+        sendMessage(command.rawText, 'voice');
     }
-  }, [sendMessage]);
+  }, [sendMessage, speak, confirmPendingChange, cancelPendingChange]);
 
   // Start listening
   const startListening = useCallback(() => {
@@ -159,6 +216,7 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
         dispatch({ type: 'SET_TRANSCRIPT', transcript });
       },
       onCommand: handleVoiceCommand,
+      getDrivers: () => businessDataRef.current?.drivers ?? [],
       onStart: () => {
         isListeningRef.current = true;
         dispatch({ type: 'SET_STATUS', status: 'listening' });
@@ -198,16 +256,6 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
     }
   }, [startListening, stopListening]);
 
-  // Speak text
-  const speak = useCallback((text: string) => {
-    if (state.isMuted) return;
-
-    dispatch({ type: 'SET_STATUS', status: 'speaking' });
-    voiceService.speak(text, () => {
-      dispatch({ type: 'SET_STATUS', status: isListeningRef.current ? 'listening' : 'idle' });
-    });
-  }, [state.isMuted]);
-
   // Stop speaking
   const stopSpeaking = useCallback(() => {
     voiceService.stopSpeaking();
@@ -255,6 +303,8 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
       speak,
       stopSpeaking,
       toggleMute,
+      confirmPendingChange,
+      cancelPendingChange,
       updateSettings,
       getVoices,
       clearHistory,
@@ -269,6 +319,8 @@ export function VoiceProvider({ children }: VoiceProviderProps) {
       speak,
       stopSpeaking,
       toggleMute,
+      confirmPendingChange,
+      cancelPendingChange,
       updateSettings,
       getVoices,
       clearHistory,
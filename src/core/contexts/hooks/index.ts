@@ -6,3 +6,4 @@ export * from './useBusinessData';
 export * from './useMarketData';
 export * from './useDataStatus';
 export * from './useNavigation';
+export * from './useDebateLedger';
@@ -0,0 +1,44 @@
+/**
+ * Debate Ledger Hook
+ * Subscribes to the debate ledger so every evidence trail view shows the same decisions
+ */
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { EvidenceTrailEntry } from '@/core/types/ai';
+import { debateLedger, type EvidenceEntryInput, type LedgerQuery } from '@/core/services/debate-ledger';
+
+export interface UseDebateLedgerReturn {
+  entries: readonly EvidenceTrailEntry[];   // Newest first, filtered when a query is given
+  record: (input: EvidenceEntryInput) => EvidenceTrailEntry;
+  clear: () => void;
+}
+
+const subscribe = (onChange: () => void) => debateLedger.subscribe(onChange);
+const getSnapshot = () => debateLedger.getEntries();
+
+export function useDebateLedger(filter?: LedgerQuery): UseDebateLedgerReturn {
+  const all = useSyncExternalStore(subscribe, getSnapshot);
+  const { path, target, researchId, source, verdict } = filter ?? {};
+  const hasFilter = filter !== undefined;
+  const sinceTime = filter?.since?.getTime();
+
+  const entries = useMemo(
+    () =>
+      hasFilter
+        ? debateLedger.query({
+            path,
+            target,
+            researchId,
+            source,
+            verdict,
+            since: sinceTime !== undefined ? new Date(sinceTime) : undefined,
+          })
+        : all,
+    [all, hasFilter, path, target, researchId, source, verdict, sinceTime]
+  );
+
+  const record = useCallback((input: EvidenceEntryInput) => debateLedger.record(input), []);
+  const clear = useCallback(() => debateLedger.clear(), []);
+
+  return { entries, record, clear };
+}
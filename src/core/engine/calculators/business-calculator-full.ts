@@ -1,45 +1,55 @@
 /**
  * Business Case Calculator
- * Full implementation of all business case calculations
- */
-
-import { BusinessData } from '@/core/types';
-
-export interface CalculatedMetrics {
-  totalRevenue: number;
-  netProfit: number;
-  npv: number;
-  irr: number;
-  paybackPeriod: number;
-  totalInvestmentRequired: number; // Total amount needed to fund the business until break-even
-  breakEvenMonth: number;
-  monthlyData: MonthlyData[];
-}
-
-export interface MonthlyData {
-  month: number;
-  date: Date;
-  salesVolume: number;
-  newCustomers: number;
-  existingCustomers: number;
-  unitPrice: number;
-  revenue: number;
-  cogs: number;
-  grossProfit: number;
-  salesMarketing: number;
-  totalCAC: number;
-  cac: number;
-  rd: number;
-  ga: number;
-  totalOpex: number;
-  ebitda: number;
-  capex: number;
-  netCashFlow: number;
-  // Cost savings specific fields
-  baselineCosts?: number;
-  costSavings?: number;
-  efficiencyGains?: number;
-  totalBenefits?: number;
+ * The single implementation of all business case calculations
+ */
+
+import {
+  BusinessData,
+  CalculatedMetrics,
+  CapexItem,
+  FrequencyType,
+  HeadcountRole,
+  MonthlyData,
+  OpexCategory,
+  OpexItem,
+  OpexLine,
+} from '@/core/types';
+import {
+  calculateNPV,
+  calculateIRR,
+  calculateBreakEven,
+  calculatePaybackPeriod,
+  calculateTotalInvestmentRequired,
+} from '../utils/financial';
+
+// Cash-flow maths and formatting are shared with the rest of the engine from utils/financial
+export {
+  calculateNPV,
+  calculateIRR,
+  calculateBreakEven,
+  calculatePaybackPeriod,
+  calculateTotalInvestmentRequired,
+  IRR_ERROR_CODES,
+  isIRRError,
+  getIRRErrorMessage,
+  formatCurrency,
+  formatCompactCurrency,
+  formatPercent,
+} from '../utils/financial';
+
+// Result types live in core/types so every consumer shares one definition
+export type { CalculatedMetrics, MonthlyData } from '@/core/types';
+
+/**
+ * Monthly results rolled up to a reporting period (quarter or year)
+ * `month` holds the period number so period rows can be charted like monthly rows
+ */
+export interface PeriodData extends MonthlyData {
+  readonly period: number;
+  readonly label: string;
+  readonly startMonth: number; // First model month (1-based) in the period
+  readonly endMonth: number;   // Last model month (1-based) in the period
+  readonly monthsInPeriod: number;
 }
 
 /**
@@ -53,14 +63,18 @@ export function calculateBusinessMetrics(businessData: BusinessData | null): Cal
 
   const monthlyData = generateMonthlyData(businessData);
   const totalRevenue = monthlyData.reduce((sum, month) => sum + month.revenue, 0);
-  const totalCashFlow = monthlyData.reduce((sum, month) => sum + month.netCashFlow, 0);
   
+  // Discount at the reporting frequency so quarterly and annual cases compound per period
+  const frequency = getModelFrequency(businessData);
+  const periodsPerYear = getPeriodsPerYear(frequency);
+  const periodData = aggregateMonthlyData(monthlyData, frequency, getModelStartDate(businessData), businessData.meta?.business_model);
+
   // Calculate NPV
   const interestRate = businessData.assumptions?.financial?.interest_rate?.value || 0;
-  const npv = calculateNPV(monthlyData, interestRate);
+  const npv = calculateNPV(periodData, interestRate, periodsPerYear);
   
   // Calculate IRR
-  const irr = calculateIRR(monthlyData);
+  const irr = calculateIRR(periodData, 0.1, periodsPerYear);
   
   // Calculate break-even
   const breakEvenMonth = calculateBreakEven(monthlyData);
@@ -69,19 +83,9 @@ export function calculateBusinessMetrics(businessData: BusinessData | null): Cal
   const netProfit = monthlyData.reduce((sum, month) => sum + month.netCashFlow, 0);
   const paybackPeriod = calculatePaybackPeriod(monthlyData);
   
-  // Calculate Total Investment Required: maximum cumulative negative cash flow
+  // Total Investment Required: maximum cumulative negative cash flow
   // This represents the total amount of money needed to fund the business until it becomes self-sustaining
-  let cumulativeCashFlow = 0;
-  let maxNegativeCumulativeCashFlow = 0;
-  
-  for (const month of monthlyData) {
-    cumulativeCashFlow += month.netCashFlow;
-    if (cumulativeCashFlow < maxNegativeCumulativeCashFlow) {
-      maxNegativeCumulativeCashFlow = cumulativeCashFlow;
-    }
-  }
-  
-  const totalInvestmentRequired = Math.abs(maxNegativeCumulativeCashFlow);
+  const totalInvestmentRequired = calculateTotalInvestmentRequired(monthlyData);
 
   return {
     totalRevenue,
@@ -95,17 +99,97 @@ export function calculateBusinessMetrics(businessData: BusinessData | null): Cal
   };
 }
 
+/**
+ * Default model start used when meta.start_date is not provided
+ */
+export const DEFAULT_MODEL_START_DATE = '2026-01-01';
+
+/**
+ * Default and maximum horizon in months
+ * The maximum keeps 20-year infrastructure cases possible while guarding against runaway inputs
+ */
+export const DEFAULT_MODEL_PERIODS = 60;
+export const MAX_MODEL_PERIODS = 240;
+
+/**
+ * Resolve the first month of the model from meta.start_date (YYYY-MM or YYYY-MM-DD)
+ * Projections always start on the first day of that month
+ */
+export function getModelStartDate(businessData: BusinessData | null): Date {
+  const startDate = businessData?.meta?.start_date || DEFAULT_MODEL_START_DATE;
+  const match = /^(\d{4})-(\d{2})/.exec(startDate);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    return new Date(2026, 0, 1);
+  }
+
+  return new Date(Number(match[1]), Number(match[2]) - 1, 1);
+}
+
+/**
+ * Reporting frequency from meta.frequency, monthly when missing or unknown
+ */
+export function getModelFrequency(businessData: BusinessData | null): FrequencyType {
+  const frequency = businessData?.meta?.frequency;
+  return frequency === 'quarterly' || frequency === 'annually' ? frequency : 'monthly';
+}
+
+/**
+ * Number of calendar months in one reporting period
+ */
+export function getMonthsPerPeriod(frequency: FrequencyType | undefined): number {
+  switch (frequency) {
+    case 'quarterly':
+      return 3;
+    case 'annually':
+      return 12;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Number of reporting periods per year, used to convert annual rates to period rates
+ */
+export function getPeriodsPerYear(frequency: FrequencyType | undefined): number {
+  return 12 / getMonthsPerPeriod(frequency);
+}
+
+/**
+ * Number of months to model, capped at MAX_MODEL_PERIODS
+ * meta.periods counts reporting periods, so 20 quarterly periods model 60 months
+ */
+export function getModelPeriods(businessData: BusinessData | null): number {
+  const periods = businessData?.meta?.periods;
+  const months = periods
+    ? periods * getMonthsPerPeriod(getModelFrequency(businessData))
+    : DEFAULT_MODEL_PERIODS;
+  return Math.max(0, Math.min(Math.floor(months), MAX_MODEL_PERIODS));
+}
+
+/**
+ * Calendar month (0 = January) of a zero-based model month
+ * Seasonality indices are calendar based, so a model starting in April uses index 3 first
+ */
+export function getCalendarMonthIndex(businessData: BusinessData | null | undefined, monthIndex: number): number {
+  const startMonth = businessData ? getModelStartDate(businessData).getMonth() : 0;
+  return (startMonth + monthIndex) % 12;
+}
+
 /**
  * Generate monthly financial data based on business assumptions
  */
 export function generateMonthlyData(businessData: BusinessData): MonthlyData[] {
   const months: MonthlyData[] = [];
-  const startDate = new Date('2026-01-01'); // Default start date
-  const periods = Math.min(businessData.meta?.periods || 60, 60);
+  const startDate = getModelStartDate(businessData);
+  const periods = getModelPeriods(businessData);
+  const depreciationSchedule = calculateDepreciationSchedule(businessData, periods);
+  const taxRate = businessData?.assumptions?.financial?.tax_rate?.value || 0;
+  const financing = calculateFinancingSchedule(businessData, periods);
+  let taxYear = INITIAL_TAX_YEAR_STATE;
+  let cashBalance = businessData?.assumptions?.financial?.opening_cash?.value || 0;
 
   for (let i = 0; i < periods; i++) {
-    const currentDate = new Date(startDate);
-    currentDate.setMonth(startDate.getMonth() + i);
+    const currentDate = new Date(startDate.getFullYear(), startDate.getMonth() + i, 1);
     
     // Calculate total sales volume from all customer segments using dynamic calculations
     let totalSalesVolume = calculateDynamicTotalVolumeForMonth(businessData, i);
@@ -173,6 +257,8 @@ export function generateMonthlyData(businessData: BusinessData): MonthlyData[] {
     const salesMarketing = -opexResult.salesMarketing; // Make negative (expense)
     const rd = -opexResult.rd; // Make negative (expense)
     const ga = -opexResult.ga; // Make negative (expense)
+    const otherOpex = -opexResult.other;
+    const opexLines = opexResult.lines.map(line => ({ ...line, amount: -line.amount }));
 
     const cac = businessData?.assumptions?.unit_economics?.cac?.value || 0;
 
@@ -182,14 +268,35 @@ export function generateMonthlyData(businessData: BusinessData): MonthlyData[] {
       ? -Math.round(newCustomers * cac)
       : -Math.round(totalSalesVolume * cac);
 
-    // Use totalOpex from opexResult (includes ALL opex items, not just first 3) + CAC
+    // Use totalOpex from opexResult (every opex item, whatever its category) + CAC
     const totalOpex = -opexResult.totalOpex + totalCAC;
     
     const ebitda = grossProfit + totalOpex;
+    const depreciation = -Math.round(depreciationSchedule[i]);
+    const ebit = ebitda + depreciation;
+    const interestExpense = -Math.round(financing.interest[i]);
+    const profitBeforeTax = ebit + interestExpense;
+    // Tax years follow the calendar; the last modelled month closes the final year
+    const isTaxYearEnd = getCalendarMonthIndex(businessData, i) === 11 || i === periods - 1;
+    const taxResult = calculateTaxForMonth(profitBeforeTax, taxRate, taxYear, isTaxYearEnd);
+    taxYear = taxResult.state;
+    const tax = -Math.round(taxResult.tax);
+    const netIncome = profitBeforeTax + tax;
     const capex = -calculateCapexForMonth(businessData, i);
-    const netCashFlow = ebitda + capex;
+    const workingCapital = calculateWorkingCapitalBalance(businessData, months, revenue, cogs);
+    const changeInWorkingCapital = -(workingCapital - (months[i - 1]?.workingCapital || 0));
+    // After-tax operating free cash flow: net income with depreciation and interest added back,
+    // less capex and working capital build-up. Financing stays out so NPV and IRR value the
+    // business rather than how it is funded.
+    const netCashFlow = netIncome - depreciation - interestExpense + capex + changeInWorkingCapital;
+
+    const debtDrawdown = Math.round(financing.drawdown[i]);
+    const debtRepayment = -Math.round(financing.repayment[i]);
+    const equityInjection = Math.round(financing.equity[i]);
+    const financingCashFlow = debtDrawdown + debtRepayment + interestExpense + equityInjection;
+    cashBalance += netCashFlow + financingCashFlow;
     
-    const monthData: MonthlyData = {
+    months.push({
       month: i + 1,
       date: currentDate,
       salesVolume,
@@ -204,120 +311,144 @@ export function generateMonthlyData(businessData: BusinessData): MonthlyData[] {
       cac,
       rd,
       ga,
+      otherOpex,
+      opexLines,
       totalOpex,
       ebitda,
+      depreciation,
+      ebit,
+      tax,
+      netIncome,
       capex,
+      workingCapital,
+      changeInWorkingCapital,
       netCashFlow,
-    };
-    
-    // Add cost savings specific fields if applicable
-    if (businessModel === 'cost_savings') {
-      monthData.baselineCosts = Math.round(baselineCosts);
-      monthData.costSavings = Math.round(costSavings);
-      monthData.efficiencyGains = Math.round(efficiencyGains);
-      monthData.totalBenefits = Math.round(totalBenefits);
-    }
-    
-    months.push(monthData);
+      interestExpense,
+      debtDrawdown,
+      debtRepayment,
+      equityInjection,
+      financingCashFlow,
+      debtBalance: Math.round(financing.debtBalance[i]),
+      cashBalance,
+      // Cost savings specific fields
+      ...(businessModel === 'cost_savings' && {
+        baselineCosts: Math.round(baselineCosts),
+        costSavings: Math.round(costSavings),
+        efficiencyGains: Math.round(efficiencyGains),
+        totalBenefits: Math.round(totalBenefits),
+      }),
+    });
   }
   
   return months;
 }
 
-/**
- * Calculate Net Present Value using discount rate
- */
-export function calculateNPV(monthlyData: MonthlyData[], interestRate: number): number {
-  const monthlyRate = interestRate / 12;
-  
-  return monthlyData.reduce((npv, month, index) => {
-    const discountFactor = Math.pow(1 + monthlyRate, -(index + 1));
-    return npv + (month.netCashFlow * discountFactor);
-  }, 0);
-}
-
-// Constants for better error handling
-export const IRR_ERROR_CODES = {
-  NO_DATA: -999,
-  ALL_SAME: -998,
-  ALL_POSITIVE: -997,
-  ALL_NEGATIVE: -996,
-  NO_CONVERGENCE: -995,
-  EXTREME_RATE: -994
-} as const;
+// Flow fields are summed over a period; everything else is taken at period end
+const PERIOD_FLOW_FIELDS = [
+  'newCustomers', 'revenue', 'cogs', 'grossProfit', 'salesMarketing', 'totalCAC',
+  'rd', 'ga', 'otherOpex', 'totalOpex', 'ebitda', 'depreciation', 'ebit', 'tax', 'netIncome', 'capex',
+  'changeInWorkingCapital', 'netCashFlow', 'interestExpense', 'debtDrawdown', 'debtRepayment',
+  'equityInjection', 'financingCashFlow',
+  'baselineCosts', 'costSavings', 'efficiencyGains', 'totalBenefits',
+] as const;
 
 /**
- * Calculate Internal Rate of Return using iterative approach
- * Returns the monthly IRR as a decimal (e.g., 0.05 = 5% monthly)
- * Returns negative error codes for invalid scenarios
+ * Roll monthly results up to the given reporting frequency
+ * The engine always computes monthly, so growth, seasonality and churn are applied
+ * at their native granularity before aggregation. Sales volume is summed for
+ * unit sales and taken at period end for recurring (active customer) models.
+ * A trailing partial period is kept and flagged through monthsInPeriod.
  */
-export function calculateIRR(monthlyData: MonthlyData[], initialGuess: number = 0.1): number {
-  if (!monthlyData || monthlyData.length === 0) return IRR_ERROR_CODES.NO_DATA;
-  
-  const cashFlows = monthlyData.map(month => month.netCashFlow);
-  
-  // Check if all cash flows are the same (no IRR possible)
-  const allSame = cashFlows.every(cf => Math.abs(cf - cashFlows[0]) < 0.01);
-  if (allSame) return IRR_ERROR_CODES.ALL_SAME;
-  
-  // Check if all cash flows are positive (no IRR needed - infinite return)
-  const allPositive = cashFlows.every(cf => cf >= 0);
-  if (allPositive) return IRR_ERROR_CODES.ALL_POSITIVE;
-  
-  // Check if all cash flows are negative (no IRR possible)
-  const allNegative = cashFlows.every(cf => cf <= 0);
-  if (allNegative) return IRR_ERROR_CODES.ALL_NEGATIVE;
-  
-  // Newton-Raphson method to find IRR
-  let rate = initialGuess;
-  let iteration = 0;
-  const maxIterations = 1000; // Increased for better convergence
-  const tolerance = 0.000001; // Tighter tolerance
-  
-  while (iteration < maxIterations) {
-    const npvAtRate = cashFlows.reduce((npv, cashFlow, index) => {
-      const discountFactor = Math.pow(1 + rate / 12, -(index + 1));
-      return npv + (cashFlow * discountFactor);
-    }, 0);
-    
-    if (Math.abs(npvAtRate) < tolerance) {
-      // Check for extreme rates (outside -99% to 10,000% annually)
-      const annualRate = Math.pow(1 + rate / 12, 12) - 1;
-      if (annualRate < -0.99 || annualRate > 100) {
-        return IRR_ERROR_CODES.EXTREME_RATE;
+export function aggregateMonthlyData(
+  monthlyData: readonly MonthlyData[],
+  frequency: FrequencyType,
+  startDate: Date = monthlyData[0]?.date,
+  businessModel?: string
+): PeriodData[] {
+  const monthsPerPeriod = getMonthsPerPeriod(frequency);
+  const volumeIsStock = businessModel === 'recurring' || businessModel === 'cost_savings';
+  const periods: PeriodData[] = [];
+
+  for (let start = 0; start < monthlyData.length; start += monthsPerPeriod) {
+    const months = monthlyData.slice(start, start + monthsPerPeriod);
+    const last = months[months.length - 1];
+    const period = periods.length + 1;
+    const row: { -readonly [K in keyof PeriodData]: PeriodData[K] } = {
+      ...last,
+      month: period,
+      date: months[0].date,
+      period,
+      label: getPeriodLabel(frequency, period, startDate),
+      startMonth: start + 1,
+      endMonth: start + months.length,
+      monthsInPeriod: months.length,
+    };
+
+    PERIOD_FLOW_FIELDS.forEach(field => {
+      if (months.some(month => month[field] !== undefined)) {
+        row[field] = months.reduce((sum, month) => sum + (month[field] || 0), 0);
       }
-      return rate;
+    });
+    row.opexLines = (last.opexLines || []).map((line, index) => ({
+      ...line,
+      amount: months.reduce((sum, month) => sum + (month.opexLines?.[index]?.amount || 0), 0),
+    }));
+
+    if (!volumeIsStock) {
+      row.salesVolume = months.reduce((sum, month) => sum + month.salesVolume, 0);
     }
-    
-    // Derivative for Newton-Raphson method
-    const npvDerivative = cashFlows.reduce((derivative, cashFlow, index) => {
-      const period = index + 1;
-      const discountFactor = Math.pow(1 + rate / 12, -(period + 1));
-      return derivative - (cashFlow * period * discountFactor) / (12 * (1 + rate / 12));
-    }, 0);
-    
-    if (Math.abs(npvDerivative) < tolerance) {
-      break; // Avoid division by zero
-    }
-    
-    const newRate = rate - npvAtRate / npvDerivative;
-    
-    // Prevent extreme rate changes but allow wider search
-    if (Math.abs(newRate - rate) > 1.0) {
-      rate = rate + Math.sign(newRate - rate) * 0.5; // Larger but controlled step
-    } else {
-      rate = newRate;
-    }
-    
-    // Wider bounds during search (monthly rates from -50% to +500%)
-    if (rate < -0.5 || rate > 5.0) {
-      return IRR_ERROR_CODES.EXTREME_RATE;
+    // Effective price for the period rather than the closing month's price
+    const unitMonths = months.reduce((sum, month) => sum + month.salesVolume, 0);
+    if (businessModel !== 'cost_savings' && unitMonths > 0) {
+      row.unitPrice = row.revenue / unitMonths;
     }
-    
-    iteration++;
+
+    periods.push(row);
   }
-  
-  return IRR_ERROR_CODES.NO_CONVERGENCE;
+
+  return periods;
+}
+
+/**
+ * Short label for a reporting period, e.g. "M1", "Q3 2026" or "FY2027"
+ * Quarters and years follow the model start rather than calendar quarters
+ */
+export function getPeriodLabel(frequency: FrequencyType, period: number, startDate?: Date): string {
+  if (frequency === 'monthly') {
+    return `M${period}`;
+  }
+
+  const firstYear = startDate ? startDate.getFullYear() : undefined;
+  if (frequency === 'quarterly') {
+    const year = firstYear !== undefined ? ` ${firstYear + Math.floor((period - 1) / 4)}` : '';
+    return `Q${((period - 1) % 4) + 1}${year}`;
+  }
+
+  return firstYear !== undefined ? `FY${firstYear + period - 1}` : `Y${period}`;
+}
+
+/**
+ * Monthly results rolled up to the frequency set in meta.frequency
+ */
+export function generatePeriodData(businessData: BusinessData, frequency: FrequencyType = getModelFrequency(businessData)): PeriodData[] {
+  return aggregateMonthlyData(
+    generateMonthlyData(businessData),
+    frequency,
+    getModelStartDate(businessData),
+    businessData.meta?.business_model
+  );
+}
+
+/**
+ * NPV of already generated monthly data, discounted exactly as calculateBusinessMetrics does
+ * Lets repeated runs (e.g. Monte Carlo) skip the IRR search when only NPV is needed
+ */
+export function calculateModelNPV(businessData: BusinessData, monthlyData: readonly MonthlyData[]): number {
+  const frequency = getModelFrequency(businessData);
+  const periodData = aggregateMonthlyData(monthlyData, frequency, getModelStartDate(businessData), businessData.meta?.business_model);
+  const interestRate = businessData.assumptions?.financial?.interest_rate?.value || 0;
+
+  return calculateNPV(periodData, interestRate, getPeriodsPerYear(frequency));
 }
 
 /**
@@ -346,7 +477,7 @@ export function calculateSegmentVolumeForMonth(segment: any, monthIndex: number,
   if (volume.pattern_type) {
     // New segment-level patterns
     if (volume.pattern_type === "seasonal_growth" && volume.seasonal_pattern && volume.base_value !== undefined) {
-      return calculateSegmentSeasonalPattern(volume, monthIndex);
+      return calculateSegmentSeasonalPattern(volume, monthIndex, getCalendarMonthIndex(businessData, 0));
     } else if (volume.pattern_type === "geometric_growth" && volume.growth_rate !== undefined && volume.base_value !== undefined) {
       return calculateSegmentGeometricGrowth(volume, monthIndex);
     } else if (volume.pattern_type === "linear_growth" && volume.growth_rate !== undefined && volume.base_value !== undefined) {
@@ -419,9 +550,9 @@ export function calculateSeasonalGrowthVolume(volume: any, monthIndex: number, b
     seasonalityIndices = seasonalityIndices.map((val: number) => (val * 12) / currentSum);
   }
 
-  // Calculate which year and month we're in
+  // Growth compounds per model year, seasonality follows the calendar month
   const yearIndex = Math.floor(monthIndex / 12);
-  const monthInYear = monthIndex % 12;
+  const monthInYear = getCalendarMonthIndex(businessData, monthIndex);
 
   // Apply year-over-year growth
   const yearlyTotal = baseYearTotal * Math.pow(1 + yoyGrowth, yearIndex);
@@ -495,8 +626,9 @@ export function calculateTimeSeriesVolume(volume: any, monthIndex: number): numb
 
 /**
  * Calculate volume using segment-level seasonal pattern
+ * calendarOffset is the calendar month (0 = January) of the first model month
  */
-export function calculateSegmentSeasonalPattern(volume: any, monthIndex: number): number {
+export function calculateSegmentSeasonalPattern(volume: any, monthIndex: number, calendarOffset: number = 0): number {
   const baseValue = volume?.base_value || 0;
   const seasonalPattern = volume?.seasonal_pattern || [];
   const growthRate = volume?.growth_rate || 0;
@@ -505,8 +637,9 @@ export function calculateSegmentSeasonalPattern(volume: any, monthIndex: number)
     return baseValue;
   }
   
-  // Repeat the seasonal pattern for years beyond the first
-  const monthInYear = monthIndex % seasonalPattern.length;
+  // Repeat the seasonal pattern for years beyond the first; 12-month patterns are calendar based
+  const offset = seasonalPattern.length === 12 ? calendarOffset : 0;
+  const monthInYear = (monthIndex + offset) % seasonalPattern.length;
   const seasonalityFactor = seasonalPattern[monthInYear] || 1;
   
   // Apply both seasonal pattern and growth rate over time
@@ -788,62 +921,290 @@ export function calculateTotalBenefitsForMonth(businessData: BusinessData, month
  */
 export function calculateCapexForMonth(businessData: BusinessData, monthIndex: number): number {
   const capexItems = businessData?.assumptions?.capex || [];
-  let totalCapex = 0;
+  return capexItems.reduce((total, item) => total + calculateCapexItemForMonth(item, monthIndex), 0);
+}
+
+/**
+ * Capital expenditure of a single capex item in a given month
+ */
+export function calculateCapexItemForMonth(item: CapexItem, monthIndex: number): number {
+  const timeline = item?.timeline;
+  if (!timeline) return 0;
+
+  if (timeline.type === "time_series") {
+    // For time series, check if this specific month has a capex investment
+    const series = timeline.series || [];
+    const monthData = series.find((s: any) => s.period === monthIndex + 1);
+    return monthData ? monthData.value || 0 : 0;
+  } else if (timeline.type === "pattern") {
+    // For patterns, apply the same logic as volume calculations
+    if (timeline.pattern_type === "seasonal_growth") {
+      return calculateSeasonalGrowthVolume(timeline, monthIndex);
+    } else if (timeline.pattern_type === "geom_growth") {
+      return calculateGeomGrowthVolume(timeline, monthIndex);
+    } else if (timeline.pattern_type === "linear_growth") {
+      return calculateLinearGrowthVolume(timeline, monthIndex);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Useful life applied to capex items without a depreciation schedule
+ */
+export const DEFAULT_USEFUL_LIFE_YEARS = 5;
+
+/**
+ * Monthly depreciation charge (positive amounts) across all capex items
+ * Every month's spend is a separate vintage depreciated from the month it is incurred.
+ * Straight line spreads the cost evenly over the useful life; declining balance applies
+ * twice the straight-line rate to the remaining book value and writes off the rest in
+ * the final month of the life. Charges beyond the model horizon are dropped.
+ */
+export function calculateDepreciationSchedule(businessData: BusinessData, months: number): number[] {
+  const schedule: number[] = new Array(months).fill(0);
+  const capexItems = businessData?.assumptions?.capex || [];
 
   for (const item of capexItems) {
-    const timeline = item?.timeline;
-    if (!timeline) continue;
-
-    if (timeline.type === "time_series") {
-      // For time series, check if this specific month has a capex investment
-      const series = timeline.series || [];
-      const monthData = series.find((s: any) => s.period === monthIndex + 1);
-      if (monthData) {
-        totalCapex += monthData.value || 0;
+    const method = item?.depreciation?.method || 'straight_line';
+    if (method === 'none') continue;
+
+    const lifeYears = item.depreciation?.useful_life_years?.value || DEFAULT_USEFUL_LIFE_YEARS;
+    const lifeMonths = Math.max(1, Math.round(lifeYears * 12));
+
+    for (let spendMonth = 0; spendMonth < months; spendMonth++) {
+      const spend = calculateCapexItemForMonth(item, spendMonth);
+      if (!spend) continue;
+
+      let bookValue = spend;
+      for (let age = 0; age < lifeMonths && spendMonth + age < months; age++) {
+        const charge = method === 'declining_balance'
+          ? (age === lifeMonths - 1 ? bookValue : bookValue * (2 / lifeMonths))
+          : spend / lifeMonths;
+        schedule[spendMonth + age] += charge;
+        bookValue -= charge;
       }
-    } else if (timeline.type === "pattern") {
-      // For patterns, apply the same logic as volume calculations
-      if (timeline.pattern_type === "seasonal_growth") {
-        totalCapex += calculateSeasonalGrowthVolume(timeline, monthIndex);
-      } else if (timeline.pattern_type === "geom_growth") {
-        totalCapex += calculateGeomGrowthVolume(timeline, monthIndex);
-      } else if (timeline.pattern_type === "linear_growth") {
-        totalCapex += calculateLinearGrowthVolume(timeline, monthIndex);
+    }
+  }
+
+  return schedule;
+}
+
+/**
+ * Amount still outstanding from trailing monthly flows after a number of days
+ * Months count as 30 days, so 45 days leaves the latest month and half of the one before
+ * Flows are ordered oldest first
+ */
+export function calculateTrailingBalance(flows: number[], days: number): number {
+  let remainingMonths = Math.max(0, days || 0) / 30;
+  let balance = 0;
+
+  for (let i = flows.length - 1; i >= 0 && remainingMonths > 0; i--) {
+    balance += flows[i] * Math.min(1, remainingMonths);
+    remainingMonths -= 1;
+  }
+
+  return balance;
+}
+
+/**
+ * Working capital tied up at month end: receivables + inventory - payables
+ * Receivables follow revenue, inventory and payables follow COGS. Cost savings cases
+ * have no invoiced revenue or stock, so they carry no working capital.
+ */
+export function calculateWorkingCapitalBalance(
+  businessData: BusinessData,
+  previousMonths: readonly MonthlyData[],
+  revenue: number,
+  cogs: number
+): number {
+  const workingCapital = businessData?.assumptions?.working_capital;
+  if (!workingCapital || businessData?.meta?.business_model === 'cost_savings') {
+    return 0;
+  }
+
+  const receivableDays = workingCapital.receivable_days?.value || 0;
+  const inventoryDays = workingCapital.inventory_days?.value || 0;
+  const payableDays = workingCapital.payable_days?.value || 0;
+
+  // Only the months that can still be outstanding matter
+  const lookback = Math.ceil(Math.max(receivableDays, inventoryDays, payableDays) / 30);
+  const history = previousMonths.slice(Math.max(0, previousMonths.length - lookback));
+  const revenues = [...history.map(month => month.revenue), revenue];
+  const costOfSales = [...history.map(month => -month.cogs), -cogs];
+
+  return Math.round(
+    calculateTrailingBalance(revenues, receivableDays) +
+    calculateTrailingBalance(costOfSales, inventoryDays) -
+    calculateTrailingBalance(costOfSales, payableDays)
+  );
+}
+
+export interface FinancingSchedule {
+  interest: number[];
+  drawdown: number[];
+  repayment: number[];
+  debtBalance: number[];
+  equity: number[];
+}
+
+/**
+ * Monthly loan and equity cash movements (positive amounts) over the model horizon
+ * Loans are drawn in full, accrue interest on the opening balance from the following
+ * month and are repaid after the interest-only grace period: annuity loans pay a level
+ * instalment, straight-line loans a level principal and bullet loans everything at term.
+ */
+export function calculateFinancingSchedule(businessData: BusinessData, months: number): FinancingSchedule {
+  const schedule: FinancingSchedule = {
+    interest: new Array(months).fill(0),
+    drawdown: new Array(months).fill(0),
+    repayment: new Array(months).fill(0),
+    debtBalance: new Array(months).fill(0),
+    equity: new Array(months).fill(0),
+  };
+  const financial = businessData?.assumptions?.financial;
+
+  for (const loan of financial?.loans || []) {
+    const principal = loan?.principal?.value || 0;
+    if (principal <= 0) continue;
+
+    const monthlyRate = (loan.interest_rate?.value || 0) / 12;
+    const start = Math.max(1, loan.drawdown_month || 1) - 1;
+    const term = Math.max(1, Math.round(loan.term_months?.value || 1));
+    const grace = Math.min(Math.max(0, loan.grace_months || 0), term - 1);
+    const repaymentMonths = term - grace;
+    const instalment = monthlyRate > 0
+      ? principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -repaymentMonths))
+      : principal / repaymentMonths;
+
+    let balance = principal;
+    for (let month = start; month < months && balance > 0; month++) {
+      const age = month - start;
+      if (age === 0) {
+        schedule.drawdown[month] += principal;
+      } else {
+        const interest = balance * monthlyRate;
+        let repayment = 0;
+        if (age === term) {
+          repayment = balance;
+        } else if (age > grace) {
+          if (loan.amortisation === 'annuity') repayment = instalment - interest;
+          if (loan.amortisation === 'straight_line') repayment = principal / repaymentMonths;
+        }
+
+        schedule.interest[month] += interest;
+        schedule.repayment[month] += repayment;
+        balance -= repayment;
       }
+      schedule.debtBalance[month] += balance;
+    }
+  }
+
+  for (const round of financial?.equity_rounds || []) {
+    const month = (round?.month || 1) - 1;
+    if (month >= 0 && month < months) {
+      schedule.equity[month] += round.amount?.value || 0;
     }
   }
 
-  return totalCapex;
+  return schedule;
+}
+
+export interface FundingSummary {
+  hasFinancing: boolean;
+  openingCash: number;
+  minimumCash: number;
+  totalEquity: number;
+  totalDebt: number;
+  lowestCashBalance: number;
+  lowestCashMonth: number;
+  firstShortfallMonth: number; // First month below minimum cash, 0 when cash never runs short
+  runwayMonths: number; // Months funded before the first shortfall
+  fundingGap: number; // Extra cash needed to stay at or above minimum cash
 }
 
 /**
- * Calculate break-even point (first month with positive net cash flow)
+ * Cash runway and funding position from the monthly cash balance
  */
-export function calculateBreakEven(monthlyData: MonthlyData[]): number {
-  for (let i = 0; i < monthlyData.length; i++) {
-    if (monthlyData[i].netCashFlow > 0) {
-      return i + 1; // Return the month where net cash flow is positive
+export function calculateFundingSummary(businessData: BusinessData | null, monthlyData: readonly MonthlyData[]): FundingSummary {
+  const financial = businessData?.assumptions?.financial;
+  const openingCash = financial?.opening_cash?.value || 0;
+  const minimumCash = financial?.minimum_cash?.value || 0;
+
+  let lowestCashBalance = openingCash;
+  let lowestCashMonth = 0;
+  let firstShortfallMonth = 0;
+  for (const month of monthlyData) {
+    if (month.cashBalance < lowestCashBalance) {
+      lowestCashBalance = month.cashBalance;
+      lowestCashMonth = month.month;
+    }
+    if (!firstShortfallMonth && month.cashBalance < minimumCash) {
+      firstShortfallMonth = month.month;
     }
   }
 
-  return 0; // Return 0 if break-even is never reached
+  return {
+    hasFinancing: Boolean(financial?.opening_cash || financial?.loans?.length || financial?.equity_rounds?.length),
+    openingCash,
+    minimumCash,
+    totalEquity: monthlyData.reduce((sum, month) => sum + month.equityInjection, 0),
+    totalDebt: monthlyData.reduce((sum, month) => sum + month.debtDrawdown, 0),
+    lowestCashBalance,
+    lowestCashMonth,
+    firstShortfallMonth,
+    runwayMonths: firstShortfallMonth ? firstShortfallMonth - 1 : monthlyData.length,
+    fundingGap: Math.max(0, minimumCash - lowestCashBalance),
+  };
 }
 
 /**
- * Calculate payback period (time taken to recover the initial investment)
+ * Running position of the current tax year
  */
-export function calculatePaybackPeriod(monthlyData: MonthlyData[]): number {
-  let cumulativeCashFlow = 0;
+export interface TaxYearState {
+  profitToDate: number;      // Profit before tax since the start of the tax year
+  taxCharged: number;        // Tax charged on account so far this year
+  lossCarryForward: number;  // Losses from earlier years not yet offset
+}
 
-  for (let i = 0; i < monthlyData.length; i++) {
-    cumulativeCashFlow += monthlyData[i].netCashFlow;
+export const INITIAL_TAX_YEAR_STATE: TaxYearState = { profitToDate: 0, taxCharged: 0, lossCarryForward: 0 };
 
-    if (cumulativeCashFlow >= 0) {
-      return i + 1; // Return the month where cumulative cash flow becomes positive
-    }
+/**
+ * Corporate tax for one month, netted across the tax year
+ * Tax is charged on account on the year-to-date profit, so a loss later in the year offsets
+ * an earlier profit. At year end the charge is trued up (a negative tax is a refund of tax paid
+ * on account), an annual loss joins the carry-forward pool and the year-to-date position resets.
+ * Returns the tax for the month (positive = payable) and the updated state.
+ */
+export function calculateTaxForMonth(
+  profitBeforeTax: number,
+  taxRate: number,
+  state: TaxYearState,
+  isYearEnd: boolean
+): { tax: number; state: TaxYearState } {
+  const profitToDate = state.profitToDate + profitBeforeTax;
+  const lossUsed = Math.min(state.lossCarryForward, Math.max(0, profitToDate));
+  const taxDueToDate = Math.max(0, profitToDate - lossUsed) * taxRate;
+  const tax = isYearEnd
+    ? taxDueToDate - state.taxCharged
+    : Math.max(0, taxDueToDate - state.taxCharged);
+
+  if (isYearEnd) {
+    return {
+      tax,
+      state: {
+        profitToDate: 0,
+        taxCharged: 0,
+        lossCarryForward: state.lossCarryForward - lossUsed + Math.max(0, -profitToDate),
+      },
+    };
   }
 
-  return 0; // Return 0 if payback period is never reached
+  return {
+    tax,
+    state: { ...state, profitToDate, taxCharged: state.taxCharged + tax },
+  };
 }
 
 /**
@@ -869,12 +1230,55 @@ export interface OpexCalculationResult {
   salesMarketing: number;
   rd: number;
   ga: number;
+  other: number;
+  lines: OpexLine[]; // Per item, positive amounts
   totalOpex: number;
 }
 
+export const OPEX_CATEGORY_LABELS: Record<OpexCategory, string> = {
+  sales_marketing: 'Sales & Marketing',
+  rd: 'Research & Development',
+  ga: 'General & Administrative',
+  other: 'Other Operating Expenses',
+};
+
+// Name patterns for items without an explicit category, checked in order
+const OPEX_CATEGORY_PATTERNS: [OpexCategory, RegExp][] = [
+  ['sales_marketing', /sales|marketing|advertis|acquisition|growth/i],
+  ['rd', /r\s*&\s*d|research|development|engineering|product/i],
+  ['ga', /g\s*&\s*a|general|admin|overhead|finance|legal|office|people|\bhr\b/i],
+];
+
+/**
+ * Category of an OpEx item: the explicit category, otherwise inferred from its name
+ * Position in the opex array carries no meaning, so reordering never relabels costs
+ */
+export function getOpexCategory(item: Pick<OpexItem, 'name' | 'category'> | undefined): OpexCategory {
+  if (item?.category) {
+    return item.category;
+  }
+
+  const match = OPEX_CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(item?.name || ''));
+  return match ? match[0] : 'other';
+}
+
+/**
+ * Salary cost of the roles active in a month (zero-based monthIndex)
+ */
+export function calculateHeadcountCostForMonth(roles: readonly HeadcountRole[] | undefined, monthIndex: number): number {
+  const month = monthIndex + 1;
+  return (roles || []).reduce((sum, role) => {
+    const started = month >= (role.start_month || 1);
+    const ended = role.end_month !== undefined && month > role.end_month;
+    if (!started || ended) return sum;
+    return sum + (role.count?.value || 0) * (role.monthly_salary?.value || 0);
+  }, 0);
+}
+
 /**
  * Calculate OPEX costs for a specific month with support for variable costs
  * Supports both legacy fixed-only format and new format with variable components
+ * Every item is returned as its own line and summed into its category total.
  *
  * @param businessData - Business case data
  * @param monthIndex - Zero-based month index
@@ -888,56 +1292,38 @@ export function calculateOpexForMonth(
   revenue: number,
   volume: number
 ): OpexCalculationResult {
-  if (!businessData?.assumptions?.opex) {
-    return {
-      salesMarketing: 0,
-      rd: 0,
-      ga: 0,
-      totalOpex: 0
-    };
-  }
-
-  const opexItems = businessData.assumptions.opex;
-
-  // For backwards compatibility with legacy 3-category format:
-  // - Index 0: Sales & Marketing
-  // - Index 1: R&D
-  // - Index 2: G&A
-  // For new format with more OPEX items: sum ALL items into totalOpex
-  // The individual categories are populated from indices 0-2 for display purposes
+  const result: OpexCalculationResult = {
+    salesMarketing: 0,
+    rd: 0,
+    ga: 0,
+    other: 0,
+    lines: [],
+    totalOpex: 0
+  };
 
-  const salesMarketing = calculateSingleOpexItem(opexItems[0], revenue, volume);
-  const rd = calculateSingleOpexItem(opexItems[1], revenue, volume);
-  const ga = calculateSingleOpexItem(opexItems[2], revenue, volume);
+  for (const item of businessData?.assumptions?.opex || []) {
+    const category = getOpexCategory(item);
+    const amount = calculateSingleOpexItem(item, monthIndex, revenue, volume);
 
-  // Calculate total OPEX from ALL items (not just first 3)
-  let totalOpex = 0;
-  for (const item of opexItems) {
-    totalOpex += calculateSingleOpexItem(item as any, revenue, volume);
+    result.lines.push({ name: item.name, category, amount });
+    result.totalOpex += amount;
+    if (category === 'sales_marketing') result.salesMarketing += amount;
+    else if (category === 'rd') result.rd += amount;
+    else if (category === 'ga') result.ga += amount;
+    else result.other += amount;
   }
 
-  return {
-    salesMarketing,
-    rd,
-    ga,
-    totalOpex
-  };
+  return result;
 }
 
 /**
  * Calculate a single OPEX item value
- * Handles both legacy format (value only) and new format (cost_structure)
+ * Handles both legacy format (value only) and new format (cost_structure),
+ * plus any headcount charged to the item
  */
 function calculateSingleOpexItem(
-  opexItem: { 
-    name: string; 
-    value?: { value: number; unit: string; rationale: string }; 
-    cost_structure?: {
-      fixed_component?: { value: number; unit: string; rationale: string };
-      variable_revenue_rate?: { value: number; unit: string; rationale: string };
-      variable_volume_rate?: { value: number; unit: string; rationale: string };
-    };
-  } | undefined,
+  opexItem: OpexItem | undefined,
+  monthIndex: number,
   revenue: number,
   volume: number
 ): number {
@@ -945,6 +1331,8 @@ function calculateSingleOpexItem(
     return 0;
   }
 
+  const headcountCost = calculateHeadcountCostForMonth(opexItem.headcount, monthIndex);
+
   // New format: cost_structure with fixed and variable components
   if (opexItem.cost_structure) {
     const fixedComponent = opexItem.cost_structure.fixed_component?.value || 0;
@@ -953,6 +1341,7 @@ function calculateSingleOpexItem(
 
     const total = 
       fixedComponent +
+      headcountCost +
       (revenue * variableRevenueRate) +
       (volume * variableVolumeRate);
 
@@ -961,56 +1350,8 @@ function calculateSingleOpexItem(
 
   // Legacy format: fixed value only (backwards compatibility)
   if (opexItem.value?.value !== undefined) {
-    return opexItem.value.value;
+    return opexItem.value.value + headcountCost;
   }
 
-  return 0;
-}
-
-/**
- * Format currency based on business data currency setting
- */
-export function formatCurrency(amount: number, currency: string = 'EUR'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
+  return headcountCost;
 }
-
-/**
- * Format percentage values
- */
-export function formatPercent(value: number): string {
-  return `${(value * 100).toFixed(1)}%`;
-}
-
-/**
- * Check if IRR result is an error code
- */
-export function isIRRError(irr: number): boolean {
-  return irr < 0 && Object.values(IRR_ERROR_CODES).includes(irr as any);
-}
-
-/**
- * Get human-readable error message for IRR error codes
- */
-export function getIRRErrorMessage(irr: number): string {
-  switch (irr) {
-    case IRR_ERROR_CODES.NO_DATA:
-      return 'No data available for IRR calculation';
-    case IRR_ERROR_CODES.ALL_SAME:
-      return 'All cash flows are identical - IRR cannot be calculated';
-    case IRR_ERROR_CODES.ALL_POSITIVE:
-      return 'All cash flows are positive - infinite return';
-    case IRR_ERROR_CODES.ALL_NEGATIVE:
-      return 'All cash flows are negative - no return possible';
-    case IRR_ERROR_CODES.NO_CONVERGENCE:
-      return 'IRR calculation did not converge';
-    case IRR_ERROR_CODES.EXTREME_RATE:
-      return 'IRR calculation resulted in extreme rate';
-    default:
-      return 'Unknown IRR error';
-  }
-}
\ No newline at end of file
@@ -3,131 +3,7 @@
  * Independent market analysis calculations
  */
 
-// Reusable type for values with rationales and optional links
-export interface ValueWithMeta {
-  value: number;
-  unit: string;
-  rationale: string;
-  link?: string; // Optional link for AI to provide source URLs
-}
-
-export interface MarketDriver {
-  key: string;
-  label: string;
-  path: string;
-  range: number[];
-  rationale: string;
-}
-
-export interface MarketData {
-  schema_version?: string;
-  meta?: {
-    title?: string;
-    description?: string;
-    currency?: string;
-    base_year?: number;
-    analysis_horizon_years?: number;
-    created_date?: string;
-    analyst?: string;
-  };
-  drivers?: MarketDriver[];
-  market_sizing?: {
-    total_addressable_market?: {
-      base_value: ValueWithMeta;
-      growth_rate: ValueWithMeta;
-      market_definition: string;
-      data_sources: string[];
-    };
-    serviceable_addressable_market?: {
-      percentage_of_tam: ValueWithMeta;
-      geographic_constraints: string;
-      regulatory_constraints: string;
-      capability_constraints: string;
-    };
-    serviceable_obtainable_market?: {
-      percentage_of_sam: ValueWithMeta;
-      resource_constraints: string;
-      competitive_barriers: string;
-      time_constraints: string;
-    };
-  };
-  market_share?: {
-    current_position?: {
-      current_share: ValueWithMeta;
-      market_entry_date: string;
-      current_revenue: ValueWithMeta;
-    };
-    target_position?: {
-      target_share: ValueWithMeta;
-      target_timeframe: ValueWithMeta;
-      penetration_strategy: 'linear' | 'exponential' | 's_curve';
-      key_milestones: Array<{
-        year: number;
-        milestone: string;
-        target_share: number;
-        rationale: string;
-      }>;
-    };
-  };
-  competitive_landscape?: {
-    positioning_axes?: {
-      x_axis_label: string;
-      y_axis_label: string;
-    };
-    our_position?: {
-      x: number;
-      y: number;
-    };
-    market_structure?: {
-      concentration_level: 'fragmented' | 'moderately_concentrated' | 'highly_concentrated';
-      concentration_rationale: string;
-      barriers_to_entry: 'low' | 'medium' | 'high';
-      barriers_description: string;
-    };
-    competitors?: Array<{
-      name: string;
-      market_share: ValueWithMeta;
-      positioning: string;
-      strengths: string[];
-      weaknesses: string[];
-      threat_level: 'high' | 'medium' | 'low';
-      competitive_response: string;
-      x_position?: number;
-      y_position?: number;
-    }>;
-    competitive_advantages?: Array<{
-      advantage: string;
-      sustainability: 'high' | 'medium' | 'low';
-      rationale: string;
-    }>;
-    data_sources?: string[];
-  };
-  customer_analysis?: {
-    market_segments?: Array<{
-      id: string;
-      name: string;
-      size_percentage: ValueWithMeta;
-      size_value: ValueWithMeta;
-      growth_rate: ValueWithMeta;
-      demographics: string;
-      pain_points: string;
-      customer_profile: string;
-      value_drivers: string[];
-      entry_strategy: string;
-    }>;
-    data_sources?: string[];
-  };
-  strategic_planning?: {
-    note?: string;
-    market_entry_strategies?: Array<{
-      name: string;
-      type?: 'partnership' | 'direct' | 'platform' | 'gradual' | string;
-      essence: string;
-      rationale: string;
-    }>;
-    data_sources?: string[];
-  };
-}
+import type { BottomUpSizingLine, MarketData, MarketSizingMethod } from '@/core/types/market';
 
 export interface MarketMetrics {
   year: number;
@@ -154,6 +30,25 @@ export interface MarketVolumeProjection {
   marketBasedVolume: number;
   marketValue: number;
   cumulativeVolume: number;
+  segments: SegmentProjection[];  // Empty when the market has no sized segments
+}
+
+export interface SegmentProjection {
+  id: string;
+  name: string;
+  tam: number;
+  sam: number;
+  som: number;
+  marketShare: number;
+  marketValue: number;
+}
+
+interface SegmentSizingInput {
+  id: string;
+  name: string;
+  baseSize: number;       // Base-year market value
+  growthRate: number;     // % per year
+  targetShare?: number;   // % of the segment's SOM, overrides the overall target share
 }
 
 /**
@@ -181,10 +76,22 @@ export function calculateMarketSAM(marketData: MarketData, year: number): number
   return tam * samPercentage;
 }
 
+export interface MarketSizingComparison {
+  topDown: number;            // Base-year SOM from TAM × SAM% × SOM%
+  bottomUp: number;           // Base-year sum of accounts × adoption × annual spend
+  selected: number;           // Base-year figure that feeds SOM
+  method: MarketSizingMethod;
+  divergence: number | null;  // (bottomUp − topDown) / topDown, null when either side is missing
+  diverges: boolean;          // |divergence| exceeds the configured threshold
+}
+
+const DEFAULT_BLEND_WEIGHT = 50;
+const DEFAULT_DIVERGENCE_THRESHOLD = 25;
+
 /**
- * Calculate Serviceable Obtainable Market for a specific year
+ * Top-down Serviceable Obtainable Market for a specific year
  */
-export function calculateMarketSOM(marketData: MarketData, year: number): number {
+export function calculateTopDownSOM(marketData: MarketData, year: number): number {
   const sam = calculateMarketSAM(marketData, year);
   const somPercentage = (marketData?.market_sizing?.serviceable_obtainable_market?.percentage_of_sam?.value || 0) / 100;
   
@@ -192,39 +99,186 @@ export function calculateMarketSOM(marketData: MarketData, year: number): number
 }
 
 /**
- * Calculate market share progression for a specific time period
+ * Annual spend obtainable from one bottom-up line
  */
-export function calculateMarketShareProgression(marketData: MarketData, monthIndex: number): number {
-  const marketShare = marketData?.market_share;
-  if (!marketShare?.current_position || !marketShare?.target_position) return 0;
-  
-  const currentShare = (marketShare.current_position.current_share?.value || 0) / 100;
-  const targetShare = (marketShare.target_position.target_share?.value || 0) / 100;
-  const targetTimeframe = marketShare.target_position.target_timeframe?.value || 5; // years
-  const strategy = marketShare.target_position.penetration_strategy || 'linear';
+export function calculateBottomUpLine(line: BottomUpSizingLine): number {
+  const accounts = line.target_accounts?.value || 0;
+  const adoption = (line.adoption_rate?.value || 0) / 100;
+  const spend = line.annual_spend?.value || 0;
+
+  return accounts * adoption * spend;
+}
+
+/**
+ * Bottom-up obtainable market in the base year
+ */
+export function calculateBottomUpMarket(marketData: MarketData): number {
+  const lines = marketData?.market_sizing?.bottom_up?.lines || [];
+  return lines.reduce((sum, line) => sum + calculateBottomUpLine(line), 0);
+}
+
+/**
+ * Compare the top-down and bottom-up estimates and resolve the one that feeds SOM
+ * Bottom-up or blended selections fall back to top-down while no bottom-up lines exist
+ */
+export function getMarketSizingComparison(marketData: MarketData): MarketSizingComparison {
+  const bottomUpConfig = marketData?.market_sizing?.bottom_up;
+  const baseYear = marketData?.meta?.base_year || 2024;
+  const topDown = calculateTopDownSOM(marketData, baseYear);
+  const bottomUp = calculateBottomUpMarket(marketData);
+  const method = bottomUp > 0 ? bottomUpConfig?.selected_method || 'top_down' : 'top_down';
+
+  const weight = Math.min(100, Math.max(0, bottomUpConfig?.blend_weight ?? DEFAULT_BLEND_WEIGHT)) / 100;
+  const selected = method === 'bottom_up'
+    ? bottomUp
+    : method === 'blended'
+      ? bottomUp * weight + topDown * (1 - weight)
+      : topDown;
+
+  const divergence = topDown > 0 && bottomUp > 0 ? (bottomUp - topDown) / topDown : null;
+  const threshold = (bottomUpConfig?.divergence_threshold ?? DEFAULT_DIVERGENCE_THRESHOLD) / 100;
+
+  return {
+    topDown,
+    bottomUp,
+    selected,
+    method,
+    divergence,
+    diverges: divergence !== null && Math.abs(divergence) > threshold,
+  };
+}
+
+/**
+ * Calculate Serviceable Obtainable Market for a specific year
+ * Uses the selected sizing method, grown from the base year at the TAM growth rate
+ */
+export function calculateMarketSOM(marketData: MarketData, year: number): number {
+  const comparison = getMarketSizingComparison(marketData);
+  if (comparison.method === 'top_down') {
+    return calculateTopDownSOM(marketData, year);
+  }
+
+  const growthRate = (marketData?.market_sizing?.total_addressable_market?.growth_rate?.value || 0) / 100;
+  const baseYear = marketData?.meta?.base_year || 2024;
+
+  return comparison.selected * Math.pow(1 + growthRate, year - baseYear);
+}
+
+/**
+ * Share of the way from current to target market share after a number of months (0-1)
+ */
+export function calculatePenetrationFactor(marketData: MarketData, monthIndex: number): number {
+  const targetPosition = marketData?.market_share?.target_position;
+  const targetTimeframe = targetPosition?.target_timeframe?.value || 5; // years
+  const strategy = targetPosition?.penetration_strategy || 'linear';
   
   const yearsPassed = Math.max(0, monthIndex) / 12; // Ensure non-negative
   const progressRatio = Math.min(yearsPassed / targetTimeframe, 1);
   
-  let penetrationFactor: number;
-  
   switch (strategy) {
     case 'linear':
-      penetrationFactor = progressRatio;
-      break;
+      return progressRatio;
     case 'exponential':
       // Faster growth early, slowing down later
-      penetrationFactor = 1 - Math.exp(-3 * progressRatio);
-      break;
+      return 1 - Math.exp(-3 * progressRatio);
     case 's_curve':
       // S-curve: slow start, rapid middle, slow end
-      penetrationFactor = 1 / (1 + Math.exp(-10 * (progressRatio - 0.5)));
-      break;
+      return 1 / (1 + Math.exp(-10 * (progressRatio - 0.5)));
     default:
-      penetrationFactor = progressRatio;
+      return progressRatio;
   }
+}
+
+/**
+ * Calculate market share progression for a specific time period
+ */
+export function calculateMarketShareProgression(marketData: MarketData, monthIndex: number): number {
+  const marketShare = marketData?.market_share;
+  if (!marketShare?.current_position || !marketShare?.target_position) return 0;
+  
+  const currentShare = (marketShare.current_position.current_share?.value || 0) / 100;
+  const targetShare = (marketShare.target_position.target_share?.value || 0) / 100;
   
-  return currentShare + (targetShare - currentShare) * penetrationFactor;
+  return currentShare + (targetShare - currentShare) * calculatePenetrationFactor(marketData, monthIndex);
+}
+
+// Segments below this share of TAM are not worth an "Other" remainder
+const MIN_REMAINDER_SHARE = 0.005;
+
+// Segment holding whatever TAM the declared segments leave uncovered
+export const OTHER_SEGMENT_ID = 'other';
+
+export const isPercentUnit = (unit?: string) => !!unit && (unit.includes('%') || unit.includes('percent'));
+
+/**
+ * Base-year size, growth and target share of every customer segment
+ * Reads customer_analysis.segments, falling back to the market_segments shape the templates use.
+ * Percentage sizes are taken as a share of TAM; whatever TAM the segments leave uncovered
+ * becomes an "Other" segment growing at the TAM rate, so segments always sum to the market.
+ */
+function getSegmentSizingInputs(marketData: MarketData): SegmentSizingInput[] {
+  const baseYear = marketData?.meta?.base_year || 2024;
+  const tam = calculateMarketTAM(marketData, baseYear);
+  const tamGrowth = marketData?.market_sizing?.total_addressable_market?.growth_rate?.value || 0;
+
+  const typed: SegmentSizingInput[] = (marketData?.customer_analysis?.segments || []).map(segment => ({
+    id: segment.id,
+    name: segment.name,
+    baseSize: isPercentUnit(segment.size?.unit) ? (segment.size.value / 100) * tam : segment.size?.value || 0,
+    growthRate: segment.growth_rate?.value ?? tamGrowth,
+    targetShare: segment.target_share?.value,
+  }));
+  const legacy: SegmentSizingInput[] = (marketData?.customer_analysis?.market_segments || []).map(segment => ({
+    id: segment.id,
+    name: segment.name,
+    baseSize: segment.size_value?.value || ((segment.size_percentage?.value || 0) / 100) * tam,
+    growthRate: segment.growth_rate?.value ?? tamGrowth,
+    targetShare: segment.target_share?.value,
+  }));
+
+  const inputs = (typed.length > 0 ? typed : legacy).filter(segment => segment.baseSize > 0);
+  if (inputs.length === 0) return [];
+
+  const remainder = tam - inputs.reduce((sum, segment) => sum + segment.baseSize, 0);
+  if (remainder > tam * MIN_REMAINDER_SHARE) {
+    inputs.push({ id: OTHER_SEGMENT_ID, name: 'Other', baseSize: remainder, growthRate: tamGrowth });
+  }
+  return inputs;
+}
+
+/**
+ * Project every customer segment for a month, each at its own growth rate and target share
+ * The market's SAM and SOM ratios of the base year apply to every segment
+ */
+export function calculateSegmentProjections(marketData: MarketData, monthIndex: number): SegmentProjection[] {
+  const baseYear = marketData?.meta?.base_year || 2024;
+  const year = Math.floor(Math.max(0, monthIndex) / 12) + baseYear;
+  const baseTam = calculateMarketTAM(marketData, baseYear);
+  if (baseTam <= 0) return [];
+
+  const samRatio = calculateMarketSAM(marketData, baseYear) / baseTam;
+  const somRatio = calculateMarketSOM(marketData, baseYear) / baseTam;
+  const currentShare = (marketData?.market_share?.current_position?.current_share?.value || 0) / 100;
+  const overallShare = calculateMarketShareProgression(marketData, monthIndex);
+  const penetration = calculatePenetrationFactor(marketData, monthIndex);
+
+  return getSegmentSizingInputs(marketData).map(segment => {
+    const tam = segment.baseSize * Math.pow(1 + segment.growthRate / 100, year - baseYear);
+    const som = tam * somRatio;
+    const marketShare = segment.targetShare !== undefined
+      ? currentShare + (segment.targetShare / 100 - currentShare) * penetration
+      : overallShare;
+
+    return {
+      id: segment.id,
+      name: segment.name,
+      tam,
+      sam: tam * samRatio,
+      som,
+      marketShare,
+      marketValue: som * marketShare,
+    };
+  });
 }
 
 /**
@@ -290,12 +344,17 @@ export function getMarketPenetrationTrajectory(marketData: MarketData, periods:
   
   for (let i = 0; i < periods; i++) {
     const year = Math.floor(i / 12) + (marketData?.meta?.base_year || 2024);
-    const tam = calculateMarketTAM(marketData, year);
-    const sam = calculateMarketSAM(marketData, year);
-    const som = calculateMarketSOM(marketData, year);
-    const marketShare = calculateMarketShareProgression(marketData, i);
+    const segments = calculateSegmentProjections(marketData, i);
+    const sum = (field: 'tam' | 'sam' | 'som' | 'marketValue') =>
+      segments.reduce((total, segment) => total + segment[field], 0);
+
+    // Segmented markets are the sum of their independently growing segments
+    const tam = segments.length > 0 ? sum('tam') : calculateMarketTAM(marketData, year);
+    const sam = segments.length > 0 ? sum('sam') : calculateMarketSAM(marketData, year);
+    const som = segments.length > 0 ? sum('som') : calculateMarketSOM(marketData, year);
+    const marketValue = segments.length > 0 ? sum('marketValue') : som * calculateMarketShareProgression(marketData, i);
+    const marketShare = som > 0 ? marketValue / som : calculateMarketShareProgression(marketData, i);
     const marketBasedVolume = calculateMarketBasedVolumeProjection(marketData, i);
-    const marketValue = som * marketShare;
     
     cumulativeVolume += marketBasedVolume;
     
@@ -308,7 +367,8 @@ export function getMarketPenetrationTrajectory(marketData: MarketData, periods:
       marketShare,
       marketBasedVolume,
       marketValue,
-      cumulativeVolume
+      cumulativeVolume,
+      segments
     });
   }
   
@@ -337,12 +397,18 @@ export function validateMarketAnalysis(marketData: MarketData): {
     errors.push("Serviceable Addressable Market percentage must be between 0 and 100");
   }
   
-  // Check SOM percentage
+  // Check SOM percentage, which only matters while SOM comes from the top-down funnel
+  const sizing = getMarketSizingComparison(marketData);
   const somPercentage = marketData?.market_sizing?.serviceable_obtainable_market?.percentage_of_sam?.value || 0;
-  if (somPercentage <= 0 || somPercentage > 100) {
+  if (sizing.method === 'top_down' && (somPercentage <= 0 || somPercentage > 100)) {
     errors.push("Serviceable Obtainable Market percentage must be between 0 and 100");
   }
-  
+
+  // Check top-down and bottom-up sizing agree
+  if (sizing.diverges) {
+    warnings.push(`Bottom-up sizing differs from the top-down SOM by ${Math.round(sizing.divergence! * 100)}%`);
+  }
+
   // Check market share data
   const currentShare = marketData?.market_share?.current_position?.current_share?.value || 0;
   const targetShare = marketData?.market_share?.target_position?.target_share?.value || 0;
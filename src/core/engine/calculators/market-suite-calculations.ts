@@ -3,7 +3,10 @@
  * Advanced market research and strategic analysis calculations
  */
 
-import { MarketData } from './market-calculations';
+import type { MarketData } from '@/core/types';
+import { getMarketSizingComparison } from './market-calculator';
+import { applyRiskToOpportunityScore, calculateRiskRegisterScore } from './risk-calculator';
+import { strategyToOption } from './strategy-calculator';
 
 // Extended interfaces for comprehensive market analysis
 export interface MarketSuiteMetrics {
@@ -71,6 +74,7 @@ export interface StrategicOption {
   timeToMarket: number; // months
   probability: number; // 0-100
   strategicFit: number; // 0-100
+  scenarioKey?: string; // Linked business case scenario
 }
 
 export interface MarketOpportunityMatrix {
@@ -98,10 +102,10 @@ export function calculateSuiteMetrics(marketData: MarketData): MarketSuiteMetric
   // Basic market sizing (handle missing module)
   const tam = hasMarketSizing ? (marketData.market_sizing?.total_addressable_market?.base_value?.value || 0) : 0;
   const samPercentage = hasMarketSizing ? ((marketData.market_sizing?.serviceable_addressable_market?.percentage_of_tam?.value || 0) / 100) : 0;
-  const somPercentage = hasMarketSizing ? ((marketData.market_sizing?.serviceable_obtainable_market?.percentage_of_sam?.value || 0) / 100) : 0;
   
   const sam = tam * samPercentage;
-  const som = sam * somPercentage;
+  // SOM follows the selected sizing method (top-down, bottom-up or blended)
+  const som = hasMarketSizing ? getMarketSizingComparison(marketData).selected : 0;
   
   // Growth metrics (handle missing module)
   const marketGrowthRate = hasMarketSizing ? (marketData.market_sizing?.total_addressable_market?.growth_rate?.value || 0) : 0;
@@ -133,18 +137,18 @@ export function calculateSuiteMetrics(marketData: MarketData): MarketSuiteMetric
   const competitiveAdvantages = hasCompetitiveLandscape ? (marketData.competitive_landscape?.competitive_advantages || []) : [];
   const strategicFitScore = Math.min(100, competitiveAdvantages.length * 20);
   
-  // Risk assessment - removed market_dynamics module, setting baseline risk score
-  const riskScore = 50; // Baseline risk score when market_dynamics module is not present
+  // Risk register score from residual probability × impact (baseline when no risks are assessed)
+  const riskScore = calculateRiskRegisterScore(marketData?.risk_assessment?.risks || []);
   
-  // Opportunity scoring
-  const opportunityScore = calculateOpportunityScore({
+  // Opportunity scoring, shifted by how risky the market is
+  const opportunityScore = applyRiskToOpportunityScore(calculateOpportunityScore({
     marketSize: tam,
     growthRate: marketGrowthRate,
     competitionLevel: marketConcentration,
     entryBarriers: entryBarrierScore,
     strategicFit: strategicFitScore,
     targetShare: targetShare * 100
-  });
+  }), riskScore);
   
   // Competitive positioning
   const competitivePosition = determineCompetitivePosition(
@@ -355,8 +359,14 @@ export function analyzeCustomerSegments(marketData: MarketData): CustomerSegment
 
 /**
  * Generate strategic options matrix
+ * Uses the persisted entry strategies when present, otherwise derives suggestions from the market
  */
 export function generateStrategicOptions(marketData: MarketData): StrategicOption[] {
+  const strategies = marketData?.strategic_planning?.market_entry_strategies || [];
+  if (strategies.length > 0) {
+    return strategies.map(strategyToOption);
+  }
+
   const tam = marketData?.market_sizing?.total_addressable_market?.base_value?.value || 0;
   const marketGrowthRate = marketData?.market_sizing?.total_addressable_market?.growth_rate?.value || 0;
   const entryBarriers = marketData?.competitive_landscape?.market_structure?.barriers_to_entry || 'medium';
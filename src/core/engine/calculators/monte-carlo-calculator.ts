@@ -0,0 +1,237 @@
+/**
+ * Monte Carlo Calculator
+ * Samples every sensitivity driver from its distribution and runs each draw
+ * through the central calculation engine to build an NPV distribution
+ */
+
+import { BusinessData, Driver } from '@/core/types';
+import { generateMonthlyData, calculateModelNPV } from './business-calculator-full';
+import { getNestedValue, safeUpdateNested } from '../utils/nested-operations';
+
+export const DEFAULT_MONTE_CARLO_ITERATIONS = 2000;
+export const MAX_MONTE_CARLO_ITERATIONS = 20000;
+export const DEFAULT_HISTOGRAM_BINS = 20;
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  seed?: number; // Fixed seed for reproducible runs
+  bins?: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number; // Successful draws
+  failedIterations: number;
+  drivers: string[]; // Keys of the drivers that were sampled
+  npv: {
+    p10: number;
+    p50: number;
+    p90: number;
+    mean: number;
+    min: number;
+    max: number;
+  };
+  probabilityNegativeNpv: number; // 0-1
+  histogram: HistogramBin[];
+}
+
+export type MonteCarloWorkerRequest = {
+  type: 'run';
+  businessData: BusinessData;
+  options: MonteCarloOptions;
+};
+
+export type MonteCarloWorkerResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; result: MonteCarloResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Small seeded PRNG (mulberry32) returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lowest and highest value in a driver's range
+ * Ranges may list more than two points (e.g. a five-step sensitivity range)
+ */
+export function getDriverBounds(driver: Driver): [number, number] {
+  const values = (driver.range || []).filter(value => typeof value === 'number' && isFinite(value));
+  if (values.length === 0) {
+    return [0, 0];
+  }
+  return [Math.min(...values), Math.max(...values)];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Draw one value for a driver from its distribution
+ * baseValue is the current value at the driver path and centres triangular and normal draws
+ */
+export function sampleDriverValue(driver: Driver, baseValue: number | undefined, random: () => number): number {
+  const [min, max] = getDriverBounds(driver);
+  if (max <= min) {
+    return min;
+  }
+
+  const distribution = driver.distribution;
+  const centre = typeof baseValue === 'number' && isFinite(baseValue) ? clamp(baseValue, min, max) : (min + max) / 2;
+
+  if (distribution?.type === 'triangular') {
+    const mode = clamp(distribution.mode ?? centre, min, max);
+    const u = random();
+    const split = (mode - min) / (max - min);
+    return u < split
+      ? min + Math.sqrt(u * (max - min) * (mode - min))
+      : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+  }
+
+  if (distribution?.type === 'normal') {
+    const mean = distribution.mean ?? centre;
+    const stdDev = distribution.std_dev ?? (max - min) / 4;
+    // Box-Muller; 1 - random() keeps the log argument above zero
+    const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    return clamp(mean + z * stdDev, min, max);
+  }
+
+  return min + random() * (max - min);
+}
+
+/**
+ * Percentile of an ascending list with linear interpolation between ranks (p in 0-1)
+ */
+export function calculatePercentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+
+  const rank = clamp(p, 0, 1) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+}
+
+/**
+ * Equal-width histogram of an ascending list
+ */
+export function buildHistogram(sortedValues: number[], bins: number = DEFAULT_HISTOGRAM_BINS): HistogramBin[] {
+  if (sortedValues.length === 0) {
+    return [];
+  }
+
+  const min = sortedValues[0];
+  const max = sortedValues[sortedValues.length - 1];
+  if (max === min) {
+    return [{ start: min, end: max, count: sortedValues.length }];
+  }
+
+  const binCount = Math.max(1, Math.round(bins));
+  const width = (max - min) / binCount;
+  const histogram = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: i === binCount - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+
+  for (const value of sortedValues) {
+    histogram[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  }
+
+  return histogram;
+}
+
+/**
+ * Drivers that can be sampled: a numeric value at their path and a range of non-zero width
+ */
+export function getSampledDrivers(businessData: BusinessData): { driver: Driver; baseValue: number }[] {
+  return (businessData?.drivers || [])
+    .map(driver => {
+      let baseValue: unknown;
+      try {
+        baseValue = getNestedValue(businessData, driver.path);
+      } catch {
+        baseValue = undefined;
+      }
+      return { driver, baseValue: baseValue as number };
+    })
+    .filter(({ driver, baseValue }) => {
+      const [min, max] = getDriverBounds(driver);
+      return typeof baseValue === 'number' && max > min;
+    });
+}
+
+/**
+ * Run the simulation: every iteration samples all drivers, regenerates the monthly
+ * data and records its NPV. Draws whose overrides cannot be applied are counted as failed.
+ * onProgress is called roughly every 1% of iterations.
+ */
+export function runMonteCarloSimulation(
+  businessData: BusinessData,
+  options: MonteCarloOptions = {},
+  onProgress?: (completed: number, total: number) => void
+): MonteCarloResult {
+  const iterations = clamp(Math.round(options.iterations || DEFAULT_MONTE_CARLO_ITERATIONS), 1, MAX_MONTE_CARLO_ITERATIONS);
+  const random = createSeededRandom(options.seed ?? Date.now());
+  const drivers = getSampledDrivers(businessData);
+  const progressStep = Math.max(1, Math.floor(iterations / 100));
+
+  const npvs: number[] = [];
+  let failedIterations = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const overrides: Record<string, number> = {};
+    for (const { driver, baseValue } of drivers) {
+      overrides[driver.path] = sampleDriverValue(driver, baseValue, random);
+    }
+
+    try {
+      const sample = drivers.length > 0 ? safeUpdateNested(businessData, overrides) : businessData;
+      const npv = calculateModelNPV(sample, generateMonthlyData(sample));
+      if (isFinite(npv)) {
+        npvs.push(npv);
+      } else {
+        failedIterations++;
+      }
+    } catch {
+      failedIterations++;
+    }
+
+    if (onProgress && ((i + 1) % progressStep === 0 || i === iterations - 1)) {
+      onProgress(i + 1, iterations);
+    }
+  }
+
+  npvs.sort((a, b) => a - b);
+  const count = npvs.length;
+
+  return {
+    iterations: count,
+    failedIterations,
+    drivers: drivers.map(({ driver }) => driver.key),
+    npv: {
+      p10: calculatePercentile(npvs, 0.1),
+      p50: calculatePercentile(npvs, 0.5),
+      p90: calculatePercentile(npvs, 0.9),
+      mean: count > 0 ? npvs.reduce((sum, npv) => sum + npv, 0) / count : 0,
+      min: count > 0 ? npvs[0] : 0,
+      max: count > 0 ? npvs[count - 1] : 0,
+    },
+    probabilityNegativeNpv: count > 0 ? npvs.filter(npv => npv < 0).length / count : 0,
+    histogram: buildHistogram(npvs, options.bins),
+  };
+}
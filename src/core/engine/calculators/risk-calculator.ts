@@ -0,0 +1,149 @@
+/**
+ * Risk Register Calculator
+ * Scores market risks on a probability × impact grid, discounts them by mitigation
+ * progress and turns driver-bound risks into business case downside scenarios
+ */
+
+import type { BusinessData, MarketRisk, MitigationStatus, RiskRating, Scenario } from '@/core/types';
+import { buildDriverBindingOverrides, formatDriverBinding } from './scenario-calculator';
+
+export interface ScoredRisk {
+  id: string;
+  risk: MarketRisk;
+  inherentScore: number;   // probability × impact, 1-9
+  residualScore: number;   // inherent score after mitigation
+  mitigationStatus: MitigationStatus;
+  severity: RiskRating;    // From the residual score
+}
+
+export interface RiskHeatmapCell {
+  probability: RiskRating;
+  impact: RiskRating;
+  score: number;
+  risks: ScoredRisk[];
+}
+
+export const RISK_RATINGS: readonly RiskRating[] = ['low', 'medium', 'high'];
+
+const RATING_SCORES: Record<RiskRating, number> = { low: 1, medium: 2, high: 3 };
+const MAX_RISK_SCORE = 9;
+
+// Share of the mitigation effectiveness already realised at each status
+const MITIGATION_PROGRESS: Record<MitigationStatus, number> = {
+  not_started: 0,
+  in_progress: 0.5,
+  implemented: 1,
+};
+
+const DEFAULT_MITIGATION_EFFECTIVENESS = 50;
+
+// Score used while no risks have been assessed
+export const BASELINE_RISK_SCORE = 50;
+
+// Opportunity points gained or lost per risk point away from the baseline
+const RISK_OPPORTUNITY_WEIGHT = 0.2;
+
+/**
+ * Stable ID for a risk, falling back to its position in the register
+ */
+export function getRiskId(risk: MarketRisk, index: number): string {
+  return risk.id || `risk_${index + 1}`;
+}
+
+function getSeverity(score: number): RiskRating {
+  if (score >= 6) return 'high';
+  if (score >= 3) return 'medium';
+  return 'low';
+}
+
+/**
+ * Inherent and residual score of one risk
+ */
+export function scoreRisk(risk: MarketRisk, index: number): ScoredRisk {
+  const inherentScore = (RATING_SCORES[risk.probability] || 1) * (RATING_SCORES[risk.impact] || 1);
+  const mitigationStatus = risk.mitigation_status || 'not_started';
+  const effectiveness = Math.min(100, Math.max(0, risk.mitigation_effectiveness ?? DEFAULT_MITIGATION_EFFECTIVENESS)) / 100;
+  const residualScore = inherentScore * (1 - effectiveness * MITIGATION_PROGRESS[mitigationStatus]);
+
+  return {
+    id: getRiskId(risk, index),
+    risk,
+    inherentScore,
+    residualScore,
+    mitigationStatus,
+    severity: getSeverity(residualScore),
+  };
+}
+
+/**
+ * Every risk in the register, highest residual score first
+ */
+export function scoreRisks(risks: readonly MarketRisk[] = []): ScoredRisk[] {
+  return risks.map(scoreRisk).sort((a, b) => b.residualScore - a.residualScore);
+}
+
+/**
+ * 3 × 3 probability × impact grid, high probability first, with the risks in each cell
+ */
+export function buildRiskHeatmap(risks: readonly MarketRisk[] = []): RiskHeatmapCell[] {
+  const scored = scoreRisks(risks);
+  return [...RISK_RATINGS].reverse().flatMap(probability =>
+    RISK_RATINGS.map(impact => ({
+      probability,
+      impact,
+      score: RATING_SCORES[probability] * RATING_SCORES[impact],
+      risks: scored.filter(s => s.risk.probability === probability && s.risk.impact === impact),
+    }))
+  );
+}
+
+/**
+ * Register-level risk score (0-100) from residual scores
+ * Blends the average with the worst risk so one severe risk is not averaged away
+ */
+export function calculateRiskRegisterScore(risks: readonly MarketRisk[] = []): number {
+  if (risks.length === 0) return BASELINE_RISK_SCORE;
+
+  const residuals = risks.map((risk, index) => scoreRisk(risk, index).residualScore);
+  const mean = residuals.reduce((sum, score) => sum + score, 0) / residuals.length;
+  const worst = Math.max(...residuals);
+
+  return Math.round(((0.6 * mean + 0.4 * worst) / MAX_RISK_SCORE) * 100);
+}
+
+/**
+ * Shift an opportunity score by how far the risk score sits from the baseline
+ */
+export function applyRiskToOpportunityScore(opportunityScore: number, riskScore: number): number {
+  const adjusted = opportunityScore - (riskScore - BASELINE_RISK_SCORE) * RISK_OPPORTUNITY_WEIGHT;
+  return Math.round(Math.min(100, Math.max(0, adjusted)));
+}
+
+/**
+ * Downside scenario applying a risk's driver bindings to the business case
+ * Returns null when none of the bound paths holds a number
+ */
+export function buildRiskScenario(risk: MarketRisk, index: number, businessData: BusinessData): Scenario | null {
+  const overrides = buildDriverBindingOverrides(risk.driver_bindings, businessData);
+  if (Object.keys(overrides).length === 0) return null;
+
+  const changes = (risk.driver_bindings || [])
+    .filter(binding => binding.path in overrides)
+    .map(formatDriverBinding);
+
+  return {
+    key: `risk_${getRiskId(risk, index)}`,
+    name: `Downside: ${risk.risk}`,
+    description: `If this ${risk.probability}-probability risk materialises: ${changes.join(', ')}`,
+    overrides,
+  };
+}
+
+/**
+ * Downside scenarios for every risk bound to business case drivers
+ */
+export function buildRiskScenarios(risks: readonly MarketRisk[] = [], businessData: BusinessData): Scenario[] {
+  return risks
+    .map((risk, index) => buildRiskScenario(risk, index, businessData))
+    .filter((scenario): scenario is Scenario => scenario !== null);
+}
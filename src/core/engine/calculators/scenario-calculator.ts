@@ -0,0 +1,119 @@
+/**
+ * Scenario Calculator
+ * Applies scenario overrides on top of the base business case and runs every
+ * variant through the central calculation engine
+ */
+
+import { BusinessData, CalculatedMetrics, DriverBinding, Scenario } from '@/core/types';
+import { calculateBusinessMetrics } from './business-calculator-full';
+import { getNestedValue, safeUpdateNested } from '../utils/nested-operations';
+
+export interface ScenarioResult {
+  scenario: Scenario;
+  metrics: CalculatedMetrics | null;
+  cumulativeCashFlow: number[];
+  error?: string;
+}
+
+/**
+ * Implicit scenario representing the unmodified business case
+ */
+export const BASE_SCENARIO: Scenario = {
+  key: 'base',
+  name: 'Base Case',
+  description: 'Business case as entered, without overrides',
+  overrides: {},
+};
+
+/**
+ * Apply a scenario's path→value overrides to the business data
+ * Throws if an override path is unsafe or cannot be written
+ */
+export function applyScenario(businessData: BusinessData, scenario: Scenario): BusinessData {
+  const overrides = scenario?.overrides || {};
+  if (Object.keys(overrides).length === 0) {
+    return businessData;
+  }
+
+  return safeUpdateNested(businessData, overrides as Record<string, unknown>);
+}
+
+/**
+ * Running total of net cash flow, one entry per period
+ */
+export function calculateCumulativeCashFlow(monthlyData: CalculatedMetrics['monthlyData']): number[] {
+  let cumulative = 0;
+  return monthlyData.map(month => {
+    cumulative += month.netCashFlow;
+    return cumulative;
+  });
+}
+
+/**
+ * Calculate metrics for a single scenario
+ * Invalid overrides are reported on the result instead of throwing
+ */
+export function calculateScenarioResult(businessData: BusinessData, scenario: Scenario): ScenarioResult {
+  try {
+    const scenarioData = applyScenario(businessData, scenario);
+    const metrics = calculateBusinessMetrics(scenarioData);
+
+    return {
+      scenario,
+      metrics,
+      cumulativeCashFlow: calculateCumulativeCashFlow(metrics.monthlyData),
+    };
+  } catch (error) {
+    return {
+      scenario,
+      metrics: null,
+      cumulativeCashFlow: [],
+      error: error instanceof Error ? error.message : 'Unknown scenario error',
+    };
+  }
+}
+
+/**
+ * Calculate all scenarios defined on the business case, side by side
+ * The base case is included first unless disabled
+ */
+export function calculateScenarioComparison(
+  businessData: BusinessData | null,
+  options: { includeBase?: boolean } = {}
+): ScenarioResult[] {
+  if (!businessData) {
+    return [];
+  }
+
+  const { includeBase = true } = options;
+  const scenarios = businessData.scenarios || [];
+  const allScenarios = includeBase ? [BASE_SCENARIO, ...scenarios] : [...scenarios];
+
+  return allScenarios.map(scenario => calculateScenarioResult(businessData, scenario));
+}
+
+/**
+ * Scenario overrides for a set of relative driver changes
+ * Bindings whose path does not hold a number in the business case are skipped
+ */
+export function buildDriverBindingOverrides(
+  bindings: readonly DriverBinding[] = [],
+  businessData: BusinessData
+): Record<string, number> {
+  const overrides: Record<string, number> = {};
+
+  for (const binding of bindings) {
+    const baseValue = getNestedValue(businessData, binding.path);
+    if (typeof baseValue !== 'number') continue;
+    overrides[binding.path] = Math.round(baseValue * (1 + binding.change_pct / 100) * 10000) / 10000;
+  }
+
+  return overrides;
+}
+
+/**
+ * Human-readable change, e.g. "Unit price -20%"
+ */
+export function formatDriverBinding(binding: DriverBinding): string {
+  return `${binding.label || binding.path} ${binding.change_pct > 0 ? '+' : ''}${binding.change_pct}%`;
+}
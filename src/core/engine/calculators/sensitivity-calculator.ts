@@ -0,0 +1,213 @@
+/**
+ * Sensitivity Calculator
+ * Tornado ranking of drivers and goal-seek over a single assumption path,
+ * both evaluated through the central calculation engine
+ */
+
+import { BusinessData, CalculatedMetrics, Driver } from '@/core/types';
+import { calculateBusinessMetrics } from './business-calculator-full';
+import { getDriverBounds } from './monte-carlo-calculator';
+import { getNestedValue, setNestedValue } from '../utils/nested-operations';
+import { isIRRError } from '../utils/financial';
+
+export interface TornadoBar {
+  driver: Driver;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  npvAtLow: number;
+  npvAtHigh: number;
+  swing: number; // Absolute NPV difference between the two ends of the range
+}
+
+export interface TornadoResult {
+  baseNpv: number;
+  bars: TornadoBar[]; // Largest swing first
+}
+
+export type GoalSeekMetric = 'npv' | 'irr' | 'paybackPeriod' | 'breakEvenMonth';
+
+export interface GoalSeekOptions {
+  min: number;
+  max: number;
+  tolerance?: number; // Accepted distance from the target for npv and irr
+  maxIterations?: number;
+}
+
+export interface GoalSeekResult {
+  found: boolean;
+  value: number | null; // Input value that reaches the target
+  achieved: number | null; // Metric at that value
+  iterations: number;
+  error?: string;
+}
+
+export const GOAL_SEEK_METRIC_LABELS: Record<GoalSeekMetric, string> = {
+  npv: 'NPV',
+  irr: 'IRR',
+  paybackPeriod: 'Payback month',
+  breakEvenMonth: 'Break-even month',
+};
+
+const DEFAULT_GOAL_SEEK_ITERATIONS = 60;
+
+// Month metrics are "reached" at or before the target month, so they are searched as a threshold
+const isMonthMetric = (metric: GoalSeekMetric) => metric === 'paybackPeriod' || metric === 'breakEvenMonth';
+
+/**
+ * Read a metric so that larger is always "later" for months and "better" for money
+ * A payback or break-even month of 0 means never, which is treated as infinitely late
+ */
+function readMetric(metrics: CalculatedMetrics, metric: GoalSeekMetric): number {
+  const value = metrics[metric];
+  if (isMonthMetric(metric)) {
+    return value > 0 ? value : Infinity;
+  }
+  if (metric === 'irr' && isIRRError(value)) {
+    return NaN;
+  }
+  return value;
+}
+
+/**
+ * Business metrics with one assumption path replaced
+ */
+export function calculateMetricsWithValue(businessData: BusinessData, path: string, value: number): CalculatedMetrics {
+  return calculateBusinessMetrics(setNestedValue(businessData, path, value));
+}
+
+/**
+ * Rank drivers by how far NPV moves between the low and high end of their range
+ * Drivers without a numeric value at their path or with a zero-width range are skipped
+ */
+export function calculateTornado(businessData: BusinessData | null): TornadoResult {
+  if (!businessData) {
+    return { baseNpv: 0, bars: [] };
+  }
+
+  const baseNpv = calculateBusinessMetrics(businessData).npv;
+  const bars: TornadoBar[] = [];
+
+  for (const driver of businessData.drivers || []) {
+    let baseValue: unknown;
+    try {
+      baseValue = getNestedValue(businessData, driver.path);
+    } catch {
+      continue;
+    }
+
+    const [lowValue, highValue] = getDriverBounds(driver);
+    if (typeof baseValue !== 'number' || highValue <= lowValue) continue;
+
+    const npvAtLow = calculateMetricsWithValue(businessData, driver.path, lowValue).npv;
+    const npvAtHigh = calculateMetricsWithValue(businessData, driver.path, highValue).npv;
+    bars.push({
+      driver,
+      baseValue,
+      lowValue,
+      highValue,
+      npvAtLow,
+      npvAtHigh,
+      swing: Math.abs(npvAtHigh - npvAtLow),
+    });
+  }
+
+  bars.sort((a, b) => b.swing - a.swing);
+  return { baseNpv, bars };
+}
+
+/**
+ * Find the value at a path that brings a metric to the target by bisection between min and max
+ * NPV and IRR are solved to within tolerance; payback and break-even months return the
+ * boundary value at which the month first reaches the target or earlier.
+ * The metric must cross the target somewhere in [min, max].
+ */
+export function goalSeek(
+  businessData: BusinessData,
+  path: string,
+  metric: GoalSeekMetric,
+  target: number,
+  options: GoalSeekOptions
+): GoalSeekResult {
+  const tolerance = options.tolerance ?? (metric === 'irr' ? 0.0001 : 1);
+  const maxIterations = options.maxIterations ?? DEFAULT_GOAL_SEEK_ITERATIONS;
+  const label = GOAL_SEEK_METRIC_LABELS[metric];
+
+  let low = Math.min(options.min, options.max);
+  let high = Math.max(options.min, options.max);
+  const evaluate = (value: number) => readMetric(calculateMetricsWithValue(businessData, path, value), metric);
+  const gap = (achieved: number) => (isMonthMetric(metric) ? target - achieved : achieved - target);
+
+  let gapLow: number;
+  let gapHigh: number;
+  try {
+    gapLow = gap(evaluate(low));
+    gapHigh = gap(evaluate(high));
+  } catch (error) {
+    return {
+      found: false,
+      value: null,
+      achieved: null,
+      iterations: 0,
+      error: error instanceof Error ? error.message : `Cannot change ${path}`,
+    };
+  }
+
+  if (isNaN(gapLow) || isNaN(gapHigh)) {
+    return { found: false, value: null, achieved: null, iterations: 0, error: `${label} cannot be calculated at the search bounds` };
+  }
+
+  if (gapLow === 0 || gapHigh === 0) {
+    const value = gapLow === 0 ? low : high;
+    return { found: true, value, achieved: evaluate(value), iterations: 0 };
+  }
+
+  if (Math.sign(gapLow) === Math.sign(gapHigh)) {
+    const side = gapLow > 0 ? 'meets' : 'misses';
+    return {
+      found: false,
+      value: null,
+      achieved: null,
+      iterations: 0,
+      error: `${label} ${side} the target across the whole search range; widen the bounds`,
+    };
+  }
+
+  // gap >= 0 means the target is met (at or above for money, at or before for months)
+  let iterations = 0;
+  while (iterations < maxIterations && high - low > 1e-9 * Math.max(1, Math.abs(high))) {
+    iterations++;
+    const mid = (low + high) / 2;
+    const gapMid = gap(evaluate(mid));
+
+    if (isNaN(gapMid)) {
+      return { found: false, value: null, achieved: null, iterations, error: `${label} cannot be calculated at ${mid}` };
+    }
+    if (!isMonthMetric(metric) && Math.abs(gapMid) <= tolerance) {
+      return { found: true, value: mid, achieved: gapMid + target, iterations };
+    }
+
+    if (Math.sign(gapMid) === Math.sign(gapLow)) {
+      low = mid;
+      gapLow = gapMid;
+    } else {
+      high = mid;
+      gapHigh = gapMid;
+    }
+  }
+
+  // Month metrics move in whole steps, so return the end of the bracket that meets the target
+  const value = isMonthMetric(metric)
+    ? (gapLow >= 0 ? low : high)
+    : (Math.abs(gapLow) <= Math.abs(gapHigh) ? low : high);
+  const achieved = evaluate(value);
+  const found = isMonthMetric(metric) || Math.abs(gap(achieved)) <= tolerance;
+
+  return {
+    found,
+    value,
+    achieved: isFinite(achieved) ? achieved : null,
+    iterations,
+    error: found ? undefined : `${label} did not converge within ${maxIterations} iterations`,
+  };
+}
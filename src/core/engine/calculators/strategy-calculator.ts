@@ -0,0 +1,114 @@
+/**
+ * Strategic Planning Calculator
+ * Turns persisted market entry strategies into comparable options and links
+ * each option to a business case scenario through its driver bindings
+ */
+
+import type { BusinessData, MarketEntryStrategy, Scenario } from '@/core/types';
+import type { StrategicOption } from './market-suite-calculations';
+import { buildDriverBindingOverrides, formatDriverBinding } from './scenario-calculator';
+
+export interface StrategicOptionComparison {
+  option: StrategicOption;
+  riskAdjustedReturn: number;    // Probability-weighted return less the investment
+  returnMultiple: number | null; // Expected return / investment, null without an investment
+  isPreferred: boolean;          // Highest positive risk-adjusted return
+}
+
+// Strategy type used when a derived option is saved to the strategic plan
+const OPTION_STRATEGY_TYPES: Record<string, string> = {
+  direct_entry: 'direct',
+  partnership: 'partnership',
+  niche_entry: 'niche',
+  acquisition: 'acquisition',
+};
+
+/**
+ * Stable ID for a strategy, falling back to its position in the plan
+ */
+export function getStrategyId(strategy: MarketEntryStrategy, index: number): string {
+  return strategy.id || `strategy_${index + 1}`;
+}
+
+/**
+ * Comparable option from a persisted strategy; missing figures count as zero
+ */
+export function strategyToOption(strategy: MarketEntryStrategy, index: number): StrategicOption {
+  return {
+    id: getStrategyId(strategy, index),
+    name: strategy.name,
+    description: strategy.essence?.split('\n\n')[0] || '',
+    investmentRequired: strategy.investment_required?.value || 0,
+    expectedReturn: strategy.expected_return?.value || 0,
+    riskLevel: strategy.risk_level || 'medium',
+    timeToMarket: strategy.time_to_market?.value || 0,
+    probability: strategy.probability?.value || 0,
+    strategicFit: strategy.strategic_fit || 0,
+    scenarioKey: strategy.scenario_key,
+  };
+}
+
+/**
+ * Persistable strategy from a derived option, so suggestions can be saved and edited
+ */
+export function optionToStrategy(option: StrategicOption, currency: string = 'EUR'): MarketEntryStrategy {
+  return {
+    id: option.id,
+    name: option.name,
+    type: OPTION_STRATEGY_TYPES[option.id] || 'direct',
+    essence: option.description,
+    rationale: 'Suggested from market size and entry barriers - review before relying on it',
+    investment_required: { value: option.investmentRequired, unit: currency, rationale: 'Derived from TAM' },
+    expected_return: { value: option.expectedReturn, unit: currency, rationale: 'Derived from TAM' },
+    time_to_market: { value: option.timeToMarket, unit: 'months', rationale: 'Derived from entry barriers' },
+    probability: { value: option.probability, unit: 'percentage', rationale: 'Derived from entry barriers' },
+    risk_level: option.riskLevel,
+    strategic_fit: option.strategicFit,
+  };
+}
+
+/**
+ * Probability-weighted return less the investment required
+ */
+export function calculateRiskAdjustedReturn(option: StrategicOption): number {
+  return option.expectedReturn * (option.probability / 100) - option.investmentRequired;
+}
+
+/**
+ * Side-by-side comparison of entry options, in the order given
+ */
+export function compareStrategicOptions(options: readonly StrategicOption[] = []): StrategicOptionComparison[] {
+  const comparisons = options.map(option => ({
+    option,
+    riskAdjustedReturn: calculateRiskAdjustedReturn(option),
+    returnMultiple: option.investmentRequired > 0 ? option.expectedReturn / option.investmentRequired : null,
+    isPreferred: false,
+  }));
+
+  const best = Math.max(0, ...comparisons.map(c => c.riskAdjustedReturn));
+  return comparisons.map(c => ({ ...c, isPreferred: best > 0 && c.riskAdjustedReturn === best }));
+}
+
+/**
+ * Business case scenario applying a strategy's driver bindings
+ * Returns null when none of the bound paths holds a number
+ */
+export function buildStrategyScenario(
+  strategy: MarketEntryStrategy,
+  index: number,
+  businessData: BusinessData
+): Scenario | null {
+  const overrides = buildDriverBindingOverrides(strategy.driver_bindings, businessData);
+  if (Object.keys(overrides).length === 0) return null;
+
+  const changes = (strategy.driver_bindings || [])
+    .filter(binding => binding.path in overrides)
+    .map(formatDriverBinding);
+
+  return {
+    key: `strategy_${getStrategyId(strategy, index)}`,
+    name: `Entry: ${strategy.name}`,
+    description: `If we pursue this entry option: ${changes.join(', ')}`,
+    overrides,
+  };
+}
@@ -91,6 +91,9 @@ function buildMetricNode(
     case 'capex':
       return buildCapexNode(businessData, monthlyData, month, driverPaths);
 
+    case 'tax':
+      return buildTaxNode(businessData, monthlyData, month, driverPaths);
+
     default:
       return {
         id: `metric-${metricKey}`,
@@ -617,10 +620,94 @@ function buildNetCashFlowNode(
     label: month ? `Net Cash Flow (Month ${month})` : 'Total Net Cash Flow',
     value,
     unit: businessData.meta.currency,
-    formula: 'EBITDA - CapEx',
+    formula: 'EBITDA + Corporate Tax - CapEx + Change in Working Capital',
     children: [
       buildEBITDANode(businessData, monthlyData, month, isCostSavings, driverPaths),
-      buildCapexNode(businessData, monthlyData, month, driverPaths)
+      buildTaxNode(businessData, monthlyData, month, driverPaths),
+      buildCapexNode(businessData, monthlyData, month, driverPaths),
+      buildWorkingCapitalNode(businessData, monthlyData, month, driverPaths)
+    ]
+  };
+}
+
+function buildWorkingCapitalNode(
+  businessData: BusinessData,
+  monthlyData: readonly MonthlyData[],
+  month: number | undefined,
+  driverPaths: Set<string>
+): EvidenceNode {
+  const workingCapital = businessData.assumptions?.working_capital;
+  const monthData = month ? monthlyData[month - 1] : undefined;
+  const value = month
+    ? monthData?.changeInWorkingCapital || 0
+    : monthlyData.reduce((sum, m) => sum + (m.changeInWorkingCapital || 0), 0);
+
+  const days = [
+    { key: 'receivable_days', label: 'Receivable Days (DSO)', input: workingCapital?.receivable_days },
+    { key: 'inventory_days', label: 'Inventory Days', input: workingCapital?.inventory_days },
+    { key: 'payable_days', label: 'Payable Days (DPO)', input: workingCapital?.payable_days },
+  ];
+
+  return {
+    id: 'working-capital',
+    type: 'calculated',
+    label: month ? `Change in Working Capital (Month ${month})` : 'Total Change in Working Capital',
+    value,
+    unit: businessData.meta.currency,
+    formula: '-(Δ Receivables + Δ Inventory - Δ Payables)',
+    rationale: 'Receivables follow revenue; inventory and payables follow COGS',
+    children: days
+      .filter(day => day.input)
+      .map(day => {
+        const path = `assumptions.working_capital.${day.key}.value`;
+        return {
+          id: `working-capital-${day.key}`,
+          type: 'assumption' as const,
+          label: day.label,
+          value: day.input.value,
+          unit: 'days',
+          rationale: day.input.rationale,
+          path,
+          isDriver: driverPaths.has(path),
+          children: []
+        };
+      })
+  };
+}
+
+function buildTaxNode(
+  businessData: BusinessData,
+  monthlyData: readonly MonthlyData[],
+  month: number | undefined,
+  driverPaths: Set<string>
+): EvidenceNode {
+  const taxRate = businessData.assumptions?.financial?.tax_rate;
+  const monthData = month ? monthlyData[month - 1] : undefined;
+  const value = month
+    ? monthData?.tax || 0
+    : monthlyData.reduce((sum, m) => sum + (m.tax || 0), 0);
+  const path = 'assumptions.financial.tax_rate.value';
+
+  return {
+    id: 'tax',
+    type: 'calculated',
+    label: month ? `Corporate Tax (Month ${month})` : 'Total Corporate Tax',
+    value,
+    unit: businessData.meta.currency,
+    formula: '(EBIT - Loss Carry-forward) × Tax Rate',
+    rationale: 'Losses are carried forward and offset against later profits before tax is charged',
+    children: [
+      {
+        id: 'tax-rate',
+        type: 'assumption',
+        label: 'Tax Rate',
+        value: taxRate?.value ? taxRate.value * 100 : undefined,
+        unit: '%',
+        rationale: taxRate?.rationale,
+        path,
+        isDriver: driverPaths.has(path),
+        children: []
+      }
     ]
   };
 }
@@ -687,10 +774,29 @@ function buildOpexNode(
       }
     }
 
+    item.headcount?.forEach((role, roleIdx) => {
+      const rolePath = `${basePath}.headcount[${roleIdx}]`;
+      itemChildren.push({
+        id: `opex-${idx}-role-${roleIdx}`,
+        type: 'input',
+        label: `${role.role} (${role.count?.value || 0} × salary from M${role.start_month || 1})`,
+        value: role.monthly_salary?.value,
+        unit: businessData.meta.currency,
+        rationale: role.monthly_salary?.rationale || role.count?.rationale,
+        path: `${rolePath}.monthly_salary.value`,
+        isDriver: driverPaths.has(`${rolePath}.monthly_salary.value`) || driverPaths.has(`${rolePath}.count.value`),
+        children: []
+      });
+    });
+
     return {
       id: `opex-${idx}`,
       type: 'assumption' as const,
       label: item.name,
+      value: month
+        ? monthData?.opexLines?.[idx]?.amount
+        : monthlyData.reduce((sum, m) => sum + (m.opexLines?.[idx]?.amount || 0), 0),
+      unit: businessData.meta.currency,
       path: basePath,
       children: itemChildren
     };
@@ -702,7 +808,7 @@ function buildOpexNode(
     label: month ? `Total OpEx (Month ${month})` : 'Total Operating Expenses',
     value,
     unit: businessData.meta.currency,
-    formula: 'Σ (Fixed Costs + Variable Costs)',
+    formula: 'Σ (Fixed Costs + Headcount + Variable Costs) + CAC',
     rationale: 'OpEx values are negative as they represent expenses',
     children
   };
@@ -9,6 +9,11 @@ export * from './utils';
 // Export calculators
 export * from './calculators/business-calculator-full';
 export * from './calculators/market-calculator';
+export * from './calculators/scenario-calculator';
+export * from './calculators/monte-carlo-calculator';
+export * from './calculators/sensitivity-calculator';
+export * from './calculators/risk-calculator';
+export * from './calculators/strategy-calculator';
 
 // Export evidence trail
 export * from './evidence-trail-builder';
@@ -28,7 +33,12 @@ export {
   calculatePaybackPeriod,
   calculateTotalInvestmentRequired,
   isIRRError,
+  getIRRErrorMessage,
   formatCurrency,
+  formatCompactCurrency,
   formatPercent,
   IRR_ERROR_CODES,
 } from './utils/financial';
+
+// Result types shared by every calculator
+export type { MonthlyData, CalculatedMetrics } from '@/core/types';
@@ -1,19 +1,37 @@
 /**
  * Financial Utilities
- * Shared financial calculation utilities
+ * The only NPV, IRR, break-even and payback implementations; every calculator uses these
  */
 
+import type { MonthlyData } from '@/core/types';
+
+/**
+ * Cash flows as plain numbers or as calculated rows (monthly or period data)
+ */
+export type CashFlowSeries = readonly number[] | readonly Pick<MonthlyData, 'netCashFlow'>[];
+
+/**
+ * Extract the net cash flow of each row
+ */
+export function toCashFlows(series: CashFlowSeries): number[] {
+  return (series || []).map((row: number | Pick<MonthlyData, 'netCashFlow'>) =>
+    typeof row === 'number' ? row : row.netCashFlow
+  );
+}
+
 /**
  * Calculate Net Present Value
+ * The annual rate is split evenly across periodsPerYear (12 for monthly rows, 4 for quarters, 1 for years)
  */
 export function calculateNPV(
-  cashFlows: number[],
-  discountRate: number
+  series: CashFlowSeries,
+  discountRate: number,
+  periodsPerYear: number = 12
 ): number {
-  const monthlyRate = discountRate / 12;
+  const periodRate = discountRate / periodsPerYear;
   
-  return cashFlows.reduce((npv, cashFlow, index) => {
-    const discountFactor = Math.pow(1 + monthlyRate, -(index + 1));
+  return toCashFlows(series).reduce((npv, cashFlow, index) => {
+    const discountFactor = Math.pow(1 + periodRate, -(index + 1));
     return npv + (cashFlow * discountFactor);
   }, 0);
 }
@@ -31,29 +49,32 @@ export const IRR_ERROR_CODES = {
 } as const;
 
 /**
- * Calculate Internal Rate of Return
+ * Calculate Internal Rate of Return using Newton-Raphson
+ * Returns the nominal annual rate as a decimal, compounded periodsPerYear times
+ * Returns negative error codes for invalid scenarios
  */
 export function calculateIRR(
-  cashFlows: number[],
-  initialGuess: number = 0.1
+  series: CashFlowSeries,
+  initialGuess: number = 0.1,
+  periodsPerYear: number = 12
 ): number {
-  if (!cashFlows || cashFlows.length === 0) {
+  const cashFlows = toCashFlows(series);
+  if (cashFlows.length === 0) {
     return IRR_ERROR_CODES.NO_DATA;
   }
   
-  // Check if all cash flows are the same
+  // Check if all cash flows are the same (no IRR possible)
   const allSame = cashFlows.every(cf => Math.abs(cf - cashFlows[0]) < 0.01);
   if (allSame) return IRR_ERROR_CODES.ALL_SAME;
   
-  // Check if all positive
+  // Check if all positive (no IRR needed - infinite return)
   const allPositive = cashFlows.every(cf => cf >= 0);
   if (allPositive) return IRR_ERROR_CODES.ALL_POSITIVE;
   
-  // Check if all negative
+  // Check if all negative (no IRR possible)
   const allNegative = cashFlows.every(cf => cf <= 0);
   if (allNegative) return IRR_ERROR_CODES.ALL_NEGATIVE;
   
-  // Newton-Raphson method
   let rate = initialGuess;
   let iteration = 0;
   const maxIterations = 1000;
@@ -61,13 +82,13 @@ export function calculateIRR(
   
   while (iteration < maxIterations) {
     const npvAtRate = cashFlows.reduce((npv, cashFlow, index) => {
-      const discountFactor = Math.pow(1 + rate / 12, -(index + 1));
+      const discountFactor = Math.pow(1 + rate / periodsPerYear, -(index + 1));
       return npv + (cashFlow * discountFactor);
     }, 0);
     
     if (Math.abs(npvAtRate) < tolerance) {
-      // Check for extreme rates
-      const annualRate = Math.pow(1 + rate / 12, 12) - 1;
+      // Check for extreme rates (outside -99% to 10,000% annually)
+      const annualRate = Math.pow(1 + rate / periodsPerYear, periodsPerYear) - 1;
       if (annualRate < -0.99 || annualRate > 100) {
         return IRR_ERROR_CODES.EXTREME_RATE;
       }
@@ -77,64 +98,75 @@ export function calculateIRR(
     // Derivative for Newton-Raphson
     const npvDerivative = cashFlows.reduce((derivative, cashFlow, index) => {
       const period = index + 1;
-      const discountFactor = Math.pow(1 + rate / 12, -(period + 1));
-      return derivative - (cashFlow * period * discountFactor) / (12 * (1 + rate / 12));
+      const discountFactor = Math.pow(1 + rate / periodsPerYear, -(period + 1));
+      return derivative - (cashFlow * period * discountFactor) / (periodsPerYear * (1 + rate / periodsPerYear));
     }, 0);
     
     if (Math.abs(npvDerivative) < tolerance) {
-      break;
+      break; // Avoid division by zero
     }
     
     const newRate = rate - npvAtRate / npvDerivative;
     
-    // Prevent extreme rate changes
+    // Prevent extreme rate changes but allow a wide search
     if (Math.abs(newRate - rate) > 1.0) {
-      rate = rate + (newRate > rate ? 1.0 : -1.0);
+      rate = rate + Math.sign(newRate - rate) * 0.5;
     } else {
       rate = newRate;
     }
     
+    if (rate < -0.5 || rate > 5.0) {
+      return IRR_ERROR_CODES.EXTREME_RATE;
+    }
+    
     iteration++;
   }
   
-  if (iteration >= maxIterations) {
-    return IRR_ERROR_CODES.NO_CONVERGENCE;
+  return IRR_ERROR_CODES.NO_CONVERGENCE;
+}
+
+/**
+ * Calculate break-even period (first period with positive net cash flow)
+ * Returns 0 when break-even is never reached
+ */
+export function calculateBreakEven(series: CashFlowSeries): number {
+  const cashFlows = toCashFlows(series);
+  
+  for (let i = 0; i < cashFlows.length; i++) {
+    if (cashFlows[i] > 0) {
+      return i + 1; // Return 1-indexed period
+    }
   }
   
-  return rate;
+  return 0;
 }
 
 /**
- * Calculate break-even period
+ * Calculate payback period (first period where cumulative cash flow is no longer negative)
+ * Returns 0 when the investment is never recovered
  */
-export function calculateBreakEven(cashFlows: number[]): number {
+export function calculatePaybackPeriod(series: CashFlowSeries): number {
   let cumulative = 0;
+  const cashFlows = toCashFlows(series);
   
   for (let i = 0; i < cashFlows.length; i++) {
     cumulative += cashFlows[i];
     if (cumulative >= 0) {
-      return i + 1; // Return 1-indexed month
+      return i + 1;
     }
   }
   
-  return 0; // No break-even found
-}
-
-/**
- * Calculate payback period
- */
-export function calculatePaybackPeriod(cashFlows: number[]): number {
-  return calculateBreakEven(cashFlows);
+  return 0;
 }
 
 /**
  * Calculate total investment required (max cumulative negative cash flow)
  */
-export function calculateTotalInvestmentRequired(cashFlows: number[]): number {
+export function calculateTotalInvestmentRequired(series: CashFlowSeries): number {
   let cumulative = 0;
   let maxNegative = 0;
   
-  for (const cashFlow of cashFlows) {
+  for (const cashFlow of toCashFlows(series)) {
     cumulative += cashFlow;
     if (cumulative < maxNegative) {
       maxNegative = cumulative;
@@ -148,13 +180,47 @@ export function calculateTotalInvestmentRequired(cashFlows: number[]): number {
  * Check if IRR is an error code
  */
 export function isIRRError(irr: number): boolean {
-  return Object.values(IRR_ERROR_CODES).includes(irr as any);
+  return irr < 0 && Object.values(IRR_ERROR_CODES).includes(irr as any);
 }
 
 /**
- * Format currency
+ * Get human-readable error message for IRR error codes
+ */
+export function getIRRErrorMessage(irr: number): string {
+  switch (irr) {
+    case IRR_ERROR_CODES.NO_DATA:
+      return 'No data available for IRR calculation';
+    case IRR_ERROR_CODES.ALL_SAME:
+      return 'All cash flows are identical - IRR cannot be calculated';
+    case IRR_ERROR_CODES.ALL_POSITIVE:
+      return 'All cash flows are positive - infinite return';
+    case IRR_ERROR_CODES.ALL_NEGATIVE:
+      return 'All cash flows are negative - no return possible';
+    case IRR_ERROR_CODES.NO_CONVERGENCE:
+      return 'IRR calculation did not converge';
+    case IRR_ERROR_CODES.EXTREME_RATE:
+      return 'IRR calculation resulted in extreme rate';
+    default:
+      return 'Unknown IRR error';
+  }
+}
+
+/**
+ * Format currency as a whole amount in the case currency (e.g. €1,234,567)
  */
 export function formatCurrency(amount: number, currency: string = 'EUR'): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Format currency with a K/M/B suffix for dashboards and chart axes (e.g. €1.23M)
+ */
+export function formatCompactCurrency(amount: number, currency: string = 'EUR'): string {
   const absAmount = Math.abs(amount);
   const sign = amount < 0 ? '-' : '';
   
@@ -184,3 +250,4 @@ export function formatCurrency(amount: number, currency: string = 'EUR'): string
 export function formatPercent(value: number): string {
   return `${(value * 100).toFixed(1)}%`;
 }
+
@@ -3,7 +3,7 @@
  * Allows adding individual modules without overwriting existing data
  */
 
-import { MarketData } from './market-calculations';
+import type { MarketData } from '@/core/types';
 
 export type ModuleId = 'market_sizing' | 'competitive_intelligence' | 'customer_analysis' | 'strategic_planning';
 
@@ -140,6 +140,10 @@ export function validateMarketData(data: Partial<MarketData>): {
         if (!strategy.rationale) {
           errors.push(`Strategy ${index}: rationale is required`);
         }
+        const probability = strategy.probability?.value;
+        if (probability !== undefined && (probability < 0 || probability > 100)) {
+          errors.push(`Strategy ${index}: probability must be between 0 and 100`);
+        }
       });
     }
   }
@@ -107,6 +107,9 @@ export interface CustomerSegmentInsight extends MarketInsight {
     readonly targetShare: number;
     readonly valueDrivers: readonly string[];
     readonly customerProfile: string;
+    readonly som: number;                                                 // Base-year SOM of the segment
+    readonly somProjection: readonly { year: number; som: number }[];    // At the segment's own growth rate
+    readonly currency: string;
   };
 }
 
@@ -267,6 +270,7 @@ export interface IMarketInsightsCartService {
   extractVolumeProjection(marketData: MarketData): Promise<VolumeProjectionInsight | null>;
   extractMarketSizing(marketData: MarketData): Promise<MarketSizingInsight | null>;
   extractCustomerSegments(marketData: MarketData): Promise<readonly CustomerSegmentInsight[]>;
+  extractSegmentInsight(marketData: MarketData, segmentId: string): Promise<CustomerSegmentInsight | null>;
   
   // Validation
   validateCart(): Promise<CartValidationResult>;
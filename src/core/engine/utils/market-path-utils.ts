@@ -3,7 +3,7 @@
  * Utilities for generating and working with paths to market data fields
  */
 
-import { MarketData, ValueWithMeta } from './market-calculations';
+import type { MarketData, ValueWithRationale } from '@/core/types';
 
 export interface MarketAssumptionRow {
   key: string;
@@ -198,13 +198,13 @@ export function extractMarketAssumptions(marketData: MarketData): MarketAssumpti
 }
 
 /**
- * Create a standardized assumption row from ValueWithMeta
+ * Create a standardized assumption row from ValueWithRationale
  */
 function createRow(
   key: string,
   label: string,
   basePath: string,
-  valueWithMeta: ValueWithMeta,
+  valueWithMeta: ValueWithRationale,
   category: string,
   subcategory?: string
 ): MarketAssumptionRow {
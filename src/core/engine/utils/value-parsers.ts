@@ -105,7 +105,7 @@ export function validateValue(value: number, unit: string): { isValid: boolean;
  */
 export function isEditableUnit(unit: string): boolean {
   // Pattern types are not editable
-  if (unit === 'pattern' || unit === 'seasonal' || unit === 'multiplier' || unit === 'frequency') {
+  if (unit === 'pattern' || unit === 'seasonal' || unit === 'multiplier' || unit === 'frequency' || unit === 'date') {
     return false;
   }
 
@@ -0,0 +1,25 @@
+/**
+ * Monte Carlo Web Worker
+ * Runs the simulation off the main thread and streams progress back
+ */
+
+import {
+  runMonteCarloSimulation,
+  MonteCarloWorkerRequest,
+  MonteCarloWorkerResponse,
+} from '../calculators/monte-carlo-calculator';
+
+const post = (message: MonteCarloWorkerResponse) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<MonteCarloWorkerRequest>) => {
+  if (event.data?.type !== 'run') return;
+
+  try {
+    const result = runMonteCarloSimulation(event.data.businessData, event.data.options, (completed, total) =>
+      post({ type: 'progress', completed, total })
+    );
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Simulation failed' });
+  }
+});
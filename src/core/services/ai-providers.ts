@@ -0,0 +1,617 @@
+/**
+ * AI Providers - Adapters that translate one chat round into a provider's wire format
+ * OpenAI-compatible (LiteLLM), Anthropic Messages, Ollama and a scripted offline mock
+ * AIService owns the tool loop, timeouts and logging; adapters only send and parse a single round
+ */
+
+import type { AIServiceMessage, AIServiceToolCall } from './ai-service';
+import type { SearchResult } from './web-search-service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AIProviderId = 'litellm' | 'anthropic' | 'ollama' | 'mock';
+
+export interface AIModelInfo {
+  id: string;
+  name: string;
+  description: string;
+  supportsTools: boolean;
+}
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+/**
+ * Tool definition in OpenAI function-calling form, as produced by toToolDefinitions
+ */
+export interface ProviderToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ProviderConfig {
+  apiKey: string | null;
+  baseUrl: string;
+}
+
+export interface ProviderRequest {
+  model: string;
+  messages: AIServiceMessage[];
+  temperature: number;
+  maxTokens: number;
+  tools: ProviderToolDefinition[];
+  signal?: AbortSignal;
+  onText?: (chunk: string) => void;  // Streams the round when given
+}
+
+export interface ProviderResponse {
+  content: string;
+  toolCalls: AIServiceToolCall[];
+  tokenUsage: TokenUsage;
+}
+
+export interface AIProviderAdapter {
+  id: AIProviderId;
+  name: string;
+  description: string;
+  requiresApiKey: boolean;
+  apiKeyPrefix?: string;              // Expected key prefix, used for input validation
+  defaultBaseUrl: string;
+  models: readonly AIModelInfo[];
+  acceptsAnyModel: boolean;           // Gateways route model IDs they do not list
+  complete: (request: ProviderRequest, config: ProviderConfig) => Promise<ProviderResponse>;
+}
+
+// ============================================================================
+// Shared Helpers
+// ============================================================================
+
+const emptyUsage = (): TokenUsage => ({ prompt: 0, completion: 0, total: 0 });
+
+async function readErrorMessage(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+  return errorData.error?.message || errorData.error || `API error: ${response.status}`;
+}
+
+/**
+ * Read a server-sent event stream, passing the payload of every `data:` line
+ */
+async function readSSE(response: Response, onData: (data: string) => void): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        onData(line.slice(6));
+      }
+    }
+  }
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ============================================================================
+// OpenAI-compatible Adapter (LiteLLM, Ollama)
+// ============================================================================
+
+async function completeOpenAI(request: ProviderRequest, config: ProviderConfig): Promise<ProviderResponse> {
+  const stream = !!request.onText;
+  const response = await fetch(`${config.baseUrl}/v1/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      stream,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.tools.length > 0 && { tools: request.tools }),
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  if (!stream) {
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    return {
+      content: message?.content || '',
+      toolCalls: message?.tool_calls || [],
+      tokenUsage: {
+        prompt: data.usage?.prompt_tokens || 0,
+        completion: data.usage?.completion_tokens || 0,
+        total: data.usage?.total_tokens || 0,
+      },
+    };
+  }
+
+  let content = '';
+  const toolCalls: AIServiceToolCall[] = [];
+  let tokenUsage = emptyUsage();
+
+  await readSSE(response, (data) => {
+    if (data === '[DONE]') {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(data);
+      const delta = parsed.choices?.[0]?.delta;
+
+      if (delta?.content) {
+        content += delta.content;
+        request.onText?.(delta.content);
+      }
+
+      // Tool call names and arguments arrive in fragments keyed by index
+      for (const fragment of delta?.tool_calls || []) {
+        const index = fragment.index ?? toolCalls.length;
+        const call = toolCalls[index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      }
+
+      // Extract token usage from final chunk
+      if (parsed.usage) {
+        tokenUsage = {
+          prompt: parsed.usage.prompt_tokens || 0,
+          completion: parsed.usage.completion_tokens || 0,
+          total: parsed.usage.total_tokens || 0,
+        };
+      }
+    } catch {
+      // Skip invalid JSON chunks (common in SSE streams)
+    }
+  });
+
+  return { content, toolCalls: toolCalls.filter(Boolean), tokenUsage };
+}
+
+// Available models for user selection (from LiteLLM /models endpoint)
+export const LITELLM_MODELS = [
+  { id: 'anthropic/claude-4-5-sonnet-aws', name: 'Claude Sonnet 4.5', description: 'Best quality (Recommended)', supportsTools: true },
+  { id: 'google/gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Fast and cost-effective', supportsTools: true },
+] as const;
+
+const litellmAdapter: AIProviderAdapter = {
+  id: 'litellm',
+  name: 'LiteLLM Gateway',
+  description: 'OpenAI-compatible gateway (default)',
+  requiresApiKey: true,
+  apiKeyPrefix: 'sk-',
+  defaultBaseUrl: 'https://app-litellmsn66ka.azurewebsites.net',
+  models: LITELLM_MODELS,
+  acceptsAnyModel: true,
+  complete: completeOpenAI,
+};
+
+const ollamaAdapter: AIProviderAdapter = {
+  id: 'ollama',
+  name: 'Ollama (local)',
+  description: 'Models running on this machine',
+  requiresApiKey: false,
+  defaultBaseUrl: 'http://localhost:11434',
+  models: [
+    { id: 'llama3.1', name: 'Llama 3.1', description: 'General purpose, supports tools', supportsTools: true },
+    { id: 'qwen2.5', name: 'Qwen 2.5', description: 'Strong at structured output', supportsTools: true },
+    { id: 'mistral', name: 'Mistral', description: 'Small and fast', supportsTools: false },
+  ],
+  acceptsAnyModel: false,
+  complete: completeOpenAI,
+};
+
+// ============================================================================
+// Anthropic Messages Adapter
+// ============================================================================
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicBlock[];
+}
+
+/**
+ * Move system turns into the top-level prompt and tool results into user turns
+ */
+export function toAnthropicMessages(messages: AIServiceMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+  const converted: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block: AnthropicBlock = { type: 'tool_result', tool_use_id: message.tool_call_id || '', content: message.content ?? '' };
+      const last = converted[converted.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content) && last.content.every((b) => b.type === 'tool_result')) {
+        last.content.push(block);
+      } else {
+        converted.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      converted.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...message.tool_calls.map((call) => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.function.name,
+            input: parseArguments(call.function.arguments),
+          })),
+        ],
+      });
+      continue;
+    }
+
+    converted.push({ role: message.role, content: message.content ?? '' });
+  }
+
+  return { system, messages: converted };
+}
+
+async function completeAnthropic(request: ProviderRequest, config: ProviderConfig): Promise<ProviderResponse> {
+  const stream = !!request.onText;
+  const { system, messages } = toAnthropicMessages(request.messages);
+  const response = await fetch(`${config.baseUrl}/v1/messages`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': config.apiKey || '',
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true',
+    },
+    body: JSON.stringify({
+      model: request.model,
+      system: system || undefined,
+      messages,
+      stream,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.tools.length > 0 && {
+        tools: request.tools.map((tool) => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          input_schema: tool.function.parameters,
+        })),
+      }),
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response));
+  }
+
+  const toToolCall = (id: string, name: string, args: string): AIServiceToolCall => ({
+    id,
+    type: 'function',
+    function: { name, arguments: args },
+  });
+
+  if (!stream) {
+    const data = await response.json();
+    const blocks: AnthropicBlock[] = data.content || [];
+    const prompt = data.usage?.input_tokens || 0;
+    const completion = data.usage?.output_tokens || 0;
+    return {
+      content: blocks.map((b) => (b.type === 'text' ? b.text : '')).join(''),
+      toolCalls: blocks
+        .filter((b): b is Extract<AnthropicBlock, { type: 'tool_use' }> => b.type === 'tool_use')
+        .map((b) => toToolCall(b.id, b.name, JSON.stringify(b.input ?? {}))),
+      tokenUsage: { prompt, completion, total: prompt + completion },
+    };
+  }
+
+  let content = '';
+  const toolCalls: AIServiceToolCall[] = [];
+  const tokenUsage = emptyUsage();
+
+  await readSSE(response, (data) => {
+    try {
+      const event = JSON.parse(data);
+      switch (event.type) {
+        case 'message_start':
+          tokenUsage.prompt = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            toolCalls[event.index] = toToolCall(event.content_block.id, event.content_block.name, '');
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            content += event.delta.text;
+            request.onText?.(event.delta.text);
+          } else if (event.delta?.type === 'input_json_delta' && toolCalls[event.index]) {
+            toolCalls[event.index].function.arguments += event.delta.partial_json;
+          }
+          break;
+        case 'message_delta':
+          tokenUsage.completion = event.usage?.output_tokens || tokenUsage.completion;
+          break;
+      }
+    } catch {
+      // Skip invalid JSON chunks (common in SSE streams)
+    }
+  });
+  tokenUsage.total = tokenUsage.prompt + tokenUsage.completion;
+
+  return {
+    content,
+    toolCalls: toolCalls.filter(Boolean).map((call) => ({
+      ...call,
+      function: { ...call.function, arguments: call.function.arguments || '{}' },
+    })),
+    tokenUsage,
+  };
+}
+
+const anthropicAdapter: AIProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  description: 'Direct Anthropic Messages API',
+  requiresApiKey: true,
+  apiKeyPrefix: 'sk-ant-',
+  defaultBaseUrl: 'https://api.anthropic.com',
+  models: [
+    { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', description: 'Best quality (Recommended)', supportsTools: true },
+    { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5', description: 'Fast and cost-effective', supportsTools: true },
+  ],
+  acceptsAnyModel: false,
+  complete: completeAnthropic,
+};
+
+// ============================================================================
+// Mock Adapter
+// ============================================================================
+
+export interface MockReply {
+  content?: string;
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+export interface MockRule {
+  match?: string | RegExp;  // Tested against the system prompt and latest user message; omit to match anything
+  reply: MockReply | ((request: ProviderRequest) => MockReply);
+}
+
+const MOCK_DEBATE_CASE = {
+  headline: 'Scripted mock case',
+  reasoning: 'Deterministic offline reply from the mock provider.',
+  evidence: ['Mock evidence A', 'Mock evidence B'],
+  confidence: 0.6,
+};
+
+const DEFAULT_MOCK_RULES: MockRule[] = [
+  // DebateContext bull/bear rounds
+  {
+    match: /"bullCase"[\s\S]*"headline"/,
+    reply: { content: JSON.stringify({ bullCase: MOCK_DEBATE_CASE, bearCase: { ...MOCK_DEBATE_CASE, confidence: 0.5 } }) },
+  },
+  // DebateContext rebuttal rounds
+  {
+    match: '"bullRebuttal"',
+    reply: {
+      content: JSON.stringify({
+        bullRebuttal: { ...MOCK_DEBATE_CASE, rebuttedEvidence: ['Mock evidence A'], evidence: ['Mock rebuttal evidence'] },
+        bearRebuttal: { ...MOCK_DEBATE_CASE, rebuttedEvidence: ['Mock evidence B'], evidence: ['Mock rebuttal evidence'], confidence: 0.4 },
+      }),
+    },
+  },
+  // DebateContext judge pass: proposes the current value +5% with a ±10% band
+  {
+    match: '"judgement"',
+    reply: (request) => {
+      const question = request.messages[request.messages.length - 1]?.content || '';
+      const current = Number(question.match(/Current Value: (-?[\d.]+)/)?.[1]);
+      const value = Number.isFinite(current) ? current * 1.05 : null;
+      return {
+        content: JSON.stringify({
+          judgement: {
+            bullScore: 7,
+            bearScore: 5,
+            rationale: 'Scripted mock judgement.',
+            adjustedValue: value,
+            confidenceLow: value === null ? null : value * 0.9,
+            confidenceHigh: value === null ? null : value * 1.1,
+            confidence: 0.6,
+          },
+        }),
+      };
+    },
+  },
+  // Assumption debate dialog
+  {
+    match: /"bullCase"[\s\S]*"arguments"/,
+    reply: {
+      content: '```json\n' + JSON.stringify({
+        bullCase: { arguments: ['Mock bull argument'], suggestedValue: null, confidence: 'medium', sources: ['Mock source'] },
+        bearCase: { arguments: ['Mock bear argument'], suggestedValue: null, confidence: 'medium', sources: ['Mock source'] },
+      }, null, 2) + '\n```',
+    },
+  },
+];
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Offline backend that replays scripted replies and search results
+ * Queued replies are used first, then the first matching rule, then an echo of the question
+ */
+class MockAIBackend {
+  private queue: MockReply[] = [];
+  private rules: MockRule[] = DEFAULT_MOCK_RULES;
+  private active = false;
+
+  /**
+   * Whether the mock is the selected provider; web search is served locally while it is
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  setActive(active: boolean): void {
+    this.active = active;
+  }
+
+  /**
+   * Replies returned in order for the next requests, ahead of any rule
+   */
+  enqueue(...replies: MockReply[]): void {
+    this.queue.push(...replies);
+  }
+
+  /**
+   * Replace the rules; defaults cover the debate formats
+   */
+  setRules(rules: MockRule[]): void {
+    this.rules = rules;
+  }
+
+  reset(): void {
+    this.queue = [];
+    this.rules = DEFAULT_MOCK_RULES;
+  }
+
+  reply(request: ProviderRequest): MockReply {
+    const queued = this.queue.shift();
+    if (queued) return queued;
+
+    const last = request.messages[request.messages.length - 1];
+    if (last?.role === 'tool') {
+      const results = request.messages.filter((m) => m.role === 'tool').map((m) => `- ${m.content}`);
+      return { content: `Mock answer based on the tool results:\n${results.join('\n')}` };
+    }
+
+    const system = request.messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n');
+    const question = [...request.messages].reverse().find((m) => m.role === 'user')?.content || '';
+    const haystack = `${system}\n${question}`;
+    const rule = this.rules.find(({ match }) =>
+      match === undefined || (typeof match === 'string' ? haystack.includes(match) : match.test(haystack))
+    );
+    if (rule) {
+      return typeof rule.reply === 'function' ? rule.reply(request) : rule.reply;
+    }
+
+    return { content: `**Mock response** (offline)\n\nYou asked: "${question}"` };
+  }
+
+  /**
+   * Deterministic search results for a query
+   */
+  search(query: string): SearchResult[] {
+    return ['statista.com', 'oecd.org', 'example.com'].map((domain, index) => ({
+      title: `${query} - mock result ${index + 1}`,
+      url: `https://${domain}/mock/${encodeURIComponent(query)}`,
+      description: `Scripted search result for "${query}" from ${domain}.`,
+      domain,
+      isTrusted: domain !== 'example.com',
+    }));
+  }
+}
+
+export const mockAIBackend = new MockAIBackend();
+
+async function completeMock(request: ProviderRequest): Promise<ProviderResponse> {
+  const throwIfAborted = () => {
+    if (request.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+  };
+  throwIfAborted();
+
+  const reply = mockAIBackend.reply(request);
+  const content = reply.content || '';
+  const offered = new Set(request.tools.map((tool) => tool.function.name));
+  const toolCalls = (reply.toolCalls || [])
+    .filter((call) => offered.has(call.name))
+    .map((call, index) => ({
+      id: `mock-call-${index + 1}`,
+      type: 'function' as const,
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    }));
+
+  if (request.onText) {
+    for (const chunk of content.match(/\S+\s*|\s+/g) || []) {
+      await Promise.resolve();
+      throwIfAborted();
+      request.onText(chunk);
+    }
+  }
+
+  const prompt = estimateTokens(request.messages.map((m) => m.content || '').join(''));
+  const completion = estimateTokens(content);
+  return { content, toolCalls, tokenUsage: { prompt, completion, total: prompt + completion } };
+}
+
+const mockAdapter: AIProviderAdapter = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  description: 'Scripted replies for offline development and CI',
+  requiresApiKey: false,
+  defaultBaseUrl: '',
+  models: [
+    { id: 'mock/scripted', name: 'Mock', description: 'Deterministic scripted replies', supportsTools: true },
+  ],
+  acceptsAnyModel: false,
+  complete: completeMock,
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const AI_PROVIDERS: readonly AIProviderAdapter[] = [litellmAdapter, anthropicAdapter, ollamaAdapter, mockAdapter];
+
+export const DEFAULT_PROVIDER_ID: AIProviderId = 'litellm';
+
+export function getProviderAdapter(id: AIProviderId): AIProviderAdapter {
+  return AI_PROVIDERS.find((provider) => provider.id === id) ?? litellmAdapter;
+}
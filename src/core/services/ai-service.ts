@@ -1,19 +1,43 @@
 /**
- * AI Service - Frontend client for LiteLLM API (BYOK - Bring Your Own Key)
- * Handles chat completions with streaming support
- * Users provide their own LiteLLM API key stored in localStorage
+ * AI Service - Frontend client for chat completions (BYOK - Bring Your Own Key)
+ * Handles chat completions with streaming support and local tool calling
+ * Requests go through the selected provider adapter; keys and base URLs are stored per provider in localStorage
  */
 
-import type { ChatMessage, ChatRole } from '@/core/types/ai';
+import type { ChatMessage, ChatRole, ToolCallRecord } from '@/core/types/ai';
 import { generateMessageId } from '@/core/types/ai';
+import { executeToolCall, toToolDefinitions, type AITool } from './ai-tools';
+import {
+  AI_PROVIDERS,
+  DEFAULT_PROVIDER_ID,
+  getProviderAdapter,
+  LITELLM_MODELS,
+  mockAIBackend,
+  type AIModelInfo,
+  type AIProviderAdapter,
+  type AIProviderId,
+  type ProviderConfig,
+  type TokenUsage,
+} from './ai-providers';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+export interface AIServiceToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;  // JSON-encoded arguments as sent by the model
+  };
+}
+
 export interface AIServiceMessage {
-  role: ChatRole;
-  content: string;
+  role: ChatRole | 'tool';
+  content: string | null;
+  tool_calls?: AIServiceToolCall[];
+  tool_call_id?: string;
 }
 
 export interface AIServiceOptions {
@@ -21,39 +45,47 @@ export interface AIServiceOptions {
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  tools?: readonly AITool[];  // Offered only to models that support tool calling
 }
 
 export interface AIServiceResponse {
   content: string;
-  tokenUsage?: {
-    prompt: number;
-    completion: number;
-    total: number;
-  };
+  tokenUsage?: TokenUsage;
+  toolCalls?: ToolCallRecord[];
 }
 
 export interface StreamCallbacks {
   onChunk: (chunk: string) => void;
   onComplete: (response: AIServiceResponse) => void;
   onError: (error: Error) => void;
+  onToolCall?: (record: ToolCallRecord) => void;
 }
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const LITELLM_ENDPOINT = 'https://app-litellmsn66ka.azurewebsites.net';
 const API_KEY_STORAGE_KEY = 'litellm-api-key';
-const DEFAULT_MODEL = 'anthropic/claude-4-5-sonnet-aws';
+const PROVIDER_STORAGE_KEY = 'ai-provider';
 const DEFAULT_TEMPERATURE = 0.7;
 const DEFAULT_MAX_TOKENS = 2048;
-const REQUEST_TIMEOUT_MS = 60000; // 60 seconds
+const REQUEST_TIMEOUT_MS = 60000; // 60 seconds, per request round
+const MAX_TOOL_ROUNDS = 4; // Tool round trips before the model must answer
+
+// Models of the default LiteLLM provider
+export const AVAILABLE_MODELS = LITELLM_MODELS;
 
-// Available models for user selection (from LiteLLM /models endpoint)
-export const AVAILABLE_MODELS = [
-  { id: 'anthropic/claude-4-5-sonnet-aws', name: 'Claude Sonnet 4.5', description: 'Best quality (Recommended)' },
-  { id: 'google/gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Fast and cost-effective' },
-] as const;
+/**
+ * Whether a model of the selected provider accepts tool definitions; unknown models are sent plain requests
+ */
+export function modelSupportsTools(modelId: string): boolean {
+  return aiService.getModels().some((model) => model.id === modelId && model.supportsTools);
+}
+
+// LiteLLM keeps its original key so existing users stay signed in
+const apiKeyStorageKey = (provider: AIProviderId) =>
+  provider === 'litellm' ? API_KEY_STORAGE_KEY : `ai-api-key:${provider}`;
+const baseUrlStorageKey = (provider: AIProviderId) => `ai-base-url:${provider}`;
 
 // ============================================================================
 // Logging Utilities
@@ -95,22 +127,90 @@ function logLLMError(error: Error, context: string) {
 
 class AIService {
   private abortController: AbortController | null = null;
+  private providerId: AIProviderId = DEFAULT_PROVIDER_ID;
   private apiKey: string | null = null;
+  private baseUrl: string | null = null;
 
   constructor() {
-    // Load API key from localStorage on initialization
+    // Load provider and its API key from localStorage on initialization
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem(PROVIDER_STORAGE_KEY) as AIProviderId | null;
+      this.loadProvider(AI_PROVIDERS.some((p) => p.id === saved) ? saved! : DEFAULT_PROVIDER_ID);
+    }
+  }
+
+  private loadProvider(id: AIProviderId): void {
+    this.providerId = id;
+    this.apiKey = typeof window !== 'undefined' ? localStorage.getItem(apiKeyStorageKey(id)) : null;
+    this.baseUrl = typeof window !== 'undefined' ? localStorage.getItem(baseUrlStorageKey(id)) : null;
+    mockAIBackend.setActive(id === 'mock');
+  }
+
+  private get provider(): AIProviderAdapter {
+    return getProviderAdapter(this.providerId);
+  }
+
+  /**
+   * Select a provider; its stored key and base URL are loaded
+   */
+  setProvider(id: AIProviderId): void {
+    this.loadProvider(id);
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    }
+  }
+
+  getProvider(): AIProviderAdapter {
+    return this.provider;
+  }
+
+  getProviders(): readonly AIProviderAdapter[] {
+    return AI_PROVIDERS;
+  }
+
+  /**
+   * Models offered by the selected provider
+   */
+  getModels(): readonly AIModelInfo[] {
+    return this.provider.models;
+  }
+
+  /**
+   * Use the requested model when the provider can route it, otherwise the provider's default
+   */
+  resolveModel(model?: string): string {
+    const { models, acceptsAnyModel } = this.provider;
+    if (model && (acceptsAnyModel || models.some((m) => m.id === model))) {
+      return model;
+    }
+    return models[0].id;
+  }
+
+  /**
+   * Override the provider endpoint, e.g. a self-hosted gateway or remote Ollama; empty restores the default
+   */
+  setBaseUrl(url: string): void {
+    this.baseUrl = url.trim().replace(/\/+$/, '') || null;
     if (typeof window !== 'undefined') {
-      this.apiKey = localStorage.getItem(API_KEY_STORAGE_KEY);
+      if (this.baseUrl) {
+        localStorage.setItem(baseUrlStorageKey(this.providerId), this.baseUrl);
+      } else {
+        localStorage.removeItem(baseUrlStorageKey(this.providerId));
+      }
     }
   }
 
+  getBaseUrl(): string {
+    return this.baseUrl || this.provider.defaultBaseUrl;
+  }
+
   /**
-   * Set the API key and persist to localStorage
+   * Set the API key for the selected provider and persist to localStorage
    */
   setApiKey(key: string): void {
     this.apiKey = key;
     if (typeof window !== 'undefined') {
-      localStorage.setItem(API_KEY_STORAGE_KEY, key);
+      localStorage.setItem(apiKeyStorageKey(this.providerId), key);
     }
   }
 
@@ -127,7 +227,7 @@ class AIService {
   clearApiKey(): void {
     this.apiKey = null;
     if (typeof window !== 'undefined') {
-      localStorage.removeItem(API_KEY_STORAGE_KEY);
+      localStorage.removeItem(apiKeyStorageKey(this.providerId));
     }
   }
 
@@ -138,57 +238,66 @@ class AIService {
     return !!this.apiKey;
   }
 
+  /**
+   * Whether requests can be sent: a key is set, or the provider does not need one
+   */
+  isConfigured(): boolean {
+    return !this.provider.requiresApiKey || this.hasApiKey();
+  }
+
+  private get config(): ProviderConfig {
+    return { apiKey: this.apiKey, baseUrl: this.getBaseUrl() };
+  }
+
+  private get missingKeyMessage(): string {
+    return `API key not configured. Please add your ${this.provider.name} API key in settings.`;
+  }
+
   /**
    * Send a chat completion request (non-streaming)
+   * When tools are given, tool calls are executed locally and fed back until the model answers
    */
   async chat(
     messages: AIServiceMessage[],
     options: AIServiceOptions = {}
   ): Promise<AIServiceResponse> {
-    if (!this.apiKey) {
-      throw new Error('API key not configured. Please add your LiteLLM API key in settings.');
+    if (!this.isConfigured()) {
+      throw new Error(this.missingKeyMessage);
     }
 
     const startTime = Date.now();
-    const model = options.model || DEFAULT_MODEL;
+    const model = this.resolveModel(options.model);
+    const tools = options.tools && modelSupportsTools(model) ? options.tools : [];
 
     logLLMRequest(model, messages, options);
 
     try {
-      const response = await fetch(`${LITELLM_ENDPOINT}/v1/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          stream: false,
-          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
-          max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
-        }),
-        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        const errorMsg = errorData.error?.message || errorData.error || `API error: ${response.status}`;
-        logLLMError(new Error(errorMsg), 'chat - HTTP response not OK');
-        throw new Error(errorMsg);
+      const conversation = [...messages];
+      const tokenUsage = { prompt: 0, completion: 0, total: 0 };
+      const toolCalls: ToolCallRecord[] = [];
+      let content = '';
+
+      for (let round = 0; ; round++) {
+        const offerTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+        const result = await this.provider.complete(
+          this.buildRequest(model, conversation, options, offerTools ? tools : [], AbortSignal.timeout(REQUEST_TIMEOUT_MS)),
+          this.config
+        );
+
+        content = result.content;
+        tokenUsage.prompt += result.tokenUsage.prompt;
+        tokenUsage.completion += result.tokenUsage.completion;
+        tokenUsage.total += result.tokenUsage.total;
+
+        if (!offerTools || result.toolCalls.length === 0) {
+          break;
+        }
+        toolCalls.push(...await this.runToolCalls(tools, result.toolCalls, content, conversation));
       }
 
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content || '';
-      const tokenUsage = {
-        prompt: data.usage?.prompt_tokens || 0,
-        completion: data.usage?.completion_tokens || 0,
-        total: data.usage?.total_tokens || 0,
-      };
-
       logLLMResponse(content, tokenUsage, Date.now() - startTime);
 
-      return { content, tokenUsage };
+      return { content, tokenUsage, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
     } catch (error) {
       if (error instanceof Error && error.name === 'TimeoutError') {
         logLLMError(error, 'chat - Request timed out');
@@ -203,6 +312,7 @@ class AIService {
 
   /**
    * Send a streaming chat completion request
+   * Tool calls are executed between rounds; text from every round is streamed through onChunk
    */
   async streamChat(
     messages: AIServiceMessage[],
@@ -210,8 +320,8 @@ class AIService {
     options: AIServiceOptions = {}
   ): Promise<void> {
     // Check for API key first
-    if (!this.apiKey) {
-      callbacks.onError(new Error('API key not configured. Please add your LiteLLM API key in settings.'));
+    if (!this.isConfigured()) {
+      callbacks.onError(new Error(this.missingKeyMessage));
       return;
     }
 
@@ -219,94 +329,63 @@ class AIService {
     this.cancelStream();
 
     const startTime = Date.now();
-    const model = options.model || DEFAULT_MODEL;
+    const model = this.resolveModel(options.model);
+    const tools = options.tools && modelSupportsTools(model) ? options.tools : [];
 
     logLLMRequest(model, messages, options);
 
-    this.abortController = new AbortController();
+    const abortController = new AbortController();
+    this.abortController = abortController;
     let fullContent = '';
 
-    // Create a timeout that will abort the request
-    const timeoutId = setTimeout(() => {
-      if (this.abortController) {
-        this.abortController.abort(new Error('Request timed out'));
-      }
-    }, REQUEST_TIMEOUT_MS);
+    // Each round gets its own timeout that will abort the request
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const startTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        abortController.abort(new Error('Request timed out'));
+      }, REQUEST_TIMEOUT_MS);
+    };
 
     try {
-      const response = await fetch(`${LITELLM_ENDPOINT}/v1/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          stream: true,
-          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
-          max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
-        }),
-        signal: this.abortController.signal,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        const errorMsg = errorData.error?.message || errorData.error || `API error: ${response.status}`;
-        logLLMError(new Error(errorMsg), 'streamChat - HTTP response not OK');
-        throw new Error(errorMsg);
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-      let tokenUsage = { prompt: 0, completion: 0, total: 0 };
-
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) {
-          break;
-        }
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-
-            if (data === '[DONE]') {
-              continue;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-
-              if (content) {
-                fullContent += content;
-                callbacks.onChunk(content);
-              }
-
-              // Extract token usage from final chunk
-              if (parsed.usage) {
-                tokenUsage = {
-                  prompt: parsed.usage.prompt_tokens || 0,
-                  completion: parsed.usage.completion_tokens || 0,
-                  total: parsed.usage.total_tokens || 0,
-                };
+      const conversation = [...messages];
+      const tokenUsage = { prompt: 0, completion: 0, total: 0 };
+      const toolCalls: ToolCallRecord[] = [];
+
+      for (let round = 0; ; round++) {
+        startTimeout();
+        const offerTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+
+        // Separate text from successive rounds so it does not run together
+        const separator = fullContent && !fullContent.endsWith('\n') ? '\n\n' : '';
+        let separatorSent = false;
+        const request = this.buildRequest(model, conversation, options, offerTools ? tools : [], abortController.signal);
+        const result = await this.provider.complete(
+          {
+            ...request,
+            onText: (chunk) => {
+              if (!separatorSent && separator) {
+                fullContent += separator;
+                callbacks.onChunk(separator);
               }
-            } catch {
-              // Skip invalid JSON chunks (common in SSE streams)
-            }
-          }
+              separatorSent = true;
+              fullContent += chunk;
+              callbacks.onChunk(chunk);
+            },
+          },
+          this.config
+        );
+
+        tokenUsage.prompt += result.tokenUsage.prompt;
+        tokenUsage.completion += result.tokenUsage.completion;
+        tokenUsage.total += result.tokenUsage.total;
+
+        if (!offerTools || result.toolCalls.length === 0) {
+          break;
         }
+        const records = await this.runToolCalls(tools, result.toolCalls, result.content, conversation);
+        records.forEach((record) => callbacks.onToolCall?.(record));
+        toolCalls.push(...records);
       }
 
       clearTimeout(timeoutId);
@@ -315,6 +394,7 @@ class AIService {
       callbacks.onComplete({
         content: fullContent,
         tokenUsage,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       });
     } catch (error) {
       clearTimeout(timeoutId);
@@ -334,8 +414,54 @@ class AIService {
       logLLMError(err, 'streamChat');
       callbacks.onError(err);
     } finally {
-      this.abortController = null;
+      if (this.abortController === abortController) {
+        this.abortController = null;
+      }
+    }
+  }
+
+  /**
+   * One provider round; tools are omitted when none are offered
+   */
+  private buildRequest(
+    model: string,
+    messages: AIServiceMessage[],
+    options: AIServiceOptions,
+    tools: readonly AITool[],
+    signal: AbortSignal
+  ) {
+    return {
+      model,
+      messages,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      tools: toToolDefinitions(tools),
+      signal,
+    };
+  }
+
+  /**
+   * Execute requested tools and append the assistant turn and tool results to the conversation
+   */
+  private async runToolCalls(
+    tools: readonly AITool[],
+    requested: AIServiceToolCall[],
+    content: string,
+    conversation: AIServiceMessage[]
+  ): Promise<ToolCallRecord[]> {
+    conversation.push({ role: 'assistant', content: content || null, tool_calls: requested });
+
+    const records: ToolCallRecord[] = [];
+    for (const call of requested) {
+      const record = await executeToolCall(tools, call.id, call.function.name, call.function.arguments);
+      records.push(record);
+      conversation.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(record.error !== undefined ? { error: record.error } : record.result ?? null),
+      });
     }
+    return records;
   }
 
   /**
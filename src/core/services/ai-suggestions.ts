@@ -0,0 +1,187 @@
+/**
+ * AI Suggestions - Machine-readable patch proposals from the copilot
+ * Parses fenced `suggestions` blocks out of assistant replies into AISuggestion objects
+ * and builds the values that are written back when a suggestion is accepted
+ */
+
+import type { AISuggestion, SuggestionTarget } from '@/core/types/ai';
+import type { BusinessData, MarketData, ValueWithRationale } from '@/core/types';
+import { generateSuggestionId, isValidConfidence } from '@/core/types/ai';
+import { getNestedValue } from '@/core/engine/utils/nested-operations';
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+export const SUGGESTION_FORMAT_INSTRUCTIONS = `## Proposing changes
+When you recommend concrete values for the loaded business case or market analysis, add a fenced block tagged \`suggestions\` at the end of your reply so the user can review and apply them:
+
+\`\`\`suggestions
+[
+  {
+    "target": "business",
+    "path": "assumptions.pricing.avg_unit_price",
+    "value": 120,
+    "rationale": "Why this value is better than the current one",
+    "confidence": 0.7,
+    "researchRefs": []
+  }
+]
+\`\`\`
+
+- "target" is "business" or "market"
+- "path" must be an existing field path in that dataset, using dots and [index] for arrays
+- "value" must have the same type as the current value (number, string or boolean)
+- "confidence" is between 0 and 1
+- "researchRefs" lists research document IDs that back the value, if any
+Only include the block when you propose changes, and keep the prose explanation above it.`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AIDataSources {
+  business: BusinessData | null;
+  market: MarketData | null;
+}
+
+export interface ParsedSuggestions {
+  content: string;                 // Reply with the suggestion blocks removed
+  suggestions: AISuggestion[];
+  rejected: string[];              // Why individual entries were dropped
+}
+
+const SUGGESTION_BLOCK_PATTERN = /```suggestions\s*([\s\S]*?)```/g;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isValueWithRationale(value: unknown): value is ValueWithRationale<unknown> {
+  return !!value && typeof value === 'object' && 'value' in value && 'rationale' in value;
+}
+
+/**
+ * Suggestions target the ValueWithRationale node, so a trailing `.value` is dropped
+ */
+export function normalizeSuggestionPath(path: string): string {
+  return path.trim().replace(/\.value$/, '');
+}
+
+function resolveCurrentValue(sources: AIDataSources, target: SuggestionTarget, path: string): unknown {
+  const node = getNestedValue(sources[target], path);
+  return isValueWithRationale(node) ? node.value : node;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Extract suggestions from an assistant reply
+ * Entries whose path does not exist in the loaded data, whose value type differs from the
+ * current value or whose confidence is outside 0-1 are dropped and reported in `rejected`
+ */
+export function parseSuggestions(content: string, sources: AIDataSources): ParsedSuggestions {
+  const suggestions: AISuggestion[] = [];
+  const rejected: string[] = [];
+  const createdAt = new Date().toISOString();
+
+  for (const match of content.matchAll(SUGGESTION_BLOCK_PATTERN)) {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(match[1]);
+    } catch {
+      rejected.push('Suggestion block is not valid JSON');
+      continue;
+    }
+
+    for (const entry of Array.isArray(entries) ? entries : [entries]) {
+      if (!entry || typeof entry !== 'object') {
+        rejected.push('Suggestion entry is not an object');
+        continue;
+      }
+
+      const raw = entry as Record<string, unknown>;
+      const target: SuggestionTarget = raw.target === 'market' ? 'market' : 'business';
+      if (typeof raw.path !== 'string' || !raw.path.trim()) {
+        rejected.push('Suggestion is missing a path');
+        continue;
+      }
+
+      const path = normalizeSuggestionPath(raw.path);
+      if (!sources[target]) {
+        rejected.push(`${path}: no ${target} data loaded`);
+        continue;
+      }
+
+      let currentValue: unknown;
+      try {
+        currentValue = resolveCurrentValue(sources, target, path);
+      } catch {
+        currentValue = undefined;
+      }
+      if (currentValue === undefined) {
+        rejected.push(`${path}: path does not exist in the ${target} data`);
+        continue;
+      }
+
+      const suggestedValue = raw.value;
+      if (typeof suggestedValue !== typeof currentValue || (typeof suggestedValue === 'number' && !isFinite(suggestedValue))) {
+        rejected.push(`${path}: expected a ${typeof currentValue} value`);
+        continue;
+      }
+
+      const confidence = typeof raw.confidence === 'number' ? raw.confidence : NaN;
+      if (!isValidConfidence(confidence)) {
+        rejected.push(`${path}: confidence must be between 0 and 1`);
+        continue;
+      }
+
+      suggestions.push({
+        id: generateSuggestionId(),
+        target,
+        path,
+        currentValue,
+        suggestedValue,
+        rationale: typeof raw.rationale === 'string' ? raw.rationale : '',
+        confidence,
+        researchRefs: Array.isArray(raw.researchRefs)
+          ? raw.researchRefs.filter((ref): ref is string => typeof ref === 'string')
+          : [],
+        status: 'pending',
+        createdAt,
+      });
+    }
+  }
+
+  return {
+    content: content.replace(SUGGESTION_BLOCK_PATTERN, '').trim(),
+    suggestions,
+    rejected,
+  };
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+/**
+ * Value to write at the suggestion path when it is accepted
+ * ValueWithRationale nodes keep their unit and link and are stamped with the AI backing fields;
+ * plain values are replaced as they are
+ */
+export function buildAcceptedValue(existing: unknown, suggestion: AISuggestion): unknown {
+  if (!isValueWithRationale(existing)) {
+    return suggestion.suggestedValue;
+  }
+
+  return {
+    ...existing,
+    value: suggestion.suggestedValue,
+    rationale: suggestion.rationale || existing.rationale,
+    aiGenerated: true,
+    aiConfidence: suggestion.confidence,
+    researchIds: [...suggestion.researchRefs],
+  };
+}
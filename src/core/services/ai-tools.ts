@@ -0,0 +1,226 @@
+/**
+ * AI Tools - Local functions the copilot can call before answering
+ * Lets the model compute exact metrics with the calculation engine instead of estimating them in prose
+ */
+
+import type { ToolCallRecord } from '@/core/types/ai';
+import type { BusinessData, CalculatedMetrics, MarketData } from '@/core/types';
+import type { AIDataSources } from './ai-suggestions';
+import { calculateBusinessMetrics } from '@/core/engine/calculators/business-calculator-full';
+import { calculateSuiteMetrics } from '@/core/engine/calculators/market-suite-calculations';
+import { getNestedValue, setNestedValue } from '@/core/engine/utils/nested-operations';
+import { isIRRError, getIRRErrorMessage } from '@/core/engine/utils/financial';
+import { webSearchService } from './web-search-service';
+
+// ============================================================================
+// Prompt
+// ============================================================================
+
+export const TOOL_USE_INSTRUCTIONS = `## Tools
+You can call local tools that run the same calculation engine as the app. Whenever an answer depends on NPV, IRR, payback, break-even, market size or the effect of changing an assumption, call a tool and quote its exact result instead of estimating. Read current values with get_value rather than guessing paths.`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A tool in OpenAI function-calling form plus its local implementation
+ */
+export interface AITool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;   // JSON Schema for the arguments object
+  execute: (args: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
+export type Overrides = Record<string, unknown>;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const OVERRIDES_SCHEMA = {
+  type: 'object',
+  description: 'Map of field path to replacement value, e.g. {"assumptions.pricing.avg_unit_price": 120}. Paths to a value-with-rationale object replace its value.',
+  additionalProperties: { type: ['number', 'string', 'boolean'] },
+};
+
+function requireData<T>(data: T | null, label: string): T {
+  if (!data) {
+    throw new Error(`No ${label} data is loaded`);
+  }
+  return data;
+}
+
+/**
+ * Apply path overrides, writing to `.value` when a path points at a ValueWithRationale node
+ */
+export function applyOverrides<T>(data: T, overrides: Overrides = {}): T {
+  let result = data;
+  for (const [path, value] of Object.entries(overrides)) {
+    const node = getNestedValue(result, path);
+    if (node === undefined) {
+      throw new Error(`Path "${path}" does not exist`);
+    }
+    const target = node && typeof node === 'object' && 'value' in node ? `${path}.value` : path;
+    result = setNestedValue(result, target, value);
+  }
+  return result;
+}
+
+/**
+ * Headline business metrics without the monthly rows, which are too large to send back
+ */
+function summariseMetrics(metrics: CalculatedMetrics) {
+  return {
+    npv: metrics.npv,
+    irr: isIRRError(metrics.irr) ? null : metrics.irr,
+    irrNote: isIRRError(metrics.irr) ? getIRRErrorMessage(metrics.irr) : undefined,
+    paybackPeriod: metrics.paybackPeriod || null,
+    breakEvenMonth: metrics.breakEvenMonth || null,
+    totalRevenue: metrics.totalRevenue,
+    netProfit: metrics.netProfit,
+    totalInvestmentRequired: metrics.totalInvestmentRequired,
+    worstCashFlowMonth: metrics.monthlyData.reduce<{ month: number; netCashFlow: number } | null>(
+      (worst, row) => (!worst || row.netCashFlow < worst.netCashFlow ? { month: row.month, netCashFlow: row.netCashFlow } : worst),
+      null
+    ),
+  };
+}
+
+function readOverrides(args: Record<string, unknown>): Overrides {
+  return args.overrides && typeof args.overrides === 'object' ? (args.overrides as Overrides) : {};
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * Build the copilot toolset; data is read through the getter so tools always see the latest edits
+ */
+export function createCopilotTools(getSources: () => AIDataSources): AITool[] {
+  const tools: AITool[] = [
+    {
+      name: 'calculate_business_metrics',
+      description: 'Run the business case calculator, optionally with assumption overrides, and return NPV, IRR, payback, break-even and totals. Use this instead of estimating financial impacts.',
+      parameters: {
+        type: 'object',
+        properties: { overrides: OVERRIDES_SCHEMA },
+      },
+      execute: (args) => {
+        const business = requireData<BusinessData>(getSources().business, 'business case');
+        const overrides = readOverrides(args);
+        const scenario = summariseMetrics(calculateBusinessMetrics(applyOverrides(business, overrides)));
+        if (Object.keys(overrides).length === 0) {
+          return scenario;
+        }
+        const base = summariseMetrics(calculateBusinessMetrics(business));
+        return { base, scenario, npvChange: scenario.npv - base.npv };
+      },
+    },
+    {
+      name: 'calculate_market_metrics',
+      description: 'Run the market analysis suite calculator, optionally with overrides, and return TAM, SAM, SOM, opportunity, competition and risk scores.',
+      parameters: {
+        type: 'object',
+        properties: { overrides: OVERRIDES_SCHEMA },
+      },
+      execute: (args) => {
+        const market = requireData<MarketData>(getSources().market, 'market analysis');
+        const { summary, ...metrics } = calculateSuiteMetrics(applyOverrides(market, readOverrides(args)));
+        return { ...metrics, marketOpportunity: summary.marketOpportunity };
+      },
+    },
+    {
+      name: 'get_value',
+      description: 'Read the current value at a field path in the business case or market analysis.',
+      parameters: {
+        type: 'object',
+        properties: {
+          target: { type: 'string', enum: ['business', 'market'] },
+          path: { type: 'string', description: 'Dot path with [index] for arrays, e.g. assumptions.customers.segments[0].label' },
+        },
+        required: ['target', 'path'],
+      },
+      execute: (args) => {
+        const target = args.target === 'market' ? 'market' : 'business';
+        const data = requireData<unknown>(getSources()[target], target);
+        const value = getNestedValue(data, String(args.path ?? ''));
+        if (value === undefined) {
+          throw new Error(`Path "${args.path}" does not exist in the ${target} data`);
+        }
+        return value;
+      },
+    },
+  ];
+
+  if (webSearchService.isSearchEnabled()) {
+    tools.push({
+      name: 'web_search',
+      description: 'Search the web for market research. Returns titles, URLs and snippets; trusted sources are flagged.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          trustedOnly: { type: 'boolean' },
+        },
+        required: ['query'],
+      },
+      execute: async (args) => {
+        const response = await webSearchService.search(String(args.query ?? ''), {
+          count: 5,
+          trustedOnly: args.trustedOnly === true,
+        });
+        return response.results.map(({ title, url, description, isTrusted }) => ({ title, url, description, isTrusted }));
+      },
+    });
+  }
+
+  return tools;
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Run one tool call from the model; failures are captured in the record so the model can recover
+ */
+export async function executeToolCall(
+  tools: readonly AITool[],
+  id: string,
+  name: string,
+  rawArguments: string
+): Promise<ToolCallRecord> {
+  const startTime = Date.now();
+  let args: Record<string, unknown> = {};
+
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+    const tool = tools.find((t) => t.name === name);
+    if (!tool) {
+      throw new Error(`Unknown tool "${name}"`);
+    }
+    const result = await tool.execute(args);
+    return { id, name, arguments: args, result, durationMs: Date.now() - startTime };
+  } catch (error) {
+    return {
+      id,
+      name,
+      arguments: args,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Tool definitions in the OpenAI-compatible request format
+ */
+export function toToolDefinitions(tools: readonly AITool[]) {
+  return tools.map(({ name, description, parameters }) => ({
+    type: 'function' as const,
+    function: { name, description, parameters },
+  }));
+}
@@ -0,0 +1,183 @@
+/**
+ * AI Usage - Pricing, ledger summaries and budget caps for AI requests
+ * Prices are per million tokens in USD; budgets apply to the current calendar month
+ */
+
+import type { UsageEntry, UsageFeature } from '@/core/types/ai';
+import { generateUsageId } from '@/core/types/ai';
+import type { TokenUsage } from './ai-providers';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageSettings {
+  prices: PriceTable;
+  softLimitUsd: number | null;   // Warn once the month's spend reaches this
+  hardLimitUsd: number | null;   // Block new requests once the month's spend reaches this
+}
+
+export interface UsageTotals {
+  requests: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byFeature: Partial<Record<UsageFeature, UsageTotals>>;
+  byModel: Record<string, UsageTotals>;
+}
+
+export type BudgetStatus = 'ok' | 'soft' | 'hard';
+
+export interface BudgetCheck {
+  status: BudgetStatus;
+  spentUsd: number;
+  limitUsd: number | null;       // The limit that was reached, or the hard limit when under both
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_LEDGER_ENTRIES = 1000;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'anthropic/claude-4-5-sonnet-aws': { inputPerMillion: 3, outputPerMillion: 15 },
+  'google/gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'claude-sonnet-4-5': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-haiku-4-5': { inputPerMillion: 1, outputPerMillion: 5 },
+  'llama3.1': { inputPerMillion: 0, outputPerMillion: 0 },
+  'qwen2.5': { inputPerMillion: 0, outputPerMillion: 0 },
+  'mistral': { inputPerMillion: 0, outputPerMillion: 0 },
+  'mock/scripted': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_PRICE_TABLE,
+  softLimitUsd: null,
+  hardLimitUsd: null,
+};
+
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+  chat: 'Chat',
+  'quick-action': 'Quick actions',
+  debate: 'Debates',
+  voice: 'Voice',
+};
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * Price for a model, falling back to its ID without the gateway prefix (e.g. "anthropic/")
+ */
+export function getModelPrice(prices: PriceTable, model: string): ModelPrice | undefined {
+  return prices[model] ?? prices[model.slice(model.indexOf('/') + 1)];
+}
+
+export function calculateCost(usage: TokenUsage, price: ModelPrice | undefined): number {
+  if (!price) return 0;
+  return (usage.prompt * price.inputPerMillion + usage.completion * price.outputPerMillion) / 1_000_000;
+}
+
+export function createUsageEntry(
+  feature: UsageFeature,
+  provider: string,
+  model: string,
+  usage: TokenUsage,
+  prices: PriceTable
+): UsageEntry {
+  return {
+    id: generateUsageId(),
+    timestamp: new Date().toISOString(),
+    feature,
+    provider,
+    model,
+    promptTokens: usage.prompt,
+    completionTokens: usage.completion,
+    totalTokens: usage.total,
+    costUsd: calculateCost(usage, getModelPrice(prices, model)),
+  };
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Start of the budget period containing `now` (the first of the month, local time)
+ */
+export function getBudgetPeriodStart(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+function addTo(totals: UsageTotals | undefined, entry: UsageEntry): UsageTotals {
+  return {
+    requests: (totals?.requests ?? 0) + 1,
+    totalTokens: (totals?.totalTokens ?? 0) + entry.totalTokens,
+    costUsd: (totals?.costUsd ?? 0) + entry.costUsd,
+  };
+}
+
+/**
+ * Totals by feature and by model for entries at or after `since`
+ */
+export function summarizeUsage(entries: readonly UsageEntry[], since?: Date): UsageSummary {
+  const summary: UsageSummary = { requests: 0, totalTokens: 0, costUsd: 0, byFeature: {}, byModel: {} };
+
+  for (const entry of entries) {
+    if (since && new Date(entry.timestamp) < since) continue;
+    Object.assign(summary, addTo(summary, entry));
+    summary.byFeature[entry.feature] = addTo(summary.byFeature[entry.feature], entry);
+    summary.byModel[entry.model] = addTo(summary.byModel[entry.model], entry);
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+/**
+ * Compare this month's spend with the soft and hard caps
+ */
+export function checkBudget(
+  entries: readonly UsageEntry[],
+  settings: UsageSettings,
+  now: Date = new Date()
+): BudgetCheck {
+  const spentUsd = summarizeUsage(entries, getBudgetPeriodStart(now)).costUsd;
+  const { softLimitUsd, hardLimitUsd } = settings;
+
+  if (hardLimitUsd !== null && spentUsd >= hardLimitUsd) {
+    return { status: 'hard', spentUsd, limitUsd: hardLimitUsd };
+  }
+  if (softLimitUsd !== null && spentUsd >= softLimitUsd) {
+    return { status: 'soft', spentUsd, limitUsd: softLimitUsd };
+  }
+  return { status: 'ok', spentUsd, limitUsd: hardLimitUsd };
+}
+
+export function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+export function getBudgetMessage(check: BudgetCheck): string {
+  if (check.status === 'hard') {
+    return `Monthly AI budget of ${formatUsd(check.limitUsd!)} reached (${formatUsd(check.spentUsd)} spent). Raise the limit in the Usage tab to continue.`;
+  }
+  if (check.status === 'soft') {
+    return `This month's AI spend (${formatUsd(check.spentUsd)}) has passed the ${formatUsd(check.limitUsd!)} warning threshold.`;
+  }
+  return `${formatUsd(check.spentUsd)} spent this month.`;
+}
@@ -0,0 +1,242 @@
+/**
+ * Business AI Context - Builds context and system prompts for business case AI
+ * Serializes assumptions, drivers and computed metrics so the assistant reasons from the real model
+ */
+
+import type { BusinessData, CalculatedMetrics, ValueWithRationale } from '@/core/types';
+import type { QuickActionPrompt } from './market-ai-context';
+import { calculateBusinessMetrics, calculateFundingSummary } from '@/core/engine/calculators/business-calculator-full';
+import { getNestedValue } from '@/core/engine/utils/nested-operations';
+import { formatCompactCurrency, formatPercent, getIRRErrorMessage, isIRRError } from '@/core/engine/utils/financial';
+
+// ============================================================================
+// System Prompts
+// ============================================================================
+
+const BUSINESS_CASE_SYSTEM_PROMPT = `You are an expert financial analyst AI assistant for Bizcaseland, specializing in business case modelling, unit economics and investment appraisal.
+
+Your capabilities:
+- Financial metrics: NPV, IRR, payback and break-even interpretation
+- Unit economics: pricing, COGS, CAC, churn and customer lifetime value
+- Cost structure: OpEx, CapEx, headcount and working capital analysis
+- Risk analysis: stress-testing drivers, downside scenarios and funding runway
+
+Guidelines:
+1. Be data-driven: Base every statement on the model context below and explain your reasoning
+2. Be specific: Quote the assumption, its current value and the metric it moves
+3. Be actionable: Suggest concrete values and name the path they belong to
+4. Format responses in markdown for clarity
+5. Percentages in the model are decimals (0.05 = 5%) unless the unit says otherwise
+
+When the user asks you to change assumptions, provide structured suggestions they can review and accept.`;
+
+// ============================================================================
+// Context Builder
+// ============================================================================
+
+const KEY_ASSUMPTIONS: { path: string; label: string; kind: 'currency' | 'percent' | 'number' }[] = [
+  { path: 'assumptions.pricing.avg_unit_price', label: 'Average unit price', kind: 'currency' },
+  { path: 'assumptions.unit_economics.cogs_pct', label: 'COGS', kind: 'percent' },
+  { path: 'assumptions.unit_economics.cac', label: 'CAC', kind: 'currency' },
+  { path: 'assumptions.customers.churn_pct', label: 'Churn', kind: 'percent' },
+  { path: 'assumptions.financial.interest_rate', label: 'Discount rate', kind: 'percent' },
+  { path: 'assumptions.financial.tax_rate', label: 'Tax rate', kind: 'percent' },
+  { path: 'assumptions.financial.opening_cash', label: 'Opening cash', kind: 'currency' },
+  { path: 'assumptions.financial.minimum_cash', label: 'Minimum cash', kind: 'currency' },
+];
+
+/**
+ * Build context string from business data and its computed metrics for AI consumption
+ * Metrics are recalculated when not supplied
+ */
+export function buildBusinessContext(businessData: BusinessData | null, metrics?: CalculatedMetrics): string {
+  if (!businessData) {
+    return 'No business case loaded. I can help you start building your business case from scratch.';
+  }
+
+  const currency = businessData.meta?.currency || 'EUR';
+  const money = (value: number) => formatCompactCurrency(value, currency);
+  const parts: string[] = [];
+
+  // Meta information
+  const meta = businessData.meta;
+  parts.push(`## Business Case: ${meta?.title || 'Untitled'}`);
+  if (meta?.description) {
+    parts.push(`Description: ${meta.description}`);
+  }
+  parts.push(`Business model: ${meta?.business_model || 'unknown'}`);
+  parts.push(`Currency: ${currency}`);
+  parts.push(`Horizon: ${meta?.periods || 'default'} ${meta?.frequency || 'monthly'} periods${meta?.start_date ? ` from ${meta.start_date}` : ''}`);
+
+  // Key assumptions
+  parts.push('\n## Key Assumptions');
+  for (const { path, label, kind } of KEY_ASSUMPTIONS) {
+    const field = getNestedValue(businessData, path) as ValueWithRationale | undefined;
+    if (typeof field?.value !== 'number') continue;
+    const formatted = kind === 'currency' ? money(field.value) : kind === 'percent' ? formatPercent(field.value) : String(field.value);
+    parts.push(`- **${label}** (\`${path}\`): ${formatted}${field.rationale ? ` (${field.rationale})` : ''}`);
+  }
+
+  const assumptions = businessData.assumptions;
+  const segments = assumptions?.customers?.segments || [];
+  if (segments.length) {
+    parts.push(`- Customer segments: ${segments.map(s => s.label || s.id).join(', ')}`);
+  }
+  if (assumptions?.opex?.length) {
+    parts.push(`- OpEx lines: ${assumptions.opex.length}`);
+  }
+  if (assumptions?.capex?.length) {
+    parts.push(`- CapEx items: ${assumptions.capex.length}`);
+  }
+  const loans = assumptions?.financial?.loans || [];
+  const rounds = assumptions?.financial?.equity_rounds || [];
+  if (loans.length || rounds.length) {
+    parts.push(`- Financing: ${loans.length} loan(s), ${rounds.length} equity round(s)`);
+  }
+
+  // Drivers
+  if (businessData.drivers?.length) {
+    parts.push('\n## Sensitivity Drivers');
+    businessData.drivers.forEach(driver => {
+      let current: unknown;
+      try {
+        current = getNestedValue(businessData, driver.path);
+      } catch {
+        current = undefined;
+      }
+      const unit = driver.unit ? ` ${driver.unit}` : '';
+      parts.push(`- **${driver.label || driver.key}** (\`${driver.path}\`): ${current ?? 'not set'}${unit}, range ${driver.range[0]} to ${driver.range[1]}`);
+    });
+  }
+
+  // Computed metrics
+  const results = metrics ?? calculateBusinessMetrics(businessData);
+  const funding = calculateFundingSummary(businessData, results.monthlyData);
+  parts.push('\n## Computed Metrics');
+  parts.push(`- **NPV**: ${money(results.npv)}`);
+  parts.push(`- **IRR**: ${isIRRError(results.irr) ? `not available (${getIRRErrorMessage(results.irr)})` : formatPercent(results.irr)}`);
+  parts.push(`- **Break-even month**: ${results.breakEvenMonth > 0 ? results.breakEvenMonth : 'not reached'}`);
+  parts.push(`- **Payback month**: ${results.paybackPeriod > 0 ? results.paybackPeriod : 'not reached'}`);
+  parts.push(`- **Total revenue**: ${money(results.totalRevenue)}`);
+  parts.push(`- **Net profit**: ${money(results.netProfit)}`);
+  parts.push(`- **Total investment required**: ${money(results.totalInvestmentRequired)}`);
+  parts.push(`- **Worst cash month**: ${funding.lowestCashMonth > 0 ? `month ${funding.lowestCashMonth}` : 'opening'} at ${money(funding.lowestCashBalance)}`);
+  if (funding.hasFinancing && funding.firstShortfallMonth) {
+    parts.push(`- **Runway**: ${funding.runwayMonths} months before cash falls below the minimum; funding gap ${money(funding.fundingGap)}`);
+  }
+
+  // Cost breakdown over the horizon, largest first (monthly rows store costs as negatives)
+  const totals = results.monthlyData.reduce(
+    (sum, month) => ({
+      COGS: sum.COGS - month.cogs,
+      'Customer acquisition': sum['Customer acquisition'] - month.totalCAC,
+      'Sales & marketing': sum['Sales & marketing'] - month.salesMarketing,
+      'R&D': sum['R&D'] - month.rd,
+      'G&A': sum['G&A'] - month.ga,
+      'Other OpEx': sum['Other OpEx'] - month.otherOpex,
+      CapEx: sum.CapEx - month.capex,
+    }),
+    { COGS: 0, 'Customer acquisition': 0, 'Sales & marketing': 0, 'R&D': 0, 'G&A': 0, 'Other OpEx': 0, CapEx: 0 }
+  );
+  const costs = Object.entries(totals).filter(([, total]) => total > 0).sort(([, a], [, b]) => b - a);
+  if (costs.length) {
+    parts.push('\n## Cost Breakdown (model horizon)');
+    costs.forEach(([label, total]) => parts.push(`- ${label}: ${money(total)}`));
+
+    const opexLines = new Map<string, number>();
+    results.monthlyData.forEach(month =>
+      month.opexLines.forEach(line => opexLines.set(line.name, (opexLines.get(line.name) || 0) - line.amount))
+    );
+    const largestLines = [...opexLines.entries()].sort(([, a], [, b]) => b - a).slice(0, 5);
+    if (largestLines.length) {
+      parts.push(`- Largest OpEx lines: ${largestLines.map(([name, total]) => `${name} ${money(total)}`).join(', ')}`);
+    }
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Build full system prompt with business case context
+ */
+export function buildBusinessSystemPrompt(businessData: BusinessData | null, metrics?: CalculatedMetrics): string {
+  const context = buildBusinessContext(businessData, metrics);
+  return `${BUSINESS_CASE_SYSTEM_PROMPT}
+
+---
+## Current Business Case Data
+${context}
+---
+
+Use this context to provide informed answers. Reference the existing assumptions and metrics when making recommendations.`;
+}
+
+// ============================================================================
+// Quick Action Prompts
+// ============================================================================
+
+export const BUSINESS_QUICK_ACTIONS: QuickActionPrompt[] = [
+  // Stress tests
+  {
+    id: 'stress-test-churn',
+    label: 'Stress-test Churn',
+    icon: 'activity',
+    category: 'stress-test',
+    prompt: 'Stress-test the churn assumption. Show how NPV, IRR, break-even and the worst cash month change if churn is 1.5x and 2x the current value, and at what churn NPV turns negative.',
+    description: 'See how sensitive the case is to churn'
+  },
+  {
+    id: 'stress-test-price',
+    label: 'Stress-test Price',
+    icon: 'trending-down',
+    category: 'stress-test',
+    prompt: 'Stress-test the average unit price. Show the effect of a 10% and 20% price cut on NPV, IRR and break-even, and the lowest price that keeps NPV positive.',
+    description: 'See how sensitive the case is to pricing'
+  },
+
+  // Diagnostics
+  {
+    id: 'explain-negative-irr',
+    label: 'Explain IRR',
+    icon: 'alert-triangle',
+    category: 'diagnostics',
+    prompt: 'Explain why the IRR is negative, low or cannot be calculated for this business case. Trace it back to the cash flow profile and name the assumptions that would most improve it.',
+    description: 'Understand a negative or missing IRR'
+  },
+  {
+    id: 'check-runway',
+    label: 'Check Runway',
+    icon: 'wallet',
+    category: 'diagnostics',
+    prompt: 'Review the cash position. When is the worst cash month, how much funding is needed to stay above the minimum cash balance, and which levers shorten the trough?',
+    description: 'Review cash runway and funding needs'
+  },
+  {
+    id: 'validate-assumptions',
+    label: 'Validate Assumptions',
+    icon: 'check-circle',
+    category: 'diagnostics',
+    prompt: 'Review my key assumptions for realism against typical benchmarks for this business model. Flag anything that looks optimistic or weakly justified.',
+    description: 'Sanity-check the key assumptions'
+  },
+
+  // Costs
+  {
+    id: 'biggest-cost-driver',
+    label: 'Biggest Cost Driver',
+    icon: 'bar-chart',
+    category: 'costs',
+    prompt: 'Find the biggest cost driver in this business case. Break down costs by category and line, quantify the NPV impact of reducing the largest one by 10%, and suggest realistic savings.',
+    description: 'Find where the money goes'
+  },
+
+  // Assumption Debate
+  {
+    id: 'debate-assumption',
+    label: 'Challenge Assumption',
+    icon: 'scale',
+    category: 'debate',
+    prompt: 'I want to challenge an assumption in my business case. Please help me think through it by presenting both bull and bear cases.',
+    description: 'Get bull/bear analysis on any assumption'
+  },
+];
@@ -0,0 +1,111 @@
+/**
+ * Chat Export - Markdown and JSON exports of AI conversation threads
+ * Keeps the analysis dialogue that justified assumptions alongside model IDs and token counts
+ */
+
+import type { ChatMessage, ChatThread } from '@/core/types/ai';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChatExportFormat = 'markdown' | 'json';
+
+export interface ChatThreadStats {
+  messageCount: number;
+  totalTokens: number;
+  models: string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'AI Assistant',
+  system: 'System',
+};
+
+export function getThreadStats(thread: ChatThread): ChatThreadStats {
+  return {
+    messageCount: thread.messages.length,
+    totalTokens: thread.messages.reduce((sum, message) => sum + (message.tokenCount || 0), 0),
+    models: [...new Set(thread.messages.map((message) => message.modelId).filter((id): id is string => !!id))],
+  };
+}
+
+function toFileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chat';
+}
+
+// ============================================================================
+// Exporters
+// ============================================================================
+
+/**
+ * Render a thread as Markdown, one section per message
+ */
+export function exportThreadToMarkdown(thread: ChatThread): string {
+  const stats = getThreadStats(thread);
+  const lines: string[] = [
+    `# ${thread.name}`,
+    '',
+    `- **Context**: ${thread.scope}${thread.scopeTitle ? ` (${thread.scopeTitle})` : ''}`,
+    `- **Created**: ${thread.createdAt}`,
+    `- **Updated**: ${thread.updatedAt}`,
+    `- **Models**: ${stats.models.length ? stats.models.join(', ') : 'n/a'}`,
+    `- **Total tokens**: ${stats.totalTokens.toLocaleString()}`,
+  ];
+
+  for (const message of thread.messages) {
+    const details = [message.timestamp, message.modelId, message.tokenCount ? `${message.tokenCount} tokens` : undefined]
+      .filter(Boolean)
+      .join(' · ');
+
+    lines.push('', `## ${ROLE_LABELS[message.role]}`, `_${details}_`, '', message.content);
+
+    if (message.toolCalls?.length) {
+      lines.push('', '**Tool calls**');
+      message.toolCalls.forEach((call) => {
+        const outcome = call.error ? `error: ${call.error}` : JSON.stringify(call.result);
+        lines.push(`- \`${call.name}(${JSON.stringify(call.arguments)})\` → ${outcome}`);
+      });
+    }
+
+    if (message.suggestions?.length) {
+      lines.push('', '**Suggestions**');
+      message.suggestions.forEach((suggestion) => {
+        lines.push(
+          `- \`${suggestion.path}\`: ${JSON.stringify(suggestion.currentValue)} → ${JSON.stringify(suggestion.suggestedValue)} (${suggestion.status}, ${Math.round(suggestion.confidence * 100)}% confidence)`
+        );
+      });
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serialize a thread with its summary stats
+ */
+export function exportThreadToJSON(thread: ChatThread): string {
+  return JSON.stringify({ ...thread, ...getThreadStats(thread) }, null, 2);
+}
+
+/**
+ * Download a thread as a file in the browser
+ */
+export function downloadThread(thread: ChatThread, format: ChatExportFormat): void {
+  const isMarkdown = format === 'markdown';
+  const content = isMarkdown ? exportThreadToMarkdown(thread) : exportThreadToJSON(thread);
+  const blob = new Blob([content], { type: isMarkdown ? 'text/markdown' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${toFileSlug(thread.name)}-${new Date().toISOString().split('T')[0]}.${isMarkdown ? 'md' : 'json'}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -1,9 +1,14 @@
 /**
  * Shared data synchronization utilities for cross-tool integration
+ * Business segments can be linked to the market analysis so their volume follows
+ * SOM × the market share penetration curve
  */
 
-import { BusinessData } from '@/contexts/BusinessDataContext';
-import { MarketData } from '@/core/types/market';
+import type { BusinessData, CustomerSegment, MarketVolumeLink } from '@/core/types/business';
+import type { CustomerSegmentInfo, MarketData } from '@/core/types/market';
+import type { VolumeConfiguration } from '@/core/types/common';
+import { calculateMarketSOM, calculateMarketShareProgression } from '@/core/engine/calculators/market-calculator';
+import { getModelPeriods, getModelStartDate } from '@/core/engine/calculators/business-calculator-full';
 
 export interface DataSyncOptions {
   preserveExisting: boolean;
@@ -18,8 +23,149 @@ export interface SyncResult {
   errors: string[];
 }
 
+// ============================================================================
+// Market-linked Segment Volume
+// ============================================================================
+
+const DEFAULT_MARKET_BASE_YEAR = 2024;
+
+const isPercentUnit = (unit?: string) => !!unit && (unit.includes('%') || unit.includes('percent'));
+
+/**
+ * Share of the linked market a segment takes (0-1)
+ * An explicit allocation wins. Otherwise a linked market segment contributes its size: a
+ * percentage directly, an absolute size as its share of all segment sizes. Unlinked: all of SOM.
+ */
+export function resolveLinkAllocation(link: MarketVolumeLink, marketData: MarketData): number {
+  if (link.allocation) {
+    return Math.max(0, link.allocation.value) / 100;
+  }
+
+  const segments = marketData.customer_analysis?.segments ?? [];
+  const segment = segments.find((s) => s.id === link.market_segment_id);
+  if (!segment?.size) {
+    return 1;
+  }
+  if (isPercentUnit(segment.size.unit)) {
+    return Math.max(0, segment.size.value) / 100;
+  }
+
+  const totalSize = segments.reduce((sum, s) => sum + (isPercentUnit(s.size?.unit) ? 0 : s.size?.value ?? 0), 0);
+  return totalSize > 0 ? segment.size.value / totalSize : 0;
+}
+
+/**
+ * Monthly volume a market link yields in a zero-based business model month
+ * Model months are placed on the market timeline from meta.start_date and market meta.base_year
+ */
+export function calculateLinkedSegmentVolume(
+  marketData: MarketData,
+  businessData: BusinessData,
+  link: MarketVolumeLink,
+  monthIndex: number
+): number {
+  const valuePerUnit = link.value_per_unit?.value ?? businessData.assumptions?.pricing?.avg_unit_price?.value ?? 0;
+  if (valuePerUnit <= 0) {
+    return 0;
+  }
+
+  const baseYear = marketData.meta?.base_year ?? DEFAULT_MARKET_BASE_YEAR;
+  const start = getModelStartDate(businessData);
+  const marketMonth = (start.getFullYear() - baseYear) * 12 + start.getMonth() + monthIndex;
+  const som = calculateMarketSOM(marketData, baseYear + Math.floor(marketMonth / 12));
+  const share = calculateMarketShareProgression(marketData, marketMonth);
+
+  return (som * share * resolveLinkAllocation(link, marketData)) / 12 / valuePerUnit;
+}
+
+// Rationale prefix on every period of a volume series generated from the market analysis
+export const LINKED_VOLUME_RATIONALE = 'Linked from market analysis';
+
+/**
+ * Whether a linked segment's volume has been regenerated from the market yet
+ * A freshly linked segment keeps its own volume until market data is available
+ */
+export function isLinkedVolumeGenerated(segment: CustomerSegment): boolean {
+  const firstPeriod = segment.market_link && segment.volume?.type === 'time_series'
+    ? segment.volume.series?.[0]
+    : undefined;
+  return !!firstPeriod?.rationale?.startsWith(LINKED_VOLUME_RATIONALE);
+}
+
+/**
+ * Time series volume for every model month of a linked segment
+ */
+export function buildLinkedVolume(
+  marketData: MarketData,
+  businessData: BusinessData,
+  segment: CustomerSegment
+): VolumeConfiguration | undefined {
+  const link = segment.market_link;
+  if (!link) {
+    return segment.volume;
+  }
+
+  const unit = segment.volume?.series?.[0]?.unit ?? 'units_per_month';
+  const rationale = `${LINKED_VOLUME_RATIONALE}: SOM × market share${link.market_segment_id ? ` × ${link.market_segment_id} share` : ''}`;
+  const series = Array.from({ length: getModelPeriods(businessData) }, (_, monthIndex) => ({
+    period: monthIndex + 1,
+    value: Math.round(calculateLinkedSegmentVolume(marketData, businessData, link, monthIndex) * 100) / 100,
+    unit,
+    rationale,
+  }));
+
+  return { type: 'time_series', series };
+}
+
+/**
+ * Regenerate the volume of every linked segment
+ * Returns the same object when nothing changed, so callers can skip re-rendering and saving
+ */
+export function applyMarketLinks(businessData: BusinessData, marketData: MarketData): BusinessData {
+  const segments = businessData.assumptions?.customers?.segments;
+  if (!segments?.some((segment) => segment.market_link)) {
+    return businessData;
+  }
+
+  let changed = false;
+  const nextSegments = segments.map((segment) => {
+    if (!segment.market_link) return segment;
+    const volume = buildLinkedVolume(marketData, businessData, segment);
+    if (JSON.stringify(volume) === JSON.stringify(segment.volume)) return segment;
+    changed = true;
+    return { ...segment, volume };
+  });
+
+  if (!changed) {
+    return businessData;
+  }
+
+  return {
+    ...businessData,
+    assumptions: {
+      ...businessData.assumptions,
+      customers: { ...businessData.assumptions.customers, segments: nextSegments },
+    },
+  };
+}
+
+/**
+ * Business segment linked to a market segment, or to the whole SOM when none is given
+ */
+export function createLinkedSegment(marketSegment?: CustomerSegmentInfo): CustomerSegment {
+  return {
+    id: marketSegment?.id ?? 'market',
+    label: marketSegment?.name ?? 'Obtainable market',
+    rationale: marketSegment
+      ? `Derived from market segment: ${marketSegment.size?.rationale || marketSegment.characteristics || marketSegment.name}`
+      : 'Derived from the market analysis SOM',
+    market_link: { source: 'market_som', market_segment_id: marketSegment?.id },
+  };
+}
+
 /**
  * Sync market analysis insights to business case volume assumptions
+ * Creates one linked business segment per market segment (or one for the whole SOM)
  */
 export function syncMarketToBusinessVolume(
   marketData: MarketData, 
@@ -41,71 +187,56 @@ export function syncMarketToBusinessVolume(
     errors: []
   };
 
-  const updates: Partial<BusinessData> = {};
+  if (!currentBusinessData) {
+    result.success = false;
+    result.errors.push('No business case to link the market analysis to');
+    return { businessData: {}, syncResult: result };
+  }
 
   try {
-    // Extract market insights
-    const som = marketData.market_sizing?.serviceable_obtainable_market?.percentage_of_sam?.value || 0;
-    const tamValue = marketData.market_sizing?.total_addressable_market?.base_value?.value || 0;
-    const samPercentage = marketData.market_sizing?.serviceable_addressable_market?.percentage_of_tam?.value || 0;
-    const targetShare = marketData.market_share?.target_position?.target_share?.value || 0;
-    
-    // Calculate market-based volume estimate
-    const marketBasedVolume = (tamValue * samPercentage / 100 * som / 100 * targetShare / 100);
-    
-    if (marketBasedVolume > 0) {
-      // Update business case meta information
-      if (!updates.meta) updates.meta = { ...currentBusinessData?.meta } as any;
-      updates.meta!.title = marketData.meta?.title || updates.meta!.title;
-      updates.meta!.currency = marketData.meta?.currency || updates.meta!.currency;
-      
-      // Sync customer segments with market segments
-      if (marketData.customer_analysis?.market_segments) {
-        if (!updates.assumptions) updates.assumptions = {};
-        if (!updates.assumptions.customers) updates.assumptions.customers = {};
-        
-        const marketSegments = marketData.customer_analysis.market_segments;
-        const businessSegments = marketSegments.map((segment, index) => ({
-          id: segment.id,
-          label: segment.name,
-          rationale: `Derived from market analysis: ${segment.size_percentage?.rationale || 'Market segment analysis'}`,
-          volume: {
-            type: 'pattern' as const,
-            pattern_type: 'linear_growth' as const,
-            base_year_total: {
-              value: marketBasedVolume * (segment.size_percentage?.value || 0) / 100,
-              unit: 'units_per_year',
-              rationale: `Market-based volume estimate: ${marketBasedVolume.toFixed(0)} total units × ${segment.size_percentage?.value || 0}% segment share`
-            },
-            yoy_growth: {
-              value: segment.growth_rate?.value || 5,
-              unit: 'percentage',
-              rationale: segment.growth_rate?.rationale || 'Market growth rate'
-            }
-          }
-        }));
-        
-        updates.assumptions.customers.segments = businessSegments;
-        result.changesApplied++;
-        
-        if (opts.logChanges) {
-          result.warnings.push(`Updated ${businessSegments.length} customer segments based on market analysis`);
-        }
-      }
-      
-      // Customer economics sync removed - no longer part of market analysis
-      // Pricing data should come from business case assumptions or competitive analysis
-      
-    } else {
-      result.warnings.push('Could not calculate meaningful market-based volume - insufficient market data');
+    const marketSegments = marketData.customer_analysis?.segments ?? [];
+    const linkedSegments = marketSegments.length > 0
+      ? marketSegments.map((segment) => createLinkedSegment(segment))
+      : [createLinkedSegment()];
+    const keptSegments = opts.preserveExisting
+      ? (currentBusinessData.assumptions?.customers?.segments ?? []).filter(
+          (segment) => !linkedSegments.some((linked) => linked.id === segment.id)
+        )
+      : [];
+
+    const linked = applyMarketLinks(
+      {
+        ...currentBusinessData,
+        assumptions: {
+          ...currentBusinessData.assumptions,
+          customers: {
+            ...currentBusinessData.assumptions?.customers,
+            segments: [...keptSegments, ...linkedSegments],
+          },
+        },
+      },
+      marketData
+    );
+
+    const totalFirstMonth = linked.assumptions.customers!.segments!.reduce(
+      (sum, segment) => sum + (segment.market_link ? segment.volume?.series?.[0]?.value ?? 0 : 0),
+      0
+    );
+    if (totalFirstMonth <= 0) {
+      result.warnings.push('Linked volume is zero - check SOM, market share and the unit price');
     }
 
+    result.changesApplied = linkedSegments.length;
+    if (opts.logChanges) {
+      result.warnings.push(`Linked ${linkedSegments.length} customer segment(s) to the market analysis`);
+    }
+
+    return { businessData: { assumptions: linked.assumptions }, syncResult: result };
   } catch (error) {
     result.success = false;
     result.errors.push(`Error during market-to-business sync: ${error}`);
+    return { businessData: {}, syncResult: result };
   }
-
-  return { businessData: updates, syncResult: result };
 }
 
 /**
@@ -0,0 +1,316 @@
+/**
+ * Debate Batch - Batch review of AI-generated and low-confidence assumptions
+ * Finds ValueWithRationale nodes worth challenging, runs debates for them with a
+ * concurrency limit and builds the consolidated evidence-trail report for sign-off
+ */
+
+import type { ValueWithRationale } from '@/core/types';
+import type { SuggestionTarget } from '@/core/types/ai';
+import { getPathLabel } from '@/core/engine/utils/market-path-utils';
+import { aiService, type AIServiceResponse } from './ai-service';
+import {
+  buildDebateSystemPrompt,
+  buildDebateUserPrompt,
+  parseDebateResponse,
+  type DebateCase,
+  type DebateContext,
+  type DebateResult,
+} from './debate-prompts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReviewReason = 'ai-generated' | 'low-confidence';
+
+export interface ReviewCandidate {
+  target: SuggestionTarget;
+  path: string;                    // Path to the ValueWithRationale node (without `.value`)
+  label: string;
+  category: string;
+  value: number | string;
+  unit: string;
+  rationale: string;
+  aiConfidence?: number;
+  researchIds: readonly string[];
+  reasons: ReviewReason[];
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'error' | 'skipped';
+
+export type BatchDecisionPosition = NonNullable<DebateResult['userDecision']>['selectedPosition'];
+
+export interface BatchReviewItem {
+  candidate: ReviewCandidate;
+  status: BatchItemStatus;
+  bullCase?: DebateCase;
+  bearCase?: DebateCase;
+  error?: string;
+  decision?: {
+    selectedPosition: BatchDecisionPosition;
+    newValue?: number | string;
+    reasoning: string;
+  };
+}
+
+export interface FindCandidatesOptions {
+  confidenceThreshold?: number;    // Values below this aiConfidence are queued even if not AI-generated
+  includeAIGenerated?: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6;
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  'ai-generated': 'AI generated',
+  'low-confidence': 'Low confidence',
+};
+
+// ============================================================================
+// Candidate Discovery
+// ============================================================================
+
+function isReviewableValue(node: unknown): node is ValueWithRationale<number | string> {
+  if (!node || typeof node !== 'object' || !('value' in node) || !('rationale' in node)) return false;
+  const value = (node as ValueWithRationale).value;
+  return typeof value === 'number' || typeof value === 'string';
+}
+
+function toCategory(path: string): string {
+  const segments = path.split('.');
+  const section = segments[0] === 'assumptions' && segments.length > 2 ? segments[1] : segments[0];
+  return getPathLabel(section.replace(/\[\d+\]$/, ''));
+}
+
+/**
+ * Every ValueWithRationale in the data that is AI-generated or below the confidence threshold,
+ * in document order
+ */
+export function findReviewCandidates(
+  data: unknown,
+  target: SuggestionTarget,
+  options: FindCandidatesOptions = {}
+): ReviewCandidate[] {
+  const threshold = options.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+  const includeAIGenerated = options.includeAIGenerated ?? true;
+  const candidates: ReviewCandidate[] = [];
+
+  const visit = (node: unknown, path: string) => {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, `${path}[${index}]`));
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    if (isReviewableValue(node)) {
+      const reasons: ReviewReason[] = [];
+      if (includeAIGenerated && node.aiGenerated) reasons.push('ai-generated');
+      if (node.aiConfidence !== undefined && node.aiConfidence < threshold) reasons.push('low-confidence');
+
+      if (reasons.length > 0) {
+        candidates.push({
+          target,
+          path,
+          label: getPathLabel(path).replace(/\[\d+\]$/, ''),
+          category: toCategory(path),
+          value: node.value,
+          unit: node.unit ?? '',
+          rationale: node.rationale ?? '',
+          aiConfidence: node.aiConfidence,
+          researchIds: node.researchIds ?? [],
+          reasons,
+        });
+      }
+      return;
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      visit(child, path ? `${path}.${key}` : key);
+    }
+  };
+
+  visit(data, '');
+  return candidates;
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight
+ * Stops picking up new items once `shouldStop` returns true; running items finish
+ */
+export async function runWithConcurrency<T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+}
+
+export function toDebateContext(candidate: ReviewCandidate): DebateContext {
+  return {
+    assumptionLabel: candidate.label,
+    currentValue: candidate.value,
+    unit: candidate.unit,
+    rationale: candidate.rationale,
+    category: candidate.category,
+  };
+}
+
+/**
+ * Bull/bear cases for one candidate, using the same prompts as the single-assumption dialog
+ */
+export async function debateCandidate(
+  candidate: ReviewCandidate
+): Promise<{ bullCase: DebateCase; bearCase: DebateCase; response: AIServiceResponse }> {
+  const context = toDebateContext(candidate);
+  const response = await aiService.chat(
+    [
+      { role: 'system', content: buildDebateSystemPrompt(context) },
+      { role: 'user', content: buildDebateUserPrompt(context) },
+    ],
+    { temperature: 0.7, maxTokens: 2048 }
+  );
+
+  const parsed = parseDebateResponse(response.content);
+  if (!parsed) {
+    throw new Error('AI reply was not in the debate format');
+  }
+  return { ...parsed, response };
+}
+
+// ============================================================================
+// Triage
+// ============================================================================
+
+/**
+ * Value written back for a decision, or undefined when the current value is kept
+ */
+export function resolveDecisionValue(item: BatchReviewItem): number | string | undefined {
+  const decision = item.decision;
+  if (!decision) return undefined;
+
+  switch (decision.selectedPosition) {
+    case 'bull':
+      return item.bullCase?.suggestedValue ?? undefined;
+    case 'bear':
+      return item.bearCase?.suggestedValue ?? undefined;
+    case 'custom':
+      return decision.newValue;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Debate record for a decided item, in the format the single-assumption dialog produces
+ */
+export function toDebateResult(item: BatchReviewItem, timestamp: string = new Date().toISOString()): DebateResult | null {
+  if (!item.decision || !item.bullCase || !item.bearCase) return null;
+
+  return {
+    assumption: toDebateContext(item.candidate),
+    bullCase: item.bullCase,
+    bearCase: item.bearCase,
+    timestamp,
+    userDecision: {
+      selectedPosition: item.decision.selectedPosition,
+      newValue: resolveDecisionValue(item),
+      reasoning: item.decision.reasoning,
+    },
+  };
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+const DECISION_LABELS: Record<BatchDecisionPosition, string> = {
+  bull: 'Adopt bull case',
+  bear: 'Adopt bear case',
+  original: 'Keep current value',
+  custom: 'Custom value',
+};
+
+const formatValue = (value: number | string | undefined, unit: string) =>
+  value === undefined || value === null ? '-' : `${value}${unit ? ` ${unit}` : ''}`;
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * Consolidated Markdown report of a batch review for sign-off
+ */
+export function buildBatchReport(
+  items: readonly BatchReviewItem[],
+  title: string,
+  generatedAt: Date = new Date()
+): string {
+  const decided = items.filter((item) => item.decision);
+  const changed = decided.filter((item) => resolveDecisionValue(item) !== undefined);
+  const failed = items.filter((item) => item.status === 'error');
+
+  const lines = [
+    `# Assumption review: ${title}`,
+    '',
+    `Generated ${generatedAt.toISOString()}`,
+    '',
+    `- Assumptions reviewed: ${items.length}`,
+    `- Decided: ${decided.length}`,
+    `- Values changed: ${changed.length}`,
+    `- Debates failed: ${failed.length}`,
+    '',
+    '## Triage',
+    '',
+    '| Assumption | Path | Flags | Current | Decision | New value |',
+    '| --- | --- | --- | --- | --- | --- |',
+  ];
+
+  for (const item of items) {
+    const { candidate, decision } = item;
+    lines.push(
+      `| ${escapeCell(candidate.label)} | \`${candidate.target}:${candidate.path}\` | ` +
+        `${candidate.reasons.map((reason) => REVIEW_REASON_LABELS[reason]).join(', ')} | ` +
+        `${formatValue(candidate.value, candidate.unit)} | ` +
+        `${decision ? DECISION_LABELS[decision.selectedPosition] : item.status === 'error' ? 'Debate failed' : 'Pending'} | ` +
+        `${formatValue(resolveDecisionValue(item), candidate.unit)} |`
+    );
+  }
+
+  for (const item of decided) {
+    const { candidate, decision } = item;
+    lines.push('', `## ${candidate.label}`, '');
+    lines.push(`- Path: \`${candidate.target}:${candidate.path}\``);
+    lines.push(`- Current: ${formatValue(candidate.value, candidate.unit)}`);
+    if (candidate.aiConfidence !== undefined) {
+      lines.push(`- AI confidence: ${Math.round(candidate.aiConfidence * 100)}%`);
+    }
+    lines.push(`- Decision: ${DECISION_LABELS[decision!.selectedPosition]}`);
+    if (decision!.reasoning) lines.push(`- Reasoning: ${decision!.reasoning}`);
+
+    for (const debateCase of [item.bullCase, item.bearCase]) {
+      if (!debateCase) continue;
+      lines.push('', `**${debateCase.position === 'bull' ? 'Bull' : 'Bear'} case** (${debateCase.confidence} confidence)`);
+      debateCase.arguments.forEach((argument) => lines.push(`- ${argument}`));
+    }
+  }
+
+  lines.push('', '## Sign-off', '', 'Reviewed by: ____________________', '', 'Date: ____________________', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,245 @@
+/**
+ * Debate Ledger - Single store for debate decisions from every debate surface
+ * Entries are keyed by assumption path and linked to ResearchDocument IDs; the sidebar
+ * trail and the assumption dialog trail that predate the ledger are migrated on first load
+ */
+
+import type {
+  DebateRound,
+  DebateSource,
+  DebateVerdict,
+  EvidenceTrailEntry,
+  SuggestionTarget,
+} from '@/core/types/ai';
+import { generateEvidenceId } from '@/core/types/ai';
+import { storageService, STORAGE_KEYS } from './storage.service';
+import { normalizeSuggestionPath } from './ai-suggestions';
+import type { DebateResult } from './debate-prompts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EvidenceEntryInput = Omit<EvidenceTrailEntry, 'id' | 'timestamp' | 'researchIds'> & {
+  researchIds?: readonly string[];
+};
+
+export interface LedgerQuery {
+  path?: string;                   // Matches with or without a trailing `.value`
+  target?: SuggestionTarget;       // Entries without a known target match any target
+  researchId?: string;
+  source?: DebateSource;
+  verdict?: DebateVerdict;
+  since?: Date;
+}
+
+export interface DebateResultLink {
+  source: DebateSource;
+  target?: SuggestionTarget;
+  path?: string;
+  researchIds?: readonly string[];
+}
+
+interface LegacyDebateState {
+  debateHistory?: DebateRound[];
+  evidenceTrail?: Partial<EvidenceTrailEntry>[];
+}
+
+type LedgerListener = (entries: readonly EvidenceTrailEntry[]) => void;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_DEBATE_LEDGER_ENTRIES = 500;
+
+// Written by the assumption dialog before the ledger existed
+const LEGACY_DIALOG_TRAIL_KEY = 'bizcaseland-evidence-trail';
+
+const LEGACY_POSITION_VERDICTS: Record<string, DebateVerdict> = {
+  bull: 'bull',
+  bear: 'bear',
+  original: 'neutral',
+  custom: 'custom',
+};
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+/**
+ * Ledger entry for a decision saved by the assumption dialog's old trail
+ */
+export function fromDebateResult(result: DebateResult, source: DebateSource = 'dialog'): EvidenceTrailEntry {
+  const decision = result.userDecision;
+  return {
+    id: generateEvidenceId(),
+    source,
+    assumption: result.assumption.assumptionLabel,
+    unit: result.assumption.unit,
+    originalValue: result.assumption.currentValue,
+    finalValue: decision?.newValue,
+    verdict: LEGACY_POSITION_VERDICTS[decision?.selectedPosition ?? 'original'] ?? 'neutral',
+    reasoning: decision?.reasoning ?? '',
+    bullArguments: result.bullCase?.arguments ?? [],
+    bearArguments: result.bearCase?.arguments ?? [],
+    researchIds: [],
+    timestamp: result.timestamp,
+  };
+}
+
+/**
+ * Ledger entry for an entry in the sidebar's old trail, completed from its debate round when kept
+ */
+export function fromLegacyEvidenceEntry(
+  entry: Partial<EvidenceTrailEntry>,
+  debate?: DebateRound
+): EvidenceTrailEntry {
+  const summarize = (argument?: DebateRound['bullCase']) => (argument ? [argument.headline, ...argument.evidence] : []);
+  const path = entry.assumptionPath ?? debate?.assumptionPath;
+
+  return {
+    id: entry.id ?? generateEvidenceId(),
+    source: 'sidebar',
+    debateRoundId: entry.debateRoundId,
+    assumption: entry.assumption ?? debate?.assumption ?? '',
+    assumptionPath: path ? normalizeSuggestionPath(path) : undefined,
+    originalValue: entry.originalValue,
+    finalValue: entry.finalValue,
+    verdict: entry.verdict ?? 'neutral',
+    reasoning: entry.reasoning ?? '',
+    bullArguments: entry.bullArguments ?? summarize(debate?.bullCase),
+    bearArguments: entry.bearArguments ?? summarize(debate?.bearCase),
+    researchIds: entry.researchIds ?? [],
+    rebuttalRounds: entry.rebuttalRounds,
+    judgement: entry.judgement,
+    timestamp: entry.timestamp ?? new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+const byNewest = (a: EvidenceTrailEntry, b: EvidenceTrailEntry) =>
+  new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+class DebateLedger {
+  private entries: EvidenceTrailEntry[] | null = null;
+  private listeners = new Set<LedgerListener>();
+
+  /**
+   * All entries, newest first
+   */
+  getEntries(): readonly EvidenceTrailEntry[] {
+    if (!this.entries) {
+      this.entries = storageService.load<EvidenceTrailEntry[]>(STORAGE_KEYS.DEBATE_LEDGER) ?? [];
+      this.migrateLegacyTrails();
+    }
+    return this.entries;
+  }
+
+  record(input: EvidenceEntryInput): EvidenceTrailEntry {
+    const entry: EvidenceTrailEntry = {
+      ...input,
+      assumptionPath: input.assumptionPath ? normalizeSuggestionPath(input.assumptionPath) : undefined,
+      researchIds: [...(input.researchIds ?? [])],
+      id: generateEvidenceId(),
+      timestamp: new Date().toISOString(),
+    };
+    return this.add([entry])[0];
+  }
+
+  /**
+   * Record a decision made in the assumption dialog or batch review
+   */
+  recordDebateResult(result: DebateResult, link: DebateResultLink): EvidenceTrailEntry {
+    const { id: _id, timestamp: _timestamp, ...entry } = fromDebateResult(result, link.source);
+    return this.record({ ...entry, target: link.target, assumptionPath: link.path, researchIds: link.researchIds });
+  }
+
+  /**
+   * Add entries that already have IDs and timestamps (sidebar debates, migrations)
+   */
+  add(entries: EvidenceTrailEntry[]): EvidenceTrailEntry[] {
+    this.save([...entries, ...this.getEntries()]);
+    return entries;
+  }
+
+  /**
+   * Entries matching every given filter, newest first
+   */
+  query(filter: LedgerQuery = {}): EvidenceTrailEntry[] {
+    const path = filter.path ? normalizeSuggestionPath(filter.path) : undefined;
+    return this.getEntries().filter((entry) =>
+      (!path || entry.assumptionPath === path) &&
+      (!filter.target || !entry.target || entry.target === filter.target) &&
+      (!filter.researchId || entry.researchIds.includes(filter.researchId)) &&
+      (!filter.source || entry.source === filter.source) &&
+      (!filter.verdict || entry.verdict === filter.verdict) &&
+      (!filter.since || new Date(entry.timestamp) >= filter.since)
+    );
+  }
+
+  /**
+   * All decisions affecting an assumption, e.g. `assumptions.customers.churn_pct`
+   */
+  getDecisionsForPath(path: string, target?: SuggestionTarget): EvidenceTrailEntry[] {
+    return this.query({ path, target });
+  }
+
+  clear(): void {
+    this.save([]);
+  }
+
+  subscribe(listener: LedgerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop the in-memory copy so the next read comes from storage (tests, storage resets)
+   */
+  reload(): void {
+    this.entries = null;
+  }
+
+  private save(entries: EvidenceTrailEntry[]): void {
+    this.entries = entries.sort(byNewest).slice(0, MAX_DEBATE_LEDGER_ENTRIES);
+    storageService.save(STORAGE_KEYS.DEBATE_LEDGER, this.entries);
+    this.listeners.forEach((listener) => listener(this.entries!));
+  }
+
+  /**
+   * Move both pre-ledger trails into the ledger and remove them from their old stores
+   */
+  private migrateLegacyTrails(): void {
+    const migrated: EvidenceTrailEntry[] = [];
+
+    const dialogTrail = storageService.load<DebateResult[]>(LEGACY_DIALOG_TRAIL_KEY);
+    if (Array.isArray(dialogTrail)) {
+      migrated.push(...dialogTrail.map((result) => fromDebateResult(result)));
+      storageService.remove(LEGACY_DIALOG_TRAIL_KEY);
+    }
+
+    const debateState = storageService.load<LegacyDebateState>(STORAGE_KEYS.DEBATE_STATE);
+    if (Array.isArray(debateState?.evidenceTrail)) {
+      const history = debateState.debateHistory ?? [];
+      migrated.push(
+        ...debateState.evidenceTrail.map((entry) =>
+          fromLegacyEvidenceEntry(entry, history.find((debate) => debate.id === entry.debateRoundId))
+        )
+      );
+      const { evidenceTrail: _evidenceTrail, ...rest } = debateState;
+      storageService.save(STORAGE_KEYS.DEBATE_STATE, rest);
+    }
+
+    if (migrated.length > 0) {
+      this.save([...migrated, ...this.entries!]);
+    }
+  }
+}
+
+export const debateLedger = new DebateLedger();
@@ -180,46 +180,3 @@ export function parseDebateResponse(response: string): { bullCase: DebateCase; b
     return null;
   }
 }
-
-// ============================================================================
-// Evidence Trail
-// ============================================================================
-
-const EVIDENCE_TRAIL_KEY = 'bizcaseland-evidence-trail';
-
-/**
- * Save a debate result to the evidence trail
- */
-export function saveDebateToTrail(result: DebateResult): void {
-  const trail = getEvidenceTrail();
-  trail.push(result);
-  localStorage.setItem(EVIDENCE_TRAIL_KEY, JSON.stringify(trail));
-}
-
-/**
- * Get the full evidence trail
- */
-export function getEvidenceTrail(): DebateResult[] {
-  try {
-    const stored = localStorage.getItem(EVIDENCE_TRAIL_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
-}
-
-/**
- * Clear the evidence trail
- */
-export function clearEvidenceTrail(): void {
-  localStorage.removeItem(EVIDENCE_TRAIL_KEY);
-}
-
-/**
- * Get debates for a specific assumption
- */
-export function getDebatesForAssumption(assumptionLabel: string): DebateResult[] {
-  return getEvidenceTrail().filter(
-    (d) => d.assumption.assumptionLabel === assumptionLabel
-  );
-}
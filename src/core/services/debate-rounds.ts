@@ -0,0 +1,211 @@
+/**
+ * Debate Rounds - Prompts and parsers for rebuttal rounds and the judge pass
+ * Used by DebateContext after the opening bull/bear cases
+ */
+
+import type { DebateJudgement, DebateRebuttal, DebateRound } from '@/core/types/ai';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ParsedRebuttal = Omit<DebateRebuttal, 'id' | 'type' | 'round'>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_REBUTTAL_ROUNDS = 3;
+
+export const REBUTTAL_SYSTEM_PROMPT = `You are moderating a structured debate about a business assumption.
+Each side has already made its case. Write the next rebuttal round, where each side answers the other's evidence directly.
+
+You MUST respond with a JSON object in this exact format:
+{
+  "bullRebuttal": {
+    "headline": "Brief optimistic reply (1 line)",
+    "reasoning": "Why the bear evidence is weaker than it looks (1-2 paragraphs)",
+    "rebuttedEvidence": ["Bear point being answered"],
+    "evidence": ["New supporting point"],
+    "confidence": 0.6
+  },
+  "bearRebuttal": {
+    "headline": "Brief pessimistic reply (1 line)",
+    "reasoning": "Why the bull evidence is weaker than it looks (1-2 paragraphs)",
+    "rebuttedEvidence": ["Bull point being answered"],
+    "evidence": ["New supporting point"],
+    "confidence": 0.6
+  }
+}
+
+Guidelines:
+1. Quote the opposing points you answer in "rebuttedEvidence"
+2. Do not repeat earlier arguments; add new evidence or concede weak points
+3. Lower the confidence of a side whose evidence was effectively rebutted
+4. Confidence should be 0-1
+
+IMPORTANT: Respond ONLY with the JSON object, no additional text.`;
+
+export const JUDGE_SYSTEM_PROMPT = `You are an impartial judge scoring a debate about a business assumption.
+Score the quality of each side's arguments across the whole transcript, not which outcome you prefer.
+
+You MUST respond with a JSON object in this exact format:
+{
+  "judgement": {
+    "bullScore": 7,
+    "bearScore": 5,
+    "rationale": "Which arguments held up under rebuttal and why (1-2 paragraphs)",
+    "adjustedValue": 0.12,
+    "confidenceLow": 0.1,
+    "confidenceHigh": 0.14,
+    "confidence": 0.7
+  }
+}
+
+Guidelines:
+1. Scores are 0-10 and reflect evidence quality, specificity and how well each side answered rebuttals
+2. "adjustedValue" is the value you would use given the debate; use null when the assumption is not numeric
+3. "confidenceLow" and "confidenceHigh" bound the plausible range around "adjustedValue", in the same unit as the current value
+4. Confidence should be 0-1
+
+IMPORTANT: Respond ONLY with the JSON object, no additional text.`;
+
+// ============================================================================
+// Transcript
+// ============================================================================
+
+const sideLabel = (type: 'bull' | 'bear') => (type === 'bull' ? 'BULL' : 'BEAR');
+
+function formatPoints(points: readonly string[]): string {
+  return points.map((point) => `  - ${point}`).join('\n');
+}
+
+/**
+ * Plain-text transcript of the opening cases and every rebuttal round
+ */
+export function formatDebateTranscript(debate: DebateRound): string {
+  const lines: string[] = [`Assumption: "${debate.assumption}"`];
+  if (debate.currentValue !== undefined) {
+    lines.push(`Current Value: ${JSON.stringify(debate.currentValue)}`);
+  }
+
+  lines.push('', '## Opening cases');
+  for (const argument of [debate.bullCase, debate.bearCase]) {
+    lines.push(
+      `${sideLabel(argument.type)} (confidence ${argument.confidence}): ${argument.headline}`,
+      argument.reasoning,
+      formatPoints(argument.evidence)
+    );
+  }
+
+  for (const rebuttal of debate.rebuttals ?? []) {
+    if (rebuttal.type === 'bull') lines.push('', `## Rebuttal round ${rebuttal.round}`);
+    lines.push(
+      `${sideLabel(rebuttal.type)} (confidence ${rebuttal.confidence}): ${rebuttal.headline}`,
+      rebuttal.reasoning
+    );
+    if (rebuttal.rebuttedEvidence.length > 0) {
+      lines.push('  Answering:', formatPoints(rebuttal.rebuttedEvidence));
+    }
+    if (rebuttal.evidence.length > 0) {
+      lines.push('  New evidence:', formatPoints(rebuttal.evidence));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Prompt Building
+// ============================================================================
+
+export function buildRebuttalPrompt(debate: DebateRound, round: number): string {
+  return `Write rebuttal round ${round} for this debate:\n\n${formatDebateTranscript(debate)}`;
+}
+
+export function buildJudgePrompt(debate: DebateRound): string {
+  return `Judge this debate and propose a value:\n\n${formatDebateTranscript(debate)}`;
+}
+
+// ============================================================================
+// Response Parsing
+// ============================================================================
+
+function extractJson(response: string): Record<string, unknown> | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch (e) {
+    console.error('Failed to parse debate round response:', e);
+    return null;
+  }
+}
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Drops floating-point noise such as 0.12600000000000001
+const tidy = (value: number) => Number(value.toPrecision(6));
+
+const toStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+function toRebuttal(raw: unknown, fallbackHeadline: string): ParsedRebuttal | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const side = raw as Record<string, unknown>;
+  return {
+    headline: typeof side.headline === 'string' && side.headline ? side.headline : fallbackHeadline,
+    reasoning: typeof side.reasoning === 'string' ? side.reasoning : '',
+    rebuttedEvidence: toStrings(side.rebuttedEvidence),
+    evidence: toStrings(side.evidence),
+    confidence: clamp(toNumber(side.confidence) ?? 0.5, 0, 1),
+  };
+}
+
+export function parseRebuttalResponse(response: string): { bull: ParsedRebuttal; bear: ParsedRebuttal } | null {
+  const parsed = extractJson(response);
+  if (!parsed) return null;
+
+  const bull = toRebuttal(parsed.bullRebuttal, 'Optimistic rebuttal');
+  const bear = toRebuttal(parsed.bearRebuttal, 'Pessimistic rebuttal');
+  return bull && bear ? { bull, bear } : null;
+}
+
+/**
+ * Parse the judge's reply; the proposed value and band are kept only for numeric assumptions
+ * and the band is widened if needed so it always contains the proposal
+ */
+export function parseJudgementResponse(response: string, currentValue?: unknown): DebateJudgement | null {
+  const parsed = extractJson(response);
+  const raw = parsed?.judgement as Record<string, unknown> | undefined;
+  if (!raw || typeof raw !== 'object') return null;
+
+  const bullScore = clamp(toNumber(raw.bullScore) ?? 5, 0, 10);
+  const bearScore = clamp(toNumber(raw.bearScore) ?? 5, 0, 10);
+  const proposed = typeof currentValue === 'number' ? toNumber(raw.adjustedValue) : undefined;
+  const adjustedValue = proposed !== undefined ? tidy(proposed) : undefined;
+
+  let confidenceBand: DebateJudgement['confidenceBand'];
+  if (adjustedValue !== undefined) {
+    const low = toNumber(raw.confidenceLow) ?? adjustedValue;
+    const high = toNumber(raw.confidenceHigh) ?? adjustedValue;
+    confidenceBand = {
+      low: tidy(Math.min(low, high, adjustedValue)),
+      high: tidy(Math.max(low, high, adjustedValue)),
+    };
+  }
+
+  return {
+    bullScore,
+    bearScore,
+    leaning: bullScore === bearScore ? 'neutral' : bullScore > bearScore ? 'bull' : 'bear',
+    rationale: typeof raw.rationale === 'string' ? raw.rationale : '',
+    adjustedValue,
+    confidenceBand,
+    confidence: clamp(toNumber(raw.confidence) ?? 0.5, 0, 1),
+    judgedAt: new Date().toISOString(),
+  };
+}
@@ -8,9 +8,16 @@ export * from './validation.service';
 export * from './sync.service';
 export * from './json-validation.service';
 export * from './ai-service';
+export * from './ai-providers';
+export * from './ai-usage';
 export * from './market-ai-context';
+export * from './business-ai-context';
+export * from './ai-suggestions';
+export * from './ai-tools';
+export * from './chat-export';
 export * from './web-search-service';
 export * from './voice-service';
+export * from './voice-intents';
 export * from './pitch-deck-export.service';
 
 // Re-export commonly used service instances
@@ -19,5 +26,6 @@ export { validationService } from './validation.service';
 export { syncService } from './sync.service';
 export { aiService, AVAILABLE_MODELS } from './ai-service';
 export { buildMarketSystemPrompt, buildMarketContext, MARKET_QUICK_ACTIONS } from './market-ai-context';
+export { buildBusinessSystemPrompt, buildBusinessContext, BUSINESS_QUICK_ACTIONS } from './business-ai-context';
 export { webSearchService, TRUSTED_DOMAINS } from './web-search-service';
 export { voiceService } from './voice-service';
@@ -149,7 +149,7 @@ export interface QuickActionPrompt {
   id: string;
   label: string;
   icon: string;
-  category: 'sizing' | 'competitive' | 'customer' | 'strategy' | 'debate';
+  category: 'sizing' | 'competitive' | 'customer' | 'strategy' | 'debate' | 'stress-test' | 'diagnostics' | 'costs';
   prompt: string;
   description: string;
 }
@@ -24,8 +24,9 @@ import {
   calculateInsightConfidence,
   validateMarketDataForExtraction,
   DEFAULT_CART_CONFIG
-} from './market-insights-cart';
-import { MarketData } from '@/core/types';
+} from '@/core/engine/utils/market-insights-cart';
+import type { CustomerSegmentInfo, MarketData, MarketSegmentProfile } from '@/core/types/market';
+import { calculateSegmentProjections, isPercentUnit, OTHER_SEGMENT_ID } from '@/core/engine/calculators/market-calculator';
 import { BusinessData } from '@/core/types';
 
 /**
@@ -294,52 +295,14 @@ export class MarketInsightsCartService implements IMarketInsightsCartService {
 
   async extractCustomerSegments(marketData: MarketData): Promise<readonly CustomerSegmentInsight[]> {
     try {
-      const segments = marketData.customer_analysis?.market_segments || [];
       const insights: CustomerSegmentInsight[] = [];
 
-      for (const segment of segments) {
-        const sizePercentage = segment.size_percentage?.value || 0;
-        
+      for (const insight of this.buildSegmentInsights(marketData)) {
         // Check minimum segment size
-        if (sizePercentage < this.config.extractionRules.customerSegments.minSegmentSize) {
+        if (insight.data.sizePercentage < this.config.extractionRules.customerSegments.minSegmentSize) {
           continue;
         }
 
-        const insight: CustomerSegmentInsight = {
-          id: generateInsightId('customer_segment', segment.id),
-          type: 'customer_segment',
-          title: `Customer Segment: ${segment.name}`,
-          description: `Market segment analysis for ${segment.name}`,
-          priority: sizePercentage > 10 ? 'high' : sizePercentage > 5 ? 'medium' : 'low',
-          source: {
-            marketDataId: marketData.meta?.title || 'unknown',
-            analysisTitle: marketData.meta?.title || 'Market Analysis',
-            timestamp: new Date().toISOString(),
-            analyst: marketData.meta?.analyst
-          },
-          confidence: {
-            score: this.calculateSegmentConfidence(segment),
-            factors: [
-              'Segment definition clarity',
-              'Size estimation accuracy',
-              'Growth projection reliability'
-            ]
-          },
-          metadata: {
-            extractedAt: new Date().toISOString(),
-            originalSegmentId: segment.id
-          },
-          data: {
-            segmentId: segment.id,
-            segmentName: segment.name,
-            sizePercentage,
-            growthRate: segment.growth_rate?.value || 0,
-            targetShare: segment.target_share?.value || 0,
-            valueDrivers: segment.value_drivers || [],
-            customerProfile: segment.customer_profile || ''
-          }
-        };
-
         insights.push(insight);
 
         // Respect maximum segments limit
@@ -355,6 +318,95 @@ export class MarketInsightsCartService implements IMarketInsightsCartService {
     }
   }
 
+  async extractSegmentInsight(marketData: MarketData, segmentId: string): Promise<CustomerSegmentInsight | null> {
+    try {
+      return this.buildSegmentInsights(marketData).find(insight => insight.data.segmentId === segmentId) || null;
+    } catch (error) {
+      console.error('Failed to extract customer segment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * One insight per declared segment, carrying its SOM over the analysis horizon
+   * The "Other" remainder is left out - it is not a segment anyone can target
+   */
+  private buildSegmentInsights(marketData: MarketData): CustomerSegmentInsight[] {
+    const baseYear = marketData.meta?.base_year || 2024;
+    const horizon = marketData.meta?.analysis_horizon_years || 5;
+    const projections = Array.from({ length: horizon + 1 }, (_, i) => calculateSegmentProjections(marketData, i * 12));
+    const baseProjections = projections[0] || [];
+    const totalTam = baseProjections.reduce((sum, segment) => sum + segment.tam, 0);
+    const rawSegments: readonly (CustomerSegmentInfo | MarketSegmentProfile)[] = [
+      ...(marketData.customer_analysis?.segments || []),
+      ...(marketData.customer_analysis?.market_segments || [])
+    ];
+
+    return baseProjections.flatMap((projection, index) => {
+      if (projection.id === OTHER_SEGMENT_ID) return [];
+
+      const segment = rawSegments.find(raw => raw.id === projection.id);
+      const sizePercentage = this.getDeclaredSizePercentage(segment)
+        ?? (totalTam > 0 ? (projection.tam / totalTam) * 100 : 0);
+
+      const insight: CustomerSegmentInsight = {
+        id: generateInsightId('customer_segment', projection.id),
+        type: 'customer_segment',
+        title: `Customer Segment: ${projection.name}`,
+        description: `Market segment analysis for ${projection.name}`,
+        priority: sizePercentage > 10 ? 'high' : sizePercentage > 5 ? 'medium' : 'low',
+        source: {
+          marketDataId: marketData.meta?.title || 'unknown',
+          analysisTitle: marketData.meta?.title || 'Market Analysis',
+          timestamp: new Date().toISOString(),
+          analyst: marketData.meta?.analyst
+        },
+        confidence: {
+          score: this.calculateSegmentConfidence(segment),
+          factors: [
+            'Segment definition clarity',
+            'Size estimation accuracy',
+            'Growth projection reliability'
+          ]
+        },
+        metadata: {
+          extractedAt: new Date().toISOString(),
+          originalSegmentId: projection.id
+        },
+        data: {
+          segmentId: projection.id,
+          segmentName: projection.name,
+          sizePercentage,
+          growthRate: segment?.growth_rate?.value || 0,
+          targetShare: segment?.target_share?.value || 0,
+          valueDrivers: (segment && 'value_drivers' in segment && segment.value_drivers) || [],
+          customerProfile: this.getCustomerProfile(segment),
+          som: Math.round(projection.som),
+          somProjection: projections.map((yearProjections, i) => ({
+            year: baseYear + i,
+            som: Math.round(yearProjections[index]?.som || 0)
+          })),
+          currency: marketData.meta?.currency || 'EUR'
+        }
+      };
+      return [insight];
+    });
+  }
+
+  /**
+   * Share of TAM the segment declares, undefined when it is sized as an absolute value
+   */
+  private getDeclaredSizePercentage(segment?: CustomerSegmentInfo | MarketSegmentProfile): number | undefined {
+    if (!segment) return undefined;
+    if ('size' in segment) return isPercentUnit(segment.size?.unit) ? segment.size.value : undefined;
+    return segment.size_percentage?.value;
+  }
+
+  private getCustomerProfile(segment?: CustomerSegmentInfo | MarketSegmentProfile): string {
+    if (!segment) return '';
+    return ('characteristics' in segment ? segment.characteristics : segment.customer_profile) || '';
+  }
+
   // ===== VALIDATION =====
 
   async validateCart(): Promise<CartValidationResult> {
@@ -596,13 +648,15 @@ export class MarketInsightsCartService implements IMarketInsightsCartService {
     return Math.min(100, score);
   }
 
-  private calculateSegmentConfidence(segment: any): number {
+  private calculateSegmentConfidence(segment?: CustomerSegmentInfo | MarketSegmentProfile): number {
     let score = 40; // Base score
+    if (!segment) return score;
 
-    if (segment.size_percentage?.value > 0) score += 20;
-    if (segment.growth_rate?.value > 0) score += 15;
-    if (segment.value_drivers?.length > 0) score += 15;
-    if (segment.customer_profile) score += 10;
+    const size = 'size' in segment ? segment.size?.value : segment.size_percentage?.value ?? segment.size_value?.value;
+    if ((size || 0) > 0) score += 20;
+    if ((segment.growth_rate?.value || 0) > 0) score += 15;
+    if ('value_drivers' in segment && (segment.value_drivers?.length || 0) > 0) score += 15;
+    if (this.getCustomerProfile(segment)) score += 10;
 
     return Math.min(100, score);
   }
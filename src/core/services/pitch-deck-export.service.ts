@@ -8,7 +8,7 @@
 
 import PptxGenJS from 'pptxgenjs';
 import { BusinessData, MarketData, CalculatedMetrics } from '@/core/types';
-import { calculateBusinessMetrics } from '@/core/engine';
+import { calculateBusinessMetrics, calculateFundingSummary } from '@/core/engine';
 
 // ============================================================================
 // Constants
@@ -1058,10 +1058,12 @@ function createTheAskSlide(
   });
 
   const currency = businessData.meta.currency;
-  const investmentRequired = calculations.totalInvestmentRequired || 0;
+  // The ask is the modelled funding plus whatever is still missing to stay above minimum cash
+  const funding = calculateFundingSummary(businessData, calculations.monthlyData);
+  const investmentRequired = funding.totalEquity + funding.totalDebt + funding.fundingGap;
 
   // Main funding ask
-  slide.addText('Investment Required', {
+  slide.addText(funding.hasFinancing ? 'Funding Required' : 'Investment Required', {
     x: 0.5,
     y: 1.2,
     w: '90%',
@@ -1084,6 +1086,26 @@ function createTheAskSlide(
     align: 'center',
   });
 
+  if (funding.hasFinancing) {
+    const fundingParts = [
+      `Equity ${formatCurrency(funding.totalEquity, currency)}`,
+      `Debt ${formatCurrency(funding.totalDebt, currency)}`,
+      funding.fundingGap > 0
+        ? `Unfunded gap ${formatCurrency(funding.fundingGap, currency)} (from month ${funding.firstShortfallMonth})`
+        : `Lowest cash ${formatCurrency(funding.lowestCashBalance, currency)}`,
+    ];
+    slide.addText(fundingParts.join(' | '), {
+      x: 0.5,
+      y: 2.3,
+      w: '90%',
+      h: 0.3,
+      fontSize: FONTS.caption,
+      fontFace: 'Arial',
+      color: COLORS.text,
+      align: 'center',
+    });
+  }
+
   // Use of funds breakdown
   slide.addText('Use of Funds', {
     x: 0.5,
@@ -1097,38 +1119,9 @@ function createTheAskSlide(
     align: 'center',
   });
 
-  // Calculate use of funds from CAPEX and initial OPEX
-  const useOfFunds: { label: string; value: number; percentage: number }[] = [];
-
-  // CAPEX items
-  if (businessData.assumptions.capex && businessData.assumptions.capex.length > 0) {
-    const totalCapex = investmentRequired * 0.6; // Estimate 60% for CAPEX
-    useOfFunds.push({
-      label: 'Capital Expenditure',
-      value: totalCapex,
-      percentage: 60,
-    });
-  }
+  const useOfFunds = calculateUseOfFunds(calculations.monthlyData);
 
-  // OPEX items
-  if (businessData.assumptions.opex && businessData.assumptions.opex.length > 0) {
-    const operationsAllocation = investmentRequired * 0.25;
-    useOfFunds.push({
-      label: 'Operations',
-      value: operationsAllocation,
-      percentage: 25,
-    });
-  }
-
-  // Reserve
-  if (useOfFunds.length > 0) {
-    const remaining = 100 - useOfFunds.reduce((sum, f) => sum + f.percentage, 0);
-    useOfFunds.push({
-      label: 'Working Capital Reserve',
-      value: investmentRequired * (remaining / 100),
-      percentage: remaining,
-    });
-  } else {
+  if (useOfFunds.length === 0) {
     // Default breakdown
     useOfFunds.push(
       { label: 'Product Development', value: investmentRequired * 0.4, percentage: 40 },
@@ -1213,6 +1206,37 @@ function createTheAskSlide(
   });
 }
 
+/**
+ * Split the cash consumed up to the funding low point into its uses
+ * The low point is where cumulative operating cash flow and debt service bottom out,
+ * so inflows from lenders and investors do not hide what the money is spent on
+ */
+function calculateUseOfFunds(
+  monthlyData: CalculatedMetrics['monthlyData']
+): { label: string; value: number; percentage: number }[] {
+  let cumulative = 0;
+  let lowest = 0;
+  let throughMonth = 0;
+  monthlyData.forEach((month, index) => {
+    cumulative += month.netCashFlow + (month.interestExpense || 0) + (month.debtRepayment || 0);
+    if (cumulative < lowest) {
+      lowest = cumulative;
+      throughMonth = index + 1;
+    }
+  });
+
+  const months = monthlyData.slice(0, throughMonth);
+  const uses = [
+    { label: 'Capital Expenditure', value: -months.reduce((sum, m) => sum + m.capex, 0) },
+    { label: 'Operating Losses', value: months.reduce((sum, m) => sum + Math.max(0, -(m.ebitda + m.tax)), 0) },
+    { label: 'Working Capital', value: months.reduce((sum, m) => sum + Math.max(0, -(m.changeInWorkingCapital || 0)), 0) },
+    { label: 'Debt Service', value: -months.reduce((sum, m) => sum + (m.interestExpense || 0) + (m.debtRepayment || 0), 0) },
+  ].filter(use => use.value > 0);
+
+  const total = uses.reduce((sum, use) => sum + use.value, 0);
+  return uses.map(use => ({ ...use, percentage: Math.round((use.value / total) * 100) }));
+}
+
 /**
  * Create closing slide with contact/next steps
  */
@@ -137,6 +137,11 @@ export const STORAGE_KEYS = {
 
   // AI / Research
   RESEARCH_DOCUMENTS: 'bizcaseland_research_documents',
+  AI_CHAT_THREADS: 'bizcaseland_ai_chat_threads',
+  AI_USAGE_LEDGER: 'bizcaseland_ai_usage_ledger',
+  AI_USAGE_SETTINGS: 'bizcaseland_ai_usage_settings',
+  DEBATE_STATE: 'bizcaseland_debate_state',
+  DEBATE_LEDGER: 'bizcaseland_debate_ledger',
 } as const;
 
 export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
@@ -5,7 +5,7 @@
 
 import type { BusinessData, CustomerSegment } from '@/core/types/business';
 import type { MarketData } from '@/core/types/market';
-import { getNestedValue, setNestedValue } from '@/core/engine';
+import { getNestedValue, setNestedValue, getModelPeriods } from '@/core/engine';
 
 export interface SyncResult {
   success: boolean;
@@ -167,7 +167,7 @@ export class SyncService {
     }
 
     // Check time horizon consistency
-    const businessYears = businessData.meta.periods / 12;
+    const businessYears = getModelPeriods(businessData) / 12;
     const marketYears = marketData.meta?.analysis_horizon_years || 0;
     
     if (marketYears > 0 && Math.abs(businessYears - marketYears) > 1) {
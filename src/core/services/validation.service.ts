@@ -3,16 +3,21 @@
  * Provides validation for business and market data
  */
 
-import type { BusinessData } from '@/core/types/business';
+import type { BusinessData, CapexItem, EquityRound, LoanFacility, OpexItem } from '@/core/types/business';
 import type { MarketData } from '@/core/types/market';
+import type { Driver } from '@/core/types/common';
 import {
   isPositiveNumber,
   isValidPercentage,
   isValidDecimalPercentage,
   isNonEmptyString,
   isValidCurrency,
+  isValidFrequency,
+  isValidDistributionType,
 } from '@/core/types/common';
-import { isValidBusinessModel } from '@/core/types/business';
+import { isValidBusinessModel, isValidOpexCategory } from '@/core/types/business';
+import { validatePath } from '@/core/engine/utils/nested-operations';
+import { MAX_MODEL_PERIODS, getMonthsPerPeriod, getOpexCategory } from '@/core/engine/calculators/business-calculator-full';
 
 export interface ValidationResult {
   valid: boolean;
@@ -69,12 +74,36 @@ export class ValidationService {
         });
       }
 
+      if (data.meta.frequency !== undefined && !isValidFrequency(data.meta.frequency)) {
+        errors.push({
+          path: 'meta.frequency',
+          message: 'Frequency must be monthly, quarterly or annually',
+          value: data.meta.frequency,
+        });
+      }
+
+      // meta.periods counts reporting periods, the horizon cap is in months
+      const monthsPerPeriod = getMonthsPerPeriod(data.meta.frequency);
       if (!data.meta.periods || !isPositiveNumber(data.meta.periods)) {
         errors.push({
           path: 'meta.periods',
           message: 'Periods must be a positive number',
           value: data.meta.periods,
         });
+      } else if (data.meta.periods * monthsPerPeriod > MAX_MODEL_PERIODS) {
+        warnings.push({
+          path: 'meta.periods',
+          message: `Only the first ${MAX_MODEL_PERIODS} months will be modelled`,
+          suggestion: `Reduce periods to ${Math.floor(MAX_MODEL_PERIODS / monthsPerPeriod)} or fewer`,
+        });
+      }
+
+      if (data.meta.start_date !== undefined && !/^\d{4}-(0[1-9]|1[0-2])(-\d{2})?$/.test(String(data.meta.start_date))) {
+        errors.push({
+          path: 'meta.start_date',
+          message: 'Start date must be formatted as YYYY-MM-DD',
+          value: data.meta.start_date,
+        });
       }
     }
 
@@ -89,6 +118,16 @@ export class ValidationService {
       this.validateAssumptions(data.assumptions, errors, warnings);
     }
 
+    // Validate scenarios
+    if (data.scenarios) {
+      this.validateScenarios(data.scenarios, errors);
+    }
+
+    // Validate driver distributions used by Monte Carlo simulation
+    if (Array.isArray(data.drivers)) {
+      this.validateDriverDistributions(data.drivers, errors);
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -206,6 +245,108 @@ export class ValidationService {
       );
     }
 
+    if (assumptions.financial?.tax_rate) {
+      this.validateValueWithRationale(
+        assumptions.financial.tax_rate,
+        'assumptions.financial.tax_rate',
+        errors
+      );
+      if (!isValidDecimalPercentage(assumptions.financial.tax_rate.value)) {
+        errors.push({
+          path: 'assumptions.financial.tax_rate.value',
+          message: 'Tax rate must be a decimal between 0 and 1',
+          value: assumptions.financial.tax_rate.value,
+        });
+      }
+    }
+
+    ['opening_cash', 'minimum_cash'].forEach(field => {
+      const amount = assumptions.financial?.[field]?.value;
+      if (amount !== undefined && (typeof amount !== 'number' || !isFinite(amount))) {
+        errors.push({
+          path: `assumptions.financial.${field}.value`,
+          message: 'Cash balance must be a number',
+          value: amount,
+        });
+      }
+    });
+
+    // Validate loan facilities
+    if (assumptions.financial?.loans !== undefined) {
+      if (!Array.isArray(assumptions.financial.loans)) {
+        errors.push({
+          path: 'assumptions.financial.loans',
+          message: 'Loans must be an array',
+        });
+      } else {
+        assumptions.financial.loans.forEach((loan: LoanFacility, index: number) => {
+          const path = `assumptions.financial.loans[${index}]`;
+          if (!isPositiveNumber(loan?.principal?.value)) {
+            errors.push({
+              path: `${path}.principal.value`,
+              message: 'Loan principal must be a positive number',
+              value: loan?.principal?.value,
+            });
+          }
+          if (!isValidDecimalPercentage(loan?.interest_rate?.value)) {
+            errors.push({
+              path: `${path}.interest_rate.value`,
+              message: 'Loan interest rate must be a decimal between 0 and 1',
+              value: loan?.interest_rate?.value,
+            });
+          }
+          if (!isPositiveNumber(loan?.term_months?.value) || !Number.isInteger(loan.term_months.value)) {
+            errors.push({
+              path: `${path}.term_months.value`,
+              message: 'Loan term must be a positive whole number of months',
+              value: loan?.term_months?.value,
+            });
+          }
+          if (!['annuity', 'straight_line', 'bullet'].includes(loan?.amortisation)) {
+            errors.push({
+              path: `${path}.amortisation`,
+              message: 'Loan amortisation must be annuity, straight_line or bullet',
+              value: loan?.amortisation,
+            });
+          }
+          if (loan?.grace_months !== undefined && loan.term_months?.value !== undefined && loan.grace_months >= loan.term_months.value) {
+            warnings.push({
+              path: `${path}.grace_months`,
+              message: 'Grace period covers the whole term; principal is repaid in the final month',
+              suggestion: 'Shorten the grace period or extend the loan term',
+            });
+          }
+        });
+      }
+    }
+
+    // Validate equity rounds
+    if (assumptions.financial?.equity_rounds !== undefined) {
+      if (!Array.isArray(assumptions.financial.equity_rounds)) {
+        errors.push({
+          path: 'assumptions.financial.equity_rounds',
+          message: 'Equity rounds must be an array',
+        });
+      } else {
+        assumptions.financial.equity_rounds.forEach((round: EquityRound, index: number) => {
+          if (!isPositiveNumber(round?.amount?.value)) {
+            errors.push({
+              path: `assumptions.financial.equity_rounds[${index}].amount.value`,
+              message: 'Equity amount must be a positive number',
+              value: round?.amount?.value,
+            });
+          }
+          if (!Number.isInteger(round?.month) || round.month < 1) {
+            errors.push({
+              path: `assumptions.financial.equity_rounds[${index}].month`,
+              message: 'Equity round month must be a whole number from 1',
+              value: round?.month,
+            });
+          }
+        });
+      }
+    }
+
     // Validate customer segments
     if (assumptions.customers?.segments) {
       if (!Array.isArray(assumptions.customers.segments)) {
@@ -228,7 +369,188 @@ export class ValidationService {
         path: 'assumptions.opex',
         message: 'OpEx must be an array',
       });
+    } else if (Array.isArray(assumptions.opex)) {
+      assumptions.opex.forEach((item: OpexItem, index: number) => {
+        const path = `assumptions.opex[${index}]`;
+        if (item?.category !== undefined && !isValidOpexCategory(item.category)) {
+          errors.push({
+            path: `${path}.category`,
+            message: 'OpEx category must be sales_marketing, rd, ga or other',
+            value: item.category,
+          });
+        } else if (item?.category === undefined && getOpexCategory(item) === 'other') {
+          warnings.push({
+            path: `${path}.category`,
+            message: `OpEx item "${item?.name}" has no category and is reported under other operating expenses`,
+            suggestion: 'Set category to sales_marketing, rd, ga or other',
+          });
+        }
+
+        if (item?.headcount !== undefined && !Array.isArray(item.headcount)) {
+          errors.push({
+            path: `${path}.headcount`,
+            message: 'Headcount must be an array',
+          });
+          return;
+        }
+
+        item?.headcount?.forEach((role, roleIndex) => {
+          const rolePath = `${path}.headcount[${roleIndex}]`;
+          const count = role?.count?.value;
+          if (typeof count !== 'number' || count < 0 || !isFinite(count)) {
+            errors.push({
+              path: `${rolePath}.count.value`,
+              message: 'Headcount must be zero or a positive number',
+              value: count,
+            });
+          }
+          if (!isPositiveNumber(role?.monthly_salary?.value)) {
+            errors.push({
+              path: `${rolePath}.monthly_salary.value`,
+              message: 'Monthly salary must be a positive number',
+              value: role?.monthly_salary?.value,
+            });
+          }
+          const startMonth = role?.start_month ?? 1;
+          if (!Number.isInteger(startMonth) || startMonth < 1) {
+            errors.push({
+              path: `${rolePath}.start_month`,
+              message: 'Start month must be a whole number from 1',
+              value: role?.start_month,
+            });
+          }
+          if (role?.end_month !== undefined && (!Number.isInteger(role.end_month) || role.end_month < startMonth)) {
+            errors.push({
+              path: `${rolePath}.end_month`,
+              message: 'End month must be a whole number on or after the start month',
+              value: role.end_month,
+            });
+          }
+        });
+      });
+    }
+
+    // Validate working capital days
+    if (assumptions.working_capital) {
+      ['receivable_days', 'inventory_days', 'payable_days'].forEach(field => {
+        const days = assumptions.working_capital[field]?.value;
+        if (days !== undefined && (typeof days !== 'number' || days < 0 || !isFinite(days))) {
+          errors.push({
+            path: `assumptions.working_capital.${field}.value`,
+            message: 'Working capital days must be zero or a positive number',
+            value: days,
+          });
+        }
+      });
+    }
+
+    // Validate CapEx depreciation schedules
+    if (Array.isArray(assumptions.capex)) {
+      assumptions.capex.forEach((item: CapexItem, index: number) => {
+        const depreciation = item?.depreciation;
+        if (!depreciation) return;
+
+        if (!['straight_line', 'declining_balance', 'none'].includes(depreciation.method)) {
+          errors.push({
+            path: `assumptions.capex[${index}].depreciation.method`,
+            message: 'Depreciation method must be straight_line, declining_balance or none',
+            value: depreciation.method,
+          });
+        }
+
+        const usefulLife = depreciation.useful_life_years?.value;
+        if (usefulLife !== undefined && !isPositiveNumber(usefulLife)) {
+          errors.push({
+            path: `assumptions.capex[${index}].depreciation.useful_life_years.value`,
+            message: 'Useful life must be a positive number of years',
+            value: usefulLife,
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Validate scenario definitions
+   */
+  private validateScenarios(scenarios: unknown, errors: ValidationError[]): void {
+    if (!Array.isArray(scenarios)) {
+      errors.push({
+        path: 'scenarios',
+        message: 'Scenarios must be an array',
+      });
+      return;
     }
+
+    scenarios.forEach((scenario, index) => {
+      const path = `scenarios[${index}]`;
+
+      if (!scenario?.name || typeof scenario.name !== 'string') {
+        errors.push({
+          path: `${path}.name`,
+          message: 'Scenario name is required',
+          value: scenario?.name,
+        });
+      }
+
+      if (!scenario?.overrides || typeof scenario.overrides !== 'object' || Array.isArray(scenario.overrides)) {
+        errors.push({
+          path: `${path}.overrides`,
+          message: 'Scenario overrides must be an object mapping paths to values',
+          value: scenario?.overrides,
+        });
+        return;
+      }
+
+      for (const overridePath of Object.keys(scenario.overrides)) {
+        if (!validatePath(overridePath)) {
+          errors.push({
+            path: `${path}.overrides`,
+            message: `Invalid or unsafe override path: ${overridePath}`,
+            value: overridePath,
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate Monte Carlo sampling settings on sensitivity drivers
+   */
+  private validateDriverDistributions(drivers: readonly Driver[], errors: ValidationError[]): void {
+    drivers.forEach((driver, index) => {
+      const distribution = driver?.distribution;
+      if (distribution === undefined) return;
+
+      const path = `drivers[${index}].distribution`;
+      if (!isValidDistributionType(distribution?.type)) {
+        errors.push({
+          path: `${path}.type`,
+          message: 'Distribution type must be uniform, triangular or normal',
+          value: distribution?.type,
+        });
+        return;
+      }
+
+      const range = Array.isArray(driver.range) ? driver.range.filter(value => typeof value === 'number') : [];
+      const min = Math.min(...range);
+      const max = Math.max(...range);
+      if (distribution.type === 'triangular' && distribution.mode !== undefined &&
+          (typeof distribution.mode !== 'number' || distribution.mode < min || distribution.mode > max)) {
+        errors.push({
+          path: `${path}.mode`,
+          message: 'Triangular mode must lie within the driver range',
+          value: distribution.mode,
+        });
+      }
+      if (distribution.type === 'normal' && distribution.std_dev !== undefined && !isPositiveNumber(distribution.std_dev)) {
+        errors.push({
+          path: `${path}.std_dev`,
+          message: 'Standard deviation must be a positive number',
+          value: distribution.std_dev,
+        });
+      }
+    });
   }
 
   /**
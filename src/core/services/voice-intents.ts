@@ -0,0 +1,672 @@
+/**
+ * Voice Intents - Grammar for spoken commands in Voice Interrogation Mode
+ * Resolves spoken assumption names to sensitivity drivers by fuzzy matching, understands
+ * absolute and relative changes ("increase churn by two points", "halve CAC") and previews
+ * their NPV impact before anything is applied
+ */
+
+import type { BusinessData, Driver } from '@/core/types';
+import type {
+  VoiceAmount,
+  VoiceChange,
+  VoiceCommand,
+  VoiceCommandType,
+  VoiceIntent,
+  VoicePendingChange,
+} from '@/core/types/ai';
+import { generateVoiceCommandId } from '@/core/types/ai';
+import { calculateBusinessMetrics } from '@/core/engine/calculators/business-calculator-full';
+import { calculateMetricsWithValue } from '@/core/engine/calculators/sensitivity-calculator';
+import { getNestedValue } from '@/core/engine/utils/nested-operations';
+import { formatCurrency } from '@/core/engine/utils/financial';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Below this score a spoken name is reported as unresolved rather than guessed
+export const MIN_DRIVER_MATCH_SCORE = 0.6;
+
+// Two words count as the same when their edit-distance similarity reaches this
+const TOKEN_MATCH = 0.7;
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+  thousand: 1e3, k: 1e3, million: 1e6, m: 1e6, mil: 1e6, billion: 1e9, b: 1e9, bn: 1e9,
+};
+
+const FRACTIONS: Record<string, number> = { half: 0.5, third: 1 / 3, quarter: 0.25 };
+
+const INCREASE_VERBS = [
+  'increase', 'increases', 'increased', 'raise', 'raises', 'raised', 'grow', 'grows', 'bump', 'lift',
+  'boost', 'hike', 'push', 'up', 'rise', 'rises', 'climb', 'climbs', 'higher',
+];
+
+const DECREASE_VERBS = [
+  'decrease', 'decreases', 'decreased', 'reduce', 'reduces', 'reduced', 'lower', 'lowers', 'lowered',
+  'cut', 'cuts', 'drop', 'drops', 'trim', 'slash', 'shrink', 'shrinks', 'down', 'fall', 'falls',
+  'decline', 'declines',
+];
+
+const SCALE_VERBS: Record<string, number> = {
+  halve: 0.5, halves: 0.5, halved: 0.5,
+  double: 2, doubles: 2, doubled: 2,
+  triple: 3, triples: 3, tripled: 3,
+  quadruple: 4, quadruples: 4, quadrupled: 4,
+};
+
+const SET_VERBS = ['set', 'change', 'update', 'make', 'put', 'move', 'bring', ...INCREASE_VERBS, ...DECREASE_VERBS];
+
+const COPULAS = '(?:is|are|was|were|gets|get|goes|go|went|becomes|become|became)';
+
+const HYPOTHETICAL_PREFIX =
+  /^(?:what if|what would happen if|what happens if|how about if|how about|suppose|imagine|let's say|lets say) (?:we |i |our |the )?/;
+
+const FILLER_PREFIX = /^(?:(?:ok|okay|hey|please|so|now|can you|could you|would you|let's(?! say)|lets(?! say)|go ahead and) )+/;
+
+// Short replies made only of these words, e.g. "yes apply it" or "no thanks"
+const replyPattern = (words: string) => new RegExp(`^(?:${words})(?: (?:${words}|please|it|that|the change|thanks))*$`);
+
+const CONFIRM_PATTERN = replyPattern('yes|yeah|yep|yup|sure|ok|okay|confirm|confirmed|apply|do it|go ahead|make it so');
+
+const CANCEL_PATTERN = replyPattern('no|nope|cancel|never ?mind|discard|forget it|don\'t|do not|stop');
+
+const QUESTION_WORDS = ['what', 'how', 'why', 'when', 'where', 'who', 'can', 'could', 'should', 'would', 'is', 'are'];
+
+const NAME_STOP_WORDS = new Set(['the', 'our', 'my', 'its', 'a', 'an', 'of', 'for', 'in', 'on', 'value', 'assumption', 'assumptions']);
+
+const TOKEN_ALIASES: Record<string, string> = {
+  avg: 'average', pct: 'percent', percentage: 'percent', qty: 'quantity', acv: 'acv', arpu: 'arpu',
+  pricing: 'price', customers: 'customer', costs: 'cost',
+};
+
+// ============================================================================
+// Normalisation
+// ============================================================================
+
+/**
+ * Lowercase, drop punctuation and join spelled-out letters ("c. a. c." -> "cac")
+ */
+export function normalizeTranscript(text: string): string {
+  const cleaned = text
+    .toLowerCase()
+    .replace(/per cent/g, 'percent')
+    .replace(/(\d)\s*%/g, '$1 percent')
+    .replace(/%/g, ' percent')
+    .replace(/[€$£]/g, ' ')
+    .replace(/\b([a-z])\./g, '$1 ')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/[^a-z0-9.' ]/g, ' ')
+    .replace(/\.(?!\d)/g, ' ');
+
+  const tokens = cleaned.split(/\s+/).filter(Boolean);
+  const joined: string[] = [];
+  let letters = '';
+  for (const token of [...tokens, '']) {
+    if (/^[a-z]$/.test(token)) {
+      letters += token;
+      continue;
+    }
+    if (letters) {
+      // A lone letter stays a word ("by a point"); a run of letters is an acronym
+      joined.push(letters);
+      letters = '';
+    }
+    if (token) joined.push(token);
+  }
+  return joined.join(' ');
+}
+
+// ============================================================================
+// Numbers and Amounts
+// ============================================================================
+
+const isWord = (words: Record<string, number>, token: string | undefined) =>
+  token !== undefined && Object.prototype.hasOwnProperty.call(words, token);
+
+/**
+ * Parse a spoken number: digits ("2.5", "20k"), words ("twenty five", "one and a half",
+ * "two point five") or a mix ("1.2 million"). Returns null when any token is not numeric.
+ */
+export function parseSpokenNumber(text: string): number | null {
+  const tokens = normalizeTranscript(text).split(' ').filter((token) => token && token !== 'and');
+  if (tokens.length === 0) return null;
+
+  let total = 0;
+  let current = 0;
+  let seen = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const digits = token.match(/^(\d+(?:\.\d+)?)(k|m|b|bn)?$/);
+
+    if (digits) {
+      current += parseFloat(digits[1]) * (digits[2] ? SCALES[digits[2]] : 1);
+      seen = true;
+    } else if (isWord(SMALL_NUMBERS, token)) {
+      current += SMALL_NUMBERS[token];
+      seen = true;
+    } else if (isWord(TENS, token)) {
+      current += TENS[token];
+      seen = true;
+    } else if (token === 'hundred') {
+      current = (current || 1) * 100;
+      seen = true;
+    } else if (isWord(SCALES, token) && seen) {
+      total += (current || 1) * SCALES[token];
+      current = 0;
+    } else if ((token === 'a' || token === 'an') && isWord(FRACTIONS, tokens[i + 1])) {
+      continue;
+    } else if ((token === 'a' || token === 'an') && (isWord(SCALES, tokens[i + 1]) || tokens[i + 1] === 'hundred')) {
+      current += 1;
+      seen = true;
+    } else if (isWord(FRACTIONS, token.replace(/s$/, ''))) {
+      current += FRACTIONS[token.replace(/s$/, '')];
+      seen = true;
+    } else if (token === 'point' && seen) {
+      const decimals = tokens.slice(i + 1).map((digit) => (/^\d$/.test(digit) ? Number(digit) : isWord(SMALL_NUMBERS, digit) ? SMALL_NUMBERS[digit] : undefined));
+      if (decimals.length === 0 || decimals.some((digit) => digit === undefined || digit > 9)) return null;
+      current += Number(`0.${decimals.join('')}`);
+      break;
+    } else {
+      return null;
+    }
+  }
+
+  return seen ? total + current : null;
+}
+
+/**
+ * Parse an amount with its qualifier: "two points", "20 percent", "50 basis points", "150 euros", "half"
+ */
+export function parseSpokenAmount(text: string): VoiceAmount | null {
+  let phrase = normalizeTranscript(text).replace(/^(?:by|to|at|of|about|around|roughly) /, '');
+
+  if (/^(?:a |an |one )?(?:half|third|quarter)$/.test(phrase)) {
+    const fraction = FRACTIONS[phrase.split(' ').pop()!];
+    return { value: fraction * 100, unit: 'percent' };
+  }
+
+  let unit: VoiceAmount['unit'] = 'none';
+  let divisor = 1;
+
+  const basisPoints = phrase.match(/^(.+?) (?:basis points?|bps|bips)$/);
+  const points = phrase.match(/^(.+?) (?:percentage points?|percent points?|points?|pts|pp)$/);
+  const percent = phrase.match(/^(.+?) (?:percent|pct)$/);
+  if (basisPoints) {
+    phrase = basisPoints[1];
+    unit = 'points';
+    divisor = 100;
+  } else if (points) {
+    phrase = points[1];
+    unit = 'points';
+  } else if (percent) {
+    phrase = percent[1];
+    unit = 'percent';
+  } else {
+    phrase = phrase.replace(/ (?:euros?|eur|dollars?|usd|pounds?|gbp|bucks)$/, '');
+  }
+
+  const value = parseSpokenNumber(phrase);
+  return value === null ? null : { value: value / divisor, unit };
+}
+
+// ============================================================================
+// Driver Resolution
+// ============================================================================
+
+function stem(token: string): string {
+  const aliased = TOKEN_ALIASES[token] ?? token;
+  return aliased.length > 3 && aliased.endsWith('s') && !aliased.endsWith('ss') ? aliased.slice(0, -1) : aliased;
+}
+
+function nameTokens(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !NAME_STOP_WORDS.has(token) && !/^\d+$/.test(token))
+    .map(stem);
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const next = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = next;
+    }
+  }
+  return row[b.length];
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length >= 4 && b.length >= 4 && (a.startsWith(b) || b.startsWith(a))) return 0.9;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Names a driver can be called by: its label, key, path leaf and the acronyms of each
+ */
+function driverNames(driver: Driver): string[][] {
+  const segments = driver.path
+    .split('.')
+    .map((segment) => segment.replace(/\[\d+\]$/, ''))
+    .filter((segment) => segment && !NAME_STOP_WORDS.has(segment) && !/^\d+$/.test(segment));
+  const names = [driver.label, driver.key, segments.slice(-1)[0], segments.slice(-2).join(' ')]
+    .filter(Boolean)
+    .map((name) => nameTokens(name));
+
+  const acronyms = names
+    .filter((tokens) => tokens.length >= 2)
+    .map((tokens) => [tokens.map((token) => token[0]).join('')]);
+
+  return [...names, ...acronyms].filter((tokens) => tokens.length > 0);
+}
+
+function scoreName(spoken: string[], name: string[]): number {
+  const best = spoken.map((token) => Math.max(...name.map((candidate) => tokenSimilarity(token, candidate))));
+  const precision = best.reduce((sum, similarity) => sum + (similarity >= TOKEN_MATCH ? similarity : 0), 0) / spoken.length;
+  const recall = name.filter((candidate) => spoken.some((token) => tokenSimilarity(token, candidate) >= TOKEN_MATCH)).length / name.length;
+  return 0.7 * precision + 0.3 * recall;
+}
+
+/**
+ * Best driver for a spoken assumption name, or null when nothing scores above the threshold
+ */
+export function resolveVoiceDriver(
+  spokenName: string,
+  drivers: readonly Driver[]
+): { driver: Driver; score: number } | null {
+  const names = drivers.map(driverNames);
+  const vocabulary = names.flat(2);
+
+  // Words no driver uses ("monthly churn", "our marketing spend") are treated as noise
+  const spoken = nameTokens(normalizeTranscript(spokenName)).filter((token) =>
+    vocabulary.some((word) => tokenSimilarity(token, word) >= TOKEN_MATCH)
+  );
+  if (spoken.length === 0) return null;
+
+  let best: { driver: Driver; score: number } | null = null;
+  for (const [index, driver] of drivers.entries()) {
+    const score = Math.max(...names[index].map((name) => scoreName(spoken, name)));
+    if (score >= MIN_DRIVER_MATCH_SCORE && (!best || score > best.score)) {
+      best = { driver, score };
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// Grammar
+// ============================================================================
+
+const verbPattern = (verbs: readonly string[]) => verbs.join('|');
+
+/**
+ * Split "prices 10 percent" into a subject and the longest trailing amount
+ */
+function splitTrailingAmount(text: string): { subject: string; amount: VoiceAmount } | null {
+  const tokens = text.split(' ');
+  for (let i = 1; i < tokens.length; i++) {
+    const amount = parseSpokenAmount(tokens.slice(i).join(' '));
+    if (amount) return { subject: tokens.slice(0, i).join(' '), amount };
+  }
+  return null;
+}
+
+/**
+ * Match the change patterns; the subject is still the spoken name
+ */
+function matchChange(text: string, hypothetical: boolean): { subject: string; change: VoiceChange } | null {
+  const signOf = (verb: string) => (DECREASE_VERBS.includes(verb) ? -1 : 1);
+  const signed = (amount: VoiceAmount, verb: string): VoiceAmount => ({ ...amount, value: amount.value * signOf(verb) });
+  const scaleVerbs = verbPattern(Object.keys(SCALE_VERBS));
+  const changeVerbs = verbPattern([...INCREASE_VERBS, ...DECREASE_VERBS]);
+
+  // "halve cac", "double the marketing budget"
+  let match: RegExpMatchArray | null | false = text.match(new RegExp(`^(${scaleVerbs}) (.+)$`));
+  if (match) return { subject: match[2], change: { kind: 'scale', factor: SCALE_VERBS[match[1]] } };
+
+  // "cut cac in half", "cut cac by half"
+  match = text.match(new RegExp(`^(?:${changeVerbs}) (.+?) (?:in|by) half$`));
+  if (match) return { subject: match[1], change: { kind: 'scale', factor: 0.5 } };
+
+  // "churn doubles", "cac is halved"
+  match = hypothetical && text.match(new RegExp(`^(.+?) (?:${COPULAS} )?(${scaleVerbs})$`));
+  if (match) return { subject: match[1], change: { kind: 'scale', factor: SCALE_VERBS[match[2]] } };
+
+  // "increase churn by two points"
+  match = text.match(new RegExp(`^(${changeVerbs}) (.+) by (.+)$`));
+  if (match) {
+    const amount = parseSpokenAmount(match[3]);
+    if (amount) return { subject: match[2], change: { kind: 'add', amount: signed(amount, match[1]) } };
+  }
+
+  // "churn goes up by two points", "price drops by 10 percent"
+  match = hypothetical && text.match(new RegExp(`^(.+?) (?:${COPULAS} )?(${changeVerbs}) by (.+)$`));
+  if (match) {
+    const amount = parseSpokenAmount(match[3]);
+    if (amount) return { subject: match[1], change: { kind: 'add', amount: signed(amount, match[2]) } };
+  }
+
+  // "set churn to 3 percent", "reduce cac to 900"
+  match = text.match(new RegExp(`^(?:${verbPattern(SET_VERBS)}) (.+) (?:to|at|equal to) (.+)$`));
+  if (match) {
+    const amount = parseSpokenAmount(match[2]);
+    if (amount) return { subject: match[1], change: { kind: 'set', amount } };
+  }
+
+  // "raise prices 10 percent", "make churn 3 percent"
+  match = text.match(new RegExp(`^(${changeVerbs}|set|make) (.+)$`));
+  if (match) {
+    const split = splitTrailingAmount(match[2]);
+    if (split) {
+      const change: VoiceChange = match[1] === 'set' || match[1] === 'make'
+        ? { kind: 'set', amount: split.amount }
+        : { kind: 'add', amount: signed(split.amount, match[1]) };
+      return { subject: split.subject, change };
+    }
+  }
+
+  // "churn is 3 percent", "price goes to 120", "cac drops to 900"
+  match = hypothetical && text.match(new RegExp(`^(.+?) (?:${COPULAS}|(?:${COPULAS} |${changeVerbs} )?to|equals)(?: to)? (.+)$`));
+  if (match) {
+    const amount = parseSpokenAmount(match[2]);
+    if (amount) return { subject: match[1], change: { kind: 'set', amount } };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a transcript against the drivers of the loaded business case
+ */
+export function parseVoiceIntent(text: string, drivers: readonly Driver[] = []): VoiceIntent {
+  let normalized = normalizeTranscript(text).replace(FILLER_PREFIX, '').replace(/ please$/, '').trim();
+
+  if (CONFIRM_PATTERN.test(normalized)) return { kind: 'confirm' };
+  if (CANCEL_PATTERN.test(normalized)) return { kind: 'cancel' };
+
+  const hypotheticalMatch = normalized.match(HYPOTHETICAL_PREFIX);
+  const hypothetical = Boolean(hypotheticalMatch);
+  if (hypotheticalMatch) {
+    normalized = normalized.slice(hypotheticalMatch[0].length);
+  }
+
+  const change = matchChange(normalized, hypothetical);
+  if (change) {
+    const subject = change.subject.replace(/^(?:the|our|my|its) /, '').replace(/ (?:up|down)$/, '');
+    const resolved = resolveVoiceDriver(subject, drivers);
+    if (resolved) {
+      return {
+        kind: 'adjust',
+        path: resolved.driver.path,
+        label: resolved.driver.label || resolved.driver.key,
+        change: change.change,
+        hypothetical,
+        matchScore: resolved.score,
+      };
+    }
+    if (!hypothetical) {
+      return { kind: 'unresolved', subject, hypothetical };
+    }
+  }
+
+  if (hypothetical) {
+    return { kind: 'what_if', scenario: normalized };
+  }
+
+  const navigate = normalized.match(/^(?:show(?: me)?|go to|open|navigate to|take me to) (?:the )?(.+)$/);
+  if (navigate) {
+    return { kind: 'navigate', target: navigate[1] };
+  }
+
+  const action = normalized.match(/^(read|tell me|explain|summarize|summarise|export|download|save) (?:the |to |as )?(.+)$/);
+  if (action) {
+    return { kind: 'action', verb: action[1], subject: action[2] };
+  }
+
+  const firstWord = normalized.split(' ')[0];
+  if (text.includes('?') || QUESTION_WORDS.includes(firstWord)) {
+    return { kind: 'ask', question: text.trim() };
+  }
+
+  return { kind: 'unknown' };
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+const COMMAND_TYPES: Record<VoiceIntent['kind'], VoiceCommandType> = {
+  adjust: 'update_value',
+  unresolved: 'update_value',
+  what_if: 'what_if',
+  navigate: 'navigate',
+  action: 'action',
+  ask: 'ask_question',
+  confirm: 'confirm',
+  cancel: 'cancel',
+  unknown: 'unknown',
+};
+
+/**
+ * Plain-language summary of a change, e.g. "increase by 2 points" or "halve"
+ */
+export function describeVoiceChange(change: VoiceChange): string {
+  const amountText = (amount: VoiceAmount) =>
+    `${Math.abs(amount.value)}${amount.unit === 'percent' ? '%' : amount.unit === 'points' ? ' points' : ''}`;
+
+  switch (change.kind) {
+    case 'set':
+      return `set to ${amountText(change.amount)}`;
+    case 'add':
+      return `${change.amount.value < 0 ? 'decrease' : 'increase'} by ${amountText(change.amount)}`;
+    case 'scale':
+      return change.factor === 0.5 ? 'halve' : `multiply by ${change.factor}`;
+  }
+}
+
+function describeIntent(intent: VoiceIntent, text: string): string {
+  switch (intent.kind) {
+    case 'adjust':
+      return `${intent.hypothetical ? 'What if' : 'Update'}: ${intent.label} ${describeVoiceChange(intent.change)}`;
+    case 'unresolved':
+      return `Update ${intent.subject} (no matching assumption)`;
+    case 'what_if':
+      return `Explore scenario: ${intent.scenario}`;
+    case 'navigate':
+      return `Navigate to ${intent.target}`;
+    case 'action':
+      return `Action: ${text}`;
+    case 'ask':
+      return `Question: ${text}`;
+    case 'confirm':
+      return 'Confirm pending change';
+    case 'cancel':
+      return 'Cancel pending change';
+    default:
+      return text;
+  }
+}
+
+/**
+ * Build the command emitted for a final transcript
+ */
+export function parseVoiceCommand(text: string, confidence: number, drivers: readonly Driver[] = []): VoiceCommand {
+  const intent = parseVoiceIntent(text, drivers);
+  const type = intent.kind === 'adjust' && intent.hypothetical ? 'what_if' : COMMAND_TYPES[intent.kind];
+
+  let parameters: Record<string, unknown> | undefined;
+  if (intent.kind === 'adjust') {
+    parameters = { field: intent.label, path: intent.path, change: intent.change };
+  } else if (intent.kind === 'unresolved') {
+    parameters = { field: intent.subject };
+  } else if (intent.kind === 'what_if') {
+    parameters = { change: intent.scenario };
+  } else if (intent.kind === 'navigate') {
+    parameters = { field: intent.target };
+  } else if (intent.kind === 'action') {
+    parameters = { field: intent.subject };
+  }
+
+  return {
+    id: generateVoiceCommandId(),
+    type,
+    rawText: text,
+    intent: describeIntent(intent, text),
+    parameters,
+    resolvedIntent: intent,
+    confidence,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Applying Changes
+// ============================================================================
+
+const isPercentUnit = (unit?: string) =>
+  !!unit && (unit === '%' || unit === 'ratio' || unit.includes('pct') || unit.includes('percent'));
+
+// Unit words that mark a value as an absolute amount rather than a fraction
+const ABSOLUTE_UNIT_WORDS = new Set([
+  'eur', 'usd', 'gbp', 'chf', 'currency', 'unit', 'units', 'day', 'days', 'month', 'months', 'year', 'years',
+  'customer', 'customers', 'account', 'accounts', 'user', 'users', 'hour', 'hours', 'fte', 'count',
+]);
+
+const isAbsoluteUnit = (unit?: string) =>
+  !!unit && (/[$€£]/.test(unit) || unit.toLowerCase().split(/[^a-z]+/).some((word) => ABSOLUTE_UNIT_WORDS.has(word)));
+
+/**
+ * Whether a value is stored as a fraction (0.05) and spoken as a percentage (5 percent)
+ * Percent-like units decide directly and absolute units (currency, units, days) rule it out.
+ * Otherwise, e.g. churn stored with unit "decimal" or "monthly_churn_rate", a value between 0 and 1
+ * counts as a fraction when the driver range stays within 0-1 or the spoken amount is in percent or points.
+ */
+export function isRatioValue(
+  value: number,
+  unit?: string,
+  context: { amount?: VoiceAmount; range?: readonly number[] } = {}
+): boolean {
+  if (Math.abs(value) > 1) return false;
+  if (isPercentUnit(unit)) return true;
+  if (isAbsoluteUnit(unit)) return false;
+  if (context.range && context.range.length > 0) return context.range.every((bound) => Math.abs(bound) <= 1);
+  return context.amount?.unit === 'percent' || context.amount?.unit === 'points';
+}
+
+const tidy = (value: number) => Number(value.toPrecision(10));
+
+/**
+ * New value after a spoken change
+ * Points and bare numbers above 1 are percentage points on ratio values; percent is relative for add
+ */
+export function applyVoiceChange(current: number, change: VoiceChange, isRatio: boolean): number {
+  const inUnits = (amount: VoiceAmount) => {
+    if (!isRatio) return amount.value;
+    if (amount.unit === 'none' && Math.abs(amount.value) <= 1) return amount.value;
+    return amount.value / 100;
+  };
+
+  switch (change.kind) {
+    case 'scale':
+      return tidy(current * change.factor);
+    case 'add':
+      return change.amount.unit === 'percent'
+        ? tidy(current * (1 + change.amount.value / 100))
+        : tidy(current + inUnits(change.amount));
+    case 'set':
+      return tidy(inUnits(change.amount));
+  }
+}
+
+/**
+ * Preview an adjust intent against the business case: old and new value and the NPV either side
+ * Returns null when the driver path does not hold a number
+ */
+export function previewVoiceChange(
+  businessData: BusinessData,
+  intent: Extract<VoiceIntent, { kind: 'adjust' }>
+): VoicePendingChange | null {
+  const fromValue = getNestedValue(businessData, intent.path);
+  if (typeof fromValue !== 'number' || !Number.isFinite(fromValue)) return null;
+
+  const driver = businessData.drivers?.find((d) => d.path === intent.path);
+  const unit = driver?.unit ?? (intent.path.endsWith('.value')
+    ? getNestedValue(businessData, intent.path.replace(/\.value$/, '.unit'))
+    : undefined);
+  const amount = intent.change.kind === 'scale' ? undefined : intent.change.amount;
+  const isRatio = isRatioValue(fromValue, unit, { amount, range: driver?.range });
+  const toValue = applyVoiceChange(fromValue, intent.change, isRatio);
+
+  return {
+    path: intent.path,
+    label: intent.label,
+    unit,
+    isRatio,
+    fromValue,
+    toValue,
+    baselineNpv: calculateBusinessMetrics(businessData).npv,
+    projectedNpv: calculateMetricsWithValue(businessData, intent.path, toValue).npv,
+    currency: businessData.meta?.currency ?? 'EUR',
+    hypothetical: intent.hypothetical,
+  };
+}
+
+// ============================================================================
+// Read-back
+// ============================================================================
+
+/**
+ * Speakable value, e.g. "7 percent" or "1,200 EUR"
+ */
+export function formatVoiceValue(value: number, unit: string | undefined, isRatio: boolean): string {
+  const format = (n: number) => n.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  if (isRatio) return `${format(value * 100)} percent`;
+  return unit && !isPercentUnit(unit) ? `${format(value)} ${unit}` : format(value);
+}
+
+function formatNpvDelta(change: VoicePendingChange): string {
+  const delta = change.projectedNpv - change.baselineNpv;
+  if (Math.abs(delta) < 0.5) return 'leave NPV unchanged';
+  return `${delta > 0 ? 'raise' : 'lower'} NPV by ${formatCurrency(Math.abs(delta), change.currency)}`;
+}
+
+/**
+ * Question spoken before a change is applied
+ */
+export function describePendingChange(change: VoicePendingChange): string {
+  const from = formatVoiceValue(change.fromValue, change.unit, change.isRatio);
+  const to = formatVoiceValue(change.toValue, change.unit, change.isRatio);
+  const question = change.hypothetical
+    ? `If ${change.label} went from ${from} to ${to}, it would ${formatNpvDelta(change)}.`
+    : `Changing ${change.label} from ${from} to ${to} would ${formatNpvDelta(change)}.`;
+  return `${question} Say confirm to apply it or cancel to keep the current value.`;
+}
+
+/**
+ * Read-back after a change has been applied
+ */
+export function describeAppliedChange(change: VoicePendingChange): string {
+  const to = formatVoiceValue(change.toValue, change.unit, change.isRatio);
+  const delta = change.projectedNpv - change.baselineNpv;
+  const deltaText = Math.abs(delta) < 0.5
+    ? 'NPV is unchanged'
+    : `NPV ${delta > 0 ? 'rose' : 'fell'} by ${formatCurrency(Math.abs(delta), change.currency)}`;
+  return `Done. ${change.label} is now ${to}. ${deltaText}, to ${formatCurrency(change.projectedNpv, change.currency)}.`;
+}
@@ -3,13 +3,14 @@
  * Provides voice input and text-to-speech for the Voice Interrogation Mode
  */
 
-import type { VoiceCommand, VoiceCommandType, VoiceSettings } from '@/core/types/ai';
+import type { Driver } from '@/core/types';
+import type { VoiceCommand, VoiceSettings } from '@/core/types/ai';
 import {
-  generateVoiceCommandId,
   isSpeechRecognitionSupported,
   isSpeechSynthesisSupported,
   DEFAULT_VOICE_SETTINGS,
 } from '@/core/types/ai';
+import { parseVoiceCommand } from './voice-intents';
 
 // ============================================================================
 // Types
@@ -66,174 +67,7 @@ export interface VoiceServiceCallbacks {
   onError: (error: string) => void;
   onSpeakStart?: () => void;
   onSpeakEnd?: () => void;
-}
-
-// ============================================================================
-// Command Parsing
-// ============================================================================
-
-/**
- * Parse voice command from transcribed text
- */
-function parseVoiceCommand(text: string, confidence: number): VoiceCommand {
-  const lowerText = text.toLowerCase().trim();
-
-  // What-if patterns
-  const whatIfPatterns = [
-    /what if (?:we |i )?(.*)/i,
-    /what would happen if (.*)/i,
-    /how about if (.*)/i,
-    /suppose (?:we |i )?(.*)/i,
-  ];
-
-  for (const pattern of whatIfPatterns) {
-    const match = lowerText.match(pattern);
-    if (match) {
-      return {
-        type: 'what_if',
-        rawText: text,
-        intent: `Explore scenario: ${match[1]}`,
-        parameters: {
-          change: match[1],
-        },
-        confidence,
-        timestamp: new Date().toISOString(),
-      };
-    }
-  }
-
-  // Update value patterns
-  const updatePatterns = [
-    /set (?:the )?(.+?) to (.+)/i,
-    /change (?:the )?(.+?) to (.+)/i,
-    /update (?:the )?(.+?) to (.+)/i,
-    /make (?:the )?(.+?) (.+)/i,
-  ];
-
-  for (const pattern of updatePatterns) {
-    const match = lowerText.match(pattern);
-    if (match) {
-      const value = parseValue(match[2]);
-      return {
-        type: 'update_value',
-        rawText: text,
-        intent: `Update ${match[1]} to ${match[2]}`,
-        parameters: {
-          field: match[1],
-          value,
-        },
-        confidence,
-        timestamp: new Date().toISOString(),
-      };
-    }
-  }
-
-  // Navigation patterns
-  const navPatterns = [
-    /(?:show|go to|open|navigate to) (?:the )?(.+)/i,
-    /take me to (?:the )?(.+)/i,
-  ];
-
-  for (const pattern of navPatterns) {
-    const match = lowerText.match(pattern);
-    if (match) {
-      return {
-        type: 'navigate',
-        rawText: text,
-        intent: `Navigate to ${match[1]}`,
-        parameters: {
-          field: match[1],
-        },
-        confidence,
-        timestamp: new Date().toISOString(),
-      };
-    }
-  }
-
-  // Action patterns
-  const actionPatterns = [
-    /(?:read|tell me|explain|summarize) (?:the )?(.+)/i,
-    /(?:export|download|save) (?:to |as )?(.+)/i,
-  ];
-
-  for (const pattern of actionPatterns) {
-    const match = lowerText.match(pattern);
-    if (match) {
-      return {
-        type: 'action',
-        rawText: text,
-        intent: `Action: ${text}`,
-        parameters: {
-          field: match[1],
-        },
-        confidence,
-        timestamp: new Date().toISOString(),
-      };
-    }
-  }
-
-  // Default to question
-  const isQuestion = lowerText.includes('?') ||
-    lowerText.startsWith('what') ||
-    lowerText.startsWith('how') ||
-    lowerText.startsWith('why') ||
-    lowerText.startsWith('when') ||
-    lowerText.startsWith('where') ||
-    lowerText.startsWith('who') ||
-    lowerText.startsWith('can') ||
-    lowerText.startsWith('could') ||
-    lowerText.startsWith('should') ||
-    lowerText.startsWith('would') ||
-    lowerText.startsWith('is') ||
-    lowerText.startsWith('are');
-
-  return {
-    type: isQuestion ? 'ask_question' : 'unknown',
-    rawText: text,
-    intent: isQuestion ? `Question: ${text}` : text,
-    confidence,
-    timestamp: new Date().toISOString(),
-  };
-}
-
-/**
- * Parse a value from text (number or string)
- */
-function parseValue(text: string): string | number {
-  const cleanText = text.trim();
-
-  // Try to parse as number with units
-  const numMatch = cleanText.match(/^([\d,]+(?:\.\d+)?)\s*(million|billion|thousand|k|m|b)?$/i);
-  if (numMatch) {
-    let num = parseFloat(numMatch[1].replace(/,/g, ''));
-    const unit = (numMatch[2] || '').toLowerCase();
-
-    switch (unit) {
-      case 'billion':
-      case 'b':
-        num *= 1e9;
-        break;
-      case 'million':
-      case 'm':
-        num *= 1e6;
-        break;
-      case 'thousand':
-      case 'k':
-        num *= 1e3;
-        break;
-    }
-
-    return num;
-  }
-
-  // Try to parse percentage
-  const percentMatch = cleanText.match(/^([\d.]+)\s*%$/);
-  if (percentMatch) {
-    return parseFloat(percentMatch[1]) / 100;
-  }
-
-  // Return as string
-  return cleanText;
+  getDrivers?: () => readonly Driver[];  // Drivers that spoken assumption names resolve against
 }
 
 // ============================================================================
@@ -315,7 +149,7 @@ class VoiceService {
 
         if (result.isFinal) {
           finalTranscript += transcript;
-          const command = parseVoiceCommand(transcript, result[0].confidence);
+          const command = parseVoiceCommand(transcript, result[0].confidence, this.callbacks?.getDrivers?.() ?? []);
           this.callbacks?.onCommand(command);
         } else {
           interimTranscript += transcript;
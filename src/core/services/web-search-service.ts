@@ -1,8 +1,11 @@
 /**
  * Web Search Service - Frontend client for web search via Firebase Cloud Functions
  * Provides market research search with domain allowlist and source citations
+ * Served from scripted results while the offline mock AI provider is selected
  */
 
+import { mockAIBackend } from './ai-providers';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -74,17 +77,22 @@ class WebSearchService {
    * Check if web search is enabled
    */
   isSearchEnabled(): boolean {
-    return this.isEnabled;
+    return this.isEnabled || mockAIBackend.isActive();
   }
 
   /**
    * Perform a web search for market research
    */
   async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
-    if (!this.isEnabled) {
+    if (!this.isSearchEnabled()) {
       throw new Error('Web search is not enabled');
     }
 
+    if (mockAIBackend.isActive()) {
+      const results = mockAIBackend.search(query).filter((r) => !options.trustedOnly || r.isTrusted);
+      return { results, query, totalResults: results.length, trustedCount: results.filter((r) => r.isTrusted).length };
+    }
+
     const response = await fetch(API_ENDPOINT, {
       method: 'POST',
       headers: {
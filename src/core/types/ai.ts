@@ -48,12 +48,14 @@ export interface AIBackingFields {
 // ============================================================================
 
 export type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
+export type SuggestionTarget = 'business' | 'market';
 
 /**
  * AI suggestion for a data field change
  */
 export interface AISuggestion {
   readonly id: string;                       // Unique suggestion ID
+  readonly target: SuggestionTarget;         // Which dataset the path points into
   readonly path: string;                     // JSON path (e.g., 'assumptions.pricing.avg_unit_price')
   readonly currentValue: unknown;
   readonly suggestedValue: unknown;
@@ -71,6 +73,18 @@ export interface AISuggestion {
 
 export type ChatRole = 'user' | 'assistant' | 'system';
 
+/**
+ * A local function the assistant invoked while answering, with the exact result it read back
+ */
+export interface ToolCallRecord {
+  readonly id: string;                       // Tool call ID from the model
+  readonly name: string;
+  readonly arguments: Record<string, unknown>;
+  readonly result?: unknown;
+  readonly error?: string;                   // Set when the tool threw or the arguments were invalid
+  readonly durationMs: number;
+}
+
 /**
  * Chat message in the AI conversation
  */
@@ -80,7 +94,45 @@ export interface ChatMessage {
   readonly content: string;
   readonly timestamp: string;
   readonly suggestions?: readonly AISuggestion[];  // Suggestions extracted from this message
+  readonly toolCalls?: readonly ToolCallRecord[];  // Tools invoked while producing this message
   readonly tokenCount?: number;                    // Token usage for this message
+  readonly modelId?: string;                       // Model that produced an assistant message
+}
+
+export type ChatThreadScope = 'business' | 'market' | 'general';
+
+/**
+ * Named, persisted conversation tied to one business case or market analysis
+ */
+export interface ChatThread {
+  readonly id: string;
+  readonly name: string;
+  readonly scope: ChatThreadScope;
+  readonly scopeTitle?: string;               // Title of the business case or market analysis
+  readonly messages: readonly ChatMessage[];
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+// ============================================================================
+// Usage Ledger
+// ============================================================================
+
+export type UsageFeature = 'chat' | 'quick-action' | 'debate' | 'voice';
+
+/**
+ * One billed AI request, priced when it completed
+ */
+export interface UsageEntry {
+  readonly id: string;
+  readonly timestamp: string;
+  readonly feature: UsageFeature;
+  readonly provider: string;
+  readonly model: string;
+  readonly promptTokens: number;
+  readonly completionTokens: number;
+  readonly totalTokens: number;
+  readonly costUsd: number;           // 0 when the model has no price entry
 }
 
 // ============================================================================
@@ -149,6 +201,20 @@ export function generateSuggestionId(): string {
   return `suggestion-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
+/**
+ * Generate a unique ID for chat threads
+ */
+export function generateThreadId(): string {
+  return `thread-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Generate a unique ID for usage ledger entries
+ */
+export function generateUsageId(): string {
+  return `usage-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
 /**
  * Generate a unique ID for chat messages
  */
@@ -222,6 +288,34 @@ export interface DebateArgument {
   readonly sources?: readonly ResearchSource[];
 }
 
+/**
+ * One side's answer to the other side's evidence in a rebuttal round
+ */
+export interface DebateRebuttal {
+  readonly id: string;
+  readonly type: 'bull' | 'bear';
+  readonly round: number;              // 1-based rebuttal round
+  readonly headline: string;
+  readonly reasoning: string;
+  readonly rebuttedEvidence: readonly string[];  // Opposing points this answers
+  readonly evidence: readonly string[];          // New supporting points
+  readonly confidence: number;         // 0-1 confidence score
+}
+
+/**
+ * Judge's scoring of the full transcript and proposed value
+ */
+export interface DebateJudgement {
+  readonly bullScore: number;          // 0-10 argument quality
+  readonly bearScore: number;          // 0-10 argument quality
+  readonly leaning: 'bull' | 'bear' | 'neutral';
+  readonly rationale: string;
+  readonly adjustedValue?: number;     // Proposed value, only for numeric assumptions
+  readonly confidenceBand?: { readonly low: number; readonly high: number };
+  readonly confidence: number;         // 0-1 confidence in the proposal
+  readonly judgedAt: string;
+}
+
 /**
  * Represents a complete debate round for an assumption
  */
@@ -232,6 +326,8 @@ export interface DebateRound {
   readonly currentValue?: unknown;     // Current value of the assumption
   readonly bullCase: DebateArgument;
   readonly bearCase: DebateArgument;
+  readonly rebuttals?: readonly DebateRebuttal[];  // Transcript of rebuttal rounds, in order
+  readonly judgement?: DebateJudgement;  // Cleared when another rebuttal round is added
   readonly createdAt: string;
   readonly userVerdict?: 'bull' | 'bear' | 'neutral';
   readonly userNotes?: string;         // User's reasoning for their choice
@@ -239,26 +335,44 @@ export interface DebateRound {
 }
 
 /**
- * Evidence trail entry - records user decisions from debates
+ * Where a debate decision was made
+ */
+export type DebateSource = 'sidebar' | 'dialog' | 'batch';
+
+/**
+ * Debate verdicts; 'neutral' keeps the current value, 'custom' sets a user-entered one
+ */
+export type DebateVerdict = 'bull' | 'bear' | 'neutral' | 'custom';
+
+/**
+ * Evidence trail entry - one user decision in the debate ledger, from any debate surface
  */
 export interface EvidenceTrailEntry {
   readonly id: string;
-  readonly debateRoundId: string;
-  readonly assumption: string;
+  readonly source: DebateSource;
+  readonly debateRoundId?: string;     // Sidebar debates only
+  readonly assumption: string;         // Label or free-text assumption
+  readonly target?: SuggestionTarget;  // Dataset the path points into, when known
+  readonly assumptionPath?: string;    // Path to the ValueWithRationale node (without `.value`)
+  readonly unit?: string;
   readonly originalValue?: unknown;
   readonly finalValue?: unknown;
-  readonly verdict: 'bull' | 'bear' | 'neutral';
+  readonly verdict: DebateVerdict;
   readonly reasoning: string;          // Why user made this decision
+  readonly bullArguments: readonly string[];
+  readonly bearArguments: readonly string[];
+  readonly researchIds: readonly string[];  // ResearchDocument IDs backing the value
+  readonly rebuttalRounds?: number;    // Rebuttal rounds held before the decision
+  readonly judgement?: DebateJudgement;  // Judge's proposal the user saw when deciding
   readonly timestamp: string;
 }
 
 /**
- * State for the debate feature
+ * State for the debate feature; decisions live in the debate ledger
  */
 export interface DebateState {
   readonly activeDebate: DebateRound | null;
   readonly debateHistory: readonly DebateRound[];
-  readonly evidenceTrail: readonly EvidenceTrailEntry[];
   readonly isGenerating: boolean;
 }
 
@@ -311,7 +425,7 @@ export function createDebateRound(
 }
 
 /**
- * Create an evidence trail entry from a resolved debate
+ * Create an evidence trail entry from a resolved sidebar debate
  */
 export function createEvidenceEntry(
   debateRound: DebateRound,
@@ -319,18 +433,34 @@ export function createEvidenceEntry(
   reasoning: string,
   finalValue?: unknown
 ): EvidenceTrailEntry {
+  const summarize = (argument: DebateArgument) => [argument.headline, ...argument.evidence];
+
   return {
     id: generateEvidenceId(),
+    source: 'sidebar',
     debateRoundId: debateRound.id,
     assumption: debateRound.assumption,
+    assumptionPath: debateRound.assumptionPath?.replace(/\.value$/, ''),
     originalValue: debateRound.currentValue,
     finalValue,
     verdict,
     reasoning,
+    bullArguments: summarize(debateRound.bullCase),
+    bearArguments: summarize(debateRound.bearCase),
+    researchIds: [],
+    rebuttalRounds: countRebuttalRounds(debateRound),
+    judgement: debateRound.judgement,
     timestamp: new Date().toISOString(),
   };
 }
 
+/**
+ * Number of completed rebuttal rounds in a debate
+ */
+export function countRebuttalRounds(debateRound: DebateRound): number {
+  return (debateRound.rebuttals ?? []).reduce((max, rebuttal) => Math.max(max, rebuttal.round), 0);
+}
+
 // ============================================================================
 // Voice Types (Voice Interrogation Mode)
 // ============================================================================
@@ -343,7 +473,56 @@ export type VoiceStatus = 'idle' | 'listening' | 'processing' | 'speaking' | 'er
 /**
  * Types of voice commands that can be recognized
  */
-export type VoiceCommandType = 'what_if' | 'update_value' | 'navigate' | 'action' | 'ask_question' | 'unknown';
+export type VoiceCommandType =
+  | 'what_if'
+  | 'update_value'
+  | 'navigate'
+  | 'action'
+  | 'ask_question'
+  | 'confirm'
+  | 'cancel'
+  | 'unknown';
+
+/**
+ * How a spoken amount was qualified: "20 percent" is relative, "two points" is absolute
+ * in percentage points, and a bare number is in the assumption's own unit
+ */
+export type VoiceAmountUnit = 'percent' | 'points' | 'none';
+
+export interface VoiceAmount {
+  readonly value: number;
+  readonly unit: VoiceAmountUnit;
+}
+
+/**
+ * A change to one assumption as it was spoken
+ * add carries a signed amount; scale covers "halve", "double" and "cut in half"
+ */
+export type VoiceChange =
+  | { readonly kind: 'set'; readonly amount: VoiceAmount }
+  | { readonly kind: 'add'; readonly amount: VoiceAmount }
+  | { readonly kind: 'scale'; readonly factor: number };
+
+/**
+ * Structured result of the voice intent grammar
+ */
+export type VoiceIntent =
+  | {
+      readonly kind: 'adjust';
+      readonly path: string;            // Driver path, e.g. assumptions.customers.churn_pct.value
+      readonly label: string;           // Driver label used when reading back
+      readonly change: VoiceChange;
+      readonly hypothetical: boolean;   // Phrased as "what if ..."
+      readonly matchScore: number;      // 0-1 fuzzy match of the spoken name to the driver
+    }
+  | { readonly kind: 'unresolved'; readonly subject: string; readonly hypothetical: boolean }
+  | { readonly kind: 'what_if'; readonly scenario: string }
+  | { readonly kind: 'navigate'; readonly target: string }
+  | { readonly kind: 'action'; readonly verb: string; readonly subject: string }
+  | { readonly kind: 'ask'; readonly question: string }
+  | { readonly kind: 'confirm' }
+  | { readonly kind: 'cancel' }
+  | { readonly kind: 'unknown' };
 
 /**
  * A parsed voice command from speech recognition
@@ -354,10 +533,27 @@ export interface VoiceCommand {
   readonly rawText: string;             // Original transcribed text
   readonly intent: string;              // Parsed intent description
   readonly parameters?: Record<string, unknown>;  // Extracted parameters
+  readonly resolvedIntent?: VoiceIntent;          // Structured intent from the voice grammar
   readonly confidence: number;          // 0-1 confidence score
   readonly timestamp: string;           // ISO timestamp
 }
 
+/**
+ * An assumption change heard by voice, previewed and waiting for a spoken or clicked confirmation
+ */
+export interface VoicePendingChange {
+  readonly path: string;
+  readonly label: string;
+  readonly unit?: string;
+  readonly isRatio: boolean;            // Stored as a fraction, spoken as a percentage
+  readonly fromValue: number;
+  readonly toValue: number;
+  readonly baselineNpv: number;
+  readonly projectedNpv: number;
+  readonly currency: string;            // Case currency for reading NPV back
+  readonly hypothetical: boolean;
+}
+
 /**
  * Settings for speech synthesis (text-to-speech)
  */
@@ -380,6 +576,7 @@ export interface VoiceState {
   readonly settings: VoiceSettings;
   readonly error: string | null;
   readonly isMuted: boolean;
+  readonly pendingChange: VoicePendingChange | null;
 }
 
 /**
@@ -27,6 +27,7 @@ export interface BusinessMeta {
   readonly currency: CurrencyCode;
   readonly periods: number;
   readonly frequency: FrequencyType;
+  readonly start_date?: string; // ISO date (YYYY-MM-DD) of the first modelled month
 }
 
 // ============================================================================
@@ -49,8 +50,36 @@ export interface PricingAssumptions {
   };
 }
 
+export type LoanAmortisation = 'annuity' | 'straight_line' | 'bullet';
+
+/**
+ * Term loan drawn in full in drawdown_month (1-based, default 1)
+ * Interest accrues monthly on the outstanding balance from the following month.
+ * grace_months are interest-only; the principal is repaid over the rest of term_months.
+ */
+export interface LoanFacility {
+  readonly name: string;
+  readonly principal: ValueWithRationale;
+  readonly interest_rate: ValueWithRationale; // Annual, 0-1 decimal
+  readonly term_months: ValueWithRationale;
+  readonly drawdown_month?: number;
+  readonly grace_months?: number;
+  readonly amortisation: LoanAmortisation;
+}
+
+export interface EquityRound {
+  readonly name: string;
+  readonly amount: ValueWithRationale;
+  readonly month: number; // 1-based model month the cash arrives
+}
+
 export interface FinancialAssumptions {
-  readonly interest_rate?: ValueWithRationale;
+  readonly interest_rate?: ValueWithRationale; // Discount rate for NPV
+  readonly tax_rate?: ValueWithRationale; // Corporate tax on positive EBIT (0-1 decimal), losses carried forward
+  readonly opening_cash?: ValueWithRationale;
+  readonly minimum_cash?: ValueWithRationale; // Runway warning threshold, defaults to 0
+  readonly loans?: readonly LoanFacility[];
+  readonly equity_rounds?: readonly EquityRound[];
 }
 
 export interface UnitEconomicsAssumptions {
@@ -62,11 +91,25 @@ export interface UnitEconomicsAssumptions {
 // Customer Assumptions
 // ============================================================================
 
+/**
+ * Binds a segment's volume to the market analysis
+ * Monthly volume is SOM × the market share penetration curve × allocation, divided by
+ * 12 and by the monthly revenue per unit. The volume series is regenerated whenever
+ * the market analysis changes; removing the link keeps the last generated series.
+ */
+export interface MarketVolumeLink {
+  readonly source: 'market_som';
+  readonly market_segment_id?: string;          // customer_analysis.segments[].id this segment serves
+  readonly allocation?: ValueWithRationale;     // % of the linked market, defaults to the market segment's share or 100
+  readonly value_per_unit?: ValueWithRationale; // Monthly revenue per unit, defaults to avg_unit_price
+}
+
 export interface CustomerSegment {
   readonly id: string;
   readonly label: string;
   readonly rationale: string;
   readonly volume?: VolumeConfiguration;
+  readonly market_link?: MarketVolumeLink;
 }
 
 export interface CustomerAssumptions {
@@ -78,13 +121,29 @@ export interface CustomerAssumptions {
 // Operating Expenses
 // ============================================================================
 
+export type OpexCategory = 'sales_marketing' | 'rd' | 'ga' | 'other';
+
+/**
+ * Salaried role charged to an OpEx line: count × monthly_salary
+ * from start_month until end_month (1-based, inclusive, default open-ended)
+ */
+export interface HeadcountRole {
+  readonly role: string;
+  readonly count: ValueWithRationale;
+  readonly monthly_salary: ValueWithRationale; // Fully loaded cost per person
+  readonly start_month?: number;
+  readonly end_month?: number;
+}
+
 /**
  * OpEx item with support for both fixed and variable costs
  * For backwards compatibility, 'value' represents fixed cost if used alone
  * New format supports fixed + variable components that scale with business growth
+ * Items without a category are classified from their name, falling back to 'other'
  */
 export interface OpexItem {
   readonly name: string;
+  readonly category?: OpexCategory;
   // Legacy format: fixed cost only (backwards compatible)
   readonly value?: ValueWithRationale;
   // New format: detailed cost structure with variable components
@@ -93,6 +152,8 @@ export interface OpexItem {
     readonly variable_revenue_rate?: ValueWithRationale; // % of revenue (0-1 decimal)
     readonly variable_volume_rate?: ValueWithRationale; // Cost per unit/customer
   };
+  // Headcount-driven cost, added to the fixed and variable components
+  readonly headcount?: readonly HeadcountRole[];
 }
 
 // ============================================================================
@@ -105,9 +166,35 @@ export interface CapexTimeline {
   readonly series?: readonly TimeSeriesDataPoint[];
 }
 
+export type DepreciationMethod = 'straight_line' | 'declining_balance' | 'none';
+
+/**
+ * How a capex item is written off through the P&L
+ * Each month's spend is depreciated from the month it is incurred
+ */
+export interface CapexDepreciation {
+  readonly method: DepreciationMethod;
+  readonly useful_life_years?: ValueWithRationale;
+}
+
 export interface CapexItem {
   readonly name: string;
   readonly timeline?: CapexTimeline;
+  readonly depreciation?: CapexDepreciation;
+}
+
+// ============================================================================
+// Working Capital
+// ============================================================================
+
+/**
+ * Cash conversion assumptions, expressed in days of the related monthly flow
+ * Receivables follow revenue; inventory and payables follow COGS
+ */
+export interface WorkingCapitalAssumptions {
+  readonly receivable_days?: ValueWithRationale;
+  readonly payable_days?: ValueWithRationale;
+  readonly inventory_days?: ValueWithRationale;
 }
 
 // ============================================================================
@@ -149,10 +236,27 @@ export interface BusinessAssumptions {
   readonly unit_economics?: UnitEconomicsAssumptions;
   readonly opex?: readonly OpexItem[];
   readonly capex?: readonly CapexItem[];
+  readonly working_capital?: WorkingCapitalAssumptions;
   readonly cost_savings?: CostSavingsAssumptions;
   readonly growth_settings?: GrowthSettings;
 }
 
+// ============================================================================
+// Scenarios
+// ============================================================================
+
+/**
+ * Named what-if case applied on top of the base business data.
+ * Overrides map a JSON path (same notation as Driver.path) to the value
+ * that replaces the base value, e.g. { "assumptions.customers.churn_pct.value": 0.08 }.
+ */
+export interface Scenario {
+  readonly key?: string;
+  readonly name: string;
+  readonly description: string;
+  readonly overrides: Readonly<Record<string, unknown>>;
+}
+
 // ============================================================================
 // Complete Business Data Structure
 // ============================================================================
@@ -162,7 +266,7 @@ export interface BusinessData {
   readonly meta: BusinessMeta;
   readonly assumptions: BusinessAssumptions;
   readonly drivers?: readonly Driver[];
-  readonly scenarios?: readonly any[];
+  readonly scenarios?: readonly Scenario[];
   readonly structure?: any;
 }
 
@@ -170,6 +274,15 @@ export interface BusinessData {
 // Calculation Results
 // ============================================================================
 
+/**
+ * One OpEx item's cost for a month, in assumptions.opex order (negative)
+ */
+export interface OpexLine {
+  readonly name: string;
+  readonly category: OpexCategory;
+  readonly amount: number;
+}
+
 export interface MonthlyData {
   readonly month: number;
   readonly date: Date;
@@ -185,10 +298,25 @@ export interface MonthlyData {
   readonly cac: number;
   readonly rd: number;
   readonly ga: number;
+  readonly otherOpex: number;
+  readonly opexLines: readonly OpexLine[];
   readonly totalOpex: number;
   readonly ebitda: number;
+  readonly depreciation: number;
+  readonly ebit: number;
+  readonly tax: number;
+  readonly netIncome: number;
   readonly capex: number;
+  readonly workingCapital: number;
+  readonly changeInWorkingCapital: number;
   readonly netCashFlow: number;
+  readonly interestExpense: number;
+  readonly debtDrawdown: number;
+  readonly debtRepayment: number;
+  readonly equityInjection: number;
+  readonly financingCashFlow: number;
+  readonly debtBalance: number;
+  readonly cashBalance: number;
   // Cost savings specific fields
   readonly baselineCosts?: number;
   readonly costSavings?: number;
@@ -214,3 +342,7 @@ export interface CalculatedMetrics {
 export function isValidBusinessModel(model: string): model is BusinessModelType {
   return ['recurring', 'unit_sales', 'cost_savings'].includes(model);
 }
+
+export function isValidOpexCategory(category: string): category is OpexCategory {
+  return ['sales_marketing', 'rd', 'ga', 'other'].includes(category);
+}
@@ -109,6 +109,21 @@ export interface GrowthSettings {
 // Sensitivity Analysis
 // ============================================================================
 
+export type DistributionType = 'uniform' | 'triangular' | 'normal';
+
+/**
+ * How Monte Carlo simulation samples a driver between its range bounds
+ * Triangular peaks at mode and normal centres on mean; both default to the
+ * current value at the driver path. std_dev defaults to a quarter of the range,
+ * and normal samples are truncated to the range.
+ */
+export interface DriverDistribution {
+  readonly type: DistributionType;
+  readonly mode?: number;
+  readonly mean?: number;
+  readonly std_dev?: number;
+}
+
 /**
  * Driver for sensitivity analysis
  * Defines which assumption to vary and by how much
@@ -120,16 +135,25 @@ export interface Driver {
   readonly range: readonly [number, number]; // Min and max values
   readonly rationale: string;
   readonly unit?: string;
+  readonly distribution?: DriverDistribution; // Monte Carlo sampling, uniform when omitted
 }
 
 // ============================================================================
 // Type Guards
 // ============================================================================
 
+export function isValidDistributionType(type: string): type is DistributionType {
+  return ['uniform', 'triangular', 'normal'].includes(type);
+}
+
 export function isValidCurrency(currency: string): currency is CurrencyCode {
   return ['EUR', 'USD', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'SEK', 'NOK', 'DKK'].includes(currency);
 }
 
+export function isValidFrequency(frequency: string): frequency is FrequencyType {
+  return ['monthly', 'quarterly', 'annually'].includes(frequency);
+}
+
 export function isPositiveNumber(value: number): value is PositiveNumber {
   return typeof value === 'number' && value > 0 && !isNaN(value) && isFinite(value);
 }
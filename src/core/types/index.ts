@@ -46,6 +46,12 @@ export type {
   ResearchDocument,
   ResearchSource,
   AISuggestion,
+  SuggestionTarget,
   ChatMessage,
+  ToolCallRecord,
+  ChatThread,
+  ChatThreadScope,
+  UsageFeature,
+  UsageEntry,
   AIState,
 } from './ai';
@@ -48,10 +48,33 @@ export interface ServiceableObtainableMarket {
   readonly time_constraints: string;
 }
 
+// Which estimate feeds SOM: the TAM × SAM% × SOM% funnel, the bottom-up build or a weighted blend
+export type MarketSizingMethod = 'top_down' | 'bottom_up' | 'blended';
+
+export interface BottomUpSizingLine {
+  readonly id: string;
+  readonly label: string;                      // Segment or region the line covers
+  readonly target_accounts: ValueWithRationale;
+  readonly adoption_rate: ValueWithRationale;  // % of target accounts expected to buy
+  readonly annual_spend: ValueWithRationale;   // Per adopting account, in the market currency
+}
+
+/**
+ * Bottom-up estimate of the obtainable market in the base year
+ * Each line contributes accounts × adoption × annual spend; the total grows with the TAM growth rate
+ */
+export interface BottomUpSizing {
+  readonly lines: readonly BottomUpSizingLine[];
+  readonly selected_method?: MarketSizingMethod;  // Defaults to top_down
+  readonly blend_weight?: number;                 // % weight of the bottom-up figure when blended, defaults to 50
+  readonly divergence_threshold?: number;         // % gap between the estimates that gets flagged, defaults to 25
+}
+
 export interface MarketSizing {
   readonly total_addressable_market?: TotalAddressableMarket;
   readonly serviceable_addressable_market?: ServiceableAddressableMarket;
   readonly serviceable_obtainable_market?: ServiceableObtainableMarket;
+  readonly bottom_up?: BottomUpSizing;
 }
 
 // ============================================================================
@@ -174,11 +197,31 @@ export interface CustomerValue {
   readonly calculation_basis: string;
 }
 
+/**
+ * Segment as written by the market analysis template in customer_analysis.market_segments
+ * Sized either as a share of TAM or as an absolute value
+ */
+export interface MarketSegmentProfile {
+  readonly id: string;
+  readonly name: string;
+  readonly size_percentage?: ValueWithRationale;
+  readonly size_value?: ValueWithRationale;
+  readonly growth_rate?: ValueWithRationale;
+  readonly target_share?: ValueWithRationale;
+  readonly demographics?: string;
+  readonly pain_points?: string | readonly string[];
+  readonly customer_profile?: string;
+  readonly value_drivers?: readonly string[];
+  readonly entry_strategy?: string;
+}
+
 export interface CustomerAnalysis {
   readonly segments?: readonly CustomerSegmentInfo[];
+  readonly market_segments?: readonly MarketSegmentProfile[];  // Template format, used when segments is empty
   readonly avg_customer_value?: CustomerValue;
   readonly acquisition_strategy?: string;
   readonly retention_strategy?: string;
+  readonly data_sources?: readonly string[];
 }
 
 // ============================================================================
@@ -214,16 +257,58 @@ export interface MarketTrendsDrivers {
 // Risk Assessment
 // ============================================================================
 
+export type RiskRating = 'high' | 'medium' | 'low';
+
+export type MitigationStatus = 'not_started' | 'in_progress' | 'implemented';
+
+/**
+ * Ties a market item (risk, entry option) to a business case assumption so it can be run as a scenario
+ */
+export interface DriverBinding {
+  readonly path: string;        // Business case value path, e.g. assumptions.customers.churn_pct.value
+  readonly change_pct: number;  // Relative change applied to the base value, e.g. -20 for a 20% drop
+  readonly label?: string;
+}
+
 export interface MarketRisk {
+  readonly id?: string;
   readonly risk: string;
-  readonly probability: 'high' | 'medium' | 'low';
-  readonly impact: 'high' | 'medium' | 'low';
+  readonly probability: RiskRating;
+  readonly impact: RiskRating;
   readonly mitigation_strategy: string;
+  readonly mitigation_status?: MitigationStatus;      // Defaults to not_started
+  readonly mitigation_effectiveness?: number;         // % of the score removed once implemented, defaults to 50
+  readonly driver_bindings?: readonly DriverBinding[];
 }
 
 export interface RiskAssessment {
   readonly risks?: readonly MarketRisk[];
-  readonly overall_risk_level?: 'high' | 'medium' | 'low';
+  readonly overall_risk_level?: RiskRating;
+}
+
+// ============================================================================
+// Strategic Planning
+// ============================================================================
+
+export interface MarketEntryStrategy {
+  readonly id?: string;
+  readonly name: string;
+  readonly type?: string;                             // partnership, direct, platform, gradual, ...
+  readonly essence: string;
+  readonly rationale: string;
+  readonly investment_required?: ValueWithRationale;
+  readonly expected_return?: ValueWithRationale;
+  readonly time_to_market?: ValueWithRationale;       // Months
+  readonly probability?: ValueWithRationale;          // Percentage chance of success
+  readonly risk_level?: RiskRating;
+  readonly strategic_fit?: number;                    // 0-100
+  readonly driver_bindings?: readonly DriverBinding[];
+  readonly scenario_key?: string;                     // Linked business case scenario
+}
+
+export interface StrategicPlanning {
+  readonly market_entry_strategies?: readonly MarketEntryStrategy[];
+  readonly data_sources?: readonly string[];
 }
 
 // ============================================================================
@@ -267,6 +352,7 @@ export interface MarketData {
   readonly customer_analysis?: CustomerAnalysis;
   readonly market_trends?: MarketTrendsDrivers;
   readonly risk_assessment?: RiskAssessment;
+  readonly strategic_planning?: StrategicPlanning;
   readonly go_to_market?: GoToMarketStrategy;
 }
 
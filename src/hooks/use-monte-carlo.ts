@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { BusinessData } from "@/core/types"
+import {
+  runMonteCarloSimulation,
+  MonteCarloOptions,
+  MonteCarloResult,
+  MonteCarloWorkerRequest,
+  MonteCarloWorkerResponse,
+} from "@/core/engine"
+
+/**
+ * Runs Monte Carlo simulations in a web worker so the UI stays responsive
+ * Starting a new run or unmounting terminates any run in progress. Where workers
+ * are unavailable (e.g. tests) the simulation runs on the main thread instead.
+ */
+export function useMonteCarloSimulation() {
+  const [result, setResult] = useState<MonteCarloResult | null>(null)
+  const [progress, setProgress] = useState(0)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setIsRunning(false)
+  }, [])
+
+  useEffect(() => cancel, [cancel])
+
+  const run = useCallback((businessData: BusinessData, options: MonteCarloOptions = {}) => {
+    cancel()
+    setIsRunning(true)
+    setProgress(0)
+    setError(null)
+
+    if (typeof Worker === "undefined") {
+      try {
+        setResult(runMonteCarloSimulation(businessData, options))
+        setProgress(1)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Simulation failed")
+      }
+      setIsRunning(false)
+      return
+    }
+
+    const worker = new Worker(new URL("../core/engine/workers/monte-carlo.worker.ts", import.meta.url), {
+      type: "module",
+    })
+    workerRef.current = worker
+
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerResponse>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        setProgress(message.completed / message.total)
+        return
+      }
+
+      if (message.type === "result") {
+        setResult(message.result)
+        setProgress(1)
+      } else {
+        setError(message.message)
+      }
+      worker.terminate()
+      workerRef.current = null
+      setIsRunning(false)
+    }
+
+    worker.onerror = (event) => {
+      setError(event.message || "Simulation worker failed")
+      worker.terminate()
+      workerRef.current = null
+      setIsRunning(false)
+    }
+
+    const request: MonteCarloWorkerRequest = { type: "run", businessData, options }
+    worker.postMessage(request)
+  }, [cancel])
+
+  return { result, progress, isRunning, error, run, cancel }
+}
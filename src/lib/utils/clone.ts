@@ -92,8 +92,10 @@ export function selectiveDeepClone<T>(obj: T, pathsToClone: string[]): T {
     for (let i = 0; i < pathParts.length - 1; i++) {
       const part = pathParts[i];
       if (original[part] && typeof original[part] === 'object') {
-        if (!current[part]) {
-          current[part] = Array.isArray(original[part]) ? [] : {};
+        // The shallow copy above still shares nested objects with the original,
+        // so copy each level on the way down before it gets written to
+        if (!current[part] || current[part] === original[part]) {
+          current[part] = shallowClone(original[part]);
         }
         current = current[part];
         original = original[part];
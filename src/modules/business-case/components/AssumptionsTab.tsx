@@ -4,11 +4,13 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { TrendingUp, TrendingDown, DollarSign, Users, Settings, Info, Calculator, Target, Clock, Zap, BarChart3, Scale } from 'lucide-react';
-import { useBusinessData } from '@/core/contexts';
+import { TrendingUp, TrendingDown, DollarSign, Users, Settings, Info, Calculator, Target, Clock, Zap, BarChart3, Scale, ListChecks, Link2, Unlink } from 'lucide-react';
+import { useBusinessData, useMarketData } from '@/core/contexts';
+import { isLinkedVolumeGenerated } from '@/core/services/data-sync.service';
+import { getModelStartDate, getModelFrequency, getNestedValue } from '@/core/engine';
 import { EditableValueCell, EditableRationaleCell } from '@/components/common';
 import { SensitivityDriverBadge } from './SensitivityDriverBadge';
-import { AssumptionDebateDialog, EvidenceTrailPanel } from '@/components/features/AssumptionDebate';
+import { AssumptionDebateDialog, BatchReviewDialog, EvidenceTrailPanel } from '@/components/features/AssumptionDebate';
 
 interface SensitivityDriver {
   key: string;
@@ -31,10 +33,21 @@ interface AssumptionRow {
   color?: string;
   sensitivityDriver?: SensitivityDriver;
   dataPath?: string;
+  segmentIndex?: number;   // Set on segment base volume rows, which can be linked to the market
+  marketLinked?: boolean;  // Volume is generated from the market analysis and not editable here
+  marketLinkRequested?: boolean;  // Segment has a market link, generated or still waiting for market data
 }
 
+// meta.periods counts reporting periods at meta.frequency
+const PERIOD_UNITS = {
+  monthly: 'months',
+  quarterly: 'quarters',
+  annually: 'years',
+} as const;
+
 export function AssumptionsTab() {
   const { data, updateAssumption, addDriver, removeDriver, updateDriverRange } = useBusinessData();
+  const { data: marketData } = useMarketData();
   const [hoveredCell, setHoveredCell] = useState<string | null>(null);
   const [changedValuePaths, setChangedValuePaths] = useState<Set<string>>(new Set());
 
@@ -47,12 +60,15 @@ export function AssumptionsTab() {
     rationale: string;
     category: string;
     dataPath?: string;
+    researchIds?: readonly string[];
   } | null>(null);
   const [showEvidenceTrail, setShowEvidenceTrail] = useState(false);
+  const [batchReviewOpen, setBatchReviewOpen] = useState(false);
 
   // Handle opening debate dialog for an assumption
   const handleChallenge = (row: AssumptionRow) => {
     if (row.value === undefined || !row.dataPath) return;
+    const node = getNestedValue(data, row.dataPath.replace(/\.value$/, ''));
     setDebateAssumption({
       label: row.label.trim(),
       value: row.value,
@@ -60,6 +76,7 @@ export function AssumptionsTab() {
       rationale: row.rationale || '',
       category: row.category,
       dataPath: row.dataPath,
+      researchIds: node?.researchIds,
     });
     setDebateOpen(true);
   };
@@ -74,6 +91,12 @@ export function AssumptionsTab() {
     }
   };
 
+  // Handle a changed value from the batch review sign-off
+  const handleBatchValueUpdate = (path: string, newValue: number | string, reasoning: string) => {
+    updateAssumption(`${path}.value`, newValue);
+    updateAssumption(`${path}.rationale`, reasoning);
+  };
+
   if (!data) {
     return (
       <Card className="bg-gradient-card shadow-card">
@@ -127,6 +150,12 @@ export function AssumptionsTab() {
     setChangedValuePaths(prev => new Set(prev).add(valuePath));
   };
 
+  // Link a segment's volume to the market analysis, or unlink it and keep the last generated series
+  const handleToggleMarketLink = (row: AssumptionRow) => {
+    const linkPath = `assumptions.customers.segments[${row.segmentIndex}].market_link`;
+    updateAssumption(linkPath, row.marketLinkRequested ? undefined : { source: 'market_som' });
+  };
+
   // Handle rationale updates
   const handleRationaleUpdate = (path: string, value: string) => {
     updateAssumption(path, value);
@@ -233,10 +262,26 @@ export function AssumptionsTab() {
         if (field === 'variable_revenue_rate') return `assumptions.opex[${index}].cost_structure.variable_revenue_rate.value`;
         if (field === 'variable_volume_rate') return `assumptions.opex[${index}].cost_structure.variable_volume_rate.value`;
         break;
+      case 'headcount':
+        // field is the role index within the OpEx item
+        return `assumptions.opex[${index}].headcount[${field}].monthly_salary.value`;
       case 'capex':
         return `assumptions.capex[${index}].timeline.series[0].value`;
       case 'financial':
         if (field === 'interest_rate') return 'assumptions.financial.interest_rate.value';
+        if (field === 'opening_cash' || field === 'minimum_cash') return `assumptions.financial.${field}.value`;
+        break;
+      case 'loan':
+        if (field === 'principal' || field === 'interest_rate' || field === 'term_months') {
+          return `assumptions.financial.loans[${index}].${field}.value`;
+        }
+        break;
+      case 'equity':
+        return `assumptions.financial.equity_rounds[${index}].amount.value`;
+      case 'working_capital':
+        if (field === 'receivable_days' || field === 'payable_days' || field === 'inventory_days') {
+          return `assumptions.working_capital.${field}.value`;
+        }
         break;
       case 'segment':
         // Segment volume fields
@@ -370,6 +415,23 @@ export function AssumptionsTab() {
         data.assumptions.customers.segments.forEach((segment, index) => {
           // Cast segment to any to handle the actual data structure vs typed interface mismatch
           const segmentAny = segment as any;
+
+          // Market-linked volume follows SOM × market share and is regenerated on every market change
+          if (isLinkedVolumeGenerated(segment)) {
+            const firstPeriod = segment.volume?.series?.[0];
+            rows.push({
+              label: `  ${segment.label} - Base Volume`,
+              value: firstPeriod?.value ?? 0,
+              unit: firstPeriod?.unit || 'units_per_month',
+              rationale: firstPeriod?.rationale || 'Linked from market analysis',
+              category: 'volume',
+              isSubItem: true,
+              segmentIndex: index,
+              marketLinked: true,
+              marketLinkRequested: true
+            });
+            return;
+          }
           
           // Handle pattern-based volume data (new format)
           if (segmentAny.volume?.type === 'pattern') {
@@ -404,7 +466,9 @@ export function AssumptionsTab() {
                 category: 'volume',
                 isSubItem: true,
                 sensitivityDriver: baseVolumeDriver,
-                dataPath: baseVolumePath
+                dataPath: baseVolumePath,
+                segmentIndex: index,
+                marketLinkRequested: !!segment.market_link
               });
             }
             
@@ -507,7 +571,9 @@ export function AssumptionsTab() {
               category: 'volume',
               isSubItem: true,
               sensitivityDriver: baseVolumeDriver,
-              dataPath: baseVolumePath
+              dataPath: baseVolumePath,
+              segmentIndex: index,
+              marketLinkRequested: !!segment.market_link
             });
           
             // Show growth rate based on pattern type
@@ -726,7 +792,30 @@ export function AssumptionsTab() {
             sensitivityDriver: opexDriver,
             dataPath: opexPath
           });
+        } else if (opex.headcount?.length) {
+          rows.push({
+            label: `  ${opex.name}`,
+            category: 'opex',
+            isSubItem: false,
+          });
         }
+
+        // Headcount roles charged to this item
+        opex.headcount?.forEach((role, roleIndex) => {
+          const salaryPath = generateDataPath('headcount', index, String(roleIndex));
+          const period = role.end_month ? `M${role.start_month || 1}–M${role.end_month}` : `from M${role.start_month || 1}`;
+
+          rows.push({
+            label: `    ${opex.name} - ${role.role} (${role.count.value} × salary, ${period})`,
+            value: role.monthly_salary.value,
+            unit: role.monthly_salary.unit,
+            rationale: role.monthly_salary.rationale,
+            category: 'opex',
+            isSubItem: true,
+            sensitivityDriver: findSensitivityDriver(salaryPath),
+            dataPath: salaryPath
+          });
+        });
       });
     }
 
@@ -784,6 +873,79 @@ export function AssumptionsTab() {
       });
     }
 
+    const financial = data.assumptions?.financial;
+    [
+      { field: 'opening_cash', label: '  Opening Cash' },
+      { field: 'minimum_cash', label: '  Minimum Cash Balance' },
+    ].forEach(({ field, label }) => {
+      const input = financial?.[field as 'opening_cash' | 'minimum_cash'];
+      if (!input) return;
+
+      const cashPath = generateDataPath('financial', undefined, field);
+      rows.push({
+        label,
+        value: input.value,
+        unit: input.unit,
+        rationale: input.rationale,
+        category: 'financial',
+        isSubItem: true,
+        sensitivityDriver: findSensitivityDriver(cashPath),
+        dataPath: cashPath
+      });
+    });
+
+    financial?.loans?.forEach((loan, index) => {
+      const loanPath = generateDataPath('loan', index, 'principal');
+      rows.push({
+        label: `  ${loan.name}`,
+        value: loan.principal.value,
+        unit: loan.principal.unit,
+        rationale: `${loan.principal.rationale} (${(loan.interest_rate.value * 100).toFixed(1)}% over ${loan.term_months.value} months, ${loan.amortisation.replace('_', ' ')})`,
+        category: 'financial',
+        isSubItem: true,
+        sensitivityDriver: findSensitivityDriver(loanPath),
+        dataPath: loanPath
+      });
+    });
+
+    financial?.equity_rounds?.forEach((round, index) => {
+      const equityPath = generateDataPath('equity', index);
+      rows.push({
+        label: `  ${round.name} (M${round.month})`,
+        value: round.amount.value,
+        unit: round.amount.unit,
+        rationale: round.amount.rationale,
+        category: 'financial',
+        isSubItem: true,
+        sensitivityDriver: findSensitivityDriver(equityPath),
+        dataPath: equityPath
+      });
+    });
+
+    const workingCapital = data.assumptions?.working_capital;
+    if (workingCapital) {
+      [
+        { field: 'receivable_days', label: '  Receivable Days (DSO)' },
+        { field: 'inventory_days', label: '  Inventory Days' },
+        { field: 'payable_days', label: '  Payable Days (DPO)' },
+      ].forEach(({ field, label }) => {
+        const input = workingCapital[field as keyof typeof workingCapital];
+        if (!input) return;
+
+        const workingCapitalPath = generateDataPath('working_capital', undefined, field);
+        rows.push({
+          label,
+          value: input.value,
+          unit: input.unit,
+          rationale: input.rationale,
+          category: 'financial',
+          isSubItem: true,
+          sensitivityDriver: findSensitivityDriver(workingCapitalPath),
+          dataPath: workingCapitalPath
+        });
+      });
+    }
+
     if (data.meta?.periods) {
       const periodsPath = generateDataPath('meta', undefined, 'periods');
       const periodsDriver = findSensitivityDriver(periodsPath);
@@ -791,8 +953,8 @@ export function AssumptionsTab() {
       rows.push({
         label: '  Analysis Period',
         value: data.meta.periods,
-        unit: 'months',
-        rationale: `Business case analysis covers ${data.meta.periods} months`,
+        unit: PERIOD_UNITS[getModelFrequency(data)],
+        rationale: `Business case analysis covers ${data.meta.periods} ${PERIOD_UNITS[getModelFrequency(data)]}`,
         category: 'financial',
         isSubItem: true,
         sensitivityDriver: periodsDriver,
@@ -800,6 +962,21 @@ export function AssumptionsTab() {
       });
     }
 
+    if (data.meta?.start_date) {
+      const startDatePath = generateDataPath('meta', undefined, 'start_date');
+
+      rows.push({
+        label: '  Model Start',
+        value: data.meta.start_date,
+        unit: 'date',
+        rationale: `First projected month is ${getModelStartDate(data).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}`,
+        category: 'financial',
+        isSubItem: true,
+        sensitivityDriver: findSensitivityDriver(startDatePath),
+        dataPath: startDatePath
+      });
+    }
+
     if (data.meta?.frequency) {
       const frequencyPath = generateDataPath('meta', undefined, 'frequency');
       const frequencyDriver = findSensitivityDriver(frequencyPath);
@@ -941,6 +1118,29 @@ export function AssumptionsTab() {
                             <td className="px-4 py-3 font-medium text-sm">
                               <div className="flex items-center space-x-2">
                                 <span className="text-sm">{row.label}</span>
+                                {row.marketLinked && (
+                                  <Badge variant="secondary" className="text-xs gap-1">
+                                    <Link2 className="h-3 w-3" />
+                                    Linked from market
+                                  </Badge>
+                                )}
+                                {row.segmentIndex !== undefined && (marketData || row.marketLinkRequested) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleToggleMarketLink(row);
+                                    }}
+                                    className="h-6 px-2 text-xs"
+                                  >
+                                    {row.marketLinkRequested ? (
+                                      <><Unlink className="h-3 w-3 mr-1" />Unlink</>
+                                    ) : (
+                                      <><Link2 className="h-3 w-3 mr-1" />Link to market</>
+                                    )}
+                                  </Button>
+                                )}
                               </div>
                             </td>
                             <td className="px-4 py-3 text-center">
@@ -1064,7 +1264,7 @@ export function AssumptionsTab() {
             <div className="text-center">
               <p className="text-sm text-white/80 mb-1">Analysis Period</p>
               <p className="text-2xl font-bold text-white">
-                {data.meta?.periods} months
+                {data.meta?.periods} {PERIOD_UNITS[getModelFrequency(data)]}
               </p>
             </div>
           </CardContent>
@@ -1083,7 +1283,16 @@ export function AssumptionsTab() {
       </div>
 
       {/* Evidence Trail Toggle */}
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setBatchReviewOpen(true)}
+          className="gap-2"
+        >
+          <ListChecks className="h-4 w-4" />
+          Review AI Assumptions
+        </Button>
         <Button
           variant="outline"
           size="sm"
@@ -1105,6 +1314,18 @@ export function AssumptionsTab() {
         assumption={debateAssumption}
         onValueUpdate={handleDebateValueUpdate}
       />
+
+      {/* Batch Review Dialog (mounted while open so each review starts from the current data) */}
+      {batchReviewOpen && (
+        <BatchReviewDialog
+          open
+          onOpenChange={setBatchReviewOpen}
+          target="business"
+          data={data}
+          title={data.meta?.title || 'Business case'}
+          onApply={handleBatchValueUpdate}
+        />
+      )}
     </div>
   );
 }
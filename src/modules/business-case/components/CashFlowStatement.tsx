@@ -7,13 +7,41 @@ import { Input } from '@/components/ui/input';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, TrendingDown, DollarSign, Calendar, Target, AlertTriangle, BarChart3, PieChart as PieChartIcon, Search } from 'lucide-react';
 import { useBusinessData } from '@/core/contexts';
-import { BusinessData, EvidenceContext } from '@/core/types';
+import { BusinessData, EvidenceContext, FrequencyType, MonthlyData, OpexCategory } from '@/core/types';
 import { useToast } from '@/hooks/use-toast';
-import { calculateBusinessMetrics, formatCurrency } from '@/core/engine';
+import { calculateBusinessMetrics, formatCompactCurrency, aggregateMonthlyData, getModelFrequency, getModelStartDate, PeriodData, DEFAULT_USEFUL_LIFE_YEARS, OPEX_CATEGORY_LABELS, getOpexCategory, calculateHeadcountCostForMonth } from '@/core/engine';
 import { setNestedValue } from '@/core/engine';
 import { SensitivityAnalysis } from './SensitivityAnalysis';
 import { EvidenceTrailPanel } from './EvidenceTrailPanel';
 
+interface StatementRow {
+  label: string;
+  key: string;
+  category: string;
+  isTotal?: boolean;
+  isSubtotal?: boolean;
+  isSubItem?: boolean;
+  unit?: string;
+  sign?: number; // Flips the field for bridge rows such as depreciation add-backs
+  cumulative?: boolean;
+  lineIndex?: number; // Index into MonthlyData.opexLines for OpEx item rows
+  evidenceKey?: string; // Evidence trail to open when it differs from key
+}
+
+// Category subtotal rows, in statement order, and the MonthlyData field each one reads
+const OPEX_CATEGORY_ROWS: { category: OpexCategory; key: keyof MonthlyData }[] = [
+  { category: 'sales_marketing', key: 'salesMarketing' },
+  { category: 'rd', key: 'rd' },
+  { category: 'ga', key: 'ga' },
+  { category: 'other', key: 'otherOpex' },
+];
+
+const FREQUENCY_VIEWS: { value: FrequencyType; label: string }[] = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'annually', label: 'Annual' },
+];
+
 export function CashFlowStatement() {
   const { data: businessData, updateData } = useBusinessData();
   const { toast } = useToast();
@@ -22,6 +50,7 @@ export function CashFlowStatement() {
   const baselineRef = useRef(businessData);
   const [evidenceContext, setEvidenceContext] = useState<EvidenceContext | null>(null);
   const [isEvidencePanelOpen, setIsEvidencePanelOpen] = useState(false);
+  const [viewFrequency, setViewFrequency] = useState<FrequencyType | null>(null);
 
   // Get drivers before early return
   const drivers = businessData?.drivers || [];
@@ -59,8 +88,12 @@ export function CashFlowStatement() {
   
   // Use centralized calculation engine
   const calculatedMetrics = calculateBusinessMetrics(businessData);
-  const monthlyData = calculatedMetrics.monthlyData;
+  const monthlyData = [...calculatedMetrics.monthlyData]; // Recharts expects a mutable array
   const currency = businessData.meta?.currency || 'EUR';
+
+  // Statement columns follow meta.frequency unless the user picks another roll-up
+  const frequency = viewFrequency || getModelFrequency(businessData);
+  const periodData = aggregateMonthlyData(monthlyData, frequency, getModelStartDate(businessData), businessData.meta?.business_model);
   
   // Handle driver changes with immediate updates
   const handleDriverChange = (driverKey: string, value: number) => {
@@ -111,6 +144,12 @@ export function CashFlowStatement() {
     });
   };
 
+  const formatPeriodRange = (period: PeriodData) => {
+    if (period.monthsInPeriod === 1) return formatMonth(period.date);
+    const lastMonth = monthlyData[period.endMonth - 1];
+    return `${formatMonth(period.date)} – ${formatMonth(lastMonth.date)}`;
+  };
+
   const getValueColor = (value: number, rowKey?: string) => {
     // Baseline costs should always be grey (they represent current state, not gains/losses)
     if (rowKey === 'baselineCosts') return 'text-muted-foreground';
@@ -124,7 +163,30 @@ export function CashFlowStatement() {
   const isRecurringModel = businessData?.meta?.business_model === 'recurring';
   const isCostSavingsModel = businessData?.meta?.business_model === 'cost_savings';
 
-  const allRows = [
+  // Every OpEx item is listed under its category; CAC sits with sales & marketing
+  const opexItems = businessData.assumptions?.opex || [];
+  const opexRows: StatementRow[] = OPEX_CATEGORY_ROWS.flatMap(({ category, key }) => [
+    { label: OPEX_CATEGORY_LABELS[category], key, category: 'opex' },
+    ...(category === 'sales_marketing' ? [{
+      label: isRecurringModel ? '  CAC (New Customers Only)' : '  CAC',
+      key: 'totalCAC',
+      isSubItem: true,
+      category: 'costs'
+    }] : []),
+    ...opexItems
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => getOpexCategory(item) === category)
+      .map(({ item, index }) => ({
+        label: `  ${item.name}`,
+        key: `opexLine${index}`,
+        lineIndex: index,
+        evidenceKey: 'totalOpex',
+        isSubItem: true,
+        category: 'opex'
+      })),
+  ]);
+
+  const allRows: StatementRow[] = [
     { label: isCostSavingsModel ? 'Total Benefits' : 'Revenue', key: 'revenue', isTotal: true, category: 'revenue' },
     ...(isCostSavingsModel ? [
       { label: '  Baseline Costs', key: 'baselineCosts', isSubItem: true, category: 'volume', unit: 'currency' },
@@ -143,47 +205,63 @@ export function CashFlowStatement() {
     ]),
     { label: isCostSavingsModel ? 'Net Benefits' : 'Gross Profit', key: 'grossProfit', isSubtotal: true, category: 'profit' },
     { label: '', key: 'spacer1', category: 'spacer' },
-    { label: 'Sales & Marketing', key: 'salesMarketing', category: 'opex' },
-    { 
-      label: isRecurringModel ? 'CAC (New Customers Only)' : 'CAC', 
-      key: 'totalCAC', 
-      isSubItem: true, 
-      category: 'costs' 
-    },
-    { label: 'Research & Development', key: 'rd', category: 'opex' },
-    { label: 'General & Administrative', key: 'ga', category: 'opex' },
+    ...opexRows,
     { label: 'Total Operating Expenses', key: 'totalOpex', isSubtotal: true, category: 'opex' },
     { label: '', key: 'spacer2', category: 'spacer' },
     { label: 'EBITDA', key: 'ebitda', isTotal: true, category: 'profit' },
+    { label: 'Depreciation', key: 'depreciation', category: 'costs' },
+    { label: 'EBIT', key: 'ebit', isSubtotal: true, category: 'profit' },
+    { label: 'Interest Expense', key: 'interestExpense', category: 'costs' },
+    { label: 'Corporate Tax', key: 'tax', category: 'costs' },
+    { label: 'Net Income', key: 'netIncome', isTotal: true, category: 'profit' },
+    { label: '', key: 'spacer4', category: 'spacer' },
+    // P&L-to-cash bridge: depreciation is non-cash, so it is added back before capex
+    { label: '  Add back: Depreciation', key: 'depreciation', isSubItem: true, category: 'capex', sign: -1 },
+    { label: '  Add back: Interest', key: 'interestExpense', isSubItem: true, category: 'capex', sign: -1 },
     { label: 'CAPEX', key: 'capex', category: 'capex' },
+    { label: 'Change in Working Capital', key: 'changeInWorkingCapital', category: 'capex' },
     { label: '', key: 'spacer3', category: 'spacer' },
     { label: isCostSavingsModel ? 'Cumulative Benefit' : 'Net Cash Flow', key: 'netCashFlow', isTotal: true, category: 'cash', cumulative: isCostSavingsModel },
+    { label: '', key: 'spacer5', category: 'spacer' },
+    { label: 'Debt Drawdown', key: 'debtDrawdown', category: 'financing' },
+    { label: 'Debt Repayment', key: 'debtRepayment', category: 'financing' },
+    { label: 'Interest Paid', key: 'interestExpense', category: 'financing' },
+    { label: 'Equity Injection', key: 'equityInjection', category: 'financing' },
+    { label: 'Financing Cash Flow', key: 'financingCashFlow', isSubtotal: true, category: 'financing' },
+    { label: 'Cash Balance', key: 'cashBalance', isTotal: true, category: 'cash' },
+    { label: '  Debt Outstanding', key: 'debtBalance', isSubItem: true, category: 'financing' },
   ];
 
+  // OpEx item rows read their own line; every other row reads the MonthlyData field named by its key
+  const getRowValue = (row: StatementRow, month: MonthlyData) => {
+    if (row.lineIndex !== undefined) return month.opexLines?.[row.lineIndex]?.amount;
+    return month[row.key as keyof typeof month] as number;
+  };
+
   // Filter out rows that have no data across all months
-  const shouldShowRow = (row: any) => {
+  const shouldShowRow = (row: StatementRow) => {
     if (row.category === 'spacer') return true; // Always show spacers
     
     // Check if any month has non-zero data for this row
     return monthlyData.some(month => {
-      const value = month[row.key as keyof typeof month] as number;
+      const value = getRowValue(row, month);
       return typeof value === 'number' && Math.abs(value) > 0.01;
     });
   };
 
   const rows = allRows.filter(shouldShowRow);
 
-  const getAssumptions = (rowKey: string, month: number) => {
+  const getAssumptions = (rowKey: string, currentMonth: PeriodData) => {
     if (!businessData.assumptions) return null;
     
-    const currentMonth = monthlyData[month - 1];
+    const month = currentMonth.month;
     
     const assumptions = {
       revenue: {
         formula: isCostSavingsModel ? `Cost Savings + Efficiency Gains` : `Sales Volume × Unit Price`,
         components: isCostSavingsModel 
-          ? `${formatCurrency(currentMonth?.costSavings || 0)} + ${formatCurrency(currentMonth?.efficiencyGains || 0)}`
-          : `${currentMonth?.salesVolume?.toLocaleString()} units × ${formatCurrency(currentMonth?.unitPrice || 0)}`,
+          ? `${formatCompactCurrency(currentMonth?.costSavings || 0)} + ${formatCompactCurrency(currentMonth?.efficiencyGains || 0)}`
+          : `${currentMonth?.salesVolume?.toLocaleString()} units × ${formatCompactCurrency(currentMonth?.unitPrice || 0)}`,
         rationale: isCostSavingsModel 
           ? 'Total monetary benefits from cost reduction and efficiency improvements'
           : businessData.assumptions.pricing?.avg_unit_price?.rationale
@@ -191,7 +269,7 @@ export function CashFlowStatement() {
       baselineCosts: {
         formula: `Sum of monthly baseline costs before automation`,
         components: businessData?.assumptions?.cost_savings?.baseline_costs?.map(cost => 
-          `${cost.label}: ${formatCurrency(cost.current_monthly_cost?.value || 0)}`
+          `${cost.label}: ${formatCompactCurrency(cost.current_monthly_cost?.value || 0)}`
         ).join(', ') || '',
         rationale: 'Current operational costs that will be reduced through automation and process improvements'
       },
@@ -200,7 +278,7 @@ export function CashFlowStatement() {
         components: businessData?.assumptions?.cost_savings?.baseline_costs?.map(cost => {
           const baseAmount = cost.current_monthly_cost?.value || 0;
           const savingsRate = (cost.savings_potential_pct?.value || 0) / 100;
-          return `${cost.label}: ${formatCurrency(baseAmount)} × ${(savingsRate * 100).toFixed(0)}%`;
+          return `${cost.label}: ${formatCompactCurrency(baseAmount)} × ${(savingsRate * 100).toFixed(0)}%`;
         }).join(', ') || '',
         rationale: 'Direct cost reductions achieved through process automation and efficiency improvements'
       },
@@ -210,7 +288,7 @@ export function CashFlowStatement() {
           const baseline = gain.baseline_value?.value || 0;
           const improved = gain.improved_value?.value || 0;
           const valuePerHour = gain.value_per_unit?.value || 0;
-          return `${gain.label}: ${improved} ${gain.metric || 'units'} × ${formatCurrency(valuePerHour)}/unit`;
+          return `${gain.label}: ${improved} ${gain.metric || 'units'} × ${formatCompactCurrency(valuePerHour)}/unit`;
         }).join(', ') || '',
         rationale: 'Monetary value generated by improved processes and productivity gains'
       },
@@ -232,21 +310,30 @@ export function CashFlowStatement() {
         rate: businessData?.assumptions?.unit_economics?.cogs_pct?.value ? `${(businessData.assumptions.unit_economics.cogs_pct.value * 100)}%` : undefined,
         rationale: businessData.assumptions.unit_economics?.cogs_pct?.rationale
       },
-      salesMarketing: {
-        formula: `Base Cost + Monthly Growth`,
-        baseCost: businessData?.assumptions?.opex?.[0]?.value?.value,
-        rationale: businessData?.assumptions?.opex?.[0]?.value?.rationale
-      },
-      rd: {
-        formula: `Base Cost + Monthly Growth`,
-        baseCost: businessData?.assumptions?.opex?.[1]?.value?.value,
-        rationale: businessData?.assumptions?.opex?.[1]?.value?.rationale
-      },
-      ga: {
-        formula: `Base Cost + Monthly Growth`,
-        baseCost: businessData?.assumptions?.opex?.[2]?.value?.value,
-        rationale: businessData?.assumptions?.opex?.[2]?.value?.rationale
-      },
+      ...Object.fromEntries(OPEX_CATEGORY_ROWS.map(({ category, key }) => [key, {
+        formula: `Sum of ${OPEX_CATEGORY_LABELS[category]} items`,
+        components: opexItems.filter(item => getOpexCategory(item) === category).map(item => item.name).join(', '),
+        rationale: category === 'other' ? 'Items without a category whose name does not match a standard category' : undefined
+      }])),
+      ...Object.fromEntries(opexItems.map((item, index) => {
+        const headcount = item.headcount?.filter(role =>
+          currentMonth.endMonth >= (role.start_month || 1) && (role.end_month === undefined || currentMonth.startMonth <= role.end_month)
+        ) || [];
+        return [`opexLine${index}`, {
+          formula: `Fixed Cost + Headcount + Revenue × Rate + Volume × Rate`,
+          components: [
+            item.value && `Fixed: ${formatCompactCurrency(item.value.value, currency)}`,
+            item.cost_structure?.fixed_component && `Fixed: ${formatCompactCurrency(item.cost_structure.fixed_component.value, currency)}`,
+            ...headcount.map(role => `${role.role}: ${role.count?.value || 0} × ${formatCompactCurrency(role.monthly_salary?.value || 0, currency)}`),
+            headcount.length > 0 && `Headcount cost in ${frequency === 'monthly' ? `M${currentMonth.startMonth}` : currentMonth.label}: ${formatCompactCurrency(
+              Array.from({ length: currentMonth.monthsInPeriod }, (_, i) => calculateHeadcountCostForMonth(item.headcount, currentMonth.startMonth - 1 + i))
+                .reduce((sum, cost) => sum + cost, 0), currency)}`,
+            item.cost_structure?.variable_revenue_rate && `${(item.cost_structure.variable_revenue_rate.value * 100).toFixed(1)}% of revenue`,
+            item.cost_structure?.variable_volume_rate && `${formatCompactCurrency(item.cost_structure.variable_volume_rate.value, currency)} per unit`,
+          ].filter(Boolean).join(', '),
+          rationale: item.value?.rationale || item.cost_structure?.fixed_component?.rationale || item.headcount?.[0]?.monthly_salary?.rationale
+        }];
+      })),
       cac: {
         formula: `Customer Acquisition Cost per Unit`,
         value: businessData?.assumptions?.unit_economics?.cac?.value,
@@ -265,12 +352,67 @@ export function CashFlowStatement() {
         formula: isCostSavingsModel ? `Total Benefits + Total Operating Expenses` : `Gross Profit + Total Operating Expenses`,
         rationale: businessData?.meta?.description
       },
+      depreciation: {
+        formula: `Capex ÷ Useful Life (straight line) or Book Value × 2 ÷ Useful Life (declining balance)`,
+        rationale: businessData?.assumptions?.capex?.map(item =>
+          `${item.name}: ${item.depreciation?.method || 'straight_line'} over ${item.depreciation?.useful_life_years?.value || DEFAULT_USEFUL_LIFE_YEARS} years`
+        ).join('; ')
+      },
+      ebit: {
+        formula: `EBITDA + Depreciation`,
+        rationale: 'Operating profit after writing off capital investments'
+      },
+      tax: {
+        formula: `(EBIT - Loss Carry-forward) × Tax Rate`,
+        rate: businessData?.assumptions?.financial?.tax_rate?.value ? `${(businessData.assumptions.financial.tax_rate.value * 100)}%` : undefined,
+        rationale: businessData?.assumptions?.financial?.tax_rate?.rationale || 'No tax rate set; tax is not modelled'
+      },
+      netIncome: {
+        formula: `EBIT + Corporate Tax`,
+        rationale: businessData?.meta?.description
+      },
       capex: {
         formula: `Initial Investment + Periodic Investments`,
         rationale: businessData?.assumptions?.capex?.[0]?.name
       },
+      changeInWorkingCapital: {
+        formula: `-(Receivables + Inventory - Payables) movement`,
+        components: `Working capital at month end: ${formatCompactCurrency(currentMonth?.workingCapital || 0, currency)}`,
+        rationale: [
+          businessData?.assumptions?.working_capital?.receivable_days?.rationale,
+          businessData?.assumptions?.working_capital?.inventory_days?.rationale,
+          businessData?.assumptions?.working_capital?.payable_days?.rationale
+        ].filter(Boolean).join('; ') || 'Cash tied up in receivables and inventory, net of supplier credit'
+      },
+      interestExpense: {
+        formula: `Opening Loan Balance × Annual Rate ÷ 12`,
+        components: businessData?.assumptions?.financial?.loans?.map(loan =>
+          `${loan.name}: ${formatCompactCurrency(loan.principal?.value || 0, currency)} at ${((loan.interest_rate?.value || 0) * 100).toFixed(1)}%`
+        ).join(', ') || '',
+        rationale: 'Interest is charged to the P&L and paid in cash; it is excluded from the operating cash flow used for NPV and IRR'
+      },
+      debtDrawdown: {
+        formula: `Loan principal in its drawdown month`,
+        rationale: businessData?.assumptions?.financial?.loans?.map(loan => `${loan.name}: ${loan.principal?.rationale || ''}`).join('; ')
+      },
+      debtRepayment: {
+        formula: `Principal repaid per amortisation schedule`,
+        rationale: businessData?.assumptions?.financial?.loans?.map(loan => `${loan.name}: ${loan.amortisation} over ${loan.term_months?.value || 0} months`).join('; ')
+      },
+      equityInjection: {
+        formula: `Equity rounds in the month cash arrives`,
+        rationale: businessData?.assumptions?.financial?.equity_rounds?.map(round => `${round.name}: ${round.amount?.rationale || ''}`).join('; ')
+      },
+      financingCashFlow: {
+        formula: `Debt Drawdown + Debt Repayment + Interest Paid + Equity Injection`,
+        rationale: 'Cash provided by (or returned to) lenders and investors'
+      },
+      cashBalance: {
+        formula: `Opening Cash + Cumulative Net Cash Flow + Cumulative Financing Cash Flow`,
+        rationale: businessData?.assumptions?.financial?.opening_cash?.rationale || 'No opening cash set'
+      },
       netCashFlow: {
-        formula: `EBITDA + CAPEX`,
+        formula: `Net Income + Depreciation + Interest Add-backs + CAPEX + Change in Working Capital`,
         rationale: businessData?.meta?.description
       }
     };
@@ -291,9 +433,23 @@ export function CashFlowStatement() {
               {businessData.meta.description}
             </p>
           )}
-          <p className="text-xs text-muted-foreground">
-            Monthly cash flow projection with full P&L structure
-          </p>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              {FREQUENCY_VIEWS.find(view => view.value === frequency)?.label} cash flow projection with full P&L structure
+            </p>
+            <div className="flex gap-1">
+              {FREQUENCY_VIEWS.map(view => (
+                <Button
+                  key={view.value}
+                  variant={frequency === view.value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setViewFrequency(view.value)}
+                >
+                  {view.label}
+                </Button>
+              ))}
+            </div>
+          </div>
           <p className="text-xs text-muted-foreground/70 flex items-center gap-1 mt-1">
             <Search className="h-3 w-3" />
             Double-click any cell to view its evidence trail
@@ -305,16 +461,17 @@ export function CashFlowStatement() {
         <CardContent className="p-0">
           <div className="overflow-x-auto max-w-full">
             {/* reduce total width per month from 100px -> 80px to be more compact */}
-            <div className="min-w-max" style={{ width: `${180 + (monthlyData.length * 80)}px` }}>
+            <div className="min-w-max" style={{ width: `${180 + (periodData.length * (frequency === 'monthly' ? 80 : 110))}px` }}>
               <table className="w-full">
                 <thead>
                   <tr className="border-b border-border">
                     <th className="sticky left-0 bg-gradient-card z-10 px-3 py-2 text-left font-semibold min-w-[160px]">
                       Line Item
                     </th>
-                     {monthlyData.map((month) => (
-                       <th key={month.month} className="px-2 py-2 text-center font-medium min-w-[80px] border-l border-border">
-                         <span className="text-xs font-medium">{month.month}</span>
+                     {periodData.map((period) => (
+                       <th key={period.period} className="px-2 py-2 text-center font-medium min-w-[80px] border-l border-border">
+                         <span className="text-xs font-medium">{frequency === 'monthly' ? period.month : period.label}</span>
+                         <span className="block text-[10px] font-normal text-muted-foreground">{formatPeriodRange(period)}</span>
                        </th>
                      ))}
                   </tr>
@@ -349,16 +506,19 @@ export function CashFlowStatement() {
                             {row.category === 'profit' && <DollarSign className="h-3 w-3 text-financial-primary" />}
                           </div>
                         </td>
-                        {monthlyData.map((month, monthIndex) => {
-                          let value = month[row.key as keyof typeof month] as number;
+                        {periodData.map((month, monthIndex) => {
+                          let value = getRowValue(row, month);
+                          if (row.sign && typeof value === 'number') {
+                            value = value * row.sign;
+                          }
                           
                           // Calculate cumulative value if this row requires it
                           if (row.cumulative && typeof value === 'number') {
-                            value = monthlyData.slice(0, monthIndex + 1)
-                              .reduce((sum, m) => sum + (m[row.key as keyof typeof m] as number || 0), 0);
+                            value = periodData.slice(0, monthIndex + 1)
+                              .reduce((sum, m) => sum + (getRowValue(row, m) || 0), 0);
                           }
                           
-                          const assumptions = getAssumptions(row.key, month.month);
+                          const assumptions = getAssumptions(row.key, month);
                           
                           return (
                             <td
@@ -368,7 +528,7 @@ export function CashFlowStatement() {
                               onMouseLeave={() => setHoveredCell(null)}
                               onDoubleClick={() => {
                                 if (typeof value === 'number') {
-                                  openEvidenceTrail(row.key, row.label.trim(), value, month.month);
+                                  openEvidenceTrail(row.evidenceKey || row.key, row.label.trim(), value, frequency === 'monthly' ? month.month : undefined);
                                 }
                               }}
                               title="Double-click to view evidence trail"
@@ -377,8 +537,8 @@ export function CashFlowStatement() {
                                  <span className={`font-mono text-xs ${getValueColor(value, row.key)}`}>
                                    {row.unit === 'units' ? value.toLocaleString() : 
                                     row.unit === 'decimal' ? formatDecimal(value) : 
-                                    row.unit === 'currency' ? formatCurrency(value, currency) :
-                                    formatCurrency(value, currency)}
+                                    row.unit === 'currency' ? formatCompactCurrency(value, currency) :
+                                    formatCompactCurrency(value, currency)}
                                  </span>
                                ) : (
                                  <span className="text-muted-foreground text-xs">-</span>
@@ -388,7 +548,7 @@ export function CashFlowStatement() {
                                {hoveredCell?.row === row.key && hoveredCell?.month === month.month && assumptions && (
                                  <div className={`absolute z-[100] bg-card border border-border rounded-lg p-3 shadow-elevation min-w-[250px] left-1/2 transform -translate-x-1/2 ${isBottomHalf ? 'bottom-full mb-1' : 'top-full mt-1'}`}>
                                    <div className="text-sm space-y-2">
-                                     <div className="font-semibold text-foreground">{row.label} - Month {month.month}</div>
+                                     <div className="font-semibold text-foreground">{row.label} - {frequency === 'monthly' ? `Month ${month.month}` : month.label}</div>
                                      {assumptions.formula && (
                                        <div>
                                          <span className="text-muted-foreground">Formula:</span>
@@ -439,7 +599,7 @@ export function CashFlowStatement() {
                 <Search className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
               </p>
               <p className="text-xl font-extrabold text-white">
-                {formatCurrency(monthlyData.reduce((sum, m) => sum + m.revenue, 0), currency)}
+                {formatCompactCurrency(monthlyData.reduce((sum, m) => sum + m.revenue, 0), currency)}
               </p>
             </div>
           </CardContent>
@@ -456,7 +616,7 @@ export function CashFlowStatement() {
                 <Search className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
               </p>
               <p className="text-xl font-extrabold text-white">
-                {formatCurrency(calculatedMetrics.npv, currency)}
+                {formatCompactCurrency(calculatedMetrics.npv, currency)}
               </p>
             </div>
           </CardContent>
@@ -473,7 +633,7 @@ export function CashFlowStatement() {
                 <Search className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
               </p>
               <p className="text-xl font-extrabold text-white">
-                {formatCurrency(calculatedMetrics.netProfit, currency)}
+                {formatCompactCurrency(calculatedMetrics.netProfit, currency)}
               </p>
             </div>
           </CardContent>
@@ -523,7 +683,7 @@ export function CashFlowStatement() {
                   <YAxis 
                     stroke="hsl(var(--muted-foreground))"
                     fontSize={12}
-                    tickFormatter={(value) => formatCurrency(value)}
+                    tickFormatter={(value) => formatCompactCurrency(value)}
                   />
                   <Tooltip 
                     content={({ active, payload, label }) => {
@@ -533,7 +693,7 @@ export function CashFlowStatement() {
                             <p className="font-semibold">{`Month ${label}`}</p>
                             {payload.map((entry, index) => (
                               <p key={index} style={{ color: entry.color }}>
-                                {`${entry.name}: ${formatCurrency(entry.value as number)}`}
+                                {`${entry.name}: ${formatCompactCurrency(entry.value as number)}`}
                               </p>
                             ))}
                           </div>
@@ -588,7 +748,7 @@ export function CashFlowStatement() {
                     <YAxis 
                       stroke="hsl(var(--muted-foreground))"
                       fontSize={12}
-                      tickFormatter={(value) => formatCurrency(value)}
+                      tickFormatter={(value) => formatCompactCurrency(value)}
                     />
                     <Tooltip 
                       content={({ active, payload, label }) => {
@@ -598,7 +758,7 @@ export function CashFlowStatement() {
                               <p className="font-semibold">{`Month ${label}`}</p>
                               {payload.map((entry, index) => (
                                 <p key={index} style={{ color: entry.color }}>
-                                  {`${entry.name}: ${formatCurrency(entry.value as number)}`}
+                                  {`${entry.name}: ${formatCompactCurrency(entry.value as number)}`}
                                 </p>
                               ))}
                             </div>
@@ -690,7 +850,7 @@ export function CashFlowStatement() {
                   <YAxis 
                     stroke="hsl(var(--muted-foreground))"
                     fontSize={12}
-                    tickFormatter={(value) => formatCurrency(value)}
+                    tickFormatter={(value) => formatCompactCurrency(value)}
                   />
                   <Tooltip 
                     content={({ active, payload, label }) => {
@@ -700,7 +860,7 @@ export function CashFlowStatement() {
                           <div className="bg-card border border-border rounded-lg p-3 shadow-md">
                             <p className="font-semibold">{`Month ${label}`}</p>
                             <p style={{ color: value >= 0 ? 'hsl(var(--financial-success))' : 'hsl(var(--financial-danger))' }}>
-                              {`Net Cash Flow: ${formatCurrency(value)}`}
+                              {`Net Cash Flow: ${formatCompactCurrency(value)}`}
                             </p>
                           </div>
                         );
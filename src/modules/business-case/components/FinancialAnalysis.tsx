@@ -4,9 +4,15 @@ import { Badge } from '@/components/ui/badge';
 import { TrendingUp, TrendingDown, DollarSign, Calendar, Users, Target, AlertCircle, BarChart3, Search } from 'lucide-react';
 import { useBusinessData } from '@/core/contexts';
 import { BusinessData, EvidenceContext } from '@/core/types';
-import { calculateBusinessMetrics, formatCurrency, formatPercent, calculateBreakEven } from '@/core/engine';
+import { calculateBusinessMetrics, formatCompactCurrency, formatPercent } from '@/core/engine';
 import { setNestedValue, getNestedValue } from '@/core/engine';
 import { SensitivityAnalysis } from './SensitivityAnalysis';
+import { ScenarioComparison } from './ScenarioComparison';
+import { MonteCarloAnalysis } from './MonteCarloAnalysis';
+import { TornadoChart } from './TornadoChart';
+import { GoalSeek } from './GoalSeek';
+import { PeriodSummary } from './PeriodSummary';
+import { FundingSummary } from './FundingSummary';
 import { EvidenceTrailPanel } from './EvidenceTrailPanel';
 
 // Helper functions for driver manipulation - now using safe utilities
@@ -65,12 +71,7 @@ export function FinancialAnalysis() {
   const calculatedMetrics = useMemo(() => {
     if (!modifiedBusinessData) return null;
     
-    const metrics = calculateBusinessMetrics(modifiedBusinessData);
-
-    // Ensure break-even month is recalculated correctly
-    metrics.breakEvenMonth = calculateBreakEven(metrics.monthlyData);
-
-    return metrics;
+    return calculateBusinessMetrics(modifiedBusinessData);
   }, [modifiedBusinessData]);
 
   if (!businessData) {
@@ -108,6 +109,9 @@ export function FinancialAnalysis() {
     });
   };
 
+  // Horizon label for totals, e.g. "5Y" for 60 months or "7.5Y" for 90 months
+  const horizonLabel = `${Number((calculatedMetrics.monthlyData.length / 12).toFixed(1))}Y`;
+
   const openEvidenceTrail = (metricKey: string, metricLabel: string, value: number) => {
     setEvidenceContext({
       metricKey,
@@ -134,7 +138,7 @@ export function FinancialAnalysis() {
           className="bg-gradient-success shadow-card cursor-pointer hover:ring-2 hover:ring-white/30 transition-all group"
           onClick={() => openEvidenceTrail(
             'totalRevenue',
-            businessData.meta.business_model === 'cost_savings' ? 'Total Benefits (5Y)' : 'Total Revenue (5Y)',
+            businessData.meta.business_model === 'cost_savings' ? `Total Benefits (${horizonLabel})` : `Total Revenue (${horizonLabel})`,
             calculatedMetrics.totalRevenue
           )}
         >
@@ -142,10 +146,10 @@ export function FinancialAnalysis() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-financial-success-foreground/80 flex items-center gap-1">
-                  {businessData.meta.business_model === 'cost_savings' ? 'Total Benefits (5Y)' : 'Total Revenue (5Y)'}
+                  {businessData.meta.business_model === 'cost_savings' ? `Total Benefits (${horizonLabel})` : `Total Revenue (${horizonLabel})`}
                   <Search className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
                 </p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(calculatedMetrics.totalRevenue, businessData.meta.currency)}</p>
+                <p className="text-2xl font-bold text-white">{formatCompactCurrency(calculatedMetrics.totalRevenue, businessData.meta.currency)}</p>
               </div>
               <TrendingUp className="h-8 w-8 text-white" />
             </div>
@@ -154,16 +158,16 @@ export function FinancialAnalysis() {
 
         <Card
           className={`${calculatedMetrics.netProfit >= 0 ? "bg-gradient-success shadow-card" : "bg-gradient-danger shadow-card"} cursor-pointer hover:ring-2 hover:ring-white/30 transition-all group`}
-          onClick={() => openEvidenceTrail('netProfit', 'Net Profit (5Y)', calculatedMetrics.netProfit)}
+          onClick={() => openEvidenceTrail('netProfit', `Net Profit (${horizonLabel})`, calculatedMetrics.netProfit)}
         >
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-white/80 flex items-center gap-1">
-                  Net Profit (5Y)
+                  Net Profit ({horizonLabel})
                   <Search className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
                 </p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(calculatedMetrics.netProfit, businessData.meta.currency)}</p>
+                <p className="text-2xl font-bold text-white">{formatCompactCurrency(calculatedMetrics.netProfit, businessData.meta.currency)}</p>
               </div>
               <DollarSign className="h-8 w-8 text-white" />
             </div>
@@ -181,7 +185,7 @@ export function FinancialAnalysis() {
                   Net Present Value
                   <Search className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
                 </p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(calculatedMetrics.npv, businessData.meta.currency)}</p>
+                <p className="text-2xl font-bold text-white">{formatCompactCurrency(calculatedMetrics.npv, businessData.meta.currency)}</p>
               </div>
               <Target className="h-8 w-8 text-white" />
             </div>
@@ -227,7 +231,7 @@ export function FinancialAnalysis() {
               className="text-center p-4 bg-muted/50 rounded-lg cursor-pointer hover:bg-muted/70 hover:ring-1 hover:ring-financial-primary/50 transition-all group"
               onClick={() => openEvidenceTrail('totalInvestmentRequired', 'Required Investment', calculatedMetrics.totalInvestmentRequired)}
             >
-              <div className="text-3xl font-bold text-financial-warning mb-2">{formatCurrency(calculatedMetrics.totalInvestmentRequired, businessData.meta.currency)}</div>
+              <div className="text-3xl font-bold text-financial-warning mb-2">{formatCompactCurrency(calculatedMetrics.totalInvestmentRequired, businessData.meta.currency)}</div>
               <div className="text-sm text-muted-foreground flex items-center justify-center gap-1">
                 Required Investment to Break-even
                 <Search className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
@@ -258,6 +262,14 @@ export function FinancialAnalysis() {
         onDriverChange={handleDriverChange}
       />
 
+      {/* Driver ranking and goal seek */}
+      {drivers.length > 0 && (
+        <>
+          <TornadoChart businessData={modifiedBusinessData} />
+          <GoalSeek drivers={drivers} businessData={modifiedBusinessData} onDriverChange={handleDriverChange} />
+        </>
+      )}
+
       {/* Volume & Customer Metrics */}
       <Card className="bg-gradient-card shadow-card">
         <CardHeader>
@@ -309,7 +321,7 @@ export function FinancialAnalysis() {
                     <Target className="h-6 w-6 text-financial-success mr-2" />
                   </div>
                   <div className="text-3xl font-bold text-financial-success mb-2">
-                    {formatCurrency(
+                    {formatCompactCurrency(
                       calculatedMetrics.monthlyData.reduce((sum, month) => 
                         sum + (month.costSavings || 0) + (month.efficiencyGains || 0), 0
                       ),
@@ -343,7 +355,7 @@ export function FinancialAnalysis() {
                       }, 0);
                       
                       const costPerHour = totalEfficiencyHours > 0 ? totalInvestment / totalEfficiencyHours : 0;
-                      return formatCurrency(costPerHour, businessData.meta.currency);
+                      return formatCompactCurrency(costPerHour, businessData.meta.currency);
                     })()}
                   </div>
                   <div className="text-sm text-muted-foreground">Cost per Hour Saved</div>
@@ -358,7 +370,7 @@ export function FinancialAnalysis() {
                     <TrendingUp className="h-6 w-6 text-financial-info mr-2" />
                   </div>
                   <div className="text-3xl font-bold text-financial-info mb-2">
-                    {formatCurrency(
+                    {formatCompactCurrency(
                       calculatedMetrics.monthlyData.length > 0 ? 
                         calculatedMetrics.monthlyData.reduce((sum, month) => 
                           sum + (month.costSavings || 0) + (month.efficiencyGains || 0), 0
@@ -412,7 +424,7 @@ export function FinancialAnalysis() {
                     <DollarSign className="h-6 w-6 text-financial-warning mr-2" />
                   </div>
                   <div className="text-3xl font-bold text-financial-warning mb-2">
-                    {formatCurrency(
+                    {formatCompactCurrency(
                       calculatedMetrics.monthlyData.length > 0 && calculatedMetrics.monthlyData.reduce((sum, month) => sum + month.salesVolume, 0) > 0 ? 
                         calculatedMetrics.monthlyData.reduce((sum, month) => sum + month.revenue, 0) / calculatedMetrics.monthlyData.reduce((sum, month) => sum + month.salesVolume, 0) :
                         0,
@@ -524,7 +536,7 @@ export function FinancialAnalysis() {
                     {/* Initial Monthly Benefits */}
                     <div className="text-center p-3 bg-accent/30 rounded-lg">
                       <div className="text-lg font-bold text-financial-success">
-                        {formatCurrency(
+                        {formatCompactCurrency(
                           (calculatedMetrics.monthlyData[0]?.costSavings || 0) + (calculatedMetrics.monthlyData[0]?.efficiencyGains || 0),
                           businessData.meta.currency
                         )}
@@ -535,7 +547,7 @@ export function FinancialAnalysis() {
                     {/* Final Monthly Benefits */}
                     <div className="text-center p-3 bg-accent/30 rounded-lg">
                       <div className="text-lg font-bold text-financial-warning">
-                        {formatCurrency(
+                        {formatCompactCurrency(
                           (calculatedMetrics.monthlyData[calculatedMetrics.monthlyData.length - 1]?.costSavings || 0) + 
                           (calculatedMetrics.monthlyData[calculatedMetrics.monthlyData.length - 1]?.efficiencyGains || 0),
                           businessData.meta.currency
@@ -576,28 +588,20 @@ export function FinancialAnalysis() {
         </CardContent>
       </Card>
 
+      {/* Cash runway and funding */}
+      <FundingSummary businessData={modifiedBusinessData} monthlyData={calculatedMetrics.monthlyData} />
+
+      {/* Quarterly / annual roll-up */}
+      <PeriodSummary businessData={modifiedBusinessData} monthlyData={calculatedMetrics.monthlyData} />
+
       {/* Scenarios */}
-      {businessData.scenarios && businessData.scenarios.length > 0 && (
-        <Card className="bg-gradient-card shadow-card">
-          <CardHeader>
-            <CardTitle>Scenarios Analysis</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {businessData.scenarios.map((scenario, index) => (
-                <div key={index} className="p-4 bg-muted/50 rounded-lg text-center">
-                  <h4 className="font-semibold mb-2">{scenario.name}</h4>
-                  <div className="text-2xl font-bold text-financial-primary mb-1">
-                    {formatCurrency(calculatedMetrics.totalRevenue * (1 + index * 0.1 - 0.1), modifiedBusinessData.meta.currency)}
-                  </div>
-                  <p className="text-xs text-muted-foreground">Projected Revenue</p>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+      {modifiedBusinessData.scenarios && modifiedBusinessData.scenarios.length > 0 && (
+        <ScenarioComparison businessData={modifiedBusinessData} />
       )}
 
+      {/* NPV distribution across driver ranges */}
+      {drivers.length > 0 && <MonteCarloAnalysis businessData={modifiedBusinessData} />}
+
       {/* Evidence Trail Panel */}
       <EvidenceTrailPanel
         isOpen={isEvidencePanelOpen}
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Wallet } from 'lucide-react';
+import { BusinessData } from '@/core/types';
+import { calculateFundingSummary, formatCompactCurrency, MonthlyData } from '@/core/engine';
+
+interface FundingSummaryProps {
+  businessData: BusinessData;
+  monthlyData: readonly MonthlyData[];
+}
+
+export function FundingSummary({ businessData, monthlyData }: FundingSummaryProps) {
+  const summary = useMemo(() => calculateFundingSummary(businessData, monthlyData), [businessData, monthlyData]);
+  const currency = businessData.meta.currency;
+  const formatMonth = (month: number) => (month > 0 ? `M${month}` : 'Opening');
+
+  const items = [
+    { label: 'Opening Cash', value: formatCompactCurrency(summary.openingCash, currency) },
+    { label: 'Equity Raised', value: formatCompactCurrency(summary.totalEquity, currency) },
+    { label: 'Debt Drawn', value: formatCompactCurrency(summary.totalDebt, currency) },
+    {
+      label: 'Lowest Cash Balance',
+      value: formatCompactCurrency(summary.lowestCashBalance, currency),
+      detail: formatMonth(summary.lowestCashMonth),
+    },
+  ];
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Funding & Runway
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Cash balance after operating cash flow, loans and equity rounds
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {items.map(item => (
+            <div key={item.label} className="space-y-1">
+              <p className="text-sm text-muted-foreground">{item.label}</p>
+              <p className="text-xl font-bold font-mono">{item.value}</p>
+              {item.detail && <p className="text-xs text-muted-foreground">{item.detail}</p>}
+            </div>
+          ))}
+        </div>
+
+        {summary.firstShortfallMonth > 0 ? (
+          <div className="flex items-start gap-2 rounded-md border border-financial-danger/40 bg-financial-danger/10 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 text-financial-danger" />
+            <div>
+              <p className="font-semibold text-financial-danger">
+                Cash falls below {formatCompactCurrency(summary.minimumCash, currency)} in M{summary.firstShortfallMonth}
+              </p>
+              <p className="text-muted-foreground">
+                Runway of {summary.runwayMonths} months. Additional funding of{' '}
+                {formatCompactCurrency(summary.fundingGap, currency)} is needed to stay above the minimum cash balance.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <Badge variant="outline" className="text-financial-success border-financial-success">
+            Fully funded across the {monthlyData.length}-month horizon
+          </Badge>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default FundingSummary;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Crosshair } from 'lucide-react';
+import { BusinessData, Driver } from '@/core/types';
+import {
+  goalSeek,
+  getDriverBounds,
+  formatCompactCurrency,
+  formatPercent,
+  GoalSeekMetric,
+  GoalSeekResult,
+  GOAL_SEEK_METRIC_LABELS,
+} from '@/core/engine';
+
+interface GoalSeekProps {
+  drivers: readonly Driver[];
+  businessData: BusinessData;
+  onDriverChange: (driverKey: string, value: number) => void;
+}
+
+const DEFAULT_TARGETS: Record<GoalSeekMetric, number> = {
+  npv: 0,
+  irr: 0.15,
+  paybackPeriod: 24,
+  breakEvenMonth: 24,
+};
+
+export function GoalSeek({ drivers, businessData, onDriverChange }: GoalSeekProps) {
+  const [driverKey, setDriverKey] = useState(drivers[0]?.key || '');
+  const [metric, setMetric] = useState<GoalSeekMetric>('npv');
+  const [target, setTarget] = useState(DEFAULT_TARGETS.npv);
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  const driver = drivers.find(d => d.key === driverKey);
+  const [rangeMin, rangeMax] = driver ? getDriverBounds(driver) : [0, 0];
+  const [bounds, setBounds] = useState<{ min: number; max: number } | null>(null);
+  const searchMin = bounds?.min ?? rangeMin;
+  const searchMax = bounds?.max ?? rangeMax;
+
+  const formatMetric = (value: number | null) => {
+    if (value === null) return 'never';
+    if (metric === 'npv') return formatCompactCurrency(value, businessData.meta.currency);
+    if (metric === 'irr') return formatPercent(value);
+    return `month ${value}`;
+  };
+
+  const handleSolve = () => {
+    if (!driver) return;
+    setResult(goalSeek(businessData, driver.path, metric, target, { min: searchMin, max: searchMax }));
+  };
+
+  if (drivers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crosshair className="h-5 w-5" />
+          Goal Seek
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Find the driver value that hits a target NPV, IRR, payback or break-even month
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div className="space-y-1 md:col-span-2">
+            <Label className="text-xs">Driver</Label>
+            <Select
+              value={driverKey}
+              onValueChange={(value) => {
+                setDriverKey(value);
+                setBounds(null);
+                setResult(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {drivers.map(d => (
+                  <SelectItem key={d.key} value={d.key}>{d.label || d.key}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Metric</Label>
+            <Select
+              value={metric}
+              onValueChange={(value: GoalSeekMetric) => {
+                setMetric(value);
+                setTarget(DEFAULT_TARGETS[value]);
+                setResult(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GOAL_SEEK_METRIC_LABELS) as GoalSeekMetric[]).map(key => (
+                  <SelectItem key={key} value={key}>{GOAL_SEEK_METRIC_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Target{metric === 'irr' ? ' (decimal)' : ''}</Label>
+            <Input type="number" value={target} onChange={(e) => setTarget(Number(e.target.value))} />
+          </div>
+          <Button onClick={handleSolve} disabled={!driver}>Solve</Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 md:w-2/5">
+          <div className="space-y-1">
+            <Label className="text-xs">Search from</Label>
+            <Input
+              type="number"
+              value={searchMin}
+              onChange={(e) => setBounds({ min: Number(e.target.value), max: searchMax })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Search to</Label>
+            <Input
+              type="number"
+              value={searchMax}
+              onChange={(e) => setBounds({ min: searchMin, max: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {result && !result.found && (
+          <div className="flex items-center gap-2 text-sm text-financial-danger">
+            <AlertCircle className="h-4 w-4" />
+            {result.error}
+          </div>
+        )}
+
+        {result?.found && driver && result.value !== null && (
+          <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div className="text-sm">
+              <span className="font-medium">{driver.label || driver.key}</span> = {' '}
+              <span className="font-mono font-bold">{result.value.toLocaleString(undefined, { maximumFractionDigits: 4 })}</span>
+              <span className="text-muted-foreground"> gives {GOAL_SEEK_METRIC_LABELS[metric]} {formatMetric(result.achieved)}</span>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => onDriverChange(driver.key, result.value as number)}>
+              Apply
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default GoalSeek;
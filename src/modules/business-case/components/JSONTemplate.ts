@@ -1,11 +1,13 @@
 export const JSONTemplate = `{
   "schema_version": "1.0",
   "instructions": {
-    "purpose": "Populate this JSON with business case data and rationales. The webapp will expand patterns into 60 months, calculate results, visualize them, and enable analysis.",
+    "purpose": "Populate this JSON with business case data and rationales. The webapp will expand patterns into meta.periods months starting at meta.start_date, calculate results, visualize them, and enable analysis.",
     "rules": [
       "Replace TODOs with actual values.",
       "Every numeric datum must have value, unit, and rationale.",
-      "Default horizon is 5 years (60 months). Provide at least Year 1 detail OR a pattern; the engine expands the rest.",
+      "Default horizon is 5 years (60 months); set meta.periods up to 240 months for longer cases. Provide at least Year 1 detail OR a pattern; the engine expands the rest.",
+      "meta.frequency (monthly, quarterly or annually) sets the reporting and discounting period; meta.periods counts those periods (e.g. 20 quarterly = 60 months). Growth, seasonality and churn inputs stay monthly; the engine rolls months up into each period.",
+      "meta.start_date sets the first modelled month (YYYY-MM-DD). Seasonality indices are calendar months (January first); yearly factors and implementation timelines count from the start date.",
       "Choose ONE business model: recurring, unit_sales, or cost_savings.",
       "If a field does not apply, set unit='n/a' and explain in rationale.",
       "CRITICAL: Only one growth model (geom_growth, seasonal_growth, or linear_growth) should be selected and populated per case.",
@@ -32,7 +34,8 @@ export const JSONTemplate = `{
       "flexible_volume": "Use yearly_adjustments.volume_factors for volume changes over time, or volume_overrides for specific periods.",
       "cost_savings": "For cost_savings business model, define baseline_costs and efficiency_gains instead of revenue."
     },
-    "drivers_guidance": "Drivers are optional sensitivity analysis tools. You can create drivers for ANY numeric field as long as driver.path resolves to a '.value' in this JSON (e.g., 'assumptions.pricing.avg_unit_price.value'). Common driver paths: pricing, COGS%, CAC, growth rates, OPEX items. Verify paths exist before adding drivers.",
+    "drivers_guidance": "Drivers are optional sensitivity analysis tools. You can create drivers for ANY numeric field as long as driver.path resolves to a '.value' in this JSON (e.g., 'assumptions.pricing.avg_unit_price.value'). Common driver paths: pricing, COGS%, CAC, growth rates, OPEX items. Verify paths exist before adding drivers. Monte Carlo simulation samples each driver between the lowest and highest range value; add an optional 'distribution' of { type: 'uniform' | 'triangular' | 'normal', mode?, mean?, std_dev? } (uniform if omitted, triangular/normal centre on the current value).",
+    "scenarios_guidance": "Scenarios are optional named cases (e.g., optimistic, pessimistic) compared side by side with the base case. Each scenario lists overrides as path→value pairs using the same path notation as drivers; every scenario is fully recalculated.",
     "validation_checklist": [
       "Verify all driver.path values resolve to existing '.value' fields in the JSON",
       "Ensure only one growth pattern is populated (others should have value: 0 or empty arrays)",
@@ -46,7 +49,8 @@ export const JSONTemplate = `{
     "business_model": "TODO-recurring|unit_sales|cost_savings",
     "currency": "EUR",
     "periods": 60,
-    "frequency": "monthly"
+    "frequency": "monthly",
+    "start_date": "2026-01-01"
   },
   "assumptions": {
     "pricing": {
@@ -62,7 +66,24 @@ export const JSONTemplate = `{
       }
     },
     "financial": {
-      "interest_rate": { "value": 0.10, "unit": "ratio", "rationale": "10% discount rate for NPV calculations" }
+      "interest_rate": { "value": 0.10, "unit": "ratio", "rationale": "10% discount rate for NPV calculations" },
+      "tax_rate": { "value": 0.20, "unit": "ratio", "rationale": "TODO-corporate tax rate on positive EBIT; losses are carried forward. NPV and IRR use after-tax cash flow" },
+      "opening_cash": { "value": 0, "unit": "EUR", "rationale": "TODO-cash in the bank before month 1" },
+      "minimum_cash": { "value": 0, "unit": "EUR", "rationale": "TODO-lowest acceptable cash balance; falling below it raises a runway warning" },
+      "loans": [
+        {
+          "name": "TODO-Term loan",
+          "principal": { "value": 0, "unit": "EUR", "rationale": "TODO-amount drawn" },
+          "interest_rate": { "value": 0.06, "unit": "ratio", "rationale": "TODO-annual interest rate" },
+          "term_months": { "value": 36, "unit": "months", "rationale": "TODO-months from drawdown to final repayment" },
+          "drawdown_month": 1,
+          "grace_months": 0,
+          "amortisation": "annuity|straight_line|bullet"
+        }
+      ],
+      "equity_rounds": [
+        { "name": "TODO-Seed", "amount": { "value": 0, "unit": "EUR", "rationale": "TODO-equity raised" }, "month": 1 }
+      ]
     },
     "customers": {
       "churn_pct": { "value": 0.0, "unit": "ratio_per_month", "rationale": "TODO-monthly churn; used only if business_model=recurring" },
@@ -102,7 +123,8 @@ export const JSONTemplate = `{
     "opex": [
       {
         "name": "Sales & Marketing",
-        "_documentation": "OPEX supports both fixed-only (legacy) and variable cost structures. Use cost_structure for realistic scaling.",
+        "category": "sales_marketing",
+        "_documentation": "OPEX supports both fixed-only (legacy) and variable cost structures. Use cost_structure for realistic scaling. Add as many items as needed; each is reported under its category (sales_marketing|rd|ga|other), never by its position in this array.",
         "_formats": {
           "legacy_fixed_only": "Use 'value' field for fixed monthly cost that never changes",
           "new_variable_costs": "Use 'cost_structure' with fixed_component, variable_revenue_rate, and/or variable_volume_rate"
@@ -111,7 +133,8 @@ export const JSONTemplate = `{
           "fixed_only": "{ 'value': { 'value': 5000, 'unit': 'EUR_per_month', 'rationale': 'Fixed marketing spend' } }",
           "revenue_based": "{ 'cost_structure': { 'fixed_component': { 'value': 5000, ... }, 'variable_revenue_rate': { 'value': 0.10, 'unit': 'percentage_of_revenue', 'rationale': '10% of revenue' } } }",
           "volume_based": "{ 'cost_structure': { 'fixed_component': { 'value': 3000, ... }, 'variable_volume_rate': { 'value': 15, 'unit': 'EUR_per_customer', 'rationale': '15 EUR per customer' } } }",
-          "mixed": "{ 'cost_structure': { 'fixed_component': {...}, 'variable_revenue_rate': {...}, 'variable_volume_rate': {...} } }"
+          "mixed": "{ 'cost_structure': { 'fixed_component': {...}, 'variable_revenue_rate': {...}, 'variable_volume_rate': {...} } }",
+          "headcount": "{ 'headcount': [{ 'role': 'Account Executive', 'count': { 'value': 2, ... }, 'monthly_salary': { 'value': 6000, ... }, 'start_month': 4 }] } adds count × monthly_salary from start_month (optional end_month)"
         },
         "cost_structure": {
           "fixed_component": { "value": 0.0, "unit": "EUR_per_month", "rationale": "TODO-Base monthly S&M cost regardless of scale" },
@@ -121,6 +144,15 @@ export const JSONTemplate = `{
       },
       {
         "name": "R&D",
+        "category": "rd",
+        "headcount": [
+          {
+            "role": "TODO-Engineer",
+            "count": { "value": 0, "unit": "FTE", "rationale": "TODO-people in this role" },
+            "monthly_salary": { "value": 0, "unit": "EUR_per_month", "rationale": "TODO-fully loaded monthly cost per person" },
+            "start_month": 1
+          }
+        ],
         "cost_structure": {
           "fixed_component": { "value": 0.0, "unit": "EUR_per_month", "rationale": "TODO-Core engineering team cost" },
           "variable_revenue_rate": { "value": 0.0, "unit": "percentage_of_revenue", "rationale": "TODO-R&D investment as % of revenue (typically 8-15% for growing tech companies)" },
@@ -129,6 +161,7 @@ export const JSONTemplate = `{
       },
       {
         "name": "G&A",
+        "category": "ga",
         "cost_structure": {
           "fixed_component": { "value": 0.0, "unit": "EUR_per_month", "rationale": "TODO-Base admin/overhead costs" },
           "variable_revenue_rate": { "value": 0.0, "unit": "percentage_of_revenue", "rationale": "TODO-G&A as % of revenue (if scales with company size)" },
@@ -136,6 +169,11 @@ export const JSONTemplate = `{
         }
       }
     ],
+    "working_capital": {
+      "receivable_days": { "value": 0, "unit": "days", "rationale": "TODO-days customers take to pay (DSO); 0 for card/upfront payments" },
+      "inventory_days": { "value": 0, "unit": "days", "rationale": "TODO-days of COGS held as stock; 0 for software/services" },
+      "payable_days": { "value": 0, "unit": "days", "rationale": "TODO-days taken to pay suppliers (DPO), applied to COGS" }
+    },
     "capex": [
       {
         "name": "TODO-Asset or project",
@@ -145,6 +183,10 @@ export const JSONTemplate = `{
           "series": [
             { "period": 1, "value": 0, "unit": "EUR", "rationale": "TODO-one-off or phased investment" }
           ]
+        },
+        "depreciation": {
+          "method": "straight_line|declining_balance|none",
+          "useful_life_years": { "value": 5, "unit": "years", "rationale": "TODO-asset life; defaults to 5 years straight line if omitted" }
         }
       }
     ],
@@ -201,6 +243,7 @@ export const JSONTemplate = `{
       "key": "price",
       "path": "assumptions.pricing.avg_unit_price.value",
       "range": [0, 0, 0, 0, 0],
+      "distribution": { "type": "triangular" },
       "rationale": "TODO-Price sensitivity analysis across different pricing levels"
     },
     {
@@ -233,6 +276,26 @@ export const JSONTemplate = `{
       "range": [0, 0, 0, 0, 0],
       "rationale": "TODO-Sales & Marketing operational expense sensitivity"
     }
+  ],
+  "scenarios": [
+    {
+      "key": "optimistic",
+      "name": "Optimistic",
+      "description": "TODO-Upside case rationale",
+      "overrides": {
+        "assumptions.pricing.avg_unit_price.value": 0,
+        "assumptions.unit_economics.cac.value": 0
+      }
+    },
+    {
+      "key": "pessimistic",
+      "name": "Pessimistic",
+      "description": "TODO-Downside case rationale",
+      "overrides": {
+        "assumptions.pricing.avg_unit_price.value": 0,
+        "assumptions.unit_economics.cac.value": 0
+      }
+    }
   ]
 }`;
 /**
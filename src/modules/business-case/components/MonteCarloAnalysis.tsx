@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { AlertCircle, Dices, Play, Square } from 'lucide-react';
+import { BusinessData } from '@/core/types';
+import { formatCompactCurrency, getSampledDrivers, DEFAULT_MONTE_CARLO_ITERATIONS } from '@/core/engine';
+import { useMonteCarloSimulation } from '@/hooks/use-monte-carlo';
+
+interface MonteCarloAnalysisProps {
+  businessData: BusinessData;
+}
+
+const ITERATION_OPTIONS = [1000, DEFAULT_MONTE_CARLO_ITERATIONS, 5000, 10000];
+
+export function MonteCarloAnalysis({ businessData }: MonteCarloAnalysisProps) {
+  const [iterations, setIterations] = useState(DEFAULT_MONTE_CARLO_ITERATIONS);
+  const { result, progress, isRunning, error, run, cancel } = useMonteCarloSimulation();
+  const currency = businessData.meta.currency;
+  const sampledDrivers = useMemo(() => getSampledDrivers(businessData), [businessData]);
+
+  const histogramData = useMemo(() => (result?.histogram || []).map(bin => ({
+    label: formatCompactCurrency((bin.start + bin.end) / 2, currency),
+    range: `${formatCompactCurrency(bin.start, currency)} – ${formatCompactCurrency(bin.end, currency)}`,
+    count: bin.count,
+    isLoss: bin.end <= 0,
+  })), [result, currency]);
+
+  const stats = result ? [
+    { label: 'P10 NPV', value: formatCompactCurrency(result.npv.p10, currency), hint: '90% of runs do better' },
+    { label: 'P50 NPV', value: formatCompactCurrency(result.npv.p50, currency), hint: 'Median outcome' },
+    { label: 'P90 NPV', value: formatCompactCurrency(result.npv.p90, currency), hint: '10% of runs do better' },
+    {
+      label: 'P(NPV < 0)',
+      value: `${(result.probabilityNegativeNpv * 100).toFixed(1)}%`,
+      hint: `${result.iterations.toLocaleString()} runs`,
+      danger: result.probabilityNegativeNpv > 0.5,
+    },
+  ] : [];
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Dices className="h-5 w-5" />
+            Monte Carlo Simulation
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            {ITERATION_OPTIONS.map(option => (
+              <Button
+                key={option}
+                variant={iterations === option ? 'default' : 'outline'}
+                size="sm"
+                disabled={isRunning}
+                onClick={() => setIterations(option)}
+              >
+                {option.toLocaleString()}
+              </Button>
+            ))}
+            {isRunning ? (
+              <Button size="sm" variant="outline" onClick={cancel}>
+                <Square className="h-4 w-4 mr-1" />
+                Stop
+              </Button>
+            ) : (
+              <Button size="sm" onClick={() => run(businessData, { iterations })} disabled={sampledDrivers.length === 0}>
+                <Play className="h-4 w-4 mr-1" />
+                Run
+              </Button>
+            )}
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Samples every sensitivity driver from its distribution and recalculates the full case on each run
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {sampledDrivers.map(({ driver }) => (
+            <Badge key={driver.key} variant="outline" className="text-xs">
+              {driver.label || driver.key}: {driver.distribution?.type || 'uniform'}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sampledDrivers.length === 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <AlertCircle className="h-4 w-4" />
+            Add drivers with a value range to run a simulation
+          </div>
+        )}
+
+        {isRunning && (
+          <div className="space-y-1">
+            <Progress value={progress * 100} />
+            <p className="text-xs text-muted-foreground">{Math.round(progress * 100)}% of {iterations.toLocaleString()} runs</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-financial-danger">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map(stat => (
+                <div key={stat.label} className="space-y-1">
+                  <p className="text-sm text-muted-foreground">{stat.label}</p>
+                  <p className={`text-xl font-bold font-mono ${stat.danger ? 'text-financial-danger' : ''}`}>{stat.value}</p>
+                  <p className="text-xs text-muted-foreground">{stat.hint}</p>
+                </div>
+              ))}
+            </div>
+
+            {result.failedIterations > 0 && (
+              <p className="text-xs text-financial-warning">
+                {result.failedIterations.toLocaleString()} runs could not be calculated and were excluded
+              </p>
+            )}
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={histogramData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 10 }} />
+                  <Tooltip
+                    formatter={(value: number) => [value.toLocaleString(), 'Runs']}
+                    labelFormatter={(_, payload) => payload?.[0]?.payload?.range || ''}
+                  />
+                  <Bar dataKey="count">
+                    {histogramData.map(bin => (
+                      <Cell
+                        key={bin.range}
+                        fill={bin.isLoss ? 'hsl(var(--financial-danger))' : 'hsl(var(--financial-primary))'}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default MonteCarloAnalysis;
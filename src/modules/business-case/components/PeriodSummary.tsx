@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Calendar } from 'lucide-react';
+import { BusinessData, FrequencyType } from '@/core/types';
+import { aggregateMonthlyData, formatCompactCurrency, getModelFrequency, getModelStartDate, MonthlyData } from '@/core/engine';
+
+interface PeriodSummaryProps {
+  businessData: BusinessData;
+  monthlyData: readonly MonthlyData[];
+}
+
+type RollupFrequency = Exclude<FrequencyType, 'monthly'>;
+
+export function PeriodSummary({ businessData, monthlyData }: PeriodSummaryProps) {
+  // Monthly cases default to annual roll-ups; quarterly and annual cases use their own frequency
+  const modelFrequency = getModelFrequency(businessData);
+  const [frequency, setFrequency] = useState<RollupFrequency>(
+    modelFrequency === 'monthly' ? 'annually' : modelFrequency
+  );
+  const currency = businessData.meta.currency;
+  const isCostSavingsModel = businessData.meta.business_model === 'cost_savings';
+
+  const periods = useMemo(() => {
+    let cumulative = 0;
+    return aggregateMonthlyData(monthlyData, frequency, getModelStartDate(businessData), businessData.meta.business_model)
+      .map(period => {
+        cumulative += period.netCashFlow;
+        return { ...period, cumulativeCashFlow: cumulative };
+      });
+  }, [monthlyData, frequency, businessData]);
+
+  const getValueColor = (value: number) => {
+    if (value > 0) return 'text-financial-success';
+    if (value < 0) return 'text-financial-danger';
+    return 'text-muted-foreground';
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            {frequency === 'quarterly' ? 'Quarterly' : 'Annual'} Summary
+          </CardTitle>
+          <div className="flex gap-1">
+            <Button
+              variant={frequency === 'quarterly' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFrequency('quarterly')}
+            >
+              Quarterly
+            </Button>
+            <Button
+              variant={frequency === 'annually' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFrequency('annually')}
+            >
+              Annual
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Monthly results rolled up for board reporting
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left p-2 font-semibold">Period</th>
+                <th className="text-right p-2 font-semibold">{isCostSavingsModel ? 'Benefits' : 'Revenue'}</th>
+                <th className="text-right p-2 font-semibold">Gross Profit</th>
+                <th className="text-right p-2 font-semibold">EBITDA</th>
+                <th className="text-right p-2 font-semibold">Net Cash Flow</th>
+                <th className="text-right p-2 font-semibold">Cumulative Cash</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map(period => (
+                <tr key={period.period} className="border-b border-border/50">
+                  <td className="p-2 text-muted-foreground">
+                    {period.label}
+                    {period.monthsInPeriod < (frequency === 'quarterly' ? 3 : 12) && (
+                      <span className="ml-1 text-xs">({period.monthsInPeriod} mo)</span>
+                    )}
+                  </td>
+                  <td className="p-2 text-right font-mono">{formatCompactCurrency(period.revenue, currency)}</td>
+                  <td className="p-2 text-right font-mono">{formatCompactCurrency(period.grossProfit, currency)}</td>
+                  <td className={`p-2 text-right font-mono ${getValueColor(period.ebitda)}`}>
+                    {formatCompactCurrency(period.ebitda, currency)}
+                  </td>
+                  <td className={`p-2 text-right font-mono ${getValueColor(period.netCashFlow)}`}>
+                    {formatCompactCurrency(period.netCashFlow, currency)}
+                  </td>
+                  <td className={`p-2 text-right font-mono ${getValueColor(period.cumulativeCashFlow)}`}>
+                    {formatCompactCurrency(period.cumulativeCashFlow, currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PeriodSummary;
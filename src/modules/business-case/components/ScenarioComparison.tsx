@@ -0,0 +1,139 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { AlertCircle } from 'lucide-react';
+import { BusinessData } from '@/core/types';
+import { calculateScenarioComparison, formatCompactCurrency, formatPercent, isIRRError, CalculatedMetrics } from '@/core/engine';
+
+interface ScenarioComparisonProps {
+  businessData: BusinessData;
+}
+
+const SCENARIO_COLORS = [
+  'hsl(var(--financial-primary))',
+  'hsl(var(--financial-success))',
+  'hsl(var(--financial-danger))',
+  'hsl(var(--financial-warning))',
+  'hsl(var(--financial-info))',
+];
+
+export function ScenarioComparison({ businessData }: ScenarioComparisonProps) {
+  const results = useMemo(() => calculateScenarioComparison(businessData), [businessData]);
+  const currency = businessData.meta.currency;
+
+  // One row per period with each scenario's cumulative cash flow as a column
+  const cashCurveData = useMemo(() => {
+    const periods = Math.max(0, ...results.map(result => result.cumulativeCashFlow.length));
+    return Array.from({ length: periods }, (_, i) => {
+      const row: Record<string, number | string> = { period: `M${i + 1}` };
+      results.forEach((result, index) => {
+        if (result.cumulativeCashFlow[i] !== undefined) {
+          row[`scenario_${index}`] = result.cumulativeCashFlow[i];
+        }
+      });
+      return row;
+    });
+  }, [results]);
+
+  const formatIRR = (irr: number) => (isIRRError(irr) || irr < -1 || irr > 1 ? '-' : formatPercent(irr));
+  const formatMonth = (month: number) => (month > 0 ? `M${month}` : 'N/A');
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <CardTitle>Scenarios Analysis</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Each scenario applies its overrides to the base case and is fully recalculated
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left p-2 font-semibold">Metric</th>
+                {results.map((result, index) => (
+                  <th key={index} className="text-right p-2 font-semibold">
+                    <div className="flex items-center justify-end gap-2">
+                      <span
+                        className="inline-block h-2 w-2 rounded-full"
+                        style={{ backgroundColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }}
+                      />
+                      {result.scenario.name}
+                    </div>
+                    {result.scenario.description && (
+                      <p className="text-xs font-normal text-muted-foreground">{result.scenario.description}</p>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[
+                { label: 'Net Present Value', render: (m: CalculatedMetrics) => formatCompactCurrency(m.npv, currency) },
+                { label: 'Internal Rate of Return', render: (m: CalculatedMetrics) => formatIRR(m.irr) },
+                { label: 'Break-even', render: (m: CalculatedMetrics) => formatMonth(m.breakEvenMonth) },
+                { label: 'Payback Period', render: (m: CalculatedMetrics) => formatMonth(m.paybackPeriod) },
+                { label: 'Required Investment', render: (m: CalculatedMetrics) => formatCompactCurrency(m.totalInvestmentRequired, currency) },
+                { label: 'Total Revenue', render: (m: CalculatedMetrics) => formatCompactCurrency(m.totalRevenue, currency) },
+              ].map(row => (
+                <tr key={row.label} className="border-b border-border/50">
+                  <td className="p-2 text-muted-foreground">{row.label}</td>
+                  {results.map((result, index) => (
+                    <td key={index} className="p-2 text-right font-mono">
+                      {result.metrics ? row.render(result.metrics) : '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {results.some(result => result.error) && (
+          <div className="space-y-1">
+            {results.filter(result => result.error).map((result, index) => (
+              <div key={index} className="flex items-center gap-2 text-xs text-financial-danger">
+                <AlertCircle className="h-3 w-3" />
+                <Badge variant="outline" className="text-xs">{result.scenario.name}</Badge>
+                {result.error}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <h4 className="font-semibold mb-3 text-sm">Cumulative Cash Flow</h4>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={cashCurveData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="period" stroke="hsl(var(--muted-foreground))" />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  tickFormatter={(value: number) => formatCompactCurrency(value, currency)}
+                />
+                <Tooltip formatter={(value: number) => formatCompactCurrency(value, currency)} />
+                <Legend />
+                {results.map((result, index) => (
+                  <Line
+                    key={index}
+                    type="monotone"
+                    dataKey={`scenario_${index}`}
+                    name={result.scenario.name}
+                    stroke={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ScenarioComparison;
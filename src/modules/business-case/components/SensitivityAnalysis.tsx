@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { formatCurrency } from '@/core/engine';
+import { formatCompactCurrency } from '@/core/engine';
 import { getNestedValue } from '@/core/engine';
 
 interface Driver {
@@ -98,7 +98,7 @@ export function SensitivityAnalysis({
                 return 'N/A';
               }
               if (businessData.meta.currency && driver.path.includes('price')) {
-                return formatCurrency(value, businessData.meta.currency);
+                return formatCompactCurrency(value, businessData.meta.currency);
               }
               if (isPercentage) {
                 return `${(value * 100).toFixed(1)}%`;
@@ -112,7 +112,7 @@ export function SensitivityAnalysis({
                 return 'N/A';
               }
               if (businessData.meta.currency && driver.path.includes('price')) {
-                return formatCurrency(value, businessData.meta.currency).replace(/[€$£]/g, '').trim();
+                return formatCompactCurrency(value, businessData.meta.currency).replace(/[€$£]/g, '').trim();
               }
               if (isPercentage) {
                 return (value * 100).toFixed(1);
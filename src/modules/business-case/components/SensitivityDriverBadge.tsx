@@ -8,7 +8,7 @@ import { cn } from '@/lib/utils';
 
 interface SensitivityDriverBadgeProps {
   path: string;
-  currentRange?: number[];
+  currentRange?: readonly number[];
   onUpdateRange: (range: number[]) => void;
   onRemove: () => void;
   unit?: string;
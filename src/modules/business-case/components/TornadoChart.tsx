@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { AlertCircle, BarChartHorizontal } from 'lucide-react';
+import { BusinessData } from '@/core/types';
+import { calculateTornado, formatCompactCurrency } from '@/core/engine';
+
+interface TornadoChartProps {
+  businessData: BusinessData;
+}
+
+export function TornadoChart({ businessData }: TornadoChartProps) {
+  const currency = businessData.meta.currency;
+  const { baseNpv, bars } = useMemo(() => calculateTornado(businessData), [businessData]);
+
+  // Each bar spans the NPV at the two ends of the driver range
+  const chartData = useMemo(() => bars.map(bar => ({
+    name: bar.driver.label || bar.driver.key,
+    span: [Math.min(bar.npvAtLow, bar.npvAtHigh), Math.max(bar.npvAtLow, bar.npvAtHigh)],
+    npvAtLow: bar.npvAtLow,
+    npvAtHigh: bar.npvAtHigh,
+    lowValue: bar.lowValue,
+    highValue: bar.highValue,
+    swing: bar.swing,
+    raisesNpv: bar.npvAtHigh >= bar.npvAtLow,
+  })), [bars]);
+
+  return (
+    <Card className="bg-gradient-card shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChartHorizontal className="h-5 w-5" />
+          NPV Tornado
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          NPV at the low and high end of each driver range, largest swing first. Base NPV {formatCompactCurrency(baseNpv, currency)}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {chartData.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <AlertCircle className="h-4 w-4" />
+            Add drivers with a value range to rank their impact
+          </div>
+        ) : (
+          <div style={{ height: Math.max(160, chartData.length * 44) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} layout="vertical" margin={{ left: 16, right: 16 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  type="number"
+                  domain={['auto', 'auto']}
+                  tick={{ fontSize: 10 }}
+                  tickFormatter={(value: number) => formatCompactCurrency(value, currency)}
+                />
+                <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    const bar = active && payload?.[0]?.payload;
+                    if (!bar) return null;
+                    return (
+                      <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+                        <p className="font-medium">{bar.name}</p>
+                        <p>At {bar.lowValue.toLocaleString()}: {formatCompactCurrency(bar.npvAtLow, currency)}</p>
+                        <p>At {bar.highValue.toLocaleString()}: {formatCompactCurrency(bar.npvAtHigh, currency)}</p>
+                        <p className="text-muted-foreground">Swing {formatCompactCurrency(bar.swing, currency)}</p>
+                      </div>
+                    );
+                  }}
+                />
+                <ReferenceLine x={baseNpv} stroke="hsl(var(--foreground))" strokeDasharray="4 4" />
+                <Bar dataKey="span">
+                  {chartData.map(bar => (
+                    <Cell
+                      key={bar.name}
+                      fill={bar.raisesNpv ? 'hsl(var(--financial-primary))' : 'hsl(var(--financial-danger))'}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TornadoChart;
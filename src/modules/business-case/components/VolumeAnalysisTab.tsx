@@ -30,11 +30,11 @@ import {
   Percent
 } from 'lucide-react';
 import { useBusinessData } from '@/core/contexts';
-import { setNestedValue } from '@/core/engine';
+import { setNestedValue, getModelPeriods } from '@/core/engine';
 import { SensitivityAnalysis } from './SensitivityAnalysis';
 import { 
   calculateBusinessMetrics, 
-  formatCurrency, 
+  formatCompactCurrency, 
   calculateDynamicSegmentVolume, 
   calculateDynamicUnitPrice 
 } from '@/core/engine';
@@ -161,7 +161,7 @@ export function VolumeAnalysisTab() {
     }
 
     const segments = businessData.assumptions?.customers?.segments || [];
-    const periods = businessData.meta.periods;
+    const periods = getModelPeriods(businessData);
     const numYears = Math.ceil(periods / 12);
     const currency = businessData.meta.currency;
 
@@ -431,7 +431,7 @@ export function VolumeAnalysisTab() {
               </div>
               <div className="flex justify-between items-center text-sm">
                 <span className="text-muted-foreground">Total Value</span>
-                <span className="font-semibold">{formatCurrency(summary.totalValue, currency)}</span>
+                <span className="font-semibold">{formatCompactCurrency(summary.totalValue, currency)}</span>
               </div>
               <div className="flex justify-between items-center text-sm">
                 <span className="text-muted-foreground">Avg Monthly</span>
@@ -439,7 +439,7 @@ export function VolumeAnalysisTab() {
               </div>
               <div className="flex justify-between items-center text-sm">
                 <span className="text-muted-foreground">Avg Price</span>
-                <span className="font-semibold">{formatCurrency(summary.avgPrice, currency)}</span>
+                <span className="font-semibold">{formatCompactCurrency(summary.avgPrice, currency)}</span>
               </div>
             </CardContent>
           </Card>
@@ -635,7 +635,7 @@ export function VolumeAnalysisTab() {
                           border: '1px solid hsl(var(--border))',
                           borderRadius: '8px',
                         }}
-                        formatter={(value: number) => [formatCurrency(value, currency), '']}
+                        formatter={(value: number) => [formatCompactCurrency(value, currency), '']}
                       />
                       <Legend />
                       {segments.map((segment, index) => (
@@ -669,7 +669,7 @@ export function VolumeAnalysisTab() {
                           border: '1px solid hsl(var(--border))',
                           borderRadius: '8px',
                         }}
-                        formatter={(value: number) => [formatCurrency(value, currency), '']}
+                        formatter={(value: number) => [formatCompactCurrency(value, currency), '']}
                       />
                       <Legend />
                       {segments.map((segment, index) => (
@@ -723,7 +723,7 @@ export function VolumeAnalysisTab() {
                         </div>
                         <div className="flex justify-between text-xs text-muted-foreground">
                           <span>{summary.totalVolume.toLocaleString()} units</span>
-                          <span>{formatCurrency(summary.totalValue, currency)}</span>
+                          <span>{formatCompactCurrency(summary.totalValue, currency)}</span>
                         </div>
                       </div>
                     ))}
@@ -916,7 +916,7 @@ export function VolumeAnalysisTab() {
                   <div>
                     <span className="text-muted-foreground font-medium">Total Revenue:</span>
                     <div className="mt-1 font-semibold">
-                      {formatCurrency(
+                      {formatCompactCurrency(
                         segmentSummaries.find(s => s.id === segment.id)?.totalValue || 0, 
                         currency
                       )}
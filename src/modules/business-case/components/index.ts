@@ -3,5 +3,11 @@ export { FinancialAnalysis } from './FinancialAnalysis';
 export { AssumptionsTab } from './AssumptionsTab';
 export { CashFlowStatement } from './CashFlowStatement';
 export { SensitivityAnalysis } from './SensitivityAnalysis';
+export { ScenarioComparison } from './ScenarioComparison';
+export { MonteCarloAnalysis } from './MonteCarloAnalysis';
+export { TornadoChart } from './TornadoChart';
+export { GoalSeek } from './GoalSeek';
+export { PeriodSummary } from './PeriodSummary';
+export { FundingSummary } from './FundingSummary';
 export { JSONTemplateComponent } from './JSONTemplateComponent';
 export { EvidenceTrailPanel } from './EvidenceTrailPanel';
@@ -11,6 +11,12 @@ export { AssumptionsTab } from './components/AssumptionsTab';
 export { CashFlowStatement } from './components/CashFlowStatement';
 export { FinancialAnalysis } from './components/FinancialAnalysis';
 export { SensitivityAnalysis } from './components/SensitivityAnalysis';
+export { ScenarioComparison } from './components/ScenarioComparison';
+export { MonteCarloAnalysis } from './components/MonteCarloAnalysis';
+export { TornadoChart } from './components/TornadoChart';
+export { GoalSeek } from './components/GoalSeek';
+export { PeriodSummary } from './components/PeriodSummary';
+export { FundingSummary } from './components/FundingSummary';
 export { VolumeAnalysisTab } from './components/VolumeAnalysisTab';
 
 // UI components
@@ -31,7 +31,8 @@ import {
   FileText,
   BarChart3,
   Copy,
-  CheckCircle2
+  CheckCircle2,
+  ShieldAlert
 } from 'lucide-react';
 import { useMarketData, useNavigation } from '@/core/contexts';
 import { MarketData } from '@/core/types';
@@ -45,6 +46,7 @@ import { CompetitiveIntelligenceModule } from './modules/CompetitiveIntelligence
 import { CompetitorMatrixGenerator } from './modules/CompetitorMatrixGenerator';
 import { CustomerAnalysisModule } from './modules/CustomerAnalysisModule';
 import { StrategicPlanningModule } from './modules/StrategicPlanningModule';
+import { RiskRegisterModule } from './modules/RiskRegisterModule';
 import { OpportunityAssessmentModule } from './modules/OpportunityAssessmentModule';
 import { DataManagementModule } from './modules/DataManagementModule';
 import { MarketAssumptionsTab } from './MarketAssumptionsTab';
@@ -170,6 +172,13 @@ export function MarketAnalysisSuite({ onExportResults, onImportData, className }
       description: 'Market entry and growth strategies',
       color: 'bg-orange-500'
     },
+    {
+      id: 'risks',
+      title: 'Risks',
+      icon: ShieldAlert,
+      description: 'Risk register, heatmap and downside scenarios',
+      color: 'bg-rose-500'
+    },
     {
       id: 'assumptions',
       title: 'Assumptions',
@@ -595,7 +604,7 @@ export function MarketAnalysisSuite({ onExportResults, onImportData, className }
 
       {/* Main Tabs Interface */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="grid w-full grid-cols-8">
           {moduleConfig.map((module) => {
             const IconComponent = module.icon;
             return (
@@ -809,6 +818,14 @@ export function MarketAnalysisSuite({ onExportResults, onImportData, className }
           />
         </TabsContent>
 
+        <TabsContent value="risks" className="space-y-6">
+          <RiskRegisterModule
+            marketData={marketData}
+            onDataUpdate={handleDataUpdate}
+            metrics={suiteMetrics}
+          />
+        </TabsContent>
+
         <TabsContent value="assumptions" className="space-y-6">
           <MarketAssumptionsTab />
         </TabsContent>
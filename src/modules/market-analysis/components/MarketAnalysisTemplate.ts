@@ -155,7 +155,12 @@ const modules = {
           name: "TODO-Strategy Name",
           type: "partnership",
           essence: "TODO-PARAGRAPH 1: Core approach.\n\nTODO-PARAGRAPH 2: Resources needed.\n\nTODO-PARAGRAPH 3: Timeline and outcomes.",
-          rationale: "TODO-PARAGRAPH 1: Why appropriate.\n\nTODO-PARAGRAPH 2: Advantages.\n\nTODO-PARAGRAPH 3: Risk mitigation."
+          rationale: "TODO-PARAGRAPH 1: Why appropriate.\n\nTODO-PARAGRAPH 2: Advantages.\n\nTODO-PARAGRAPH 3: Risk mitigation.",
+          investment_required: { value: 0.0, unit: "EUR", rationale: "TODO-Upfront investment to execute this option" },
+          expected_return: { value: 0.0, unit: "EUR", rationale: "TODO-Return if the option succeeds" },
+          time_to_market: { value: 0.0, unit: "months", rationale: "TODO-Months until first revenue" },
+          probability: { value: 0.0, unit: "percentage", rationale: "TODO-Chance of success" },
+          risk_level: "medium"
         }
       ],
       data_sources: ["TODO-Source"]
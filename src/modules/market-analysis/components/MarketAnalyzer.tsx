@@ -10,8 +10,8 @@ import { AlertCircle, TrendingUp, Users, Target, PieChart, BarChart3, Download,
 import { LineChart, Line, AreaChart, Area, PieChart as RechartsPieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart } from 'recharts';
 import { Textarea } from '@/components/ui/textarea';
 import { MarketAnalysisTemplate } from './MarketAnalysisTemplate';
+import { MarketData } from '@/core/types';
 import { 
-  MarketData,
   MarketMetrics,
   MarketVolumeProjection,
   calculateMarketTAM,
@@ -1,19 +1,22 @@
 import React, { useState, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Target, TrendingUp, Users, Info, BarChart3, Building2 } from 'lucide-react';
+import { Target, TrendingUp, Users, Info, BarChart3, Building2, ListChecks } from 'lucide-react';
 import { useMarketData } from '@/core/contexts';
-import { MarketData, MarketDriver } from '@/core/engine';
+import { Driver, MarketData } from '@/core/types';
 import { EditableValueCell, EditableRationaleCell } from '@/components/common';
 import { SensitivityDriverBadge } from '@/modules/business-case/components/SensitivityDriverBadge';
+import { BatchReviewDialog } from '@/components/features/AssumptionDebate';
 import { extractMarketAssumptions, groupAssumptionsByCategory, getCategoryOrder } from '@/core/engine/utils/market-path-utils';
 
 export function MarketAssumptionsTab() {
   const { data: marketData, updateAssumption, addDriver, removeDriver, updateDriverRange } = useMarketData();
   
   const [changedValuePaths, setChangedValuePaths] = useState<Set<string>>(new Set());
+  const [batchReviewOpen, setBatchReviewOpen] = useState(false);
 
   if (!marketData) {
     return (
@@ -82,14 +85,14 @@ export function MarketAssumptionsTab() {
 
   // Check if a path is a sensitivity driver
   const isDriver = (path: string): boolean => {
-    const data = marketData as MarketData & { drivers?: MarketDriver[] };
+    const data = marketData as MarketData;
     if (!data?.drivers) return false;
     return data.drivers.some(d => d.path === path);
   };
 
   // Get driver for a path
-  const getDriver = (path: string): MarketDriver | undefined => {
-    const data = marketData as MarketData & { drivers?: MarketDriver[] };
+  const getDriver = (path: string): Driver | undefined => {
+    const data = marketData as MarketData;
     if (!data?.drivers) return undefined;
     return data.drivers.find(d => d.path === path);
   };
@@ -97,11 +100,11 @@ export function MarketAssumptionsTab() {
   // Toggle driver status
   const handleToggleDriver = (path: string, label: string, rationale: string) => {
     if (isDriver(path)) {
-      removeMarketDriver(path);
+      removeDriver(path);
     } else {
       // Default range with 5 values (Very Low, Low, Base, High, Very High)
       const defaultRange = [0, 0, 0, 0, 0];
-      addMarketDriver(label, path, defaultRange, rationale || `Sensitivity analysis for ${label}`);
+      addDriver(label, path, defaultRange, rationale || `Sensitivity analysis for ${label}`);
     }
   };
 
@@ -134,6 +137,15 @@ export function MarketAssumptionsTab() {
           <CardTitle className="text-xl flex items-center gap-2">
             <BarChart3 className="h-6 w-6" />
             Market Analysis Assumptions
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBatchReviewOpen(true)}
+              className="ml-auto gap-2"
+            >
+              <ListChecks className="h-4 w-4" />
+              Review AI Assumptions
+            </Button>
           </CardTitle>
           <p className="text-muted-foreground mt-2">
             Edit market sizing, competitive intelligence, and customer analysis assumptions directly.
@@ -148,7 +160,7 @@ export function MarketAssumptionsTab() {
             </div>
             <div className="text-center p-4 bg-muted/50 rounded-lg">
               <div className="text-2xl font-bold text-financial-warning">
-                {(marketData as MarketData & { drivers?: MarketDriver[] }).drivers?.length || 0}
+                {(marketData as MarketData).drivers?.length || 0}
               </div>
               <div className="text-sm text-muted-foreground">Sensitivity Drivers</div>
             </div>
@@ -247,8 +259,8 @@ export function MarketAssumptionsTab() {
                                     <SensitivityDriverBadge
                                       path={driver.path}
                                       currentRange={driver.range}
-                                      onUpdateRange={(range) => updateMarketDriverRange(row.path, range)}
-                                      onRemove={() => removeMarketDriver(row.path)}
+                                      onUpdateRange={(range) => updateDriverRange(row.path, range)}
+                                      onRemove={() => removeDriver(row.path)}
                                     />
                                   )}
                                 </div>
@@ -310,6 +322,21 @@ export function MarketAssumptionsTab() {
           </CardContent>
         </Card>
       )}
+
+      {/* Batch Review Dialog (mounted while open so each review starts from the current data) */}
+      {batchReviewOpen && (
+        <BatchReviewDialog
+          open
+          onOpenChange={setBatchReviewOpen}
+          target="market"
+          data={marketData}
+          title={marketData.meta?.title || 'Market analysis'}
+          onApply={(path, newValue, reasoning) => {
+            updateAssumption(`${path}.value`, newValue);
+            updateAssumption(`${path}.rationale`, reasoning);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,231 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Slider } from '@/components/ui/slider';
+import { AlertTriangle, CheckCircle, Layers, Plus, Trash2 } from 'lucide-react';
+
+import type { BottomUpSizing, BottomUpSizingLine, MarketData, MarketSizingMethod } from '@/core/types';
+import {
+  calculateBottomUpLine,
+  formatMarketCurrency,
+  getMarketSizingComparison,
+} from '@/core/engine';
+
+interface BottomUpSizingCardProps {
+  marketData: MarketData;
+  onDataUpdate: (data: MarketData) => void;
+}
+
+type LineField = 'target_accounts' | 'adoption_rate' | 'annual_spend';
+
+const METHOD_LABELS: Record<MarketSizingMethod, string> = {
+  top_down: 'Top-down',
+  bottom_up: 'Bottom-up',
+  blended: 'Blended',
+};
+
+const LINE_FIELDS: Array<{ field: LineField; label: string }> = [
+  { field: 'target_accounts', label: 'Target accounts' },
+  { field: 'adoption_rate', label: 'Adoption %' },
+  { field: 'annual_spend', label: 'Annual spend' },
+];
+
+const createLine = (index: number): BottomUpSizingLine => ({
+  id: `line_${Date.now()}`,
+  label: `Segment ${index + 1}`,
+  target_accounts: { value: 0, unit: 'accounts', rationale: '' },
+  adoption_rate: { value: 0, unit: 'percentage', rationale: '' },
+  annual_spend: { value: 0, unit: 'EUR_per_year', rationale: '' },
+});
+
+export function BottomUpSizingCard({ marketData, onDataUpdate }: BottomUpSizingCardProps) {
+  const bottomUp: BottomUpSizing = marketData?.market_sizing?.bottom_up || { lines: [] };
+  const comparison = useMemo(() => getMarketSizingComparison(marketData), [marketData]);
+  const currency = marketData?.meta?.currency || 'EUR';
+
+  const updateBottomUp = (patch: Partial<BottomUpSizing>) => {
+    onDataUpdate({
+      ...marketData,
+      market_sizing: {
+        ...marketData.market_sizing,
+        bottom_up: { ...bottomUp, ...patch },
+      },
+    });
+  };
+
+  const updateLine = (index: number, patch: Partial<BottomUpSizingLine>) => {
+    updateBottomUp({
+      lines: bottomUp.lines.map((line, i) => (i === index ? { ...line, ...patch } : line)),
+    });
+  };
+
+  const updateLineValue = (index: number, field: LineField, value: string) => {
+    const line = bottomUp.lines[index];
+    updateLine(index, { [field]: { ...line[field], value: parseFloat(value) || 0 } });
+  };
+
+  const blendWeight = bottomUp.blend_weight ?? 50;
+  const divergencePct = comparison.divergence !== null ? comparison.divergence * 100 : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-indigo-600" />
+            Bottom-up Sizing
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateBottomUp({ lines: [...bottomUp.lines, createLine(bottomUp.lines.length)] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add segment or region
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {bottomUp.lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Build the obtainable market from target accounts × adoption rate × annual spend per account,
+            then compare it with the top-down TAM → SAM → SOM funnel.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-2 font-medium">Segment / region</th>
+                  {LINE_FIELDS.map(({ field, label }) => (
+                    <th key={field} className="py-2 px-2 font-medium text-right">{label}</th>
+                  ))}
+                  <th className="py-2 px-2 font-medium text-right">Annual value</th>
+                  <th className="py-2 pl-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {bottomUp.lines.map((line, index) => (
+                  <tr key={line.id} className="border-b last:border-0">
+                    <td className="py-2 pr-2">
+                      <Input
+                        value={line.label}
+                        onChange={(e) => updateLine(index, { label: e.target.value })}
+                        className="h-8"
+                      />
+                    </td>
+                    {LINE_FIELDS.map(({ field }) => (
+                      <td key={field} className="py-2 px-2">
+                        <Input
+                          type="number"
+                          value={line[field]?.value ?? 0}
+                          onChange={(e) => updateLineValue(index, field, e.target.value)}
+                          className="h-8 text-right"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-2 px-2 text-right font-medium">
+                      {formatMarketCurrency(calculateBottomUpLine(line), currency)}
+                    </td>
+                    <td className="py-2 pl-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateBottomUp({ lines: bottomUp.lines.filter((_, i) => i !== index) })}
+                        className="h-8 w-8 p-0"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="p-3 rounded-lg bg-muted/40">
+            <div className="text-xs text-muted-foreground">Top-down SOM</div>
+            <div className="text-lg font-semibold">{formatMarketCurrency(comparison.topDown, currency)}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/40">
+            <div className="text-xs text-muted-foreground">Bottom-up estimate</div>
+            <div className="text-lg font-semibold">{formatMarketCurrency(comparison.bottomUp, currency)}</div>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/40">
+            <div className="text-xs text-muted-foreground">Divergence</div>
+            {divergencePct === null ? (
+              <div className="text-lg font-semibold text-muted-foreground">-</div>
+            ) : (
+              <div className={`text-lg font-semibold flex items-center gap-2 ${comparison.diverges ? 'text-red-600' : 'text-green-600'}`}>
+                {comparison.diverges ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                {divergencePct > 0 ? '+' : ''}{divergencePct.toFixed(0)}%
+              </div>
+            )}
+          </div>
+        </div>
+
+        {comparison.diverges && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              The bottom-up estimate is {Math.abs(divergencePct!).toFixed(0)}% {divergencePct! > 0 ? 'above' : 'below'} the
+              top-down SOM (threshold {bottomUp.divergence_threshold ?? 25}%). Revisit the SAM/SOM percentages or the
+              account, adoption and spend assumptions before relying on either figure.
+            </span>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm font-medium">Figure that feeds SOM</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={bottomUp.selected_method || 'top_down'}
+              onValueChange={(value) => value && updateBottomUp({ selected_method: value as MarketSizingMethod })}
+            >
+              {(Object.keys(METHOD_LABELS) as MarketSizingMethod[]).map((method) => (
+                <ToggleGroupItem
+                  key={method}
+                  value={method}
+                  disabled={method !== 'top_down' && comparison.bottomUp <= 0}
+                >
+                  {METHOD_LABELS[method]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          {comparison.method === 'blended' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Top-down {100 - blendWeight}%</span>
+                <span>Bottom-up {blendWeight}%</span>
+              </div>
+              <Slider
+                value={[blendWeight]}
+                min={0}
+                max={100}
+                step={5}
+                onValueChange={([value]) => updateBottomUp({ blend_weight: value })}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">SOM used in the analysis</span>
+            <span className="flex items-center gap-2 font-semibold">
+              {formatMarketCurrency(comparison.selected, currency)}
+              <Badge variant="outline">{METHOD_LABELS[comparison.method]}</Badge>
+            </span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
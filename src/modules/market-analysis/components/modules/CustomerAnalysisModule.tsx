@@ -1,7 +1,9 @@
-﻿import React, { useMemo } from 'react';
+﻿import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { 
+  AreaChart,
+  Area,
   BarChart, 
   Bar, 
   PieChart,
@@ -14,10 +16,14 @@ import {
   Cell,
   Legend
 } from 'recharts';
-import { Users, DollarSign } from 'lucide-react';
+import { Users, DollarSign, Layers, ShoppingCart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
 
 import { MarketData } from '@/core/types';
 import { MarketSuiteMetrics } from '@/core/engine/calculators/market-suite-calculations';
+import { calculateSegmentProjections, OTHER_SEGMENT_ID } from '@/core/engine/calculators/market-calculator';
+import { marketInsightsCart } from '@/core/services/market-insights-cart.service';
 import { ValueWithRationale } from '../ValueWithRationale';
 import { ModuleImportCard } from '@/modules/market-analysis/components/shared/ModuleImportCard';
 import { mergeMarketData } from '@/core/engine/utils/market-data-utils';
@@ -80,6 +86,33 @@ export function CustomerAnalysisModule({ marketData, onDataUpdate, metrics }: Cu
     return segments.reduce((sum, seg) => sum + (seg.size_value?.value || 0), 0);
   }, [segments]);
 
+  // Segment SOM per year, each segment growing at its own rate
+  const segmentProjection = useMemo(() => {
+    const baseYear = marketData?.meta?.base_year || 2024;
+    const horizon = marketData?.meta?.analysis_horizon_years || 5;
+
+    return Array.from({ length: horizon + 1 }, (_, i) => {
+      const projections = calculateSegmentProjections(marketData, i * 12);
+      return projections.reduce(
+        (row, segment) => ({ ...row, [segment.id]: segment.som }),
+        { year: baseYear + i } as Record<string, number>
+      );
+    });
+  }, [marketData]);
+
+  const projectedSegments = useMemo(() => calculateSegmentProjections(marketData, 0), [marketData]);
+  const [showMix, setShowMix] = useState(false);
+  const { toast } = useToast();
+
+  const handleAddSegmentToCart = async (segmentId: string, segmentName: string) => {
+    const insight = await marketInsightsCart.extractSegmentInsight(marketData, segmentId);
+    const added = insight ? await marketInsightsCart.addInsight(insight) : false;
+
+    toast(added
+      ? { title: 'Added to insights cart', description: `${segmentName} SOM is ready to transfer to a business case.` }
+      : { title: 'Could not add segment', description: `${segmentName} is already in the cart or has no SOM.`, variant: 'destructive' });
+  };
+
   const formatCurrency = (value: number) => {
     if (value >= 1000000000) {
       return `€${(value / 1000000000).toFixed(1)}B`;
@@ -208,6 +241,81 @@ export function CustomerAnalysisModule({ marketData, onDataUpdate, metrics }: Cu
         </Card>
       </div>
 
+      {projectedSegments.length > 0 && (
+        <Card className="bg-gradient-card shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Layers className="h-5 w-5 text-purple-600" />
+                Segment SOM Mix-Shift
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setShowMix(!showMix)}>
+                {showMix ? 'Show values' : 'Show mix %'}
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={segmentProjection} stackOffset={showMix ? 'expand' : 'none'}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="year" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis
+                    stroke="hsl(var(--muted-foreground))"
+                    fontSize={12}
+                    tickFormatter={(value) => showMix ? `${Math.round(value * 100)}%` : formatCurrency(value)}
+                  />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Legend />
+                  {projectedSegments.map((segment, index) => (
+                    <Area
+                      key={segment.id}
+                      type="monotone"
+                      dataKey={segment.id}
+                      name={segment.name}
+                      stackId="som"
+                      stroke={COLORS[index % COLORS.length]}
+                      fill={COLORS[index % COLORS.length]}
+                      fillOpacity={0.6}
+                    />
+                  ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="divide-y">
+              {projectedSegments.map((segment, index) => {
+                const finalSom = segmentProjection[segmentProjection.length - 1]?.[segment.id] || 0;
+                return (
+                  <div key={segment.id} className="flex items-center justify-between py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+                      <span className="font-medium">{segment.name}</span>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className="text-muted-foreground">
+                        SOM {formatCurrency(segment.som)} → {formatCurrency(finalSom)}
+                      </span>
+                      {segment.id !== OTHER_SEGMENT_ID && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleAddSegmentToCart(segment.id, segment.name)}
+                          className="h-7 px-2 text-xs"
+                        >
+                          <ShoppingCart className="h-3 w-3 mr-1" />
+                          Add SOM to cart
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Segment Details</CardTitle>
@@ -12,9 +12,10 @@ import {
 import { Target, TrendingUp, DollarSign, Users } from 'lucide-react';
 
 import { MarketData } from '@/core/types';
-import { formatMarketCurrency } from '@/core/engine';
+import { calculateMarketSOM, formatMarketCurrency, getMarketSizingComparison } from '@/core/engine';
 import { MarketSuiteMetrics } from '@/core/engine/calculators/market-suite-calculations';
 import { ValueWithRationale } from '../ValueWithRationale';
+import { BottomUpSizingCard } from './BottomUpSizingCard';
 
 interface MarketSizingModuleProps {
   marketData: MarketData;
@@ -30,9 +31,9 @@ export function MarketSizingModule({ marketData, onDataUpdate, metrics }: Market
     const somPercentage = (marketData?.market_sizing?.serviceable_obtainable_market?.percentage_of_sam?.value || 0) / 100;
     
     const sam = tam * samPercentage;
-    const som = sam * somPercentage;
+    const sizing = getMarketSizingComparison(marketData);
     
-    return { tam, sam, som, samPercentage: samPercentage * 100, somPercentage: somPercentage * 100 };
+    return { tam, sam, som: sizing.selected, sizing, samPercentage: samPercentage * 100, somPercentage: somPercentage * 100 };
   }, [marketData]);
 
   // Market growth projection - 6 year forecast
@@ -41,13 +42,12 @@ export function MarketSizingModule({ marketData, onDataUpdate, metrics }: Market
     const tam = marketData?.market_sizing?.total_addressable_market?.base_value?.value || 0;
     const growthRate = marketData?.market_sizing?.total_addressable_market?.growth_rate?.value || 0;
     const samPercentage = (marketData?.market_sizing?.serviceable_addressable_market?.percentage_of_tam?.value || 0) / 100;
-    const somPercentage = (marketData?.market_sizing?.serviceable_obtainable_market?.percentage_of_sam?.value || 0) / 100;
     
     return Array.from({ length: 6 }, (_, i) => ({
       year: baseYear + i,
       tam: tam * Math.pow(1 + growthRate / 100, i),
       sam: tam * Math.pow(1 + growthRate / 100, i) * samPercentage,
-      som: tam * Math.pow(1 + growthRate / 100, i) * samPercentage * somPercentage
+      som: calculateMarketSOM(marketData, baseYear + i)
     }));
   }, [marketData]);
 
@@ -119,7 +119,9 @@ export function MarketSizingModule({ marketData, onDataUpdate, metrics }: Market
               />
             </div>
             <div className="text-sm text-muted-foreground">
-              {marketSizingData.somPercentage.toFixed(1)}% of SAM
+              {marketSizingData.sizing.method === 'top_down'
+                ? `${marketSizingData.somPercentage.toFixed(1)}% of SAM`
+                : `${marketSizingData.sizing.method === 'bottom_up' ? 'Bottom-up' : 'Blended'} estimate`}
             </div>
           </CardContent>
         </Card>
@@ -146,6 +148,8 @@ export function MarketSizingModule({ marketData, onDataUpdate, metrics }: Market
         </Card>
       </div>
 
+      <BottomUpSizingCard marketData={marketData} onDataUpdate={onDataUpdate} />
+
       {/* Market Growth Projection Chart */}
       <Card className="bg-gradient-card shadow-card">
         <CardHeader>
@@ -251,6 +255,14 @@ export function MarketSizingModule({ marketData, onDataUpdate, metrics }: Market
                 {marketData?.market_sizing?.serviceable_obtainable_market?.percentage_of_sam?.rationale && (
                   <span> {marketData.market_sizing.serviceable_obtainable_market.percentage_of_sam.rationale}</span>
                 )}
+                {marketSizingData.sizing.bottomUp > 0 && (
+                  <span>
+                    {' '}The bottom-up build of target accounts, adoption and spend gives <span className="font-semibold text-foreground">{formatMarketCurrency(marketSizingData.sizing.bottomUp)}</span>
+                    {marketSizingData.sizing.method !== 'top_down' && (
+                      <>; the analysis uses the {marketSizingData.sizing.method === 'bottom_up' ? 'bottom-up' : 'blended'} figure of <span className="font-semibold text-foreground">{formatMarketCurrency(marketSizingData.sizing.selected)}</span></>
+                    )}.
+                  </span>
+                )}
               </p>
             </div>
           </div>
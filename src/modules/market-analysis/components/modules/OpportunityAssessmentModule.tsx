@@ -24,6 +24,7 @@ import { TrendingUp, AlertTriangle, CheckCircle, Clock, Target } from 'lucide-re
 
 import { MarketData } from '@/core/types';
 import { MarketSuiteMetrics, createOpportunityMatrix } from '@/core/engine/calculators/market-suite-calculations';
+import { scoreRisks } from '@/core/engine/calculators/risk-calculator';
 
 interface OpportunityAssessmentModuleProps {
   marketData: MarketData;
@@ -41,15 +42,14 @@ export function OpportunityAssessmentModule({ marketData, onDataUpdate, metrics
     [marketData]
   );
 
-  // Risk assessment
+  // Risk assessment, scored by the risk register after mitigation
   const riskAssessment = useMemo(() => {
-    const risks = marketData?.market_dynamics?.market_risks || [];
-    return risks.map(risk => ({
-      ...risk,
-      riskScore: (risk.probability === 'high' ? 3 : risk.probability === 'medium' ? 2 : 1) *
-                 (risk.impact === 'high' ? 3 : risk.impact === 'medium' ? 2 : 1),
-      color: RISK_COLORS[risk.probability as keyof typeof RISK_COLORS]
-    })).sort((a, b) => b.riskScore - a.riskScore);
+    return scoreRisks(marketData?.risk_assessment?.risks || []).map(scored => ({
+      ...scored.risk,
+      mitigation: scored.risk.mitigation_strategy,
+      riskScore: Math.round(scored.residualScore * 10) / 10,
+      color: RISK_COLORS[scored.severity]
+    }));
   }, [marketData]);
 
   // Growth drivers assessment
@@ -0,0 +1,231 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ShieldAlert, ShieldCheck, TrendingDown } from 'lucide-react';
+
+import type { MarketData, MarketRisk, MitigationStatus, RiskRating } from '@/core/types';
+import {
+  buildRiskHeatmap,
+  buildRiskScenario,
+  calculateRiskRegisterScore,
+  scoreRisks,
+  type ScoredRisk,
+} from '@/core/engine';
+import { MarketSuiteMetrics } from '@/core/engine/calculators/market-suite-calculations';
+import { useBusinessData } from '@/core/contexts';
+import { useToast } from '@/hooks/use-toast';
+import { DriverBindingEditor } from '@/modules/market-analysis/components/shared/DriverBindingEditor';
+
+interface RiskRegisterModuleProps {
+  marketData: MarketData;
+  onDataUpdate: (data: MarketData) => void;
+  metrics: MarketSuiteMetrics | null;
+}
+
+const SEVERITY_CLASSES: Record<RiskRating, string> = {
+  high: 'bg-red-100 text-red-800 border-red-200',
+  medium: 'bg-amber-100 text-amber-800 border-amber-200',
+  low: 'bg-green-100 text-green-800 border-green-200',
+};
+
+const CELL_CLASSES: Record<number, string> = {
+  1: 'bg-green-100',
+  2: 'bg-green-200',
+  3: 'bg-amber-100',
+  4: 'bg-amber-200',
+  6: 'bg-red-200',
+  9: 'bg-red-300',
+};
+
+const MITIGATION_LABELS: Record<MitigationStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  implemented: 'Implemented',
+};
+
+export function RiskRegisterModule({ marketData, onDataUpdate, metrics }: RiskRegisterModuleProps) {
+  const risks = useMemo(() => marketData?.risk_assessment?.risks || [], [marketData]);
+  const scoredRisks = useMemo(() => scoreRisks(risks), [risks]);
+  const heatmap = useMemo(() => buildRiskHeatmap(risks), [risks]);
+  const riskScore = calculateRiskRegisterScore(risks);
+
+  const { data: businessData, updateData: updateBusinessData } = useBusinessData();
+  const drivers = businessData?.drivers || [];
+  const { toast } = useToast();
+
+  const riskIndex = (scored: ScoredRisk) => risks.indexOf(scored.risk);
+
+  const updateRisk = (index: number, patch: Partial<MarketRisk>) => {
+    onDataUpdate({
+      ...marketData,
+      risk_assessment: {
+        ...marketData.risk_assessment,
+        risks: risks.map((risk, i) => (i === index ? { ...risk, ...patch } : risk)),
+      },
+    });
+  };
+
+  const addDownsideScenario = (scored: ScoredRisk) => {
+    if (!businessData) return;
+    const scenario = buildRiskScenario(scored.risk, riskIndex(scored), businessData);
+    if (!scenario) {
+      toast({ title: 'No downside to model', description: 'None of the bound drivers hold a number in the business case.', variant: 'destructive' });
+      return;
+    }
+
+    updateBusinessData({
+      ...businessData,
+      scenarios: [...(businessData.scenarios || []).filter(s => s.key !== scenario.key), scenario],
+    });
+    toast({ title: 'Downside scenario added', description: `"${scenario.name}" is available in the business case scenarios.` });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <ShieldAlert className="h-6 w-6 text-red-600" />
+          <h2 className="text-2xl font-bold">Risk Register</h2>
+        </div>
+        <Badge variant="outline">{risks.length} risk{risks.length !== 1 ? 's' : ''}</Badge>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle className="h-4 w-4 text-red-500" />
+              <span className="text-sm font-medium">Residual Risk Score</span>
+            </div>
+            <div className="text-2xl font-bold text-red-600">{risks.length > 0 ? `${riskScore}/100` : '--'}</div>
+            <div className="text-sm text-muted-foreground">After mitigation progress</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <ShieldCheck className="h-4 w-4 text-green-500" />
+              <span className="text-sm font-medium">Mitigations Implemented</span>
+            </div>
+            <div className="text-2xl font-bold text-green-600">
+              {scoredRisks.filter(s => s.mitigationStatus === 'implemented').length}/{risks.length}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {scoredRisks.filter(s => s.mitigationStatus === 'in_progress').length} in progress
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <TrendingDown className="h-4 w-4 text-blue-500" />
+              <span className="text-sm font-medium">Risk-adjusted Opportunity</span>
+            </div>
+            <div className="text-2xl font-bold text-blue-600">{metrics?.opportunityScore ?? '--'}/100</div>
+            <div className="text-sm text-muted-foreground">Opportunity score after risk</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Probability × Impact Heatmap</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-1 text-xs">
+            <div />
+            {['Low impact', 'Medium impact', 'High impact'].map(label => (
+              <div key={label} className="text-center font-medium text-muted-foreground py-1">{label}</div>
+            ))}
+            {heatmap.map((cell, index) => (
+              <React.Fragment key={`${cell.probability}-${cell.impact}`}>
+                {index % 3 === 0 && (
+                  <div className="flex items-center pr-2 font-medium text-muted-foreground capitalize">
+                    {cell.probability} probability
+                  </div>
+                )}
+                <div className={`min-h-16 rounded p-2 ${CELL_CLASSES[cell.score]}`}>
+                  <div className="font-semibold">{cell.risks.length || ''}</div>
+                  {cell.risks.map(scored => (
+                    <div key={scored.id} className="truncate" title={scored.risk.risk}>{scored.risk.risk}</div>
+                  ))}
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Risks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {scoredRisks.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <ShieldAlert className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p>No risks identified</p>
+              <p className="text-sm">Add risks to risk_assessment.risks in the market data</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {scoredRisks.map(scored => (
+                <div key={scored.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <div className="font-medium">{scored.risk.risk}</div>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        <strong>Mitigation:</strong> {scored.risk.mitigation_strategy}
+                      </p>
+                    </div>
+                    <Badge className={SEVERITY_CLASSES[scored.severity]} variant="outline">
+                      {scored.severity} residual
+                    </Badge>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <span className="text-muted-foreground">
+                      {scored.risk.probability} probability × {scored.risk.impact} impact
+                    </span>
+                    <span>
+                      Score {scored.inherentScore}/9 → <strong>{scored.residualScore.toFixed(1)}/9</strong>
+                    </span>
+                    <Select
+                      value={scored.mitigationStatus}
+                      onValueChange={(value) => updateRisk(riskIndex(scored), { mitigation_status: value as MitigationStatus })}
+                    >
+                      <SelectTrigger className="h-8 w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(MITIGATION_LABELS) as MitigationStatus[]).map(status => (
+                          <SelectItem key={status} value={status}>{MITIGATION_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <DriverBindingEditor
+                    bindings={scored.risk.driver_bindings || []}
+                    drivers={drivers}
+                    onChange={(driver_bindings) => updateRisk(riskIndex(scored), { driver_bindings })}
+                    emptyMessage="Load a business case with sensitivity drivers to express this risk as a downside scenario."
+                  >
+                    {(scored.risk.driver_bindings || []).length > 0 && (
+                      <Button variant="secondary" size="sm" className="h-8" onClick={() => addDownsideScenario(scored)}>
+                        <TrendingDown className="h-3 w-3 mr-1" />
+                        Add downside scenario
+                      </Button>
+                    )}
+                  </DriverBindingEditor>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,9 +1,27 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Lightbulb, Target, Rocket, Users, TrendingUp } from 'lucide-react';
-import { MarketData } from '@/core/types';
-import { MarketSuiteMetrics } from '@/core/engine/calculators/market-suite-calculations';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lightbulb, Target, Rocket, Users, TrendingUp, Plus, Trash2, Pencil, Check, GitBranch, Star, Crosshair, Building2 } from 'lucide-react';
+import { MarketData, MarketEntryStrategy, RiskRating, StrategicPlanning, ValueWithRationale } from '@/core/types';
+import { MarketSuiteMetrics, generateStrategicOptions } from '@/core/engine/calculators/market-suite-calculations';
+import {
+  buildStrategyScenario,
+  calculateBusinessMetrics,
+  calculateScenarioResult,
+  compareStrategicOptions,
+  formatCompactCurrency,
+  formatMarketCurrency,
+  getStrategyId,
+  optionToStrategy,
+} from '@/core/engine';
+import { useBusinessData } from '@/core/contexts';
+import { useToast } from '@/hooks/use-toast';
 import { ModuleImportCard } from '@/modules/market-analysis/components/shared/ModuleImportCard';
+import { DriverBindingEditor } from '@/modules/market-analysis/components/shared/DriverBindingEditor';
 import { mergeMarketData } from '@/core/engine/utils/market-data-utils';
 
 interface StrategicPlanningModuleProps {
@@ -12,23 +30,25 @@ interface StrategicPlanningModuleProps {
   metrics?: MarketSuiteMetrics | null;
 }
 
+type FigureField = 'investment_required' | 'expected_return' | 'time_to_market' | 'probability';
+
 // Simple component to render data source with clickable link
 const DataSourceLink = ({ source }: { source: string }) => {
   const urlMatch = source.match(/(https?:\/\/[^\s]+)/);
-  
+
   if (!urlMatch) {
     return <span>{source}</span>;
   }
-  
+
   const url = urlMatch[0];
   const text = source.replace(url, '').trim();
-  
+
   return (
     <>
       {text && <span>{text} - </span>}
-      <a 
-        href={url} 
-        target="_blank" 
+      <a
+        href={url}
+        target="_blank"
         rel="noopener noreferrer"
         className="text-blue-600 hover:underline"
       >
@@ -44,6 +64,8 @@ const STRATEGY_ICONS: Record<string, React.ComponentType<{ className?: string }>
   'direct': Target,
   'platform': Rocket,
   'gradual': TrendingUp,
+  'niche': Crosshair,
+  'acquisition': Building2,
   'default': Lightbulb,
 };
 
@@ -53,20 +75,244 @@ const STRATEGY_COLORS: Record<string, string> = {
   'direct': 'border-green-500',
   'platform': 'border-purple-500',
   'gradual': 'border-orange-500',
+  'niche': 'border-teal-500',
+  'acquisition': 'border-red-500',
   'default': 'border-gray-500',
 };
 
+const STRATEGY_TYPES = ['direct', 'partnership', 'platform', 'gradual', 'niche', 'acquisition'];
+
+const RISK_LEVELS: RiskRating[] = ['low', 'medium', 'high'];
+
+const NO_SCENARIO = '__none__';
+
+const createStrategy = (index: number): MarketEntryStrategy => ({
+  id: `strategy_${Date.now()}`,
+  name: `Entry Option ${index + 1}`,
+  type: 'direct',
+  essence: '',
+  rationale: '',
+  risk_level: 'medium',
+});
+
 export function StrategicPlanningModule({ marketData, onDataUpdate, metrics }: StrategicPlanningModuleProps) {
-  const strategies = marketData?.strategic_planning?.market_entry_strategies || [];
+  const strategies = useMemo(() => marketData?.strategic_planning?.market_entry_strategies || [], [marketData]);
+  const comparison = useMemo(() => compareStrategicOptions(generateStrategicOptions(marketData)), [marketData]);
+  const currency = marketData?.meta?.currency || 'EUR';
+  const hasSuggestions = strategies.length === 0 && (metrics?.tam ?? marketData?.market_sizing?.total_addressable_market?.base_value?.value ?? 0) > 0;
+  const canEdit = !!onDataUpdate && !!marketData;
+
+  const { data: businessData, updateData: updateBusinessData } = useBusinessData();
+  const scenarios = useMemo(() => businessData?.scenarios || [], [businessData]);
+  const drivers = businessData?.drivers || [];
+  const [editing, setEditing] = useState<Record<string, boolean>>({});
+  const { toast } = useToast();
+
+  const baseNpv = useMemo(() => {
+    if (!businessData) return null;
+    try {
+      return calculateBusinessMetrics(businessData).npv;
+    } catch {
+      return null;
+    }
+  }, [businessData]);
+
+  const scenarioNpvs = useMemo(() => {
+    const npvs: Record<string, number | null> = {};
+    if (!businessData) return npvs;
+    for (const scenario of scenarios) {
+      if (scenario.key) npvs[scenario.key] = calculateScenarioResult(businessData, scenario).metrics?.npv ?? null;
+    }
+    return npvs;
+  }, [businessData, scenarios]);
+
+  const updatePlanning = (patch: Partial<StrategicPlanning>) => {
+    if (!canEdit) return;
+    onDataUpdate({
+      ...marketData,
+      strategic_planning: {
+        ...marketData.strategic_planning,
+        market_entry_strategies: strategies,
+        ...patch,
+      },
+    });
+  };
+
+  const updateStrategy = (index: number, patch: Partial<MarketEntryStrategy>) => {
+    updatePlanning({
+      market_entry_strategies: strategies.map((strategy, i) => (i === index ? { ...strategy, ...patch } : strategy)),
+    });
+  };
+
+  const updateFigure = (index: number, field: FigureField, value: string, unit: string) => {
+    const current: ValueWithRationale = strategies[index][field] || { value: 0, unit, rationale: '' };
+    updateStrategy(index, { [field]: { ...current, value: parseFloat(value) || 0 } });
+  };
+
+  const saveSuggestedOptions = () => {
+    updatePlanning({ market_entry_strategies: comparison.map(({ option }) => optionToStrategy(option, currency)) });
+    toast({ title: 'Entry options saved', description: 'The suggested options are now part of the strategic plan and can be edited.' });
+  };
+
+  const createScenario = (index: number) => {
+    if (!businessData) return;
+    const scenario = buildStrategyScenario(strategies[index], index, businessData);
+    if (!scenario) {
+      toast({ title: 'Nothing to model', description: 'None of the bound drivers hold a number in the business case.', variant: 'destructive' });
+      return;
+    }
+
+    updateBusinessData({
+      ...businessData,
+      scenarios: [...scenarios.filter(s => s.key !== scenario.key), scenario],
+    });
+    updateStrategy(index, { scenario_key: scenario.key });
+    toast({ title: 'Scenario linked', description: `"${scenario.name}" is available in the business case scenarios.` });
+  };
+
+  const renderNpv = (scenarioKey?: string) => {
+    const npv = scenarioKey ? scenarioNpvs[scenarioKey] : undefined;
+    if (npv === undefined || npv === null) return <span className="text-muted-foreground">-</span>;
+    const delta = baseNpv !== null ? npv - baseNpv : null;
+    return (
+      <div>
+        <div className="font-medium">{formatCompactCurrency(npv, businessData?.meta?.currency)}</div>
+        {delta !== null && (
+          <div className={`text-xs ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {delta >= 0 ? '+' : ''}{formatCompactCurrency(delta, businessData?.meta?.currency)} vs base
+          </div>
+        )}
+      </div>
+    );
+  };
 
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="flex items-center gap-3">
-        <Lightbulb className="h-6 w-6 text-orange-600" />
-        <h2 className="text-2xl font-bold">Strategic Planning</h2>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Lightbulb className="h-6 w-6 text-orange-600" />
+          <h2 className="text-2xl font-bold">Strategic Planning</h2>
+        </div>
+        {canEdit && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              const strategy = createStrategy(strategies.length);
+              updatePlanning({ market_entry_strategies: [...strategies, strategy] });
+              setEditing(prev => ({ ...prev, [strategy.id!]: true }));
+            }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add entry option
+          </Button>
+        )}
       </div>
 
+      {/* Option Comparison */}
+      {(strategies.length > 0 || hasSuggestions) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Entry Option Comparison</span>
+              {strategies.length === 0 && (
+                <span className="flex items-center gap-2">
+                  <Badge variant="outline">Suggested from market data</Badge>
+                  {canEdit && (
+                    <Button variant="outline" size="sm" onClick={saveSuggestedOptions}>
+                      Save as strategic plan
+                    </Button>
+                  )}
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-2 font-medium">Option</th>
+                    <th className="py-2 px-2 font-medium text-right">Investment</th>
+                    <th className="py-2 px-2 font-medium text-right">Expected return</th>
+                    <th className="py-2 px-2 font-medium text-right">Time to market (months)</th>
+                    <th className="py-2 px-2 font-medium text-right">Probability %</th>
+                    <th className="py-2 px-2 font-medium text-right">Risk-adjusted return</th>
+                    <th className="py-2 px-2 font-medium">Business case scenario</th>
+                    <th className="py-2 pl-2 font-medium text-right">Scenario NPV</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.map(({ option, riskAdjustedReturn, returnMultiple, isPreferred }, index) => {
+                    const persisted = strategies.length > 0 && canEdit;
+                    const figure = (field: FigureField, unit: string, display: string) => (
+                      <td className="py-2 px-2 text-right">
+                        {persisted ? (
+                          <Input
+                            type="number"
+                            value={strategies[index][field]?.value ?? 0}
+                            onChange={(e) => updateFigure(index, field, e.target.value, unit)}
+                            className="h-8 w-28 ml-auto text-right"
+                          />
+                        ) : display}
+                      </td>
+                    );
+
+                    return (
+                      <tr key={option.id} className="border-b last:border-0">
+                        <td className="py-2 pr-2">
+                          <div className="flex items-center gap-2 font-medium">
+                            {option.name}
+                            {isPreferred && <Star className="h-4 w-4 text-amber-500" />}
+                          </div>
+                          <div className="text-xs text-muted-foreground capitalize">{option.riskLevel} risk</div>
+                        </td>
+                        {figure('investment_required', currency, formatMarketCurrency(option.investmentRequired, currency))}
+                        {figure('expected_return', currency, formatMarketCurrency(option.expectedReturn, currency))}
+                        {figure('time_to_market', 'months', String(option.timeToMarket))}
+                        {figure('probability', 'percentage', `${option.probability}%`)}
+                        <td className="py-2 px-2 text-right">
+                          <div className={`font-medium ${riskAdjustedReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatMarketCurrency(riskAdjustedReturn, currency)}
+                          </div>
+                          {returnMultiple !== null && (
+                            <div className="text-xs text-muted-foreground">{returnMultiple.toFixed(1)}× return</div>
+                          )}
+                        </td>
+                        <td className="py-2 px-2">
+                          {persisted && scenarios.length > 0 ? (
+                            <Select
+                              value={option.scenarioKey || NO_SCENARIO}
+                              onValueChange={(key) => updateStrategy(index, { scenario_key: key === NO_SCENARIO ? undefined : key })}
+                            >
+                              <SelectTrigger className="h-8 w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NO_SCENARIO}>Not linked</SelectItem>
+                                {scenarios.filter(s => s.key).map(scenario => (
+                                  <SelectItem key={scenario.key} value={scenario.key!}>{scenario.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="text-muted-foreground">
+                              {scenarios.find(s => s.key === option.scenarioKey)?.name || 'Not linked'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pl-2 text-right">{renderNpv(option.scenarioKey)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Market Entry Strategies */}
       {strategies.length > 0 ? (
         <div className="space-y-4">
@@ -74,35 +320,135 @@ export function StrategicPlanningModule({ marketData, onDataUpdate, metrics }: S
             const strategyType = strategy.type?.toLowerCase() || 'default';
             const Icon = STRATEGY_ICONS[strategyType] || STRATEGY_ICONS['default'];
             const colorClass = STRATEGY_COLORS[strategyType] || STRATEGY_COLORS['default'];
+            const strategyId = getStrategyId(strategy, index);
+            const isEditing = canEdit && !!editing[strategyId];
 
             return (
-              <Card key={index} className={`border-l-4 ${colorClass}`}>
+              <Card key={strategyId} className={`border-l-4 ${colorClass}`}>
                 <CardHeader>
-                  <div className="flex items-center gap-2">
-                    <Icon className="h-5 w-5" />
-                    <CardTitle className="text-lg">{strategy.name}</CardTitle>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 flex-1">
+                      <Icon className="h-5 w-5" />
+                      {isEditing ? (
+                        <Input
+                          value={strategy.name}
+                          onChange={(e) => updateStrategy(index, { name: e.target.value })}
+                          className="h-8 max-w-sm"
+                        />
+                      ) : (
+                        <CardTitle className="text-lg">{strategy.name}</CardTitle>
+                      )}
+                    </div>
+                    {canEdit && (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setEditing(prev => ({ ...prev, [strategyId]: !prev[strategyId] }))}
+                        >
+                          {isEditing ? <Check className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => updatePlanning({ market_entry_strategies: strategies.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {/* Strategy Essence */}
-                  <div>
-                    <h4 className="font-semibold mb-2">Strategy Essence</h4>
-                    <div className="text-sm text-muted-foreground space-y-2">
-                      {strategy.essence.split('\n\n').map((paragraph, pIndex) => (
-                        <p key={pIndex}>{paragraph}</p>
-                      ))}
-                    </div>
-                  </div>
+                  {isEditing ? (
+                    <>
+                      <div className="flex flex-wrap gap-2">
+                        <Select value={strategy.type || ''} onValueChange={(type) => updateStrategy(index, { type })}>
+                          <SelectTrigger className="h-8 w-40 capitalize">
+                            <SelectValue placeholder="Type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {STRATEGY_TYPES.map(type => (
+                              <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={strategy.risk_level || 'medium'}
+                          onValueChange={(value) => updateStrategy(index, { risk_level: value as RiskRating })}
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {RISK_LEVELS.map(level => (
+                              <SelectItem key={level} value={level}>{level.charAt(0).toUpperCase() + level.slice(1)} risk</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <h4 className="font-semibold mb-2">Strategy Essence</h4>
+                        <Textarea
+                          value={strategy.essence}
+                          onChange={(e) => updateStrategy(index, { essence: e.target.value })}
+                          rows={4}
+                        />
+                      </div>
+                      <div>
+                        <h4 className="font-semibold mb-2">Rationale</h4>
+                        <Textarea
+                          value={strategy.rationale}
+                          onChange={(e) => updateStrategy(index, { rationale: e.target.value })}
+                          rows={4}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      {/* Strategy Essence */}
+                      <div>
+                        <h4 className="font-semibold mb-2">Strategy Essence</h4>
+                        <div className="text-sm text-muted-foreground space-y-2">
+                          {(strategy.essence || '').split('\n\n').map((paragraph, pIndex) => (
+                            <p key={pIndex}>{paragraph}</p>
+                          ))}
+                        </div>
+                      </div>
 
-                  {/* Strategy Rationale */}
-                  <div>
-                    <h4 className="font-semibold mb-2">Rationale</h4>
-                    <div className="text-sm text-muted-foreground space-y-2">
-                      {strategy.rationale.split('\n\n').map((paragraph, pIndex) => (
-                        <p key={pIndex}>{paragraph}</p>
-                      ))}
+                      {/* Strategy Rationale */}
+                      <div>
+                        <h4 className="font-semibold mb-2">Rationale</h4>
+                        <div className="text-sm text-muted-foreground space-y-2">
+                          {(strategy.rationale || '').split('\n\n').map((paragraph, pIndex) => (
+                            <p key={pIndex}>{paragraph}</p>
+                          ))}
+                        </div>
+                      </div>
+                    </>
+                  )}
+
+                  {/* Business Case Impact */}
+                  {canEdit && (
+                    <div>
+                      <h4 className="font-semibold mb-2">Business Case Impact</h4>
+                      <DriverBindingEditor
+                        bindings={strategy.driver_bindings || []}
+                        drivers={drivers}
+                        onChange={(driver_bindings) => updateStrategy(index, { driver_bindings })}
+                        emptyMessage="Load a business case with sensitivity drivers to model this option as a scenario."
+                      >
+                        {(strategy.driver_bindings || []).length > 0 && (
+                          <Button variant="secondary" size="sm" className="h-8" onClick={() => createScenario(index)}>
+                            <GitBranch className="h-3 w-3 mr-1" />
+                            {strategy.scenario_key ? 'Update scenario' : 'Create scenario'}
+                          </Button>
+                        )}
+                      </DriverBindingEditor>
                     </div>
-                  </div>
+                  )}
                 </CardContent>
               </Card>
             );
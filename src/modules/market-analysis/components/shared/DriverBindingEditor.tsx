@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Link2, X } from 'lucide-react';
+import { Driver, DriverBinding } from '@/core/types';
+
+export interface DriverBindingEditorProps {
+  bindings: readonly DriverBinding[];
+  drivers: readonly Driver[];
+  onChange: (bindings: DriverBinding[]) => void;
+  emptyMessage: string;      // Shown when the business case has no sensitivity drivers
+  children?: React.ReactNode; // Extra actions next to the Bind button
+}
+
+export function DriverBindingEditor({ bindings, drivers, onChange, emptyMessage, children }: DriverBindingEditorProps) {
+  const [draft, setDraft] = useState<{ path: string; change: string }>({ path: '', change: '' });
+
+  const addBinding = () => {
+    const change = parseFloat(draft.change);
+    if (!draft.path || Number.isNaN(change)) return;
+
+    const driver = drivers.find(d => d.path === draft.path);
+    onChange([
+      ...bindings.filter(binding => binding.path !== draft.path),
+      { path: draft.path, change_pct: change, label: driver?.label || driver?.key },
+    ]);
+    setDraft({ path: '', change: '' });
+  };
+
+  return (
+    <div className="space-y-2">
+      {bindings.map(binding => (
+        <div key={binding.path} className="flex items-center gap-2 text-sm">
+          <Link2 className="h-3 w-3 text-muted-foreground" />
+          <span>{binding.label || binding.path}</span>
+          <Badge variant="outline">{binding.change_pct > 0 ? '+' : ''}{binding.change_pct}%</Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => onChange(bindings.filter(b => b.path !== binding.path))}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+
+      {drivers.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={draft.path} onValueChange={(path) => setDraft(prev => ({ ...prev, path }))}>
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue placeholder="Bind to a business driver" />
+            </SelectTrigger>
+            <SelectContent>
+              {drivers.map(driver => (
+                <SelectItem key={driver.path} value={driver.path}>{driver.label || driver.key}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            placeholder="Change %"
+            value={draft.change}
+            onChange={(e) => setDraft(prev => ({ ...prev, change: e.target.value }))}
+            className="h-8 w-28"
+          />
+          <Button variant="outline" size="sm" className="h-8" onClick={addBinding}>
+            Bind
+          </Button>
+          {children}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">{emptyMessage}</p>
+      )}
+    </div>
+  );
+}
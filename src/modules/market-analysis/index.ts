@@ -19,6 +19,7 @@ export { CustomerAnalysisModule } from './components/modules/CustomerAnalysisMod
 export { CompetitiveIntelligenceModule } from './components/modules/CompetitiveIntelligenceModule';
 export { OpportunityAssessmentModule } from './components/modules/OpportunityAssessmentModule';
 export { StrategicPlanningModule } from './components/modules/StrategicPlanningModule';
+export { RiskRegisterModule } from './components/modules/RiskRegisterModule';
 export { MarketAnalysisIntegrationPanel as IntegrationModule } from './components/modules/IntegrationModule';
 export { DataManagementModule } from './components/modules/DataManagementModule';
 
@@ -2,12 +2,13 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import { vi, describe, it, beforeEach, expect } from 'vitest';
 import { AssumptionsTab } from '@/modules/business-case/components/AssumptionsTab';
-import { useBusinessData } from '@/core/contexts';
+import { useBusinessData, useMarketData } from '@/core/contexts';
 import { TooltipProvider } from '@/components/ui/tooltip';
 
 // Mock the context
 vi.mock('@/core/contexts');
 const mockUseBusinessData = vi.mocked(useBusinessData);
+const mockUseMarketData = vi.mocked(useMarketData);
 
 // Test data with geom_growth pattern structure (like the Ad-Free Content Subscription case)
 const mockDataWithGeomGrowthPattern = {
@@ -91,6 +92,7 @@ const mockDataWithGeomGrowthPattern = {
 describe('AssumptionsTab - Quantity Display with Geom Growth Pattern', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockUseMarketData.mockReturnValue({ data: null } as unknown as ReturnType<typeof useMarketData>);
   });
 
   it('should display customer volume information for geom_growth pattern data', () => {
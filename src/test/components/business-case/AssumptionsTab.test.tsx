@@ -2,12 +2,14 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AssumptionsTab } from '@/modules/business-case/components/AssumptionsTab';
-import { useBusinessData } from '@/core/contexts';
+import { useBusinessData, useMarketData } from '@/core/contexts';
 import { TooltipProvider } from '@/components/ui/tooltip';
 
 // Mock the context
 vi.mock('@/core/contexts');
 const mockUseBusinessData = vi.mocked(useBusinessData);
+const mockUseMarketData = vi.mocked(useMarketData);
+const createMarketContext = (data: unknown) => ({ data }) as unknown as ReturnType<typeof useMarketData>;
 
 // Mock data structures using 'as any' to handle type mismatches
 const mockRevenueBusinessData = {
@@ -173,9 +175,11 @@ const mockLegacyBusinessData = {
 // Mock helpers
 const createMockContext = (data: any) => ({
   data,
+  hasData: !!data,
+  lastModified: null,
   updateData: vi.fn(),
   updateAssumption: vi.fn(),
-  updateDriver: vi.fn(),
+  clearData: vi.fn(),
   addDriver: vi.fn(),
   removeDriver: vi.fn(),
   updateDriverRange: vi.fn(),
@@ -194,6 +198,7 @@ const renderWithTooltipProvider = (component: React.ReactElement) => {
 describe('AssumptionsTab', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockUseMarketData.mockReturnValue(createMarketContext(null));
   });
 
   describe('No Data State', () => {
@@ -380,6 +385,54 @@ describe('AssumptionsTab', () => {
     });
   });
 
+  describe('Market Link', () => {
+    const withLink = (segment: Record<string, unknown>) => ({
+      ...mockRevenueBusinessData,
+      assumptions: {
+        ...mockRevenueBusinessData.assumptions,
+        customers: { ...mockRevenueBusinessData.assumptions.customers, segments: [segment] }
+      }
+    });
+
+    it('should not offer a market link without a market analysis', () => {
+      mockUseBusinessData.mockReturnValue(createMockContext(mockRevenueBusinessData));
+      renderWithTooltipProvider(<AssumptionsTab />);
+
+      expect(screen.queryByText('Link to market')).not.toBeInTheDocument();
+    });
+
+    it('should offer a market link once a market analysis is loaded', () => {
+      mockUseBusinessData.mockReturnValue(createMockContext(mockRevenueBusinessData));
+      mockUseMarketData.mockReturnValue(createMarketContext({ meta: { title: 'Market' } }));
+      renderWithTooltipProvider(<AssumptionsTab />);
+
+      expect(screen.getAllByText('Link to market')).toHaveLength(2);
+    });
+
+    it('should keep the own volume and allow unlinking until the market series is generated', () => {
+      const segment = mockRevenueBusinessData.assumptions.customers.segments[0];
+      mockUseBusinessData.mockReturnValue(createMockContext(withLink({ ...segment, market_link: { source: 'market_som' } })));
+      renderWithTooltipProvider(<AssumptionsTab />);
+
+      expect(screen.queryByText('Linked from market')).not.toBeInTheDocument();
+      expect(screen.getByText('Unlink')).toBeInTheDocument();
+      expect(screen.getByText('50')).toBeInTheDocument();
+    });
+
+    it('should show the linked badge for a generated series', () => {
+      const segment = mockRevenueBusinessData.assumptions.customers.segments[0];
+      mockUseBusinessData.mockReturnValue(createMockContext(withLink({
+        ...segment,
+        market_link: { source: 'market_som' },
+        volume: { type: 'time_series', series: [{ period: 1, value: 120, unit: 'customers_per_month', rationale: 'Linked from market analysis: SOM × market share' }] }
+      })));
+      renderWithTooltipProvider(<AssumptionsTab />);
+
+      expect(screen.getByText('Linked from market')).toBeInTheDocument();
+      expect(screen.getByText('Unlink')).toBeInTheDocument();
+    });
+  });
+
   describe('Accessibility', () => {
     beforeEach(() => {
       mockUseBusinessData.mockReturnValue(createMockContext(mockRevenueBusinessData));
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mockAIBackend, toAnthropicMessages } from '@/core/services/ai-providers';
+import { aiService } from '@/core/services/ai-service';
+import { createCopilotTools } from '@/core/services/ai-tools';
+import { webSearchService } from '@/core/services/web-search-service';
+import { createMockBusinessData, createMockMarketData } from '@/test/mockData';
+import type { AIServiceResponse } from '@/core/services/ai-service';
+
+const tools = createCopilotTools(() => ({ business: createMockBusinessData(), market: createMockMarketData() }));
+
+describe('AI Providers', () => {
+  describe('mock provider', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      aiService.setProvider('mock');
+    });
+
+    afterEach(() => {
+      mockAIBackend.reset();
+      aiService.setProvider('litellm');
+      vi.restoreAllMocks();
+      localStorage.clear();
+    });
+
+    it('should be usable without an API key or network', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+      const response = await aiService.chat([{ role: 'user', content: 'Hello' }]);
+
+      expect(aiService.isConfigured()).toBe(true);
+      expect(response.content).toContain('You asked: "Hello"');
+      expect(response.tokenUsage!.total).toBeGreaterThan(0);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should replay queued tool calls through the copilot tool loop', async () => {
+      mockAIBackend.enqueue(
+        { toolCalls: [{ name: 'get_value', arguments: { target: 'business', path: 'meta.periods' } }] },
+        { content: 'The model runs 24 months.' }
+      );
+
+      const chunks: string[] = [];
+      const response = await new Promise<AIServiceResponse>((resolve, reject) => {
+        aiService.streamChat(
+          [{ role: 'user', content: 'How long is the model?' }],
+          { onChunk: (chunk) => chunks.push(chunk), onComplete: resolve, onError: reject },
+          { model: 'anthropic/claude-4-5-sonnet-aws', tools }
+        );
+      });
+
+      expect(response.content).toBe('The model runs 24 months.');
+      expect(chunks.join('')).toBe('The model runs 24 months.');
+      expect(response.toolCalls).toEqual([expect.objectContaining({ name: 'get_value', result: 24 })]);
+    });
+
+    it('should answer the debate format deterministically', async () => {
+      const response = await aiService.chat([
+        { role: 'system', content: 'Respond with {"bullCase": {"headline": "..."}, "bearCase": {}}' },
+        { role: 'user', content: 'Debate churn' },
+      ]);
+      const parsed = JSON.parse(response.content);
+
+      expect(parsed.bullCase.headline).toBe('Scripted mock case');
+      expect(parsed.bearCase.evidence).toHaveLength(2);
+    });
+
+    it('should serve scripted web search results', async () => {
+      expect(webSearchService.isSearchEnabled()).toBe(true);
+      const response = await webSearchService.search('EV charging market', { trustedOnly: true });
+
+      expect(response.results).toHaveLength(2);
+      expect(response.trustedCount).toBe(2);
+      expect(response.results[0].title).toContain('EV charging market');
+    });
+  });
+
+  describe('provider selection', () => {
+    afterEach(() => {
+      aiService.setProvider('litellm');
+      localStorage.clear();
+    });
+
+    it('should keep a key per provider and fall back to the provider default model', () => {
+      aiService.setApiKey('sk-litellm-key');
+      aiService.setProvider('anthropic');
+
+      expect(aiService.hasApiKey()).toBe(false);
+      expect(aiService.resolveModel('anthropic/claude-4-5-sonnet-aws')).toBe('claude-sonnet-4-5');
+      expect(aiService.getBaseUrl()).toBe('https://api.anthropic.com');
+
+      aiService.setProvider('litellm');
+      expect(aiService.getApiKey()).toBe('sk-litellm-key');
+      expect(aiService.resolveModel('anthropic/claude-sonnet-4-5')).toBe('anthropic/claude-sonnet-4-5');
+    });
+  });
+
+  describe('toAnthropicMessages', () => {
+    it('should lift system prompts and group tool results into one user turn', () => {
+      const { system, messages } = toAnthropicMessages([
+        { role: 'system', content: 'Be precise.' },
+        { role: 'user', content: 'Compare NPVs' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 't1', type: 'function', function: { name: 'calculate_business_metrics', arguments: '{}' } },
+            { id: 't2', type: 'function', function: { name: 'get_value', arguments: '{"path":"meta.title"}' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 't1', content: '{"npv":1}' },
+        { role: 'tool', tool_call_id: 't2', content: '"Case"' },
+      ]);
+
+      expect(system).toBe('Be precise.');
+      expect(messages).toEqual([
+        { role: 'user', content: 'Compare NPVs' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 't1', name: 'calculate_business_metrics', input: {} },
+            { type: 'tool_use', id: 't2', name: 'get_value', input: { path: 'meta.title' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 't1', content: '{"npv":1}' },
+            { type: 'tool_result', tool_use_id: 't2', content: '"Case"' },
+          ],
+        },
+      ]);
+    });
+  });
+});
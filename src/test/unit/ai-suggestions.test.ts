@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseSuggestions, buildAcceptedValue } from '@/core/services/ai-suggestions';
+import { getNestedValue, setNestedValue } from '@/core/engine/utils/nested-operations';
+import { createMockBusinessData, createMockMarketData } from '@/test/mockData';
+
+const sources = { business: createMockBusinessData(), market: createMockMarketData() };
+
+const reply = (entries: unknown) =>
+  `Raising the price looks justified.\n\n\`\`\`suggestions\n${JSON.stringify(entries)}\n\`\`\``;
+
+const priceSuggestion = {
+  target: 'business',
+  path: 'assumptions.pricing.avg_unit_price',
+  value: 120,
+  rationale: 'Competitors charge 120-140',
+  confidence: 0.8,
+  researchRefs: ['research-abc'],
+};
+
+describe('AI Suggestions', () => {
+  describe('parseSuggestions', () => {
+    it('should turn a suggestions block into pending suggestions and strip it from the reply', () => {
+      const { content, suggestions, rejected } = parseSuggestions(reply([priceSuggestion]), sources);
+
+      expect(content).toBe('Raising the price looks justified.');
+      expect(rejected).toEqual([]);
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({
+        target: 'business',
+        path: 'assumptions.pricing.avg_unit_price',
+        currentValue: 100,
+        suggestedValue: 120,
+        confidence: 0.8,
+        researchRefs: ['research-abc'],
+        status: 'pending',
+      });
+    });
+
+    it('should resolve market paths and normalise a trailing .value', () => {
+      const { suggestions } = parseSuggestions(reply([{
+        target: 'market',
+        path: 'market_sizing.total_addressable_market.growth_rate.value',
+        value: 10,
+        rationale: 'Slower growth',
+        confidence: 0.5,
+      }]), sources);
+
+      expect(suggestions[0].path).toBe('market_sizing.total_addressable_market.growth_rate');
+      expect(suggestions[0].currentValue).toBe(12);
+      expect(suggestions[0].researchRefs).toEqual([]);
+    });
+
+    it('should drop entries with unknown paths, wrong value types or invalid confidence', () => {
+      const { suggestions, rejected } = parseSuggestions(reply([
+        { ...priceSuggestion, path: 'assumptions.pricing.missing' },
+        { ...priceSuggestion, value: '120' },
+        { ...priceSuggestion, confidence: 1.5 },
+        { ...priceSuggestion, target: 'market' },
+      ]), sources);
+
+      expect(suggestions).toEqual([]);
+      expect(rejected).toHaveLength(4);
+    });
+
+    it('should leave replies without a block untouched', () => {
+      const { content, suggestions } = parseSuggestions('No changes needed.', sources);
+      expect(content).toBe('No changes needed.');
+      expect(suggestions).toEqual([]);
+
+      expect(parseSuggestions('```suggestions\nnot json\n```', sources).rejected).toEqual([
+        'Suggestion block is not valid JSON',
+      ]);
+    });
+  });
+
+  describe('buildAcceptedValue', () => {
+    it('should stamp AI backing fields on the ValueWithRationale and keep its unit', () => {
+      const [suggestion] = parseSuggestions(reply([priceSuggestion]), sources).suggestions;
+      const existing = getNestedValue(sources.business, suggestion.path);
+      const updated = setNestedValue(sources.business, suggestion.path, buildAcceptedValue(existing, suggestion));
+
+      expect(updated.assumptions.pricing.avg_unit_price).toEqual({
+        value: 120,
+        unit: 'EUR',
+        rationale: 'Competitors charge 120-140',
+        aiGenerated: true,
+        aiConfidence: 0.8,
+        researchIds: ['research-abc'],
+      });
+    });
+
+    it('should replace plain values as they are', () => {
+      const [suggestion] = parseSuggestions(reply([{ ...priceSuggestion, path: 'meta.periods', value: 36 }]), sources).suggestions;
+      expect(buildAcceptedValue(24, suggestion)).toBe(36);
+    });
+  });
+});
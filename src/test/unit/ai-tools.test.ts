@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCopilotTools, executeToolCall, applyOverrides } from '@/core/services/ai-tools';
+import { aiService } from '@/core/services/ai-service';
+import { calculateBusinessMetrics } from '@/core/engine/calculators/business-calculator-full';
+import { createMockBusinessData, createMockMarketData } from '@/test/mockData';
+import type { ToolCallRecord } from '@/core/types/ai';
+
+const business = createMockBusinessData();
+const tools = createCopilotTools(() => ({ business, market: createMockMarketData() }));
+
+const sseResponse = (events: unknown[]) => {
+  const body = events.map(event => `data: ${JSON.stringify(event)}\n`).join('') + 'data: [DONE]\n';
+  return new Response(new TextEncoder().encode(body), { status: 200 });
+};
+
+describe('AI Tools', () => {
+  describe('applyOverrides', () => {
+    it('should write to .value when a path points at a value with rationale', () => {
+      const updated = applyOverrides(business, { 'assumptions.pricing.avg_unit_price': 120 });
+      expect(updated.assumptions.pricing.avg_unit_price).toMatchObject({ value: 120, unit: 'EUR' });
+      expect(business.assumptions.pricing.avg_unit_price.value).toBe(100);
+    });
+
+    it('should reject paths that do not exist', () => {
+      expect(() => applyOverrides(business, { 'assumptions.pricing.missing': 1 })).toThrow('does not exist');
+    });
+  });
+
+  describe('executeToolCall', () => {
+    it('should return the exact engine NPV with and without overrides', async () => {
+      const record = await executeToolCall(
+        tools,
+        'call-1',
+        'calculate_business_metrics',
+        JSON.stringify({ overrides: { 'assumptions.pricing.avg_unit_price': 120 } })
+      );
+      const result = record.result as { base: { npv: number }; scenario: { npv: number }; npvChange: number };
+      const expected = calculateBusinessMetrics(applyOverrides(business, { 'assumptions.pricing.avg_unit_price': 120 }));
+
+      expect(record.error).toBeUndefined();
+      expect(result.base.npv).toBe(calculateBusinessMetrics(business).npv);
+      expect(result.scenario.npv).toBe(expected.npv);
+      expect(result.npvChange).toBeCloseTo(expected.npv - result.base.npv, 6);
+    });
+
+    it('should read values and market metrics', async () => {
+      const value = await executeToolCall(tools, 'call-2', 'get_value', '{"target":"business","path":"meta.currency"}');
+      const market = await executeToolCall(tools, 'call-3', 'calculate_market_metrics', '{}');
+
+      expect(value.result).toBe('EUR');
+      expect((market.result as { tam: number }).tam).toBe(2500000000);
+    });
+
+    it('should capture failures in the record instead of throwing', async () => {
+      expect((await executeToolCall(tools, 'a', 'unknown_tool', '{}')).error).toBe('Unknown tool "unknown_tool"');
+      expect((await executeToolCall(tools, 'b', 'get_value', 'not json')).error).toBeDefined();
+      expect((await executeToolCall(tools, 'c', 'get_value', '{"target":"business","path":"nope"}')).error)
+        .toContain('does not exist');
+    });
+  });
+
+  describe('AIService.streamChat with tools', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+      aiService.clearApiKey();
+    });
+
+    it('should run requested tools and send their results back before the final answer', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(sseResponse([
+          { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call-1', function: { name: 'get_value', arguments: '{"target":"business",' } }] } }] },
+          { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"path":"meta.periods"}' } }] } }] },
+        ]))
+        .mockResolvedValueOnce(sseResponse([
+          { choices: [{ delta: { content: 'The model runs 24 months.' } }] },
+          { usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } },
+        ]));
+      vi.stubGlobal('fetch', fetchMock);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      aiService.setApiKey('test-key');
+
+      const toolCalls: ToolCallRecord[] = [];
+      const onComplete = vi.fn();
+      await aiService.streamChat(
+        [{ role: 'user', content: 'How long is the model?' }],
+        { onChunk: () => {}, onComplete, onError: (error) => { throw error; }, onToolCall: (record) => toolCalls.push(record) },
+        { model: 'anthropic/claude-4-5-sonnet-aws', tools }
+      );
+
+      expect(toolCalls).toHaveLength(1);
+      expect(toolCalls[0]).toMatchObject({ id: 'call-1', name: 'get_value', result: 24 });
+
+      const secondRequest = JSON.parse(fetchMock.mock.calls[1][1].body);
+      expect(secondRequest.messages.slice(-2)).toEqual([
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'get_value', arguments: '{"target":"business","path":"meta.periods"}' } }] },
+        { role: 'tool', tool_call_id: 'call-1', content: '24' },
+      ]);
+      expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+        content: 'The model runs 24 months.',
+        toolCalls,
+      }));
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import {
+  calculateCost,
+  checkBudget,
+  createUsageEntry,
+  DEFAULT_PRICE_TABLE,
+  DEFAULT_USAGE_SETTINGS,
+  getModelPrice,
+  summarizeUsage,
+} from '@/core/services/ai-usage';
+import { aiService } from '@/core/services/ai-service';
+import { storageService, STORAGE_KEYS } from '@/core/services/storage.service';
+import { AIProvider, useAI } from '@/core/contexts/AIContext';
+import { DataProvider } from '@/core/contexts/DataContext';
+import type { UsageEntry } from '@/core/types/ai';
+
+const entry = (overrides: Partial<UsageEntry>): UsageEntry => ({
+  id: 'u',
+  timestamp: '2026-03-10T12:00:00.000Z',
+  feature: 'chat',
+  provider: 'litellm',
+  model: 'claude-sonnet-4-5',
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  ...overrides,
+});
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <DataProvider>
+    <AIProvider>{children}</AIProvider>
+  </DataProvider>
+);
+
+describe('AI Usage', () => {
+  describe('pricing', () => {
+    it('should price prompt and completion tokens per million', () => {
+      const price = getModelPrice(DEFAULT_PRICE_TABLE, 'claude-sonnet-4-5');
+      expect(calculateCost({ prompt: 1_000_000, completion: 100_000, total: 1_100_000 }, price)).toBeCloseTo(4.5, 10);
+    });
+
+    it('should fall back to the model ID without its gateway prefix', () => {
+      expect(getModelPrice(DEFAULT_PRICE_TABLE, 'anthropic/claude-haiku-4-5')).toEqual({ inputPerMillion: 1, outputPerMillion: 5 });
+      const unpriced = createUsageEntry('chat', 'litellm', 'unknown/model', { prompt: 10, completion: 10, total: 20 }, DEFAULT_PRICE_TABLE);
+      expect(unpriced.costUsd).toBe(0);
+      expect(unpriced.totalTokens).toBe(20);
+    });
+  });
+
+  describe('summarizeUsage', () => {
+    it('should total by feature and model within the period', () => {
+      const entries = [
+        entry({ feature: 'chat', costUsd: 1, totalTokens: 100 }),
+        entry({ feature: 'debate', costUsd: 2, totalTokens: 200, model: 'mock/scripted' }),
+        entry({ feature: 'chat', costUsd: 5, totalTokens: 500, timestamp: '2026-02-27T12:00:00.000Z' }),
+      ];
+      const summary = summarizeUsage(entries, new Date(2026, 2, 1));
+
+      expect(summary).toMatchObject({ requests: 2, totalTokens: 300, costUsd: 3 });
+      expect(summary.byFeature).toEqual({
+        chat: { requests: 1, totalTokens: 100, costUsd: 1 },
+        debate: { requests: 1, totalTokens: 200, costUsd: 2 },
+      });
+      expect(Object.keys(summary.byModel)).toEqual(['claude-sonnet-4-5', 'mock/scripted']);
+    });
+  });
+
+  describe('checkBudget', () => {
+    const now = new Date(2026, 2, 15);
+    const entries = [entry({ costUsd: 6 })];
+
+    it('should report soft and hard caps for the current month', () => {
+      expect(checkBudget(entries, DEFAULT_USAGE_SETTINGS, now).status).toBe('ok');
+      expect(checkBudget(entries, { ...DEFAULT_USAGE_SETTINGS, softLimitUsd: 5, hardLimitUsd: 10 }, now))
+        .toEqual({ status: 'soft', spentUsd: 6, limitUsd: 5 });
+      expect(checkBudget(entries, { ...DEFAULT_USAGE_SETTINGS, softLimitUsd: 5, hardLimitUsd: 6 }, now))
+        .toEqual({ status: 'hard', spentUsd: 6, limitUsd: 6 });
+    });
+
+    it('should reset at the start of the next month', () => {
+      const settings = { ...DEFAULT_USAGE_SETTINGS, hardLimitUsd: 1 };
+      expect(checkBudget(entries, settings, new Date(2026, 3, 1)).status).toBe('ok');
+    });
+  });
+
+  describe('AIContext budget enforcement', () => {
+    afterEach(() => {
+      aiService.setProvider('litellm');
+      vi.restoreAllMocks();
+      localStorage.clear();
+    });
+
+    it('should record usage per feature and block requests at the hard cap', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      aiService.setProvider('mock');
+      storageService.save(STORAGE_KEYS.AI_USAGE_SETTINGS, {
+        prices: { 'mock/scripted': { inputPerMillion: 1_000_000, outputPerMillion: 0 } },
+        softLimitUsd: null,
+        hardLimitUsd: 1,
+      });
+
+      const { result } = renderHook(() => useAI(), { wrapper });
+      await act(() => result.current.sendMessage('Summarize the case', 'quick-action'));
+      await waitFor(() => expect(result.current.usage).toHaveLength(1));
+
+      expect(result.current.usage[0]).toMatchObject({ feature: 'quick-action', provider: 'mock', model: 'mock/scripted' });
+      expect(result.current.budget.status).toBe('hard');
+
+      await act(() => result.current.sendMessage('One more question'));
+      expect(result.current.state.messages).toHaveLength(2);
+      expect(result.current.usage).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildBusinessContext, buildBusinessSystemPrompt, BUSINESS_QUICK_ACTIONS } from '@/core/services/business-ai-context';
+import { calculateBusinessMetrics, calculateFundingSummary } from '@/core/engine/calculators/business-calculator-full';
+import { formatCompactCurrency } from '@/core/engine/utils/financial';
+import { BusinessData } from '@/core/types';
+import { createMockBusinessData } from '@/test/mockData';
+
+describe('Business AI Context', () => {
+  const businessData: BusinessData = {
+    ...createMockBusinessData(),
+    drivers: [{ key: 'price', label: 'Price', path: 'assumptions.pricing.avg_unit_price.value', range: [80, 120], rationale: 'Range' }],
+  };
+
+  it('should serialize assumptions, drivers and the engine metrics', () => {
+    const context = buildBusinessContext(businessData);
+    const metrics = calculateBusinessMetrics(businessData);
+    const funding = calculateFundingSummary(businessData, metrics.monthlyData);
+
+    expect(context).toContain('## Business Case: Test Business Case');
+    expect(context).toContain('**Average unit price** (`assumptions.pricing.avg_unit_price`): €100');
+    expect(context).toContain('**Churn** (`assumptions.customers.churn_pct`): 5.0%');
+    expect(context).toContain('**Price** (`assumptions.pricing.avg_unit_price.value`): 100, range 80 to 120');
+    expect(context).toContain(`**NPV**: ${formatCompactCurrency(metrics.npv, 'EUR')}`);
+    expect(context).toContain(`**Worst cash month**: `);
+    expect(context).toContain(formatCompactCurrency(funding.lowestCashBalance, 'EUR'));
+    expect(context).toContain('## Cost Breakdown (model horizon)');
+  });
+
+  it('should explain when IRR cannot be calculated', () => {
+    const context = buildBusinessContext(businessData, { ...calculateBusinessMetrics(businessData), irr: -999 });
+    expect(context).toMatch(/\*\*IRR\*\*: not available \(.+\)/);
+  });
+
+  it('should fall back when no business case is loaded', () => {
+    expect(buildBusinessContext(null)).toContain('No business case loaded');
+    expect(buildBusinessSystemPrompt(null)).toContain('## Current Business Case Data');
+  });
+
+  it('should offer the business quick actions', () => {
+    const ids = BUSINESS_QUICK_ACTIONS.map(action => action.id);
+    expect(ids).toEqual(expect.arrayContaining(['stress-test-churn', 'explain-negative-irr', 'biggest-cost-driver']));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -32,9 +32,26 @@ import {
   calculateOpexForMonth,
   MonthlyData,
   CalculatedMetrics,
-  IRR_ERROR_CODES
+  IRR_ERROR_CODES,
+  MAX_MODEL_PERIODS,
+  getModelStartDate,
+  getCalendarMonthIndex,
+  getModelPeriods,
+  getPeriodsPerYear,
+  aggregateMonthlyData,
+  generatePeriodData,
+  getPeriodLabel,
+  calculateDepreciationSchedule,
+  calculateTaxForMonth,
+  INITIAL_TAX_YEAR_STATE,
+  DEFAULT_USEFUL_LIFE_YEARS,
+  calculateTrailingBalance,
+  calculateFinancingSchedule,
+  calculateFundingSummary,
+  getOpexCategory,
+  calculateHeadcountCostForMonth
 } from '@/core/engine/calculators/business-calculator-full';
-import { BusinessData } from '@/core/types';
+import { BusinessData, CapexDepreciation, LoanFacility, OpexItem } from '@/core/types';
 import { createMockBusinessData, createMockMonthlyData, createMockCostSavingsData } from '@/test/mockData';
 
 describe('Calculations Engine', () => {
@@ -79,7 +96,7 @@ describe('Calculations Engine', () => {
       expect(result.totalRevenue).toBe(0);
     });
 
-    it('should limit periods to maximum of 60', () => {
+    it('should model horizons longer than 60 months', () => {
       const dataWithLongPeriod = createMockBusinessData({
         meta: { 
           title: 'Long Period Test',
@@ -92,7 +109,186 @@ describe('Calculations Engine', () => {
       });
       const result = calculateBusinessMetrics(dataWithLongPeriod);
       
-      expect(result.monthlyData).toHaveLength(60);
+      expect(result.monthlyData).toHaveLength(120);
+      expect(result.monthlyData[119].revenue).toBeGreaterThan(0);
+    });
+
+    it('should limit periods to MAX_MODEL_PERIODS', () => {
+      const dataWithHugePeriod = createMockBusinessData({
+        meta: { 
+          title: 'Huge Period Test',
+          description: 'Testing excessive periods',
+          business_model: 'recurring',
+          currency: 'EUR',
+          periods: 1000,
+          frequency: 'monthly'
+        }
+      });
+      const result = calculateBusinessMetrics(dataWithHugePeriod);
+      
+      expect(result.monthlyData).toHaveLength(MAX_MODEL_PERIODS);
+    });
+  });
+
+  describe('Model Start Date', () => {
+    const withMeta = (meta: Partial<BusinessData['meta']>) => createMockBusinessData({
+      meta: {
+        title: 'Start Date Test',
+        description: 'Testing start dates',
+        business_model: 'recurring',
+        currency: 'EUR',
+        periods: 24,
+        frequency: 'monthly',
+        ...meta
+      }
+    });
+
+    it('should default to January 2026', () => {
+      const start = getModelStartDate(withMeta({}));
+      expect(start.getFullYear()).toBe(2026);
+      expect(start.getMonth()).toBe(0);
+    });
+
+    it('should start monthly rows at meta.start_date', () => {
+      const monthlyData = generateMonthlyData(withMeta({ start_date: '2027-04-15' }));
+
+      expect(monthlyData[0].date.getFullYear()).toBe(2027);
+      expect(monthlyData[0].date.getMonth()).toBe(3);
+      expect(monthlyData[9].date.getFullYear()).toBe(2028);
+      expect(monthlyData[9].date.getMonth()).toBe(0);
+    });
+
+    it('should fall back to the default for malformed dates', () => {
+      expect(getModelStartDate(withMeta({ start_date: 'next spring' })).getFullYear()).toBe(2026);
+      expect(getModelStartDate(withMeta({ start_date: '2027-13-01' })).getMonth()).toBe(0);
+    });
+
+    it('should align seasonality to calendar months', () => {
+      const data = withMeta({ start_date: '2026-04-01' });
+      const volume = {
+        base_year_total: { value: 1200 },
+        seasonality_index_12: [1, 1, 1, 2, 1, 1, 1, 1, 1, 1, 1, 1],
+        yoy_growth: { value: 0 }
+      };
+
+      expect(getCalendarMonthIndex(data, 0)).toBe(3);
+      expect(getCalendarMonthIndex(data, 9)).toBe(0);
+      // First model month is April, which carries the peak index
+      expect(calculateSeasonalGrowthVolume(volume, 0, data)).toBeGreaterThan(calculateSeasonalGrowthVolume(volume, 1, data));
+    });
+
+    it('should align segment seasonal patterns to calendar months', () => {
+      const volume = { base_value: 100, seasonal_pattern: [1, 1, 1, 2, 1, 1, 1, 1, 1, 1, 1, 1], growth_rate: 0 };
+
+      expect(calculateSegmentSeasonalPattern(volume, 0, 3)).toBe(200);
+      expect(calculateSegmentSeasonalPattern(volume, 12, 3)).toBe(200);
+      expect(calculateSegmentSeasonalPattern(volume, 1, 3)).toBe(100);
+    });
+
+    it('should apply yearly factors and implementation timelines beyond year five', () => {
+      const data = createMockBusinessData({
+        meta: {
+          title: 'Long Cost Savings',
+          description: 'Seven year case',
+          business_model: 'recurring',
+          currency: 'EUR',
+          periods: 84,
+          frequency: 'monthly'
+        },
+        assumptions: {
+          pricing: {
+            avg_unit_price: { value: 100, unit: 'EUR', rationale: 'Base price' },
+            yearly_adjustments: {
+              pricing_factors: [{ year: 7, factor: 1.5, rationale: 'Year 7 repricing' }]
+            }
+          }
+        }
+      });
+
+      expect(calculateDynamicUnitPrice(data, 71)).toBe(100);
+      expect(calculateDynamicUnitPrice(data, 72)).toBe(150);
+      expect(generateMonthlyData(data)[83].unitPrice).toBe(150);
+
+      const timeline = { start_month: 61, ramp_up_months: 12, full_implementation_month: 73 };
+      expect(calculateImplementationFactor(59, timeline)).toBe(0);
+      expect(calculateImplementationFactor(65, timeline)).toBeCloseTo(0.5, 5); // month 66 is the 6th of 12 ramp-up months
+      expect(calculateImplementationFactor(80, timeline)).toBe(1);
+    });
+  });
+
+  describe('Reporting Frequency', () => {
+    const withFrequency = (frequency: BusinessData['meta']['frequency'], periods: number) => createMockBusinessData({
+      meta: {
+        title: 'Frequency Test',
+        description: 'Testing reporting periods',
+        business_model: 'recurring',
+        currency: 'EUR',
+        periods,
+        frequency,
+        start_date: '2026-04-01'
+      }
+    });
+
+    it('should count meta.periods in reporting periods', () => {
+      expect(getModelPeriods(withFrequency('monthly', 24))).toBe(24);
+      expect(getModelPeriods(withFrequency('quarterly', 8))).toBe(24);
+      expect(getModelPeriods(withFrequency('annually', 30))).toBe(MAX_MODEL_PERIODS);
+      expect(getPeriodsPerYear('quarterly')).toBe(4);
+      expect(getPeriodsPerYear('annually')).toBe(1);
+    });
+
+    it('should roll monthly rows up into quarters', () => {
+      const data = withFrequency('quarterly', 8);
+      const monthlyData = generateMonthlyData(data);
+      const quarters = generatePeriodData(data);
+
+      expect(monthlyData).toHaveLength(24);
+      expect(quarters).toHaveLength(8);
+      expect(quarters[0].revenue).toBe(monthlyData.slice(0, 3).reduce((sum, m) => sum + m.revenue, 0));
+      expect(quarters[0].netCashFlow).toBe(monthlyData.slice(0, 3).reduce((sum, m) => sum + m.netCashFlow, 0));
+      // Active customers are a stock, so the quarter closes on its last month
+      expect(quarters[0].salesVolume).toBe(monthlyData[2].salesVolume);
+      expect(quarters[1].startMonth).toBe(4);
+      expect(quarters[1].endMonth).toBe(6);
+      expect(quarters[0].label).toBe('Q1 2026');
+      expect(quarters[4].label).toBe('Q1 2027');
+    });
+
+    it('should sum unit sales volume and keep partial periods', () => {
+      const data = withFrequency('monthly', 14);
+      const monthlyData = generateMonthlyData({ ...data, meta: { ...data.meta, business_model: 'unit_sales' } });
+      const years = aggregateMonthlyData(monthlyData, 'annually', new Date(2026, 0, 1), 'unit_sales');
+
+      expect(years).toHaveLength(2);
+      expect(years[0].salesVolume).toBe(monthlyData.slice(0, 12).reduce((sum, m) => sum + m.salesVolume, 0));
+      expect(years[1].monthsInPeriod).toBe(2);
+      expect(years[1].label).toBe('FY2027');
+      expect(getPeriodLabel('monthly', 3)).toBe('M3');
+    });
+
+    it('should leave monthly NPV and IRR unchanged', () => {
+      const data = withFrequency('monthly', 24);
+      const metrics = calculateBusinessMetrics(data);
+      const interestRate = data.assumptions.financial.interest_rate.value;
+
+      expect(metrics.npv).toBeCloseTo(calculateNPV(metrics.monthlyData, interestRate), 6);
+      expect(metrics.irr).toBe(calculateIRR(metrics.monthlyData));
+    });
+
+    it('should discount quarterly and annual cases per period', () => {
+      const data = withFrequency('quarterly', 8);
+      const metrics = calculateBusinessMetrics(data);
+      const interestRate = data.assumptions.financial.interest_rate.value;
+      const quarters = generatePeriodData(data);
+
+      expect(metrics.npv).toBeCloseTo(calculateNPV(quarters, interestRate, 4), 6);
+      expect(metrics.monthlyData).toHaveLength(24);
+      expect(metrics.totalRevenue).toBe(quarters.reduce((sum, q) => sum + q.revenue, 0));
+    });
+
+    it('should compound a single annual flow at the annual rate', () => {
+      const annualRows = [{ netCashFlow: 1100 }] as MonthlyData[];
+      expect(calculateNPV(annualRows, 0.1, 1)).toBeCloseTo(1000, 6);
     });
   });
 
@@ -646,6 +842,268 @@ describe('Calculations Engine', () => {
     });
   });
 
+  describe('Tax and Depreciation', () => {
+    const withCapex = (depreciation?: CapexDepreciation, taxRate?: number): BusinessData => {
+      const base = createMockBusinessData();
+      return {
+        ...base,
+        assumptions: {
+          ...base.assumptions,
+          financial: {
+            ...base.assumptions.financial,
+            ...(taxRate !== undefined ? { tax_rate: { value: taxRate, unit: 'ratio', rationale: 'Corporate tax' } } : {})
+          },
+          capex: [
+            {
+              name: 'Equipment',
+              timeline: {
+                type: 'time_series',
+                series: [{ period: 1, value: 12000, unit: 'EUR', rationale: 'Initial investment' }]
+              },
+              depreciation
+            }
+          ]
+        }
+      };
+    };
+
+    it('should depreciate straight line over the useful life', () => {
+      const data = withCapex({ method: 'straight_line', useful_life_years: { value: 1, unit: 'years', rationale: 'Laptops' } });
+      const schedule = calculateDepreciationSchedule(data, 24);
+
+      expect(schedule[0]).toBeCloseTo(1000, 6);
+      expect(schedule[11]).toBeCloseTo(1000, 6);
+      expect(schedule[12]).toBe(0);
+      expect(schedule.reduce((sum, charge) => sum + charge, 0)).toBeCloseTo(12000, 6);
+    });
+
+    it('should front-load declining balance and fully write off the asset', () => {
+      const data = withCapex({ method: 'declining_balance', useful_life_years: { value: 1, unit: 'years', rationale: 'Laptops' } });
+      const schedule = calculateDepreciationSchedule(data, 24);
+
+      expect(schedule[0]).toBeCloseTo(2000, 6);
+      expect(schedule[1]).toBeLessThan(schedule[0]);
+      expect(schedule.reduce((sum, charge) => sum + charge, 0)).toBeCloseTo(12000, 6);
+    });
+
+    it('should default to straight line and skip items marked none', () => {
+      const lifeMonths = DEFAULT_USEFUL_LIFE_YEARS * 12;
+      expect(calculateDepreciationSchedule(withCapex(), 24)[0]).toBeCloseTo(12000 / lifeMonths, 6);
+      expect(calculateDepreciationSchedule(withCapex({ method: 'none' }), 24).every(charge => charge === 0)).toBe(true);
+    });
+
+    it('should carry losses forward before charging tax', () => {
+      const loss = calculateTaxForMonth(-1000, 0.2, INITIAL_TAX_YEAR_STATE, true);
+      expect(loss.tax).toBe(0);
+      expect(loss.state.lossCarryForward).toBe(1000);
+
+      const partlyOffset = calculateTaxForMonth(1500, 0.2, loss.state, true);
+      expect(partlyOffset.tax).toBeCloseTo(100, 6);
+      expect(partlyOffset.state.lossCarryForward).toBe(0);
+    });
+
+    it('should net a loss against an earlier profit in the same tax year', () => {
+      const profit = calculateTaxForMonth(1000, 0.2, INITIAL_TAX_YEAR_STATE, false);
+      expect(profit.tax).toBeCloseTo(200, 6);
+
+      const loss = calculateTaxForMonth(-1000, 0.2, profit.state, false);
+      expect(loss.tax).toBe(0);
+
+      const yearEnd = calculateTaxForMonth(0, 0.2, loss.state, true);
+      expect(yearEnd.tax).toBeCloseTo(-200, 6);
+      expect(profit.tax + loss.tax + yearEnd.tax).toBeCloseTo(0, 6);
+      expect(yearEnd.state).toEqual(INITIAL_TAX_YEAR_STATE);
+    });
+
+    it('should bridge EBITDA to after-tax cash flow', () => {
+      const data = withCapex({ method: 'straight_line', useful_life_years: { value: 1, unit: 'years', rationale: 'Laptops' } }, 0.25);
+      const monthlyData = generateMonthlyData(data);
+
+      monthlyData.forEach(month => {
+        expect(month.ebit).toBe(month.ebitda + month.depreciation);
+        expect(month.netIncome).toBe(month.ebit + month.tax);
+        expect(month.netCashFlow).toBe(month.ebitda + month.tax + month.capex);
+        expect(month.tax).toBeLessThanOrEqual(0);
+      });
+      expect(monthlyData[0].depreciation).toBe(-1000);
+    });
+
+    it('should discount after-tax cash flow', () => {
+      const preTax = calculateBusinessMetrics(withCapex(undefined, 0));
+      const afterTax = calculateBusinessMetrics(withCapex(undefined, 0.25));
+
+      expect(afterTax.monthlyData.some(month => month.tax < 0)).toBe(true);
+      expect(afterTax.npv).toBeLessThan(preTax.npv);
+      expect(afterTax.npv).toBeCloseTo(calculateNPV(afterTax.monthlyData, 0.12), 6);
+    });
+  });
+
+  describe('Working Capital', () => {
+    const withWorkingCapital = (businessModel: BusinessData['meta']['business_model'] = 'unit_sales'): BusinessData => {
+      const base = createMockBusinessData();
+      return {
+        ...base,
+        meta: { ...base.meta, business_model: businessModel },
+        assumptions: {
+          ...base.assumptions,
+          working_capital: {
+            receivable_days: { value: 45, unit: 'days', rationale: 'Retail terms' },
+            inventory_days: { value: 30, unit: 'days', rationale: 'One month of stock' },
+            payable_days: { value: 30, unit: 'days', rationale: 'Supplier terms' }
+          }
+        }
+      };
+    };
+
+    it('should leave trailing days of flow outstanding', () => {
+      expect(calculateTrailingBalance([100, 200], 45)).toBe(250);
+      expect(calculateTrailingBalance([100, 200], 15)).toBe(100);
+      expect(calculateTrailingBalance([200], 90)).toBe(200);
+      expect(calculateTrailingBalance([100, 200], 0)).toBe(0);
+    });
+
+    it('should build receivables and inventory net of payables', () => {
+      const monthlyData = generateMonthlyData(withWorkingCapital());
+      const [first, second] = monthlyData;
+
+      // Inventory and payables both cover 30 days of COGS, so only receivables remain
+      expect(first.workingCapital).toBe(first.revenue);
+      expect(second.workingCapital).toBe(Math.round(second.revenue + first.revenue * 0.5));
+      expect(first.changeInWorkingCapital).toBe(-first.workingCapital);
+      expect(second.changeInWorkingCapital).toBe(first.workingCapital - second.workingCapital);
+      expect(second.netCashFlow).toBe(second.ebitda + second.tax + second.capex + second.changeInWorkingCapital);
+    });
+
+    it('should increase the investment required for unit sales', () => {
+      const base = createMockBusinessData({ meta: { ...createMockBusinessData().meta, business_model: 'unit_sales' } });
+      const withoutWorkingCapital = calculateBusinessMetrics(base);
+      const withDays = calculateBusinessMetrics(withWorkingCapital());
+
+      expect(withDays.totalInvestmentRequired).toBeGreaterThan(withoutWorkingCapital.totalInvestmentRequired);
+      expect(withDays.monthlyData.every(month => month.ebitda === withoutWorkingCapital.monthlyData[month.month - 1].ebitda)).toBe(true);
+    });
+
+    it('should not tie up working capital in cost savings cases', () => {
+      const monthlyData = generateMonthlyData(withWorkingCapital('cost_savings'));
+      expect(monthlyData.every(month => month.workingCapital === 0 && month.changeInWorkingCapital === 0)).toBe(true);
+    });
+  });
+
+  describe('Financing', () => {
+    const loan = (amortisation: LoanFacility['amortisation'], overrides: Partial<LoanFacility> = {}): LoanFacility => ({
+      name: 'Term loan',
+      principal: { value: 12000, unit: 'EUR', rationale: 'Bank facility' },
+      interest_rate: { value: 0.12, unit: 'ratio', rationale: '1% per month' },
+      term_months: { value: 12, unit: 'months', rationale: 'One year' },
+      amortisation,
+      ...overrides
+    });
+
+    const withFinancing = (financial: BusinessData['assumptions']['financial']): BusinessData => {
+      const base = createMockBusinessData();
+      return {
+        ...base,
+        assumptions: {
+          ...base.assumptions,
+          financial: { ...base.assumptions.financial, ...financial }
+        }
+      };
+    };
+
+    it('should repay straight-line loans in level principal instalments', () => {
+      const schedule = calculateFinancingSchedule(withFinancing({ loans: [loan('straight_line')] }), 24);
+
+      expect(schedule.drawdown[0]).toBe(12000);
+      expect(schedule.interest[0]).toBe(0);
+      expect(schedule.repayment[1]).toBe(1000);
+      expect(schedule.interest[1]).toBeCloseTo(120, 6);
+      expect(schedule.interest[2]).toBeCloseTo(110, 6);
+      expect(schedule.debtBalance[12]).toBeCloseTo(0, 6);
+      expect(schedule.repayment.reduce((sum, value) => sum + value, 0)).toBeCloseTo(12000, 6);
+    });
+
+    it('should pay a level instalment on annuity loans', () => {
+      const schedule = calculateFinancingSchedule(withFinancing({ loans: [loan('annuity')] }), 24);
+      const payments = schedule.interest.map((interest, i) => interest + schedule.repayment[i]).slice(1, 13);
+
+      payments.forEach(payment => expect(payment).toBeCloseTo(payments[0], 6));
+      expect(schedule.debtBalance[12]).toBeCloseTo(0, 6);
+      expect(schedule.repayment[13]).toBe(0);
+    });
+
+    it('should repay bullet loans at term after interest-only months', () => {
+      const schedule = calculateFinancingSchedule(
+        withFinancing({ loans: [loan('bullet', { drawdown_month: 3 })] }),
+        24
+      );
+
+      expect(schedule.drawdown[2]).toBe(12000);
+      expect(schedule.interest.slice(3, 15).every(interest => Math.abs(interest - 120) < 1e-6)).toBe(true);
+      expect(schedule.repayment[13]).toBe(0);
+      expect(schedule.repayment[14]).toBe(12000);
+      expect(schedule.debtBalance[14]).toBe(0);
+    });
+
+    it('should charge interest before tax and keep it out of operating cash flow', () => {
+      const base = createMockBusinessData();
+      const taxed = withFinancing({ tax_rate: { value: 0.25, unit: 'ratio', rationale: 'Test' }, loans: [loan('bullet')] });
+      const month = generateMonthlyData(taxed)[5];
+
+      expect(month.interestExpense).toBe(-120);
+      expect(month.netIncome).toBe(month.ebit + month.interestExpense + month.tax);
+      expect(month.netCashFlow).toBe(
+        month.netIncome - month.depreciation - month.interestExpense + month.capex + month.changeInWorkingCapital
+      );
+
+      const unlevered = generateMonthlyData({
+        ...base,
+        assumptions: { ...base.assumptions, financial: { ...base.assumptions.financial, tax_rate: taxed.assumptions.financial.tax_rate } }
+      })[5];
+      expect(month.ebit).toBe(unlevered.ebit);
+      expect(month.tax).toBeGreaterThanOrEqual(unlevered.tax);
+      expect(month.financingCashFlow).toBe(month.interestExpense);
+    });
+
+    it('should carry the cash balance from opening cash through financing', () => {
+      const data = withFinancing({
+        opening_cash: { value: 5000, unit: 'EUR', rationale: 'Founder capital' },
+        equity_rounds: [{ name: 'Seed', amount: { value: 50000, unit: 'EUR', rationale: 'Angels' }, month: 2 }]
+      });
+      const monthlyData = generateMonthlyData(data);
+
+      expect(monthlyData[0].cashBalance).toBe(5000 + monthlyData[0].netCashFlow);
+      expect(monthlyData[1].equityInjection).toBe(50000);
+      expect(monthlyData[1].cashBalance).toBe(monthlyData[0].cashBalance + monthlyData[1].netCashFlow + 50000);
+    });
+
+    it('should report runway and the funding gap below minimum cash', () => {
+      const data = withFinancing({ minimum_cash: { value: 1000, unit: 'EUR', rationale: 'Buffer' } });
+      const monthlyData = [
+        { month: 1, cashBalance: 3000, equityInjection: 0, debtDrawdown: 0 },
+        { month: 2, cashBalance: 500, equityInjection: 0, debtDrawdown: 0 },
+        { month: 3, cashBalance: -2000, equityInjection: 0, debtDrawdown: 0 }
+      ] as MonthlyData[];
+      const summary = calculateFundingSummary(data, monthlyData);
+
+      expect(summary.firstShortfallMonth).toBe(2);
+      expect(summary.runwayMonths).toBe(1);
+      expect(summary.lowestCashMonth).toBe(3);
+      expect(summary.fundingGap).toBe(3000);
+    });
+
+    it('should report a fully funded plan', () => {
+      const data = withFinancing({
+        equity_rounds: [{ name: 'Seed', amount: { value: 10000000, unit: 'EUR', rationale: 'Large round' }, month: 1 }]
+      });
+      const summary = calculateFundingSummary(data, generateMonthlyData(data));
+
+      expect(summary.hasFinancing).toBe(true);
+      expect(summary.totalEquity).toBe(10000000);
+      expect(summary.firstShortfallMonth).toBe(0);
+      expect(summary.fundingGap).toBe(0);
+    });
+  });
+
   describe('Utility Functions', () => {
     describe('formatCurrency', () => {
       it('should format currency correctly', () => {
@@ -939,10 +1397,10 @@ describe('Calculations Engine', () => {
       it('should handle opex and capex correctly for cost savings', () => {
         const monthlyData = generateMonthlyData(costSavingsData);
         
-        // Should have opex from AI platform costs
-        expect(monthlyData[0].salesMarketing).toBeLessThan(0);
-        expect(monthlyData[0].rd).toBeLessThan(0);
-        expect(monthlyData[0].ga).toBeLessThan(0);
+        // Should have opex from AI platform costs, reported as uncategorised lines
+        expect(monthlyData[0].otherOpex).toBeLessThan(0);
+        expect(monthlyData[0].opexLines).toHaveLength(3);
+        expect(monthlyData[0].opexLines.every(line => line.amount < 0)).toBe(true);
         
         // Should have capex in early months
         expect(monthlyData[0].capex).toBeLessThan(0);
@@ -1795,6 +2253,104 @@ describe('Calculations Engine', () => {
       });
     });
 
+    describe('Categories and headcount', () => {
+      const fixed = (name: string, value: number, category?: OpexItem['category']): OpexItem => ({
+        name,
+        ...(category ? { category } : {}),
+        value: { value, unit: 'EUR_per_month', rationale: 'Fixed' }
+      });
+
+      const withOpex = (opex: OpexItem[]): BusinessData => {
+        const base = createMockBusinessData();
+        return { ...base, assumptions: { ...base.assumptions, opex } };
+      };
+
+      it('should classify items by category rather than position', () => {
+        const ordered = calculateOpexForMonth(withOpex([
+          fixed('Sales & Marketing', 5000), fixed('R&D', 10000), fixed('G&A', 3000)
+        ]), 0, 0, 0);
+        const reordered = calculateOpexForMonth(withOpex([
+          fixed('G&A', 3000), fixed('Sales & Marketing', 5000), fixed('R&D', 10000)
+        ]), 0, 0, 0);
+
+        expect(reordered.salesMarketing).toBe(ordered.salesMarketing);
+        expect(reordered.rd).toBe(ordered.rd);
+        expect(reordered.ga).toBe(ordered.ga);
+        expect(reordered.lines.map(line => line.category)).toEqual(['ga', 'sales_marketing', 'rd']);
+      });
+
+      it('should prefer explicit categories and report unmatched items as other', () => {
+        expect(getOpexCategory({ name: 'Marketing Events', category: 'ga' })).toBe('ga');
+        expect(getOpexCategory({ name: 'Platform Engineering' })).toBe('rd');
+        expect(getOpexCategory({ name: 'Office Rent' })).toBe('ga');
+        expect(getOpexCategory({ name: 'Cloud Hosting' })).toBe('other');
+
+        const result = calculateOpexForMonth(withOpex([
+          fixed('Paid Search', 4000, 'sales_marketing'),
+          fixed('Trade Shows', 2000, 'sales_marketing'),
+          fixed('Cloud Hosting', 1500),
+          fixed('Insurance', 500, 'ga')
+        ]), 0, 0, 0);
+
+        expect(result.salesMarketing).toBe(6000);
+        expect(result.rd).toBe(0);
+        expect(result.ga).toBe(500);
+        expect(result.other).toBe(1500);
+        expect(result.totalOpex).toBe(8000);
+        expect(result.lines).toHaveLength(4);
+      });
+
+      it('should charge headcount from its start month until its end month', () => {
+        const roles = [
+          {
+            role: 'Engineer',
+            count: { value: 3, unit: 'FTE', rationale: 'Core team' },
+            monthly_salary: { value: 8000, unit: 'EUR_per_month', rationale: 'Loaded cost' }
+          },
+          {
+            role: 'Contractor',
+            count: { value: 1, unit: 'FTE', rationale: 'Launch support' },
+            monthly_salary: { value: 5000, unit: 'EUR_per_month', rationale: 'Day rate' },
+            start_month: 3,
+            end_month: 4
+          }
+        ];
+
+        expect(calculateHeadcountCostForMonth(roles, 0)).toBe(24000);
+        expect(calculateHeadcountCostForMonth(roles, 2)).toBe(29000);
+        expect(calculateHeadcountCostForMonth(roles, 3)).toBe(29000);
+        expect(calculateHeadcountCostForMonth(roles, 4)).toBe(24000);
+
+        const result = calculateOpexForMonth(withOpex([{
+          name: 'Engineering',
+          category: 'rd',
+          cost_structure: { fixed_component: { value: 2000, unit: 'EUR_per_month', rationale: 'Tools' } },
+          headcount: roles
+        }]), 2, 0, 0);
+        expect(result.rd).toBe(31000);
+      });
+
+      it('should expose every item as a monthly line and roll lines up by period', () => {
+        const data = withOpex([
+          fixed('Sales & Marketing', 5000), fixed('Cloud Hosting', 1200), fixed('Legal', 800, 'ga')
+        ]);
+        const monthlyData = generateMonthlyData(data);
+        const [first] = monthlyData;
+
+        expect(first.opexLines).toEqual([
+          { name: 'Sales & Marketing', category: 'sales_marketing', amount: -5000 },
+          { name: 'Cloud Hosting', category: 'other', amount: -1200 },
+          { name: 'Legal', category: 'ga', amount: -800 }
+        ]);
+        expect(first.otherOpex).toBe(-1200);
+        expect(first.totalOpex).toBe(-7000 + first.totalCAC);
+
+        const [quarter] = aggregateMonthlyData(monthlyData, 'quarterly');
+        expect(quarter.opexLines.map(line => line.amount)).toEqual([-15000, -3600, -2400]);
+        expect(quarter.otherOpex).toBe(-3600);
+      });
+    });
+
     describe('Integration with generateMonthlyData', () => {
       it('should use variable OPEX in monthly data generation', () => {
         const businessData = createMockBusinessData({
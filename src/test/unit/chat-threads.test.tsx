@@ -0,0 +1,119 @@
+import React from 'react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { exportThreadToJSON, exportThreadToMarkdown, getThreadStats } from '@/core/services/chat-export';
+import { storageService, STORAGE_KEYS } from '@/core/services/storage.service';
+import { AIProvider, useAI } from '@/core/contexts/AIContext';
+import { DataProvider } from '@/core/contexts/DataContext';
+import type { ChatThread } from '@/core/types/ai';
+
+const thread: ChatThread = {
+  id: 'thread-1',
+  name: 'Pricing review',
+  scope: 'business',
+  scopeTitle: 'Test Business Case',
+  createdAt: '2026-01-01T10:00:00.000Z',
+  updatedAt: '2026-01-01T10:05:00.000Z',
+  messages: [
+    { id: 'm1', role: 'user', content: 'Is the price realistic?', timestamp: '2026-01-01T10:00:00.000Z' },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: 'It is on the high side.',
+      timestamp: '2026-01-01T10:01:00.000Z',
+      modelId: 'anthropic/claude-4-5-sonnet-aws',
+      tokenCount: 120,
+      toolCalls: [{ id: 'c1', name: 'get_value', arguments: { path: 'meta.currency' }, result: 'EUR', durationMs: 2 }],
+      suggestions: [{
+        id: 's1',
+        target: 'business',
+        path: 'assumptions.pricing.avg_unit_price',
+        currentValue: 100,
+        suggestedValue: 90,
+        rationale: 'Competitor pricing',
+        confidence: 0.8,
+        researchRefs: [],
+        status: 'accepted',
+        createdAt: '2026-01-01T10:01:00.000Z',
+      }],
+    },
+  ],
+};
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <DataProvider>
+    <AIProvider>{children}</AIProvider>
+  </DataProvider>
+);
+
+describe('Chat export', () => {
+  it('should summarize models and token usage', () => {
+    expect(getThreadStats(thread)).toEqual({
+      messageCount: 2,
+      totalTokens: 120,
+      models: ['anthropic/claude-4-5-sonnet-aws'],
+    });
+  });
+
+  it('should render messages, tool calls and suggestions as Markdown', () => {
+    const markdown = exportThreadToMarkdown(thread);
+
+    expect(markdown).toContain('# Pricing review');
+    expect(markdown).toContain('- **Context**: business (Test Business Case)');
+    expect(markdown).toContain('- **Total tokens**: 120');
+    expect(markdown).toContain('anthropic/claude-4-5-sonnet-aws · 120 tokens');
+    expect(markdown).toContain('`get_value({"path":"meta.currency"})` → "EUR"');
+    expect(markdown).toContain('`assumptions.pricing.avg_unit_price`: 100 → 90 (accepted, 80% confidence)');
+  });
+
+  it('should round-trip the thread through JSON', () => {
+    const parsed = JSON.parse(exportThreadToJSON(thread));
+    expect(parsed).toMatchObject({ id: 'thread-1', totalTokens: 120 });
+    expect(parsed.messages).toEqual(thread.messages);
+  });
+});
+
+describe('AIContext threads', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should restore persisted threads for the matching scope with their pending suggestions', () => {
+    const pending = {
+      ...thread,
+      messages: [thread.messages[0], {
+        ...thread.messages[1],
+        suggestions: thread.messages[1].suggestions!.map(s => ({ ...s, status: 'pending' as const })),
+      }],
+    };
+    storageService.save(STORAGE_KEYS.AI_CHAT_THREADS, [pending]);
+
+    const { result } = renderHook(() => useAI(), { wrapper });
+    expect(result.current.threads).toHaveLength(0);
+
+    act(() => result.current.setThreadScope('business', 'Test Business Case'));
+    expect(result.current.threads.map(t => t.id)).toEqual(['thread-1']);
+    expect(result.current.activeThread?.id).toBe('thread-1');
+    expect(result.current.state.messages).toHaveLength(2);
+    expect(result.current.state.pendingSuggestions.map(s => s.id)).toEqual(['s1']);
+  });
+
+  it('should start, rename and delete threads and persist the changes', () => {
+    storageService.save(STORAGE_KEYS.AI_CHAT_THREADS, [thread]);
+    const { result } = renderHook(() => useAI(), { wrapper });
+
+    act(() => result.current.setThreadScope('business', 'Test Business Case'));
+    act(() => result.current.newThread());
+    expect(result.current.activeThread).toBeNull();
+    expect(result.current.state.messages).toHaveLength(0);
+
+    act(() => result.current.renameThread('thread-1', '  Price check  '));
+    expect(storageService.load<ChatThread[]>(STORAGE_KEYS.AI_CHAT_THREADS)![0].name).toBe('Price check');
+
+    act(() => result.current.switchThread('thread-1'));
+    act(() => result.current.deleteThread('thread-1'));
+    expect(result.current.threads).toHaveLength(0);
+    expect(result.current.state.messages).toHaveLength(0);
+    expect(storageService.load<ChatThread[]>(STORAGE_KEYS.AI_CHAT_THREADS)).toEqual([]);
+  });
+});
@@ -229,10 +229,13 @@ describe('Cost Savings Business Model - Complex OPEX', () => {
     // 4200 + 4583 + 6667 + 9167 + 4583 + 1250 + 1667 + 958 = 33075
     expect(result.totalOpex).toBe(33075);
 
-    // Individual categories still use first 3 items
-    expect(result.salesMarketing).toBe(4200);
-    expect(result.rd).toBe(4583);
-    expect(result.ga).toBe(6667);
+    // None of the items has a category or a standard category name,
+    // so every line is reported under other operating expenses
+    expect(result.salesMarketing).toBe(0);
+    expect(result.rd).toBe(0);
+    expect(result.ga).toBe(0);
+    expect(result.other).toBe(33075);
+    expect(result.lines).toHaveLength(8);
   });
 
   it('should include all OPEX items in net cash flow calculation', () => {
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  buildBatchReport,
+  debateCandidate,
+  findReviewCandidates,
+  resolveDecisionValue,
+  runWithConcurrency,
+  toDebateResult,
+  type BatchReviewItem,
+} from '@/core/services/debate-batch';
+import { aiService } from '@/core/services/ai-service';
+import { mockAIBackend } from '@/core/services/ai-providers';
+import { createMockBusinessData } from '@/test/mockData';
+
+const data = createMockBusinessData({
+  assumptions: {
+    pricing: {
+      avg_unit_price: { value: 100, unit: 'EUR', rationale: 'Suggested by copilot', aiGenerated: true, aiConfidence: 0.8 },
+    },
+    unit_economics: {
+      cac: { value: 50, unit: 'EUR', rationale: 'Rough guess', aiConfidence: 0.4 },
+    },
+    opex: [
+      { name: 'R&D', value: { value: 3000, unit: 'EUR', rationale: 'Copilot estimate', aiGenerated: true } },
+    ],
+  } as never,
+});
+
+describe('Debate Batch', () => {
+  describe('findReviewCandidates', () => {
+    it('should find AI-generated and low-confidence values in document order', () => {
+      const candidates = findReviewCandidates(data, 'business');
+
+      expect(candidates.map((c) => [c.path, c.reasons])).toEqual([
+        ['assumptions.pricing.avg_unit_price', ['ai-generated']],
+        ['assumptions.unit_economics.cac', ['low-confidence']],
+        ['assumptions.opex[0].value', ['ai-generated']],
+      ]);
+      expect(candidates[1]).toMatchObject({ label: 'Cac', category: 'Unit Economics', value: 50, unit: 'EUR' });
+    });
+
+    it('should honour the threshold and the AI-generated switch', () => {
+      const candidates = findReviewCandidates(data, 'business', { confidenceThreshold: 0.9, includeAIGenerated: false });
+      expect(candidates.map((c) => c.path)).toEqual(['assumptions.pricing.avg_unit_price', 'assumptions.unit_economics.cac']);
+    });
+  });
+
+  describe('runWithConcurrency', () => {
+    it('should keep at most the limit in flight and stop picking up new items on request', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      const seen: number[] = [];
+
+      await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        seen.push(item);
+        inFlight--;
+      }, () => seen.length >= 3);
+
+      expect(peak).toBe(2);
+      expect(seen.length).toBeLessThan(5);
+    });
+  });
+
+  describe('triage report', () => {
+    const [price, cac] = findReviewCandidates(data, 'business');
+    const items: BatchReviewItem[] = [
+      {
+        candidate: price,
+        status: 'done',
+        bullCase: { position: 'bull', arguments: ['Premium segment'], suggestedValue: 120, confidence: 'high' },
+        bearCase: { position: 'bear', arguments: ['Discounting'], suggestedValue: 90, confidence: 'medium' },
+        decision: { selectedPosition: 'bull', reasoning: 'Premium | niche' },
+      },
+      {
+        candidate: cac,
+        status: 'done',
+        bullCase: { position: 'bull', arguments: [], confidence: 'low' },
+        bearCase: { position: 'bear', arguments: [], confidence: 'low' },
+        decision: { selectedPosition: 'original', reasoning: '' },
+      },
+    ];
+
+    it('should resolve decisions into values and evidence-trail records', () => {
+      expect(resolveDecisionValue(items[0])).toBe(120);
+      expect(resolveDecisionValue(items[1])).toBeUndefined();
+      expect(toDebateResult(items[0], 't')!.userDecision).toEqual({ selectedPosition: 'bull', newValue: 120, reasoning: 'Premium | niche' });
+    });
+
+    it('should consolidate all verdicts into one report', () => {
+      const report = buildBatchReport(items, 'Test Business Case', new Date('2026-03-01T00:00:00.000Z'));
+
+      expect(report).toContain('- Values changed: 1');
+      expect(report).toContain('| Avg Unit Price | `business:assumptions.pricing.avg_unit_price` | AI generated | 100 EUR | Adopt bull case | 120 EUR |');
+      expect(report).toContain('- Reasoning: Premium | niche');
+      expect(report).toContain('## Sign-off');
+    });
+  });
+
+  describe('debateCandidate', () => {
+    afterEach(() => {
+      mockAIBackend.reset();
+      aiService.setProvider('litellm');
+      vi.restoreAllMocks();
+      localStorage.clear();
+    });
+
+    it('should debate a candidate with the dialog prompts', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      aiService.setProvider('mock');
+
+      const result = await debateCandidate(findReviewCandidates(data, 'business')[0]);
+      expect(result.bullCase.arguments).toEqual(['Mock bull argument']);
+      expect(result.response.tokenUsage!.total).toBeGreaterThan(0);
+
+      mockAIBackend.enqueue({ content: 'Not JSON' });
+      await expect(debateCandidate(findReviewCandidates(data, 'business')[0])).rejects.toThrow('debate format');
+    });
+  });
+});
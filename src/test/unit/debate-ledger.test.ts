@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { debateLedger } from '@/core/services/debate-ledger';
+import { STORAGE_KEYS } from '@/core/services/storage.service';
+import type { DebateResult } from '@/core/services/debate-prompts';
+
+const dialogResult: DebateResult = {
+  assumption: { assumptionLabel: 'Monthly churn', currentValue: 3, unit: '%', rationale: 'Peer average', category: 'Customers' },
+  bullCase: { position: 'bull', arguments: ['Sticky product'], suggestedValue: 2, confidence: 'high' },
+  bearCase: { position: 'bear', arguments: ['New rivals'], suggestedValue: 5, confidence: 'medium' },
+  userDecision: { selectedPosition: 'bear', newValue: 5, reasoning: 'Rivals are real' },
+  timestamp: '2026-03-01T00:00:00.000Z',
+};
+
+describe('Debate Ledger', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    debateLedger.reload();
+  });
+
+  describe('migration', () => {
+    it('should move both legacy trails into the ledger and drop them from their old stores', () => {
+      localStorage.setItem('bizcaseland-evidence-trail', JSON.stringify([dialogResult]));
+      localStorage.setItem(STORAGE_KEYS.DEBATE_STATE, JSON.stringify({
+        debateHistory: [{
+          id: 'debate-1',
+          assumption: 'Price grows 10% a year',
+          assumptionPath: 'assumptions.pricing.avg_unit_price.value',
+          currentValue: 100,
+          bullCase: { id: 'a1', type: 'bull', headline: 'Premium', reasoning: '', evidence: ['Niche'], confidence: 0.7 },
+          bearCase: { id: 'a2', type: 'bear', headline: 'Discounts', reasoning: '', evidence: [], confidence: 0.5 },
+          createdAt: '2026-02-01T00:00:00.000Z',
+        }],
+        evidenceTrail: [{
+          id: 'evidence-1',
+          debateRoundId: 'debate-1',
+          assumption: 'Price grows 10% a year',
+          originalValue: 100,
+          finalValue: 110,
+          verdict: 'bull',
+          reasoning: 'Premium holds',
+          timestamp: '2026-02-01T00:00:00.000Z',
+        }],
+      }));
+
+      const entries = debateLedger.getEntries();
+
+      expect(entries.map((e) => [e.source, e.verdict])).toEqual([['dialog', 'bear'], ['sidebar', 'bull']]);
+      expect(entries[0]).toMatchObject({ originalValue: 3, finalValue: 5, bearArguments: ['New rivals'] });
+      expect(entries[1]).toMatchObject({
+        assumptionPath: 'assumptions.pricing.avg_unit_price',
+        bullArguments: ['Premium', 'Niche'],
+        researchIds: [],
+      });
+      expect(localStorage.getItem('bizcaseland-evidence-trail')).toBeNull();
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.DEBATE_STATE)!)).not.toHaveProperty('evidenceTrail');
+
+      // A second load finds nothing left to migrate
+      debateLedger.reload();
+      expect(debateLedger.getEntries()).toHaveLength(2);
+    });
+  });
+
+  describe('queries', () => {
+    it('should link dialog and batch decisions to their assumption path and research', () => {
+      debateLedger.recordDebateResult(dialogResult, {
+        source: 'dialog',
+        target: 'business',
+        path: 'assumptions.customers.churn_pct.value',
+        researchIds: ['research-1'],
+      });
+      debateLedger.recordDebateResult(dialogResult, { source: 'batch', target: 'market', path: 'market_sizing.tam' });
+      debateLedger.record({
+        source: 'sidebar',
+        assumption: 'Churn',
+        assumptionPath: 'assumptions.customers.churn_pct',
+        verdict: 'neutral',
+        reasoning: '',
+        bullArguments: [],
+        bearArguments: [],
+      });
+
+      expect(debateLedger.getDecisionsForPath('assumptions.customers.churn_pct')).toHaveLength(2);
+      expect(debateLedger.getDecisionsForPath('assumptions.customers.churn_pct.value', 'business')).toHaveLength(2);
+      expect(debateLedger.query({ researchId: 'research-1' }).map((e) => e.source)).toEqual(['dialog']);
+      expect(debateLedger.query({ target: 'market' }).map((e) => e.source).sort()).toEqual(['batch', 'sidebar']);
+    });
+
+    it('should notify subscribers and clear every entry', () => {
+      const seen: number[] = [];
+      const unsubscribe = debateLedger.subscribe((entries) => seen.push(entries.length));
+
+      debateLedger.recordDebateResult(dialogResult, { source: 'dialog' });
+      debateLedger.clear();
+      unsubscribe();
+      debateLedger.recordDebateResult(dialogResult, { source: 'dialog' });
+
+      expect(seen).toEqual([1, 0]);
+      expect(debateLedger.getEntries()).toHaveLength(1);
+    });
+  });
+});
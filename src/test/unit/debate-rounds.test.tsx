@@ -0,0 +1,115 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import {
+  buildRebuttalPrompt,
+  formatDebateTranscript,
+  parseJudgementResponse,
+  parseRebuttalResponse,
+} from '@/core/services/debate-rounds';
+import { aiService } from '@/core/services/ai-service';
+import { debateLedger } from '@/core/services/debate-ledger';
+import { AIProvider } from '@/core/contexts/AIContext';
+import { DataProvider } from '@/core/contexts/DataContext';
+import { DebateProvider, useDebate } from '@/core/contexts/DebateContext';
+import type { DebateRound } from '@/core/types/ai';
+
+const debate: DebateRound = {
+  id: 'debate-1',
+  assumption: 'Churn stays at 3% per month',
+  currentValue: 0.03,
+  bullCase: { id: 'a1', type: 'bull', headline: 'Sticky product', reasoning: 'Deep integrations.', evidence: ['Low churn peers'], confidence: 0.7 },
+  bearCase: { id: 'a2', type: 'bear', headline: 'New rivals', reasoning: 'Price pressure.', evidence: ['Two launches'], confidence: 0.6 },
+  rebuttals: [
+    { id: 'r1', type: 'bull', round: 1, headline: 'Rivals lack features', reasoning: '', rebuttedEvidence: ['Two launches'], evidence: [], confidence: 0.6 },
+    { id: 'r2', type: 'bear', round: 1, headline: 'Peers differ', reasoning: '', rebuttedEvidence: ['Low churn peers'], evidence: ['Smaller customers'], confidence: 0.5 },
+  ],
+  createdAt: '2026-03-01T00:00:00.000Z',
+};
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <DataProvider>
+    <AIProvider>
+      <DebateProvider>{children}</DebateProvider>
+    </AIProvider>
+  </DataProvider>
+);
+
+describe('Debate Rounds', () => {
+  describe('transcript', () => {
+    it('should include the opening cases and every rebuttal round', () => {
+      const transcript = formatDebateTranscript(debate);
+
+      expect(transcript).toContain('Current Value: 0.03');
+      expect(transcript).toContain('BULL (confidence 0.7): Sticky product');
+      expect(transcript).toContain('## Rebuttal round 1');
+      expect(transcript).toContain('  Answering:\n  - Low churn peers');
+      expect(buildRebuttalPrompt(debate, 2)).toMatch(/^Write rebuttal round 2/);
+    });
+  });
+
+  describe('parseRebuttalResponse', () => {
+    it('should require both sides and default missing fields', () => {
+      const parsed = parseRebuttalResponse('Here you go: {"bullRebuttal": {"headline": "Up", "confidence": 2}, "bearRebuttal": {"evidence": ["x", 3]}}');
+
+      expect(parsed!.bull).toEqual({ headline: 'Up', reasoning: '', rebuttedEvidence: [], evidence: [], confidence: 1 });
+      expect(parsed!.bear).toMatchObject({ headline: 'Pessimistic rebuttal', evidence: ['x'], confidence: 0.5 });
+      expect(parseRebuttalResponse('{"bullRebuttal": {}}')).toBeNull();
+    });
+  });
+
+  describe('parseJudgementResponse', () => {
+    it('should derive the leaning and widen the band to contain the proposal', () => {
+      const judgement = parseJudgementResponse(
+        '{"judgement": {"bullScore": 4, "bearScore": 12, "rationale": "Bear held up", "adjustedValue": 0.035, "confidenceLow": 0.04, "confidenceHigh": 0.045}}',
+        0.03
+      );
+
+      expect(judgement).toMatchObject({ bullScore: 4, bearScore: 10, leaning: 'bear', adjustedValue: 0.035, confidence: 0.5 });
+      expect(judgement!.confidenceBand).toEqual({ low: 0.035, high: 0.045 });
+    });
+
+    it('should drop the proposal for non-numeric assumptions', () => {
+      const judgement = parseJudgementResponse('{"judgement": {"bullScore": 6, "bearScore": 6, "adjustedValue": 5}}', 'EU first');
+
+      expect(judgement!.leaning).toBe('neutral');
+      expect(judgement!.adjustedValue).toBeUndefined();
+      expect(judgement!.confidenceBand).toBeUndefined();
+    });
+  });
+
+  describe('DebateContext multi-round flow', () => {
+    afterEach(() => {
+      aiService.setProvider('litellm');
+      vi.restoreAllMocks();
+      localStorage.clear();
+      debateLedger.reload();
+    });
+
+    it('should run rebuttals and the judge, then record them in the evidence trail', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      aiService.setProvider('mock');
+      const { result } = renderHook(() => useDebate(), { wrapper });
+
+      await act(() => result.current.startDebate('Price grows 10% a year', 'pricing.growth', 100));
+      await act(() => result.current.addRebuttalRound());
+      await act(() => result.current.judgeDebate());
+
+      const active = result.current.state.activeDebate!;
+      expect(active.rebuttals!.map((r) => [r.type, r.round])).toEqual([['bull', 1], ['bear', 1]]);
+      expect(active.judgement).toMatchObject({ leaning: 'bull', adjustedValue: 105, confidenceBand: { low: 94.5, high: 115.5 } });
+
+      // Another round makes the judgement stale
+      await act(() => result.current.addRebuttalRound());
+      expect(result.current.state.activeDebate!.judgement).toBeUndefined();
+      await act(() => result.current.judgeDebate());
+
+      act(() => result.current.resolveDebate('bull', 'Judge was convincing', 105));
+
+      const [entry] = result.current.evidenceTrail;
+      expect(entry).toMatchObject({ originalValue: 100, finalValue: 105, rebuttalRounds: 2 });
+      expect(entry.judgement!.adjustedValue).toBe(105);
+      expect(result.current.state.debateHistory[0].rebuttals).toHaveLength(4);
+    });
+  });
+});
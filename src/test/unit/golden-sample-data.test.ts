@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import * as engine from '@/core/engine';
+import {
+  calculateBusinessMetrics,
+  aggregateMonthlyData,
+  getModelStartDate,
+  calculateNPV,
+  calculateIRR,
+  calculateBreakEven,
+  calculatePaybackPeriod,
+} from '@/core/engine/calculators/business-calculator-full';
+import * as financial from '@/core/engine/utils/financial';
+import { BusinessData } from '@/core/types';
+
+// Every business case shipped in sample-data; golden files are regenerated with `vitest -u`
+const sampleCases = {
+  ...import.meta.glob('../../../sample-data/business-cases/*.json', { eager: true, import: 'default' }),
+  ...import.meta.glob('../../../public/sample-data/business-cases/*.json', { eager: true, import: 'default' }),
+} as Record<string, BusinessData>;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const goldenName = (file: string) =>
+  file.replace(/^(\.\.\/)+/, '').replace(/\/business-cases\//, '-').replace(/\//g, '-');
+
+/**
+ * Headline metrics plus annual totals, rounded so the files stay stable across platforms
+ */
+function summarise(businessData: BusinessData) {
+  const metrics = calculateBusinessMetrics(businessData);
+  const years = aggregateMonthlyData(
+    metrics.monthlyData,
+    'annually',
+    getModelStartDate(businessData),
+    businessData.meta?.business_model
+  );
+
+  return {
+    title: businessData.meta?.title,
+    npv: round(metrics.npv),
+    irr: round(metrics.irr, 8),
+    paybackPeriod: metrics.paybackPeriod,
+    breakEvenMonth: metrics.breakEvenMonth,
+    totalRevenue: round(metrics.totalRevenue),
+    netProfit: round(metrics.netProfit),
+    totalInvestmentRequired: round(metrics.totalInvestmentRequired),
+    years: years.map(year => ({
+      label: year.label,
+      revenue: round(year.revenue),
+      ebitda: round(year.ebitda),
+      netIncome: round(year.netIncome),
+      netCashFlow: round(year.netCashFlow),
+      cashBalance: round(year.cashBalance),
+    })),
+  };
+}
+
+describe('Golden sample-data regression', () => {
+  it('should find the sample business cases', () => {
+    expect(Object.keys(sampleCases).length).toBeGreaterThanOrEqual(4);
+  });
+
+  Object.entries(sampleCases).forEach(([file, businessData]) => {
+    it(`should reproduce ${goldenName(file)}`, async () => {
+      await expect(`${JSON.stringify(summarise(businessData), null, 2)}\n`)
+        .toMatchFileSnapshot(`./__golden__/${goldenName(file)}`);
+    });
+  });
+});
+
+describe('Single engine API', () => {
+  it('should expose one implementation through every import path', () => {
+    expect(engine.calculateBusinessMetrics).toBe(calculateBusinessMetrics);
+    expect(engine.calculateNPV).toBe(financial.calculateNPV);
+    expect(engine.calculateIRR).toBe(financial.calculateIRR);
+    expect(calculateNPV).toBe(financial.calculateNPV);
+    expect(calculateIRR).toBe(financial.calculateIRR);
+    expect(engine.calculateBreakEven).toBe(calculateBreakEven);
+    expect(engine.calculatePaybackPeriod).toBe(calculatePaybackPeriod);
+  });
+
+  it('should give the same results for rows and plain cash flows', () => {
+    const { monthlyData } = calculateBusinessMetrics(Object.values(sampleCases)[0]);
+    const cashFlows = monthlyData.map(month => month.netCashFlow);
+
+    expect(calculateNPV(cashFlows, 0.1)).toBe(calculateNPV(monthlyData, 0.1));
+    expect(calculateIRR(cashFlows)).toBe(calculateIRR(monthlyData));
+    expect(calculateBreakEven(cashFlows)).toBe(calculateBreakEven(monthlyData));
+    expect(calculatePaybackPeriod(cashFlows)).toBe(calculatePaybackPeriod(monthlyData));
+  });
+});
@@ -3,16 +3,20 @@ import {
   calculateMarketTAM,
   calculateMarketSAM,
   calculateMarketSOM,
+  calculateBottomUpMarket,
+  getMarketSizingComparison,
   calculateMarketShareProgression,
   calculateMarketBasedVolumeProjection,
   getMarketAnalysisMetrics,
   getMarketPenetrationTrajectory,
+  calculateSegmentProjections,
   validateMarketAnalysis,
   calculateMarketOpportunityScore,
   formatMarketCurrency,
   formatMarketPercent,
 } from '@/core/engine/calculators/market-calculator';
-import type { MarketData } from '@/core/types/market';
+import type { BottomUpSizing, MarketData } from '@/core/types/market';
+import { MarketInsightsCartService } from '@/core/services/market-insights-cart.service';
 import { createMockMarketData } from '@/test/mockData';
 
 describe('Market Calculations Engine', () => {
@@ -95,6 +99,54 @@ describe('Market Calculations Engine', () => {
     });
   });
 
+  describe('bottom-up sizing', () => {
+    const line = (id: string, accounts: number, adoption: number, spend: number) => ({
+      id,
+      label: id,
+      target_accounts: { value: accounts, unit: 'accounts', rationale: '' },
+      adoption_rate: { value: adoption, unit: 'percentage', rationale: '' },
+      annual_spend: { value: spend, unit: 'EUR_per_year', rationale: '' },
+    });
+
+    const withBottomUp = (bottomUp: BottomUpSizing): MarketData => ({
+      ...mockMarketData,
+      market_sizing: { ...mockMarketData.market_sizing, bottom_up: bottomUp },
+    });
+
+    it('should sum accounts × adoption × annual spend across lines', () => {
+      const data = withBottomUp({ lines: [line('dach', 1000, 10, 200000), line('nordics', 250, 20, 100000)] });
+      expect(calculateBottomUpMarket(data)).toBe(25000000);
+    });
+
+    it('should keep top-down SOM unless another method is selected', () => {
+      const data = withBottomUp({ lines: [line('dach', 1000, 10, 250000)] });
+      expect(calculateMarketSOM(data, 2024)).toBeCloseTo(30000000);
+      expect(getMarketSizingComparison(data)).toMatchObject({ topDown: 30000000, bottomUp: 25000000, method: 'top_down', diverges: false });
+    });
+
+    it('should feed the bottom-up or blended figure into SOM and grow it with the TAM', () => {
+      const lines = [line('dach', 1000, 10, 250000)];
+      expect(calculateMarketSOM(withBottomUp({ lines, selected_method: 'bottom_up' }), 2024)).toBeCloseTo(25000000);
+      expect(calculateMarketSOM(withBottomUp({ lines, selected_method: 'bottom_up' }), 2025)).toBeCloseTo(28000000);
+      expect(calculateMarketSOM(withBottomUp({ lines, selected_method: 'blended' }), 2024)).toBeCloseTo(27500000);
+      expect(calculateMarketSOM(withBottomUp({ lines, selected_method: 'blended', blend_weight: 80 }), 2024)).toBeCloseTo(26000000);
+    });
+
+    it('should fall back to top-down while the bottom-up build is empty', () => {
+      expect(calculateMarketSOM(withBottomUp({ lines: [], selected_method: 'bottom_up' }), 2024)).toBeCloseTo(30000000);
+    });
+
+    it('should flag estimates that diverge beyond the threshold', () => {
+      const data = withBottomUp({ lines: [line('dach', 2000, 10, 250000)] });
+      const comparison = getMarketSizingComparison(data);
+
+      expect(comparison.divergence).toBeCloseTo(2 / 3);
+      expect(comparison.diverges).toBe(true);
+      expect(validateMarketAnalysis(data).warnings).toContain('Bottom-up sizing differs from the top-down SOM by 67%');
+      expect(getMarketSizingComparison(withBottomUp({ lines: data.market_sizing!.bottom_up!.lines, divergence_threshold: 80 })).diverges).toBe(false);
+    });
+  });
+
   describe('calculateMarketShareProgression', () => {
     it('should return current share at time zero', () => {
       const share = calculateMarketShareProgression(mockMarketData, 0);
@@ -259,6 +311,84 @@ describe('Market Calculations Engine', () => {
     });
   });
 
+  describe('segment projections', () => {
+    const segment = (id: string, size: number, growth: number, targetShare?: number) => ({
+      id,
+      name: id,
+      size: { value: size, unit: 'percentage', rationale: '' },
+      growth_rate: { value: growth, unit: 'percentage_per_year', rationale: '' },
+      ...(targetShare !== undefined && { target_share: { value: targetShare, unit: 'percentage', rationale: '' } }),
+      characteristics: '',
+      pain_points: [],
+      buying_behavior: '',
+    });
+
+    const segmented = (): MarketData => ({
+      ...mockMarketData,
+      customer_analysis: { segments: [segment('smb', 60, 20), segment('enterprise', 40, 0, 10)] },
+    });
+
+    it('should grow each segment at its own rate', () => {
+      const [smb, enterprise] = calculateSegmentProjections(segmented(), 24);
+
+      expect(smb.tam).toBeCloseTo(2500000000 * 0.6 * 1.44);
+      expect(enterprise.tam).toBeCloseTo(2500000000 * 0.4);
+      expect(smb.sam).toBeCloseTo(smb.tam * 0.08);
+      expect(smb.som).toBeCloseTo(smb.tam * 0.08 * 0.15);
+    });
+
+    it('should use a segment target share where one is given', () => {
+      const [smb, enterprise] = calculateSegmentProjections(segmented(), 60);
+      expect(smb.marketShare).toBeCloseTo(calculateMarketShareProgression(segmented(), 60));
+      expect(enterprise.marketShare).toBeGreaterThan(smb.marketShare);
+      expect(enterprise.marketValue).toBeCloseTo(enterprise.som * enterprise.marketShare);
+    });
+
+    it('should sum segments into the trajectory and show the mix shift', () => {
+      const trajectory = getMarketPenetrationTrajectory(segmented(), 37);
+      const first = trajectory[0];
+      const last = trajectory[36];
+
+      expect(first.tam).toBeCloseTo(2500000000);
+      expect(last.som).toBeCloseTo(last.segments.reduce((sum, s) => sum + s.som, 0));
+      expect(last.marketValue).toBeCloseTo(last.segments.reduce((sum, s) => sum + s.marketValue, 0));
+      expect(last.segments[0].som / last.som).toBeGreaterThan(first.segments[0].som / first.som);
+    });
+
+    it('should add an Other segment for TAM the segments leave uncovered', () => {
+      const data: MarketData = { ...mockMarketData, customer_analysis: { segments: [segment('smb', 60, 20)] } };
+      const projections = calculateSegmentProjections(data, 0);
+
+      expect(projections.map(s => s.id)).toEqual(['smb', 'other']);
+      expect(projections[1].tam).toBeCloseTo(2500000000 * 0.4);
+    });
+
+    it('should fall back to the template market_segments shape', () => {
+      const [manufacturing] = calculateSegmentProjections(mockMarketData, 12);
+      expect(manufacturing.id).toBe('manufacturing');
+      expect(manufacturing.tam).toBeCloseTo(500000000 * 1.1);
+    });
+
+    it('should export declared segments to the cart without the Other remainder', async () => {
+      const cart = new MarketInsightsCartService();
+      const partial: MarketData = { ...mockMarketData, customer_analysis: { segments: [segment('smb', 60, 20)] } };
+
+      const exported = await cart.extractCustomerSegments(partial);
+      expect(exported.map(s => s.data.segmentId)).toEqual(['smb']);
+      expect(await cart.extractSegmentInsight(partial, 'other')).toBeNull();
+    });
+
+    it('should keep the declared size percentage in the cart export', async () => {
+      const overlapping: MarketData = {
+        ...mockMarketData,
+        customer_analysis: { segments: [segment('smb', 70, 20), segment('enterprise', 40, 0)] },
+      };
+
+      const exported = await new MarketInsightsCartService().extractCustomerSegments(overlapping);
+      expect(exported.map(s => s.data.sizePercentage)).toEqual([70, 40]);
+    });
+  });
+
   describe('validateMarketAnalysis', () => {
     it('should validate correct market data', () => {
       const validation = validateMarketAnalysis(mockMarketData);
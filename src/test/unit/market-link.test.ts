@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMarketLinks,
+  calculateLinkedSegmentVolume,
+  isLinkedVolumeGenerated,
+  resolveLinkAllocation,
+  syncMarketToBusinessVolume,
+} from '@/core/services/data-sync.service';
+import { calculateMarketSOM, calculateMarketShareProgression } from '@/core/engine/calculators/market-calculator';
+import { calculateBusinessMetrics } from '@/core/engine';
+import { createMockBusinessData, createMockMarketData } from '@/test/mockData';
+import type { BusinessData, CustomerSegment } from '@/core/types';
+import type { MarketData } from '@/core/types/market';
+
+const marketSegment = (id: string, size: number, unit = 'percentage') => ({
+  id,
+  name: id,
+  size: { value: size, unit, rationale: `${id} share` },
+  growth_rate: { value: 10, unit: 'percentage_per_year', rationale: '' },
+  characteristics: '',
+  pain_points: [],
+  buying_behavior: '',
+});
+
+const createMarket = (overrides: Partial<MarketData> = {}): MarketData =>
+  createMockMarketData({
+    customer_analysis: { segments: [marketSegment('smb', 60), marketSegment('enterprise', 40)] },
+    ...overrides,
+  });
+
+const withSegments = (segments: CustomerSegment[]): BusinessData => {
+  const business = createMockBusinessData();
+  return {
+    ...business,
+    meta: { ...business.meta, start_date: '2026-01-01', periods: 12 },
+    assumptions: { ...business.assumptions, customers: { ...business.assumptions.customers, segments } },
+  };
+};
+
+const linkedSegment: CustomerSegment = {
+  id: 'smb',
+  label: 'SMB',
+  rationale: '',
+  market_link: { source: 'market_som', market_segment_id: 'smb' },
+};
+
+describe('Market-linked Segment Volume', () => {
+  it('should resolve the allocation from the link or the market segment', () => {
+    const market = createMarket();
+    expect(resolveLinkAllocation({ source: 'market_som', market_segment_id: 'smb' }, market)).toBe(0.6);
+    expect(resolveLinkAllocation({ source: 'market_som' }, market)).toBe(1);
+    expect(resolveLinkAllocation({
+      source: 'market_som',
+      market_segment_id: 'smb',
+      allocation: { value: 25, unit: 'percentage', rationale: '' },
+    }, market)).toBe(0.25);
+
+    const sized = createMarket({
+      customer_analysis: { segments: [marketSegment('a', 300, 'EUR'), marketSegment('b', 100, 'EUR')] },
+    });
+    expect(resolveLinkAllocation({ source: 'market_som', market_segment_id: 'b' }, sized)).toBe(0.25);
+  });
+
+  it('should derive volume from SOM × market share on the market timeline', () => {
+    const market = createMarket();
+    const business = withSegments([linkedSegment]);
+
+    // 2026-01 is month 24 of a market analysis based in 2024
+    const expected = (calculateMarketSOM(market, 2026) * calculateMarketShareProgression(market, 24) * 0.6) / 12 / 100;
+    expect(calculateLinkedSegmentVolume(market, business, linkedSegment.market_link!, 0)).toBeCloseTo(expected, 6);
+    expect(expected).toBeGreaterThan(0);
+  });
+
+  it('should regenerate the linked series and leave other segments alone', () => {
+    const manual: CustomerSegment = {
+      id: 'manual',
+      label: 'Manual',
+      rationale: '',
+      volume: { type: 'time_series', series: [{ period: 1, value: 10, unit: 'customers', rationale: '' }] },
+    };
+    const business = withSegments([linkedSegment, manual]);
+    const linked = applyMarketLinks(business, createMarket());
+    const [smb, other] = linked.assumptions.customers!.segments!;
+
+    expect(smb.volume!.series).toHaveLength(12);
+    expect(smb.volume!.series![11].value).toBeGreaterThan(smb.volume!.series![0].value);
+    expect(other).toBe(manual);
+    expect(calculateBusinessMetrics(linked).totalRevenue).toBeGreaterThan(0);
+  });
+
+  it('should only report a linked volume once it has been generated from the market', () => {
+    const pending: CustomerSegment = {
+      ...linkedSegment,
+      volume: { type: 'time_series', series: [{ period: 1, value: 10, unit: 'customers', rationale: 'Own forecast' }] },
+    };
+    const [generated] = applyMarketLinks(withSegments([pending]), createMarket()).assumptions.customers!.segments!;
+
+    expect(isLinkedVolumeGenerated(linkedSegment)).toBe(false);
+    expect(isLinkedVolumeGenerated(pending)).toBe(false);
+    expect(isLinkedVolumeGenerated(generated)).toBe(true);
+    expect(isLinkedVolumeGenerated({ ...generated, market_link: undefined })).toBe(false);
+  });
+
+  it('should follow market changes and return the same data when nothing changed', () => {
+    const market = createMarket();
+    const linked = applyMarketLinks(withSegments([linkedSegment]), market);
+    expect(applyMarketLinks(linked, market)).toBe(linked);
+
+    const grown = createMarket({
+      market_sizing: {
+        ...market.market_sizing,
+        serviceable_obtainable_market: {
+          ...market.market_sizing.serviceable_obtainable_market,
+          percentage_of_sam: { value: 30, unit: 'percentage', rationale: '' },
+        },
+      },
+    });
+    const relinked = applyMarketLinks(linked, grown);
+    const volume = (data: BusinessData) => data.assumptions.customers!.segments![0].volume!.series![0].value;
+
+    expect(relinked).not.toBe(linked);
+    expect(volume(relinked)).toBeCloseTo(volume(linked) * 2, 1);
+  });
+
+  it('should not touch business cases without links', () => {
+    const business = createMockBusinessData();
+    expect(applyMarketLinks(business, createMarket())).toBe(business);
+  });
+
+  it('should sync typed market segments into linked business segments', () => {
+    const { businessData, syncResult } = syncMarketToBusinessVolume(createMarket(), withSegments([]));
+    const segments = businessData.assumptions!.customers!.segments!;
+
+    expect(syncResult.success).toBe(true);
+    expect(syncResult.changesApplied).toBe(2);
+    expect(segments.map((segment) => segment.market_link?.market_segment_id)).toEqual(['smb', 'enterprise']);
+    expect(segments[0].volume!.series![0].value).toBeGreaterThan(segments[1].volume!.series![0].value);
+  });
+
+  it('should fail without a business case to link to', () => {
+    const { syncResult } = syncMarketToBusinessVolume(createMarket());
+    expect(syncResult.success).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  getDriverBounds,
+  sampleDriverValue,
+  calculatePercentile,
+  buildHistogram,
+  getSampledDrivers,
+  runMonteCarloSimulation,
+} from '@/core/engine/calculators/monte-carlo-calculator';
+import { calculateBusinessMetrics } from '@/core/engine/calculators/business-calculator-full';
+import { BusinessData, Driver } from '@/core/types';
+import { createMockBusinessData } from '@/test/mockData';
+
+const priceDriver = (overrides: Partial<Driver> = {}): Driver => ({
+  key: 'price',
+  label: 'Price',
+  path: 'assumptions.pricing.avg_unit_price.value',
+  range: [80, 120],
+  rationale: 'Price range',
+  ...overrides,
+});
+
+const withDrivers = (drivers: Driver[]): BusinessData => ({ ...createMockBusinessData(), drivers });
+
+describe('Monte Carlo Calculator', () => {
+  describe('sampling', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const first = createSeededRandom(42);
+      const second = createSeededRandom(42);
+      const values = Array.from({ length: 5 }, () => first());
+
+      expect(values).toEqual(Array.from({ length: 5 }, () => second()));
+      expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+    });
+
+    it('should use the lowest and highest point of multi-step ranges', () => {
+      expect(getDriverBounds(priceDriver({ range: [100, 60, 80, 140, 120] as unknown as [number, number] }))).toEqual([60, 140]);
+    });
+
+    it('should keep every distribution inside the driver range', () => {
+      const random = createSeededRandom(7);
+      (['uniform', 'triangular', 'normal'] as const).forEach(type => {
+        const driver = priceDriver({ distribution: { type, std_dev: 50 } });
+        for (let i = 0; i < 500; i++) {
+          const value = sampleDriverValue(driver, 100, random);
+          expect(value).toBeGreaterThanOrEqual(80);
+          expect(value).toBeLessThanOrEqual(120);
+        }
+      });
+    });
+
+    it('should centre triangular draws on the mode', () => {
+      const random = createSeededRandom(3);
+      const driver = priceDriver({ distribution: { type: 'triangular', mode: 90 } });
+      const draws = Array.from({ length: 4000 }, () => sampleDriverValue(driver, 100, random));
+      const mean = draws.reduce((sum, value) => sum + value, 0) / draws.length;
+
+      // Mean of a triangular distribution is (min + mode + max) / 3
+      expect(mean).toBeCloseTo((80 + 90 + 120) / 3, 0);
+    });
+
+    it('should return the bound for zero-width ranges', () => {
+      expect(sampleDriverValue(priceDriver({ range: [100, 100] }), 90, Math.random)).toBe(100);
+    });
+  });
+
+  describe('statistics', () => {
+    it('should interpolate percentiles between ranks', () => {
+      const values = [0, 10, 20, 30, 40];
+      expect(calculatePercentile(values, 0.5)).toBe(20);
+      expect(calculatePercentile(values, 0.1)).toBe(4);
+      expect(calculatePercentile(values, 0.9)).toBe(36);
+      expect(calculatePercentile([], 0.5)).toBe(0);
+    });
+
+    it('should place every value in an equal-width bin', () => {
+      const histogram = buildHistogram([0, 1, 2, 3, 4, 5, 6, 7, 8, 10], 5);
+
+      expect(histogram).toHaveLength(5);
+      expect(histogram[0]).toEqual({ start: 0, end: 2, count: 2 });
+      expect(histogram[4].end).toBe(10);
+      expect(histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(10);
+    });
+  });
+
+  describe('runMonteCarloSimulation', () => {
+    it('should skip drivers without a numeric value or a range', () => {
+      const data = withDrivers([
+        priceDriver(),
+        priceDriver({ key: 'fixed', range: [100, 100] }),
+        priceDriver({ key: 'missing', path: 'assumptions.pricing.missing.value' }),
+      ]);
+
+      expect(getSampledDrivers(data).map(({ driver }) => driver.key)).toEqual(['price']);
+    });
+
+    it('should match the deterministic NPV when no driver varies', () => {
+      const data = withDrivers([]);
+      const result = runMonteCarloSimulation(data, { iterations: 3, seed: 1 });
+      const { npv } = calculateBusinessMetrics(data);
+
+      expect(result.iterations).toBe(3);
+      expect(result.npv.p10).toBeCloseTo(npv, 6);
+      expect(result.npv.p90).toBeCloseTo(npv, 6);
+    });
+
+    it('should report percentiles, loss probability and a histogram', () => {
+      const data = withDrivers([priceDriver({ range: [10, 200] })]);
+      const progress: number[] = [];
+      const result = runMonteCarloSimulation(data, { iterations: 200, seed: 11, bins: 10 }, completed => progress.push(completed));
+
+      expect(result.iterations).toBe(200);
+      expect(result.failedIterations).toBe(0);
+      expect(result.drivers).toEqual(['price']);
+      expect(result.npv.p10).toBeLessThanOrEqual(result.npv.p50);
+      expect(result.npv.p50).toBeLessThanOrEqual(result.npv.p90);
+      expect(result.probabilityNegativeNpv).toBeGreaterThan(0);
+      expect(result.probabilityNegativeNpv).toBeLessThan(1);
+      expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(200);
+      expect(progress[progress.length - 1]).toBe(200);
+    });
+
+    it('should be reproducible with a seed and leave the input untouched', () => {
+      const data = withDrivers([priceDriver()]);
+      const first = runMonteCarloSimulation(data, { iterations: 50, seed: 5 });
+      const second = runMonteCarloSimulation(data, { iterations: 50, seed: 5 });
+
+      expect(second.npv).toEqual(first.npv);
+      expect(data.assumptions.pricing.avg_unit_price.value).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyRiskToOpportunityScore,
+  BASELINE_RISK_SCORE,
+  buildRiskHeatmap,
+  buildRiskScenario,
+  buildRiskScenarios,
+  calculateRiskRegisterScore,
+  scoreRisk,
+  scoreRisks,
+} from '@/core/engine/calculators/risk-calculator';
+import { calculateSuiteMetrics } from '@/core/engine/calculators/market-suite-calculations';
+import { calculateScenarioResult, calculateBusinessMetrics } from '@/core/engine';
+import { createMockBusinessData, createMockMarketData } from '@/test/mockData';
+import type { MarketRisk } from '@/core/types';
+
+const risk = (overrides: Partial<MarketRisk> = {}): MarketRisk => ({
+  risk: 'Incumbent price war',
+  probability: 'high',
+  impact: 'high',
+  mitigation_strategy: 'Lock in annual contracts',
+  ...overrides,
+});
+
+describe('Risk Register Calculator', () => {
+  describe('scoring', () => {
+    it('should score probability × impact and discount by mitigation progress', () => {
+      expect(scoreRisk(risk(), 0)).toMatchObject({ id: 'risk_1', inherentScore: 9, residualScore: 9, severity: 'high' });
+      expect(scoreRisk(risk({ mitigation_status: 'in_progress' }), 0).residualScore).toBe(6.75);
+      expect(scoreRisk(risk({ mitigation_status: 'implemented' }), 0)).toMatchObject({ residualScore: 4.5, severity: 'medium' });
+      expect(scoreRisk(risk({ mitigation_status: 'implemented', mitigation_effectiveness: 80 }), 0).residualScore).toBeCloseTo(1.8);
+      expect(scoreRisk(risk({ id: 'price', probability: 'low', impact: 'medium' }), 3)).toMatchObject({ id: 'price', inherentScore: 2, severity: 'low' });
+    });
+
+    it('should order the register by residual score', () => {
+      const scored = scoreRisks([risk({ probability: 'low' }), risk({ risk: 'Regulation' })]);
+      expect(scored.map(s => s.risk.risk)).toEqual(['Regulation', 'Incumbent price war']);
+    });
+
+    it('should place risks on a 3 × 3 heatmap', () => {
+      const heatmap = buildRiskHeatmap([risk(), risk({ risk: 'Churn', probability: 'medium', impact: 'low' })]);
+
+      expect(heatmap).toHaveLength(9);
+      expect(heatmap[0]).toMatchObject({ probability: 'high', impact: 'low', score: 3 });
+      expect(heatmap[2].risks.map(s => s.risk.risk)).toEqual(['Incumbent price war']);
+      expect(heatmap.find(cell => cell.probability === 'medium' && cell.impact === 'low')!.risks).toHaveLength(1);
+    });
+  });
+
+  describe('register score', () => {
+    it('should use the baseline while no risks are assessed', () => {
+      expect(calculateRiskRegisterScore([])).toBe(BASELINE_RISK_SCORE);
+      expect(applyRiskToOpportunityScore(62, BASELINE_RISK_SCORE)).toBe(62);
+    });
+
+    it('should not let one severe risk be averaged away', () => {
+      const lows = Array.from({ length: 5 }, () => risk({ probability: 'low', impact: 'low' }));
+      expect(calculateRiskRegisterScore([...lows, risk()])).toBeGreaterThan(calculateRiskRegisterScore(lows) + 40);
+    });
+
+    it('should lower the opportunity score as residual risk rises', () => {
+      const marketData = createMockMarketData();
+      const risky = { ...marketData, risk_assessment: { risks: [risk()] } };
+      const mitigated = { ...marketData, risk_assessment: { risks: [risk({ probability: 'low', impact: 'low' })] } };
+
+      const base = calculateSuiteMetrics(marketData);
+      expect(base.riskScore).toBe(BASELINE_RISK_SCORE);
+      expect(calculateSuiteMetrics(risky).riskScore).toBe(100);
+      expect(calculateSuiteMetrics(risky).opportunityScore).toBe(Math.max(0, base.opportunityScore - 10));
+      expect(calculateSuiteMetrics(mitigated).opportunityScore).toBeGreaterThan(base.opportunityScore);
+    });
+  });
+
+  describe('downside scenarios', () => {
+    const businessData = createMockBusinessData();
+    const PRICE = 'assumptions.pricing.avg_unit_price.value';
+
+    it('should express driver bindings as scenario overrides', () => {
+      const scenario = buildRiskScenario(
+        risk({ id: 'price_war', driver_bindings: [{ path: PRICE, change_pct: -20, label: 'Unit price' }] }),
+        0,
+        businessData
+      )!;
+
+      expect(scenario).toMatchObject({
+        key: 'risk_price_war',
+        name: 'Downside: Incumbent price war',
+        overrides: { [PRICE]: 80 },
+      });
+      expect(scenario.description).toContain('Unit price -20%');
+
+      const result = calculateScenarioResult(businessData, scenario);
+      expect(result.metrics!.totalRevenue).toBeLessThan(calculateBusinessMetrics(businessData).totalRevenue);
+    });
+
+    it('should skip risks whose bindings do not resolve to numbers', () => {
+      const unbound = risk({ driver_bindings: [{ path: 'assumptions.pricing.missing.value', change_pct: -10 }] });
+      expect(buildRiskScenario(unbound, 0, businessData)).toBeNull();
+      expect(buildRiskScenarios([unbound, risk()], businessData)).toEqual([]);
+    });
+  });
+});
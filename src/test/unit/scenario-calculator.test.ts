@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyScenario,
+  calculateScenarioResult,
+  calculateScenarioComparison,
+  calculateCumulativeCashFlow,
+  BASE_SCENARIO,
+} from '@/core/engine/calculators/scenario-calculator';
+import { calculateBusinessMetrics } from '@/core/engine/calculators/business-calculator-full';
+import { Scenario } from '@/core/types';
+import { createMockBusinessData } from '@/test/mockData';
+
+const optimistic: Scenario = {
+  key: 'optimistic',
+  name: 'Optimistic',
+  description: 'Higher price, lower churn',
+  overrides: {
+    'assumptions.pricing.avg_unit_price.value': 120,
+    'assumptions.customers.churn_pct.value': 0.02,
+  },
+};
+
+const pessimistic: Scenario = {
+  key: 'pessimistic',
+  name: 'Pessimistic',
+  description: 'Lower price',
+  overrides: {
+    'assumptions.pricing.avg_unit_price.value': 80,
+  },
+};
+
+describe('Scenario Calculator', () => {
+  describe('applyScenario', () => {
+    it('should apply overrides without mutating the base data', () => {
+      const baseData = createMockBusinessData();
+      const scenarioData = applyScenario(baseData, optimistic);
+
+      expect(scenarioData.assumptions.pricing.avg_unit_price.value).toBe(120);
+      expect(scenarioData.assumptions.customers.churn_pct.value).toBe(0.02);
+      expect(baseData.assumptions.pricing.avg_unit_price.value).toBe(100);
+      expect(baseData.assumptions.customers.churn_pct.value).toBe(0.05);
+    });
+
+    it('should return the base data unchanged when there are no overrides', () => {
+      const baseData = createMockBusinessData();
+      expect(applyScenario(baseData, BASE_SCENARIO)).toBe(baseData);
+    });
+
+    it('should reject unsafe override paths', () => {
+      const baseData = createMockBusinessData();
+      const unsafe: Scenario = { name: 'Unsafe', description: '', overrides: { '__proto__.polluted': 1 } };
+
+      expect(() => applyScenario(baseData, unsafe)).toThrow();
+    });
+  });
+
+  describe('calculateScenarioResult', () => {
+    it('should recalculate metrics through the business calculator', () => {
+      const baseData = createMockBusinessData();
+      const result = calculateScenarioResult(baseData, pessimistic);
+      const expected = calculateBusinessMetrics(applyScenario(baseData, pessimistic));
+
+      expect(result.error).toBeUndefined();
+      expect(result.metrics.npv).toBeCloseTo(expected.npv, 6);
+      expect(result.metrics.irr).toBe(expected.irr);
+      expect(result.metrics.breakEvenMonth).toBe(expected.breakEvenMonth);
+      expect(result.cumulativeCashFlow).toHaveLength(expected.monthlyData.length);
+    });
+
+    it('should report invalid overrides as an error instead of throwing', () => {
+      const baseData = createMockBusinessData();
+      const broken: Scenario = { name: 'Broken', description: '', overrides: { 'constructor.value': 1 } };
+      const result = calculateScenarioResult(baseData, broken);
+
+      expect(result.metrics).toBeNull();
+      expect(result.cumulativeCashFlow).toEqual([]);
+      expect(result.error).toContain('constructor.value');
+    });
+  });
+
+  describe('calculateScenarioComparison', () => {
+    it('should return an empty list without business data', () => {
+      expect(calculateScenarioComparison(null)).toEqual([]);
+    });
+
+    it('should include the base case first followed by each scenario', () => {
+      const data = createMockBusinessData({ scenarios: [optimistic, pessimistic] });
+      const results = calculateScenarioComparison(data);
+
+      expect(results.map(r => r.scenario.name)).toEqual(['Base Case', 'Optimistic', 'Pessimistic']);
+      expect(results[1].metrics.npv).toBeGreaterThan(results[0].metrics.npv);
+      expect(results[2].metrics.npv).toBeLessThan(results[0].metrics.npv);
+    });
+
+    it('should omit the base case when requested', () => {
+      const data = createMockBusinessData({ scenarios: [optimistic] });
+      const results = calculateScenarioComparison(data, { includeBase: false });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].scenario.key).toBe('optimistic');
+    });
+  });
+
+  describe('calculateCumulativeCashFlow', () => {
+    it('should accumulate net cash flow per period', () => {
+      const metrics = calculateBusinessMetrics(createMockBusinessData());
+      const cumulative = calculateCumulativeCashFlow(metrics.monthlyData);
+
+      expect(cumulative[0]).toBe(metrics.monthlyData[0].netCashFlow);
+      expect(cumulative[cumulative.length - 1]).toBe(metrics.netProfit);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTornado, goalSeek, calculateMetricsWithValue } from '@/core/engine/calculators/sensitivity-calculator';
+import { calculateBusinessMetrics } from '@/core/engine/calculators/business-calculator-full';
+import { BusinessData, Driver } from '@/core/types';
+import { createMockBusinessData } from '@/test/mockData';
+
+const PRICE_PATH = 'assumptions.pricing.avg_unit_price.value';
+
+const driver = (overrides: Partial<Driver> = {}): Driver => ({
+  key: 'price',
+  label: 'Price',
+  path: PRICE_PATH,
+  range: [80, 120],
+  rationale: 'Price range',
+  ...overrides,
+});
+
+const withDrivers = (drivers: Driver[]): BusinessData => ({ ...createMockBusinessData(), drivers });
+
+describe('Sensitivity Calculator', () => {
+  describe('calculateTornado', () => {
+    it('should evaluate each end of the range with the real calculator', () => {
+      const data = withDrivers([driver()]);
+      const { baseNpv, bars } = calculateTornado(data);
+
+      expect(baseNpv).toBeCloseTo(calculateBusinessMetrics(data).npv, 6);
+      expect(bars).toHaveLength(1);
+      expect(bars[0].baseValue).toBe(100);
+      expect(bars[0].npvAtLow).toBeCloseTo(calculateMetricsWithValue(data, PRICE_PATH, 80).npv, 6);
+      expect(bars[0].npvAtHigh).toBeCloseTo(calculateMetricsWithValue(data, PRICE_PATH, 120).npv, 6);
+      expect(bars[0].npvAtHigh).toBeGreaterThan(bars[0].npvAtLow);
+      expect(bars[0].swing).toBeCloseTo(bars[0].npvAtHigh - bars[0].npvAtLow, 6);
+    });
+
+    it('should rank drivers by NPV swing', () => {
+      const data = withDrivers([
+        driver({ key: 'narrow', range: [99, 101] }),
+        driver({ key: 'wide', range: [50, 150] }),
+        driver({ key: 'mid', range: [90, 110] }),
+      ]);
+
+      expect(calculateTornado(data).bars.map(bar => bar.driver.key)).toEqual(['wide', 'mid', 'narrow']);
+    });
+
+    it('should skip drivers without a numeric value or a range', () => {
+      const data = withDrivers([
+        driver({ key: 'fixed', range: [100, 100] }),
+        driver({ key: 'missing', path: 'assumptions.pricing.missing.value' }),
+      ]);
+
+      expect(calculateTornado(data).bars).toEqual([]);
+      expect(calculateTornado(null)).toEqual({ baseNpv: 0, bars: [] });
+    });
+  });
+
+  describe('goalSeek', () => {
+    it('should find the price at which NPV is zero', () => {
+      const data = withDrivers([]);
+      const result = goalSeek(data, PRICE_PATH, 'npv', 0, { min: 1, max: 1000 });
+
+      expect(result.found).toBe(true);
+      expect(Math.abs(calculateMetricsWithValue(data, PRICE_PATH, result.value!).npv)).toBeLessThanOrEqual(1);
+      expect(Math.abs(result.achieved!)).toBeLessThanOrEqual(1);
+    });
+
+    it('should return the lowest price that pays back by the target month', () => {
+      const data = withDrivers([]);
+      const result = goalSeek(data, PRICE_PATH, 'paybackPeriod', 24, { min: 1, max: 1000 });
+
+      expect(result.found).toBe(true);
+      expect(result.achieved).toBeLessThanOrEqual(24);
+      expect(result.achieved).toBeGreaterThan(0);
+
+      // Slightly below the solution the case no longer pays back in time
+      const below = calculateMetricsWithValue(data, PRICE_PATH, result.value! * 0.99).paybackPeriod;
+      expect(below === 0 || below > 24).toBe(true);
+    });
+
+    it('should report when the target is not crossed within the bounds', () => {
+      const data = withDrivers([]);
+      const result = goalSeek(data, PRICE_PATH, 'npv', 0, { min: 900, max: 1000 });
+
+      expect(result.found).toBe(false);
+      expect(result.value).toBeNull();
+      expect(result.error).toContain('widen the bounds');
+    });
+
+    it('should leave the input data untouched', () => {
+      const data = withDrivers([]);
+      goalSeek(data, PRICE_PATH, 'npv', 0, { min: 1, max: 1000 });
+
+      expect(data.assumptions.pricing.avg_unit_price.value).toBe(100);
+    });
+  });
+});
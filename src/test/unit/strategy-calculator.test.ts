@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildStrategyScenario,
+  calculateRiskAdjustedReturn,
+  compareStrategicOptions,
+  optionToStrategy,
+  strategyToOption,
+} from '@/core/engine/calculators/strategy-calculator';
+import { generateStrategicOptions } from '@/core/engine/calculators/market-suite-calculations';
+import { calculateBusinessMetrics, calculateScenarioResult } from '@/core/engine';
+import { validateMarketData } from '@/core/engine/utils/market-data-utils';
+import { createMockBusinessData, createMockMarketData } from '@/test/mockData';
+import type { MarketEntryStrategy } from '@/core/types';
+
+const strategy = (overrides: Partial<MarketEntryStrategy> = {}): MarketEntryStrategy => ({
+  name: 'Channel partnership',
+  type: 'partnership',
+  essence: 'Resell through regional integrators.\n\nShare margin on every deal.',
+  rationale: 'Integrators already own the customer relationship',
+  investment_required: { value: 200000, unit: 'EUR', rationale: 'Enablement and co-marketing' },
+  expected_return: { value: 1000000, unit: 'EUR', rationale: 'Partner pipeline' },
+  time_to_market: { value: 6, unit: 'months', rationale: 'Partner onboarding' },
+  probability: { value: 60, unit: 'percentage', rationale: 'Two signed LOIs' },
+  ...overrides,
+});
+
+describe('Strategic Planning Calculator', () => {
+  describe('options', () => {
+    it('should prefer persisted strategies over derived suggestions', () => {
+      const marketData = createMockMarketData();
+      const derived = generateStrategicOptions(marketData);
+      expect(derived.map(o => o.id)).toContain('direct_entry');
+
+      const persisted = generateStrategicOptions({
+        ...marketData,
+        strategic_planning: { market_entry_strategies: [strategy({ scenario_key: 'strategy_partner' })] },
+      });
+      expect(persisted).toEqual([
+        expect.objectContaining({
+          id: 'strategy_1',
+          name: 'Channel partnership',
+          description: 'Resell through regional integrators.',
+          investmentRequired: 200000,
+          expectedReturn: 1000000,
+          timeToMarket: 6,
+          probability: 60,
+          riskLevel: 'medium',
+          scenarioKey: 'strategy_partner',
+        }),
+      ]);
+    });
+
+    it('should round-trip a derived option into a valid persisted strategy', () => {
+      const [option] = generateStrategicOptions(createMockMarketData());
+      const saved = optionToStrategy(option, 'USD');
+
+      expect(saved).toMatchObject({ id: 'direct_entry', type: 'direct', investment_required: { unit: 'USD' } });
+      expect(strategyToOption(saved, 0)).toMatchObject(option);
+      expect(validateMarketData({ strategic_planning: { market_entry_strategies: [saved] } }).errors).toEqual([]);
+    });
+
+    it('should reject probabilities outside 0-100', () => {
+      const invalid = strategy({ probability: { value: 140, unit: 'percentage', rationale: '' } });
+      expect(validateMarketData({ strategic_planning: { market_entry_strategies: [invalid] } }).errors)
+        .toContain('Strategy 0: probability must be between 0 and 100');
+    });
+  });
+
+  describe('comparison', () => {
+    it('should weight the return by probability and net off the investment', () => {
+      expect(calculateRiskAdjustedReturn(strategyToOption(strategy(), 0))).toBe(400000);
+    });
+
+    it('should flag the option with the best positive risk-adjusted return', () => {
+      const options = [
+        strategyToOption(strategy(), 0),
+        strategyToOption(strategy({ name: 'Direct sales', probability: { value: 90, unit: 'percentage', rationale: '' } }), 1),
+      ];
+      const comparison = compareStrategicOptions(options);
+
+      expect(comparison.map(c => c.isPreferred)).toEqual([false, true]);
+      expect(comparison[0].returnMultiple).toBe(5);
+    });
+
+    it('should not prefer any option when none pays back', () => {
+      const loser = strategyToOption(strategy({ probability: { value: 10, unit: 'percentage', rationale: '' } }), 0);
+      expect(compareStrategicOptions([loser])[0]).toMatchObject({ isPreferred: false, riskAdjustedReturn: -100000 });
+      expect(compareStrategicOptions([strategyToOption(strategy({ investment_required: undefined }), 0)])[0].returnMultiple).toBeNull();
+    });
+  });
+
+  describe('scenario link', () => {
+    const businessData = createMockBusinessData();
+    const PRICE = 'assumptions.pricing.avg_unit_price.value';
+
+    it('should express driver bindings as a business case scenario', () => {
+      const scenario = buildStrategyScenario(
+        strategy({ id: 'partner', driver_bindings: [{ path: PRICE, change_pct: -10, label: 'Unit price' }] }),
+        0,
+        businessData
+      )!;
+
+      expect(scenario).toMatchObject({
+        key: 'strategy_partner',
+        name: 'Entry: Channel partnership',
+        overrides: { [PRICE]: 90 },
+      });
+      expect(scenario.description).toContain('Unit price -10%');
+
+      const result = calculateScenarioResult(businessData, scenario);
+      expect(result.metrics!.totalRevenue).toBeLessThan(calculateBusinessMetrics(businessData).totalRevenue);
+    });
+
+    it('should return null when no binding resolves to a number', () => {
+      expect(buildStrategyScenario(strategy(), 0, businessData)).toBeNull();
+      expect(buildStrategyScenario(
+        strategy({ driver_bindings: [{ path: 'assumptions.pricing.missing.value', change_pct: 5 }] }),
+        0,
+        businessData
+      )).toBeNull();
+    });
+  });
+});
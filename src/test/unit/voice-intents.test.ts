@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyVoiceChange,
+  describeAppliedChange,
+  describePendingChange,
+  normalizeTranscript,
+  parseSpokenAmount,
+  parseSpokenNumber,
+  parseVoiceCommand,
+  parseVoiceIntent,
+  isRatioValue,
+  previewVoiceChange,
+  resolveVoiceDriver,
+} from '@/core/services/voice-intents';
+import { createMockMarketAnalysisData } from '@/test/mockData';
+import saasSampleData from '@/../public/sample-data/business-cases/saas-platform-revenue-growth.json';
+import fintechSampleData from '@/../public/sample-data/business-cases/fintech-market-entry.json';
+import type { BusinessData, Driver } from '@/core/types';
+import type { VoiceIntent } from '@/core/types/ai';
+
+const drivers: Driver[] = [
+  { key: 'unit_price', label: 'Unit Price', path: 'assumptions.pricing.avg_unit_price.value', range: [79, 119], rationale: '' },
+  { key: 'small_biz_growth_rate', label: '', path: 'assumptions.customers.segments[0].volume.growth_rate', range: [0.08, 0.18], rationale: '' },
+  { key: 'churn_rate', label: '', path: 'assumptions.customers.churn_pct.value', range: [0.02, 0.08], rationale: '' },
+  { key: 'Customer Acquisition Cost', label: '', path: 'assumptions.unit_economics.cac.value', range: [800, 2000], rationale: '' },
+];
+
+const CHURN = 'assumptions.customers.churn_pct.value';
+const CAC = 'assumptions.unit_economics.cac.value';
+const PRICE = 'assumptions.pricing.avg_unit_price.value';
+
+// Churn changes against the shipped samples, which store churn as a fraction with unit
+// "monthly_churn_rate" (SaaS, with a sensitivity driver) and "decimal" (fintech, no driver)
+const SAMPLE_CHURN_CORPUS: Array<[string, BusinessData, number, number]> = [
+  ['increase churn by two points', saasSampleData as unknown as BusinessData, 0.05, 0.07],
+  ['set churn to 3 percent', saasSampleData as unknown as BusinessData, 0.05, 0.03],
+  ['what if churn goes up by 1 point', saasSampleData as unknown as BusinessData, 0.05, 0.06],
+  ['increase churn by two points', fintechSampleData as unknown as BusinessData, 0.02, 0.04],
+  ['set churn to 3 percent', fintechSampleData as unknown as BusinessData, 0.02, 0.03],
+  ['what if churn goes up by 1 point', fintechSampleData as unknown as BusinessData, 0.02, 0.03],
+];
+
+// Transcripts as the recogniser returns them, with the intent each should resolve to
+const CORPUS: Array<[string, Partial<VoiceIntent> & Record<string, unknown>]> = [
+  ['increase churn by two points', { kind: 'adjust', path: CHURN, change: { kind: 'add', amount: { value: 2, unit: 'points' } }, hypothetical: false }],
+  ['Halve CAC', { kind: 'adjust', path: CAC, change: { kind: 'scale', factor: 0.5 } }],
+  ['halve c. a. c.', { kind: 'adjust', path: CAC, change: { kind: 'scale', factor: 0.5 } }],
+  ['double the customer acquisition cost', { kind: 'adjust', path: CAC, change: { kind: 'scale', factor: 2 } }],
+  ['cut CAC in half', { kind: 'adjust', path: CAC, change: { kind: 'scale', factor: 0.5 } }],
+  ['reduce the monthly churn by fifty basis points', { kind: 'adjust', path: CHURN, change: { kind: 'add', amount: { value: -0.5, unit: 'points' } } }],
+  ['raise prices 10%', { kind: 'adjust', path: PRICE, change: { kind: 'add', amount: { value: 10, unit: 'percent' } } }],
+  ['lower the unit price by twenty five euros', { kind: 'adjust', path: PRICE, change: { kind: 'add', amount: { value: -25, unit: 'none' } } }],
+  ['set churn to 3 percent', { kind: 'adjust', path: CHURN, change: { kind: 'set', amount: { value: 3, unit: 'percent' } } }],
+  ['please bring CAC down to nine hundred', { kind: 'adjust', path: CAC, change: { kind: 'set', amount: { value: 900, unit: 'none' } } }],
+  ['change the price to one hundred and twenty', { kind: 'adjust', path: PRICE, change: { kind: 'set', amount: { value: 120, unit: 'none' } } }],
+  ['What if we increase prices by 15 per cent?', { kind: 'adjust', path: PRICE, hypothetical: true }],
+  ['what if churn doubles', { kind: 'adjust', path: CHURN, change: { kind: 'scale', factor: 2 }, hypothetical: true }],
+  ['what if churn goes up by one and a half points', { kind: 'adjust', path: CHURN, change: { kind: 'add', amount: { value: 1.5, unit: 'points' } } }],
+  ['suppose small business growth is 12 percent', { kind: 'adjust', path: drivers[1].path, change: { kind: 'set', amount: { value: 12, unit: 'percent' } } }],
+  ['set the marketing budget to 5000', { kind: 'unresolved', subject: 'marketing budget' }],
+  ['what if we expand into Germany', { kind: 'what_if', scenario: 'expand into germany' }],
+  ['yes, apply it', { kind: 'confirm' }],
+  ['go ahead', { kind: 'confirm' }],
+  ['no thanks', { kind: 'cancel' }],
+  ['never mind', { kind: 'cancel' }],
+  ['show me the cash flow', { kind: 'navigate', target: 'cash flow' }],
+  ['export to PDF', { kind: 'action', verb: 'export', subject: 'pdf' }],
+  ['Why is the payback period so long?', { kind: 'ask' }],
+  ['hmm', { kind: 'unknown' }],
+];
+
+describe('Voice Intents', () => {
+  describe('numbers', () => {
+    it.each([
+      ['two', 2],
+      ['twenty five', 25],
+      ['one and a half', 1.5],
+      ['two point five', 2.5],
+      ['1,200', 1200],
+      ['20k', 20000],
+      ['a million', 1e6],
+      ['three hundred thousand', 300000],
+      ['1.5 million', 1.5e6],
+    ])('should parse "%s"', (text, expected) => {
+      expect(parseSpokenNumber(text)).toBe(expected);
+    });
+
+    it('should reject words that are not numbers', () => {
+      expect(parseSpokenNumber('the budget')).toBeNull();
+      expect(parseSpokenNumber('constructor')).toBeNull();
+    });
+
+    it('should keep the qualifier of an amount', () => {
+      expect(parseSpokenAmount('by two points')).toEqual({ value: 2, unit: 'points' });
+      expect(parseSpokenAmount('25 bps')).toEqual({ value: 0.25, unit: 'points' });
+      expect(parseSpokenAmount('a half')).toEqual({ value: 50, unit: 'percent' });
+      expect(parseSpokenAmount('150 dollars')).toEqual({ value: 150, unit: 'none' });
+    });
+
+    it('should join spelled-out acronyms without swallowing single words', () => {
+      expect(normalizeTranscript('Halve C.A.C. by a point')).toBe('halve cac by a point');
+    });
+  });
+
+  describe('driver resolution', () => {
+    it('should match labels, keys, path leaves and acronyms', () => {
+      expect(resolveVoiceDriver('churn', drivers)!.driver.key).toBe('churn_rate');
+      expect(resolveVoiceDriver('cac', drivers)!.driver.path).toBe(CAC);
+      expect(resolveVoiceDriver('prices', drivers)!.driver.key).toBe('unit_price');
+      expect(resolveVoiceDriver('custmer aquisition cost', drivers)!.driver.path).toBe(CAC);
+    });
+
+    it('should not guess when nothing is close', () => {
+      expect(resolveVoiceDriver('office rent', drivers)).toBeNull();
+    });
+  });
+
+  describe('transcript corpus', () => {
+    it.each(CORPUS)('should parse "%s"', (text, expected) => {
+      expect(parseVoiceIntent(text, drivers)).toMatchObject(expected);
+    });
+
+    it('should map intents onto command types', () => {
+      expect(parseVoiceCommand('halve cac', 0.9, drivers)).toMatchObject({ type: 'update_value', parameters: { path: CAC } });
+      expect(parseVoiceCommand('what if churn doubles', 0.9, drivers).type).toBe('what_if');
+      expect(parseVoiceCommand('confirm', 0.9, drivers).type).toBe('confirm');
+      expect(parseVoiceCommand('how is revenue trending', 0.9).type).toBe('ask_question');
+    });
+  });
+
+  describe('applying changes', () => {
+    it('should read points, percent and bare numbers in the unit of the value', () => {
+      const points = { kind: 'add', amount: { value: 2, unit: 'points' } } as const;
+      expect(applyVoiceChange(0.05, points, true)).toBe(0.07);
+      expect(applyVoiceChange(12, points, false)).toBe(14);
+      expect(applyVoiceChange(100, { kind: 'add', amount: { value: -10, unit: 'percent' } }, false)).toBe(90);
+      expect(applyVoiceChange(0.05, { kind: 'set', amount: { value: 3, unit: 'none' } }, true)).toBe(0.03);
+      expect(applyVoiceChange(0.05, { kind: 'set', amount: { value: 0.04, unit: 'none' } }, true)).toBe(0.04);
+      expect(applyVoiceChange(1200, { kind: 'scale', factor: 0.5 }, false)).toBe(600);
+    });
+
+    it('should only treat fractions without an absolute unit as ratios', () => {
+      const points = { value: 2, unit: 'points' } as const;
+      expect(isRatioValue(0.05, 'monthly_churn_rate', { amount: points })).toBe(true);
+      expect(isRatioValue(0.05, 'decimal', { amount: { value: 3, unit: 'percent' } })).toBe(true);
+      expect(isRatioValue(0.05, 'decimal', { range: [0.02, 0.08] })).toBe(true);
+      expect(isRatioValue(0.5, 'decimal', { amount: { value: 3, unit: 'none' } })).toBe(false);
+      expect(isRatioValue(0.5, 'EUR_per_month', { amount: points })).toBe(false);
+      expect(isRatioValue(0.5, 'days', { amount: points })).toBe(false);
+      expect(isRatioValue(12, 'percentage', { amount: points })).toBe(false);
+    });
+
+    it.each(SAMPLE_CHURN_CORPUS)('should apply "%s" to sample churn as a fraction', (text, data, from, to) => {
+      const intent = parseVoiceIntent(text, drivers) as Extract<VoiceIntent, { kind: 'adjust' }>;
+      const preview = previewVoiceChange(data, intent)!;
+
+      expect(preview).toMatchObject({ fromValue: from, toValue: to, isRatio: true });
+      expect(describePendingChange(preview)).toContain(`to ${Math.round(to * 100)} percent`);
+    });
+
+    it('should preview the NPV impact and describe it for read-back', () => {
+      const data = createMockMarketAnalysisData();
+      const intent = parseVoiceIntent('increase churn by two points', data.drivers!.concat(drivers[2]));
+      expect(intent.kind).toBe('adjust');
+
+      const preview = previewVoiceChange(data, intent as Extract<VoiceIntent, { kind: 'adjust' }>)!;
+      expect(preview).toMatchObject({ fromValue: 0.05, toValue: 0.07, isRatio: true, currency: 'EUR' });
+      expect(preview.projectedNpv).toBeLessThan(preview.baselineNpv);
+
+      expect(describePendingChange(preview)).toMatch(/^Changing churn_rate from 5 percent to 7 percent would lower NPV by €[\d,]+\. Say confirm/);
+      expect(describeAppliedChange(preview)).toMatch(/^Done\. churn_rate is now 7 percent\. NPV fell by €[\d,]+, to -?€[\d,]+\.$/);
+    });
+
+    it('should not preview paths that do not hold a number', () => {
+      const data = createMockMarketAnalysisData();
+      const intent = parseVoiceIntent('halve the growth', drivers) as Extract<VoiceIntent, { kind: 'adjust' }>;
+      expect(previewVoiceChange(data, intent)).toBeNull();
+    });
+  });
+});